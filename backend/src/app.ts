@@ -8,6 +8,7 @@ import dataRoutes from "./routes/data";
 import databaseRoutes from "./routes/database-management";
 import queryRoutes from "./routes/query";
 import aiRoutes from "./routes/ai";
+import savedQueryRoutes from "./routes/saved-queries";
 
 // Load environment variables
 dotenv.config();
@@ -61,10 +62,23 @@ class App {
   private initializeRoutes(): void {
     // Health check endpoint
     this.app.get("/health", (req: Request, res: Response) => {
+      const databases = SequelizeDbManager.getAvailableDatabases().map(
+        (db) => ({
+          id: db.id,
+          name: db.credentials.name,
+          status: db.status,
+          ...(db.lastError && { error: db.lastError }),
+          history: db.healthHistory,
+        })
+      );
+
       res.json({
-        status: "healthy",
+        status: databases.some((db) => db.status === "degraded")
+          ? "degraded"
+          : "healthy",
         timestamp: new Date().toISOString(),
         service: "SmartDB AI Backend",
+        databases,
       });
     });
 
@@ -73,6 +87,7 @@ class App {
     this.app.use("/api/data", dataRoutes);
     this.app.use("/api", databaseRoutes);
     this.app.use("/api", queryRoutes);
+    this.app.use("/api", savedQueryRoutes);
     this.app.use("/api/ai", aiRoutes);
 
     // Root endpoint
@@ -127,6 +142,13 @@ class App {
       // Initialize the new multi-database manager with local DB
       SequelizeDbManager.initializeLocalDatabase();
 
+      // Ping connections, reconnect broken ones and close idle pools
+      SequelizeDbManager.startHealthMonitor();
+
+      // Restore user-added connections saved by previous runs; connections
+      // that cannot be restored are logged and skipped
+      await SequelizeDbManager.restorePersistedConnections();
+
       // Test both connections
       const legacyConnected = await DatabaseConnection.testConnection();
       const localDbAvailable =
@@ -176,6 +198,7 @@ class App {
     console.log("🛑 Shutting down server...");
 
     try {
+      SequelizeDbManager.stopHealthMonitor();
       await DatabaseConnection.close();
       await SequelizeDbManager.closeAllConnections();
       // eslint-disable-next-line no-console
@@ -0,0 +1,296 @@
+import * as path from "path";
+import * as crypto from "crypto";
+import * as dotenv from "dotenv";
+import { DatabaseCredentials, SslOptions } from "../types/database";
+import { DatabaseError } from "../utils/errors";
+import { JsonFileStore } from "./jsonFileStore";
+
+// Load environment variables
+dotenv.config();
+
+// The example key in .env.example, which anyone can read
+const PLACEHOLDER_MASTER_KEY = "change-me-to-a-long-random-secret";
+const MIN_MASTER_KEY_LENGTH = 32;
+
+/**
+ * Credential values that are never written to disk in plain text
+ */
+interface StoredSecrets {
+  password?: string;
+  sslKey?: string;
+}
+
+type PublicCredentials = Omit<DatabaseCredentials, "password" | "ssl"> & {
+  ssl?: Omit<SslOptions, "key">;
+};
+
+export interface StoredConnection {
+  credentials: DatabaseCredentials;
+  createdAt: Date;
+}
+
+interface StoredConnectionRecord {
+  credentials: PublicCredentials;
+  secrets: string | null;
+  createdAt: string;
+}
+
+interface ConnectionStoreFile {
+  version: 1;
+  salt: string;
+  connections: StoredConnectionRecord[];
+}
+
+/**
+ * Persistent registry for user-added database connections
+ * Connections are kept in a JSON file; secret fields are encrypted with
+ * AES-256-GCM using a key derived from CONNECTION_MASTER_KEY
+ */
+export class ConnectionStore {
+  private static cachedKey: {
+    masterKey: string;
+    salt: string;
+    key: Buffer;
+  } | null = null;
+  private static file = new JsonFileStore<ConnectionStoreFile>({
+    path: () => ConnectionStore.getStorePath(),
+    description: "connection store",
+    collection: "connections",
+    indent: 2,
+  });
+  private static warnedDisabled = false;
+
+  /**
+   * Location of the registry file
+   */
+  static getStorePath(): string {
+    return path.resolve(
+      process.env.CONNECTION_STORE_PATH || "data/connections.json"
+    );
+  }
+
+  /**
+   * Persistence is only enabled when a master key is configured
+   * @throws DatabaseError when the key is the example one or too short to be a secret
+   */
+  static isEnabled(): boolean {
+    const masterKey = process.env.CONNECTION_MASTER_KEY;
+    if (!masterKey) {
+      if (!this.warnedDisabled) {
+        console.warn(
+          "⚠️ CONNECTION_MASTER_KEY is not set - added databases will not survive a restart"
+        );
+        this.warnedDisabled = true;
+      }
+      return false;
+    }
+
+    if (
+      masterKey === PLACEHOLDER_MASTER_KEY ||
+      masterKey.length < MIN_MASTER_KEY_LENGTH
+    ) {
+      throw new DatabaseError(
+        `CONNECTION_MASTER_KEY must be a random secret of at least ${MIN_MASTER_KEY_LENGTH} characters, not the example value`
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Load all stored connections
+   * Connections whose secrets cannot be decrypted are returned with an error
+   */
+  static async load(): Promise<Array<StoredConnection & { error?: string }>> {
+    if (!this.isEnabled()) {
+      return [];
+    }
+
+    const file = await this.file.read();
+    if (!file) {
+      return [];
+    }
+
+    return file.connections.map((record) => {
+      const createdAt = new Date(record.createdAt);
+      try {
+        return {
+          credentials: this.withSecrets(
+            record.credentials,
+            this.decryptSecrets(record.secrets, file.salt)
+          ),
+          createdAt,
+        };
+      } catch (error) {
+        return {
+          credentials: record.credentials as DatabaseCredentials,
+          createdAt,
+          error:
+            "Stored credentials could not be decrypted. Check CONNECTION_MASTER_KEY.",
+        };
+      }
+    });
+  }
+
+  /**
+   * Insert or replace a stored connection
+   */
+  static async save(
+    credentials: DatabaseCredentials,
+    createdAt: Date = new Date()
+  ): Promise<void> {
+    if (!this.isEnabled() || credentials.isLocal) {
+      return;
+    }
+
+    await this.update((file) => {
+      const record = this.toRecord(credentials, createdAt, file.salt);
+      const index = file.connections.findIndex(
+        (existing) => existing.credentials.id === credentials.id
+      );
+      if (index >= 0) {
+        file.connections[index] = record;
+      } else {
+        file.connections.push(record);
+      }
+    });
+  }
+
+  /**
+   * Remove a stored connection
+   */
+  static async remove(databaseId: string): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    await this.update((file) => {
+      file.connections = file.connections.filter(
+        (record) => record.credentials.id !== databaseId
+      );
+    });
+  }
+
+  /**
+   * Apply a mutation to the registry file, creating it with a new salt
+   */
+  private static update(
+    mutate: (file: ConnectionStoreFile) => void
+  ): Promise<void> {
+    return this.file.update((current) => {
+      const file = current || {
+        version: 1 as const,
+        salt: crypto.randomBytes(16).toString("base64"),
+        connections: [],
+      };
+      mutate(file);
+      return file;
+    });
+  }
+
+  private static toRecord(
+    credentials: DatabaseCredentials,
+    createdAt: Date,
+    salt: string
+  ): StoredConnectionRecord {
+    const { password, ssl, ...rest } = credentials;
+    const secrets: StoredSecrets = {};
+    const publicFields: PublicCredentials = rest;
+
+    if (password !== undefined) {
+      secrets.password = password;
+    }
+    if (ssl) {
+      const { key, ...publicSsl } = ssl;
+      if (key !== undefined) {
+        secrets.sslKey = key;
+      }
+      publicFields.ssl = publicSsl;
+    }
+
+    return {
+      credentials: publicFields,
+      secrets:
+        Object.keys(secrets).length > 0
+          ? this.encrypt(JSON.stringify(secrets), salt)
+          : null,
+      createdAt: createdAt.toISOString(),
+    };
+  }
+
+  private static withSecrets(
+    credentials: PublicCredentials,
+    secrets: StoredSecrets
+  ): DatabaseCredentials {
+    return {
+      ...credentials,
+      ...(secrets.password !== undefined && { password: secrets.password }),
+      ...(credentials.ssl && {
+        ssl: {
+          ...credentials.ssl,
+          ...(secrets.sslKey !== undefined && { key: secrets.sslKey }),
+        },
+      }),
+    };
+  }
+
+  private static decryptSecrets(
+    secrets: string | null,
+    salt: string
+  ): StoredSecrets {
+    if (!secrets) {
+      return {};
+    }
+    return JSON.parse(this.decrypt(secrets, salt));
+  }
+
+  /**
+   * Derive the AES key from the master key (cached per master key and salt)
+   */
+  private static getKey(salt: string): Buffer {
+    const masterKey = process.env.CONNECTION_MASTER_KEY;
+    if (!masterKey) {
+      throw new DatabaseError("CONNECTION_MASTER_KEY is not configured");
+    }
+
+    if (
+      this.cachedKey?.masterKey !== masterKey ||
+      this.cachedKey.salt !== salt
+    ) {
+      this.cachedKey = {
+        masterKey,
+        salt,
+        key: crypto.scryptSync(masterKey, Buffer.from(salt, "base64"), 32),
+      };
+    }
+    return this.cachedKey.key;
+  }
+
+  /**
+   * Encrypt to base64(iv | auth tag | ciphertext)
+   */
+  private static encrypt(plaintext: string, salt: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.getKey(salt), iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, "utf8"),
+      cipher.final(),
+    ]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+      "base64"
+    );
+  }
+
+  private static decrypt(payload: string, salt: string): string {
+    const data = Buffer.from(payload, "base64");
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      this.getKey(salt),
+      data.subarray(0, 12)
+    );
+    decipher.setAuthTag(data.subarray(12, 28));
+    return Buffer.concat([
+      decipher.update(data.subarray(28)),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+}
@@ -27,7 +27,7 @@ export class DatabaseConnection {
       database: process.env.DB_NAME || 'smartdb',
       user: process.env.DB_USER || 'postgres',
       password: process.env.DB_PASSWORD || 'password',
-      max: 20, // Maximum number of clients in the pool
+      max: 2, // Only serves schema creation and AI analysis; queries go through SequelizeDbManager
       idleTimeoutMillis: 30000, // Close idle clients after 30 seconds
       connectionTimeoutMillis: 2000, // Return an error after 2 seconds if connection could not be established
     });
@@ -0,0 +1,580 @@
+import {
+  DatabaseCredentials,
+  ResultColumn,
+  TableFilter,
+  TableFilterOperator,
+  TableReference,
+} from "../../types/database";
+
+export type DatabaseType = DatabaseCredentials["type"];
+
+// SQL for filter operators that compare a column with a value
+const COMPARISONS: Partial<Record<TableFilterOperator, string>> = {
+  eq: "=",
+  neq: "<>",
+  lt: "<",
+  lte: "<=",
+  gt: ">",
+  gte: ">=",
+};
+
+/**
+ * Column metadata normalized across dialects
+ */
+export interface ColumnDescription {
+  name: string;
+  dataType: string;
+  nullable: boolean;
+  defaultValue: string | null;
+  autoIncrement: boolean; // Filled in by the database (serial, identity, AUTO_INCREMENT, rowid)
+  primaryKey: boolean;
+}
+
+/**
+ * A table or view with its columns and approximate size
+ */
+export interface TableDescription {
+  name: string;
+  schema?: string;
+  type: string; // TABLE, VIEW, MATERIALIZED VIEW, ...
+  estimatedRows: number | null; // null when the database has no statistics yet
+  totalBytes?: number;
+  columns: ColumnDescription[];
+}
+
+/**
+ * One column of a foreign key constraint
+ */
+export interface ForeignKeyDescription {
+  schema?: string;
+  table: string;
+  column: string;
+  foreignSchema?: string;
+  foreignTable: string;
+  foreignColumn: string;
+  constraintName: string;
+}
+
+export interface SchemaDescription {
+  tables: TableDescription[];
+  foreignKeys: ForeignKeyDescription[];
+}
+
+/**
+ * Why a plan node deserves attention
+ */
+export type PlanWarning = "expensive" | "fullScan" | "estimateMiss";
+
+/**
+ * One step of a query plan, normalized across dialects
+ * Costs are in the planner's own units and include the node's children
+ */
+export interface PlanNode {
+  nodeType: string; // e.g. Seq Scan, Nested Loop, Sort
+  relation: string | null;
+  fullScan: boolean; // Reads every row of the relation
+  relationRows: number | null; // Approximate size of a fully scanned relation
+  estimatedCost: number | null;
+  estimatedRows: number | null;
+  actualRows: number | null; // Only after ANALYZE
+  actualTimeMs: number | null; // Only after ANALYZE
+  detail: string | null; // Index, filter or join condition
+  warnings: PlanWarning[];
+  children: PlanNode[];
+}
+
+/**
+ * Runs SQL with ? placeholders against one connection and returns its rows
+ */
+export type QueryRunner = (
+  sql: string,
+  params?: unknown[]
+) => Promise<Record<string, any>[]>;
+
+/**
+ * A statement with values for its ? placeholders
+ */
+export interface ParameterizedQuery {
+  sql: string;
+  params: unknown[];
+}
+
+/**
+ * A single read statement whose result columns are being described
+ */
+export interface ResultSource {
+  sql: string;
+  params: unknown[];
+  fields: unknown; // Field metadata the driver returned with the rows, if any
+  run: QueryRunner; // Runs in the statement's transaction, if any
+  // Lend a driver connection from the statement's pool or transaction
+  withConnection: <T>(use: (connection: any) => Promise<T>) => Promise<T>;
+}
+
+/**
+ * A single read statement to read a few rows at a time
+ */
+export interface CursorSource {
+  sql: string;
+  params: unknown[];
+  connection: any; // Driver connection held for the cursor alone, in a transaction
+  run: QueryRunner; // Runs on that connection
+  cancel: () => Promise<void>; // Stops the statement from another connection
+  idleTimeoutMs: number; // Longest wait between reads
+}
+
+/**
+ * Rows of a statement read from the driver as they are asked for
+ */
+export interface RowCursor {
+  // Fewer rows than asked for means there are no more
+  read(
+    count: number
+  ): Promise<{ rows: Record<string, any>[]; fields: unknown }>;
+  // Stop reading; ending the transaction afterwards is up to the caller
+  close(): Promise<void>;
+}
+
+/**
+ * SQL differences between the supported database types
+ * Generated statements use ? placeholders, which Sequelize replacements
+ * escape for the target dialect
+ */
+export abstract class DialectAdapter {
+  abstract readonly type: DatabaseType;
+
+  /**
+   * Quote a table or column name
+   */
+  abstract quoteIdentifier(name: string): string;
+
+  /**
+   * List the columns of a table in ordinal order
+   * @returns An empty array when the table does not exist
+   */
+  abstract describeColumns(
+    run: QueryRunner,
+    table: string | TableReference
+  ): Promise<ColumnDescription[]>;
+
+  /**
+   * Describe every table, view and foreign key in the schemas the
+   * connection can see, leaving out the database's own catalogs
+   */
+  abstract describeSchema(run: QueryRunner): Promise<SchemaDescription>;
+
+  /**
+   * Column definition for a generated integer primary key
+   */
+  abstract autoIncrementKey(columnName: string): string;
+
+  /**
+   * Stop the statement running on a driver connection
+   * @param run - Runs on a connection of its own, outside the pool
+   */
+  abstract cancelQuery(connection: any, run: QueryRunner): Promise<void>;
+
+  /**
+   * Estimate how many rows a read statement returns
+   * @returns null when the database cannot tell
+   */
+  abstract estimateRowCount(
+    run: QueryRunner,
+    sql: string,
+    params: unknown[]
+  ): Promise<number | null>;
+
+  /**
+   * Describe the columns a read statement returns, in order
+   * @returns null when the database cannot tell
+   */
+  abstract describeResult(source: ResultSource): Promise<ResultColumn[] | null>;
+
+  /**
+   * Whether explain() can run the statement to report actual rows and timing
+   */
+  readonly supportsExplainAnalyze: boolean = false;
+
+  /**
+   * Ask the database how it would run a single statement
+   * @param analyze - Run the statement and report actual rows and timing
+   */
+  abstract explain(
+    run: QueryRunner,
+    sql: string,
+    params: unknown[],
+    analyze: boolean
+  ): Promise<PlanNode>;
+
+  /**
+   * Start a read statement whose rows are read as they are asked for
+   * The statement runs once, so pages follow one another without gaps or
+   * repeats whatever the statement's ORDER BY.
+   */
+  abstract openCursor(source: CursorSource): Promise<RowCursor>;
+
+  /**
+   * Quote a table name, qualified with its schema when one is given
+   * A bare name resolves in the connection's current schema
+   */
+  quoteTable(table: string | TableReference): string {
+    const { schema, name } = this.toReference(table);
+    return schema
+      ? `${this.quoteIdentifier(schema)}.${this.quoteIdentifier(name)}`
+      : this.quoteIdentifier(name);
+  }
+
+  /**
+   * Build a CREATE TABLE IF NOT EXISTS from column definitions
+   */
+  buildCreateTable(tableName: string, definitions: string[]): string {
+    return `CREATE TABLE IF NOT EXISTS ${this.quoteIdentifier(
+      tableName
+    )} (\n  ${definitions.join(",\n  ")}\n)`;
+  }
+
+  /**
+   * Build a DROP TABLE IF EXISTS
+   */
+  buildDropTable(tableName: string): string {
+    return `DROP TABLE IF EXISTS ${this.quoteIdentifier(tableName)}`;
+  }
+
+  /**
+   * Build a single-row INSERT for the given columns
+   */
+  buildInsert(table: string | TableReference, columns: string[]): string {
+    if (columns.length === 0) {
+      return `INSERT INTO ${this.quoteTable(table)} DEFAULT VALUES`;
+    }
+    const columnList = columns
+      .map((column) => this.quoteIdentifier(column))
+      .join(", ");
+    const placeholders = columns.map(() => "?").join(", ");
+    return `INSERT INTO ${this.quoteTable(
+      table
+    )} (${columnList}) VALUES (${placeholders})`;
+  }
+
+  /**
+   * Build a multi-row INSERT that carries its values as literals, for
+   * scripts run outside this app
+   * @param upsertKey - Update rows that match on these columns instead of
+   * failing; their values must be unique in the target table
+   */
+  buildInsertScript(
+    table: string | TableReference,
+    columns: string[],
+    rows: unknown[][],
+    upsertKey: string[] = []
+  ): string {
+    const columnList = columns
+      .map((column) => this.quoteIdentifier(column))
+      .join(", ");
+    const values = rows
+      .map((row) => `(${row.map((value) => this.literal(value)).join(", ")})`)
+      .join(",\n  ");
+    const insert = `INSERT INTO ${this.quoteTable(
+      table
+    )} (${columnList}) VALUES\n  ${values}`;
+    return upsertKey.length > 0
+      ? `${insert}\n${this.upsertClause(columns, upsertKey)};\n`
+      : `${insert};\n`;
+  }
+
+  /**
+   * Write a value as a SQL literal
+   * Dates are written as UTC timestamps, binary values as hex and objects
+   * as JSON text.
+   */
+  literal(value: unknown): string {
+    if (value === null || value === undefined) {
+      return "NULL";
+    }
+    if (typeof value === "number") {
+      // NaN and Infinity only load as text, into float columns
+      return Number.isFinite(value)
+        ? String(value)
+        : this.quoteText(String(value));
+    }
+    if (typeof value === "bigint") {
+      return String(value);
+    }
+    if (typeof value === "boolean") {
+      return value ? "TRUE" : "FALSE";
+    }
+    if (value instanceof Date) {
+      // MySQL zero dates are read as invalid dates
+      return Number.isNaN(value.getTime())
+        ? "NULL"
+        : this.quoteText(this.timestampText(value));
+    }
+    if (Buffer.isBuffer(value)) {
+      return `X'${value.toString("hex")}'`;
+    }
+    if (typeof value === "object") {
+      return this.quoteText(JSON.stringify(value));
+    }
+    return this.quoteText(String(value));
+  }
+
+  /**
+   * The clause that turns an INSERT into an upsert on the key columns
+   * Rows whose every column is a key column are left as they are.
+   */
+  protected upsertClause(columns: string[], upsertKey: string[]): string {
+    const target = `ON CONFLICT (${upsertKey
+      .map((column) => this.quoteIdentifier(column))
+      .join(", ")})`;
+    const updates = columns
+      .filter((column) => !upsertKey.includes(column))
+      .map((column) => {
+        const quoted = this.quoteIdentifier(column);
+        return `${quoted} = excluded.${quoted}`;
+      });
+    return updates.length > 0
+      ? `${target} DO UPDATE SET ${updates.join(", ")}`
+      : `${target} DO NOTHING`;
+  }
+
+  /**
+   * A string literal in the standard form, with quotes doubled
+   */
+  protected quoteText(text: string): string {
+    return `'${text.replace(/'/g, "''")}'`;
+  }
+
+  // YYYY-MM-DD HH:MM:SS.sss in UTC
+  protected timestampText(date: Date): string {
+    return date.toISOString().replace("T", " ").replace("Z", "");
+  }
+
+  /**
+   * Build a SELECT of a table's rows that match every filter
+   * Column names must already be checked against the table
+   */
+  buildTableSelect(
+    table: string | TableReference,
+    filters: TableFilter[],
+    orderBy: string[],
+    direction: "asc" | "desc"
+  ): ParameterizedQuery {
+    const where = this.buildWhere(filters);
+    const order =
+      orderBy.length > 0
+        ? ` ORDER BY ${orderBy
+            .map(
+              (column) =>
+                `${this.quoteIdentifier(column)} ${direction.toUpperCase()}`
+            )
+            .join(", ")}`
+        : "";
+    return {
+      sql: `SELECT * FROM ${this.quoteTable(table)}${where.sql}${order}`,
+      params: where.params,
+    };
+  }
+
+  /**
+   * Build a COUNT(*) of a table's rows that match every filter
+   */
+  buildTableCount(
+    table: string | TableReference,
+    filters: TableFilter[]
+  ): ParameterizedQuery {
+    const where = this.buildWhere(filters);
+    return {
+      sql: `SELECT COUNT(*) AS count FROM ${this.quoteTable(table)}${
+        where.sql
+      }`,
+      params: where.params,
+    };
+  }
+
+  /**
+   * Build an UPDATE of one row found by its primary key
+   * The row must still hold the expected values, so concurrent changes are
+   * not overwritten. Placeholders: new values, key values, expected values
+   */
+  buildRowUpdate(
+    table: string | TableReference,
+    columns: string[],
+    keyColumns: string[],
+    expectedColumns: string[]
+  ): string {
+    const assignments = columns
+      .map((column) => `${this.quoteIdentifier(column)} = ?`)
+      .join(", ");
+    return `UPDATE ${this.quoteTable(
+      table
+    )} SET ${assignments} WHERE ${this.rowCondition(
+      keyColumns,
+      expectedColumns
+    )}`;
+  }
+
+  /**
+   * Build a DELETE of one row found by its primary key
+   * Placeholders: key values, then expected values
+   */
+  buildRowDelete(
+    table: string | TableReference,
+    keyColumns: string[],
+    expectedColumns: string[]
+  ): string {
+    return `DELETE FROM ${this.quoteTable(table)} WHERE ${this.rowCondition(
+      keyColumns,
+      expectedColumns
+    )}`;
+  }
+
+  /**
+   * Convert a JSON value into a query parameter for a column
+   * Objects and arrays are stored as JSON text; missing values become NULL
+   */
+  toParameter(value: unknown, _column: ColumnDescription): unknown {
+    if (value === undefined) {
+      return null;
+    }
+    if (value !== null && typeof value === "object") {
+      return JSON.stringify(value);
+    }
+    return value;
+  }
+
+  /**
+   * Match a column against a LIKE pattern whose wildcards are escaped with !
+   * Case is ignored where the database's LIKE allows it
+   */
+  protected likeCondition(column: string): string {
+    return `${column} LIKE ? ESCAPE '!'`;
+  }
+
+  /**
+   * Compare a column with a value, treating two NULLs as equal
+   */
+  protected nullSafeEquals(column: string): string {
+    return `${column} IS ?`;
+  }
+
+  private rowCondition(
+    keyColumns: string[],
+    expectedColumns: string[]
+  ): string {
+    return [
+      ...keyColumns.map((column) => `${this.quoteIdentifier(column)} = ?`),
+      ...expectedColumns.map((column) =>
+        this.nullSafeEquals(this.quoteIdentifier(column))
+      ),
+    ].join(" AND ");
+  }
+
+  private buildWhere(filters: TableFilter[]): ParameterizedQuery {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    for (const { column, operator, value } of filters) {
+      const quoted = this.quoteIdentifier(column);
+      const comparison = COMPARISONS[operator];
+      if (comparison) {
+        conditions.push(`${quoted} ${comparison} ?`);
+        params.push(value);
+      } else if (operator === "isNull" || operator === "isNotNull") {
+        conditions.push(
+          `${quoted} IS ${operator === "isNull" ? "" : "NOT "}NULL`
+        );
+      } else {
+        const text = String(value).replace(/[!%_]/g, "!$&");
+        conditions.push(this.likeCondition(quoted));
+        params.push(
+          operator === "startsWith"
+            ? `${text}%`
+            : operator === "endsWith"
+            ? `%${text}`
+            : `%${text}%`
+        );
+      }
+    }
+
+    return {
+      sql: conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "",
+      params,
+    };
+  }
+
+  protected toReference(table: string | TableReference): TableReference {
+    return typeof table === "string" ? { name: table } : table;
+  }
+
+  /**
+   * Match a schema column against the given schema, or the current one
+   * @param current - SQL naming the connection's current schema
+   */
+  protected schemaCondition(
+    column: string,
+    schema: string | undefined,
+    current: string
+  ): ParameterizedQuery {
+    return schema
+      ? { sql: `${column} = ?`, params: [schema] }
+      : { sql: `${column} = ${current}`, params: [] };
+  }
+
+  /**
+   * Group introspection rows by their table_schema and table_name columns
+   * Look groups up with tableKey()
+   */
+  protected groupByTable(
+    rows: Record<string, any>[]
+  ): Map<string, Record<string, any>[]> {
+    const groups = new Map<string, Record<string, any>[]>();
+    for (const row of rows) {
+      const key = this.tableKey(row.table_schema, row.table_name);
+      const group = groups.get(key);
+      if (group) {
+        group.push(row);
+      } else {
+        groups.set(key, [row]);
+      }
+    }
+    return groups;
+  }
+
+  protected tableKey(schema: string | undefined, name: string): string {
+    return JSON.stringify([schema ?? null, name]);
+  }
+
+  /**
+   * A plan node with nothing known beyond its type
+   */
+  protected planNode(
+    nodeType: string,
+    fields: Partial<PlanNode> = {}
+  ): PlanNode {
+    return {
+      nodeType,
+      relation: null,
+      fullScan: false,
+      relationRows: null,
+      estimatedCost: null,
+      estimatedRows: null,
+      actualRows: null,
+      actualTimeMs: null,
+      detail: null,
+      warnings: [],
+      children: [],
+      ...fields,
+    };
+  }
+
+  /**
+   * Every node of a plan tree, parents before children
+   */
+  protected flattenPlan(node: PlanNode): PlanNode[] {
+    return [node, ...node.children.flatMap((child) => this.flattenPlan(child))];
+  }
+
+  protected quoteWith(name: string, quote: string): string {
+    return `${quote}${name.split(quote).join(quote + quote)}${quote}`;
+  }
+}
@@ -0,0 +1,23 @@
+import { DatabaseType, DialectAdapter } from "./dialectAdapter";
+import { MysqlDialect } from "./mysqlDialect";
+import { PostgresDialect } from "./postgresDialect";
+import { SqliteDialect } from "./sqliteDialect";
+
+export * from "./dialectAdapter";
+
+const adapters: Record<DatabaseType, DialectAdapter> = {
+  postgresql: new PostgresDialect(),
+  mysql: new MysqlDialect(),
+  sqlite: new SqliteDialect(),
+};
+
+/**
+ * Get the SQL adapter for a database type
+ */
+export function getDialectAdapter(type: DatabaseType): DialectAdapter {
+  const adapter = adapters[type];
+  if (!adapter) {
+    throw new Error(`Unsupported database type: ${type}`);
+  }
+  return adapter;
+}
@@ -0,0 +1,442 @@
+import {
+  ColumnDescription,
+  CursorSource,
+  DialectAdapter,
+  PlanNode,
+  QueryRunner,
+  ResultSource,
+  RowCursor,
+  SchemaDescription,
+} from "./dialectAdapter";
+import { ResultColumn, TableReference } from "../../types/database";
+
+// FORMAT=JSON blocks that become plan nodes, by the name shown for them
+const PLAN_OPERATIONS: Record<string, string> = {
+  query_block: "Query",
+  ordering_operation: "Sort",
+  grouping_operation: "Group",
+  duplicates_removal: "Distinct",
+  windowing: "Window",
+  union_result: "Union",
+  materialized_from_subquery: "Materialize",
+};
+
+// Keys holding lists of blocks whose plans are children of the current one
+const PLAN_LISTS = [
+  "query_specifications",
+  "attached_subqueries",
+  "optimized_away_subqueries",
+];
+
+const ACCESS_TYPES: Record<string, string> = {
+  ALL: "Full Table Scan",
+  index: "Full Index Scan",
+  range: "Index Range Scan",
+  ref: "Index Lookup",
+  eq_ref: "Unique Index Lookup",
+  const: "Constant Lookup",
+  system: "Constant Lookup",
+  fulltext: "Fulltext Search",
+};
+
+// Protocol column types by number, named as information_schema names them
+const COLUMN_TYPES: Record<number, string> = {
+  0: "decimal",
+  1: "tinyint",
+  2: "smallint",
+  3: "int",
+  4: "float",
+  5: "double",
+  6: "null",
+  7: "timestamp",
+  8: "bigint",
+  9: "mediumint",
+  10: "date",
+  11: "time",
+  12: "datetime",
+  13: "year",
+  14: "date",
+  15: "varchar",
+  16: "bit",
+  245: "json",
+  246: "decimal",
+  247: "enum",
+  248: "set",
+  249: "tinyblob",
+  250: "mediumblob",
+  251: "longblob",
+  252: "blob",
+  253: "varchar",
+  254: "char",
+  255: "geometry",
+};
+
+// Databases holding MySQL's own metadata rather than user tables
+const SYSTEM_SCHEMAS =
+  "('information_schema', 'mysql', 'performance_schema', 'sys')";
+
+// Column flags and the character set that marks binary data
+const NOT_NULL_FLAG = 1;
+const ENUM_FLAG = 256;
+const SET_FLAG = 2048;
+const BINARY_CHARSET = 63;
+
+export class MysqlDialect extends DialectAdapter {
+  readonly type = "mysql" as const;
+
+  quoteIdentifier(name: string): string {
+    return this.quoteWith(name, "`");
+  }
+
+  autoIncrementKey(columnName: string): string {
+    return `${this.quoteIdentifier(columnName)} INT AUTO_INCREMENT PRIMARY KEY`;
+  }
+
+  buildInsert(table: string | TableReference, columns: string[]): string {
+    // MySQL has no DEFAULT VALUES clause
+    if (columns.length === 0) {
+      return `INSERT INTO ${this.quoteTable(table)} () VALUES ()`;
+    }
+    return super.buildInsert(table, columns);
+  }
+
+  protected upsertClause(columns: string[], upsertKey: string[]): string {
+    // MySQL matches on every unique key, so the key only picks what to keep.
+    // VALUES() is deprecated in 8.0 but the only form MariaDB also reads.
+    const updated = columns.filter((column) => !upsertKey.includes(column));
+    return `ON DUPLICATE KEY UPDATE ${(updated.length > 0
+      ? updated
+      : upsertKey.slice(0, 1)
+    )
+      .map((column) => {
+        const quoted = this.quoteIdentifier(column);
+        return `${quoted} = VALUES(${quoted})`;
+      })
+      .join(", ")}`;
+  }
+
+  protected quoteText(text: string): string {
+    // Backslashes escape in MySQL strings unless NO_BACKSLASH_ESCAPES is set
+    return super.quoteText(text.replace(/\\/g, "\\\\").replace(/\0/g, "\\0"));
+  }
+
+  protected nullSafeEquals(column: string): string {
+    return `${column} <=> ?`;
+  }
+
+  async cancelQuery(connection: any, run: QueryRunner): Promise<void> {
+    // KILL does not accept placeholders
+    await run(`KILL QUERY ${Number(connection.threadId)}`);
+  }
+
+  // The rows examined for the first table in the plan
+  async estimateRowCount(
+    run: QueryRunner,
+    sql: string,
+    params: unknown[]
+  ): Promise<number | null> {
+    const [row] = await run(`EXPLAIN ${sql}`, params);
+    return row?.rows == null ? null : Number(row.rows);
+  }
+
+  // MySQL only has cursors in stored programs, so the result is streamed and
+  // the connection paused between reads. The statement is prepared on the
+  // server, which reads its placeholders; the values go in user variables.
+  async openCursor({
+    sql,
+    params,
+    connection,
+    run,
+    cancel,
+    idleTimeoutMs,
+  }: CursorSource): Promise<RowCursor> {
+    // The server drops connections it cannot write to for net_write_timeout
+    await run("SET SESSION net_write_timeout = ?", [
+      Math.ceil(idleTimeoutMs / 1000) + 60,
+    ]);
+    await run("PREPARE smartdb_cursor FROM ?", [sql]);
+    const variables = params.map((_, index) => `@smartdb_param${index}`);
+    if (variables.length > 0) {
+      await run(
+        `SET ${variables.map((name) => `${name} = ?`).join(", ")}`,
+        params
+      );
+    }
+
+    const stream = connection
+      .query(
+        `EXECUTE smartdb_cursor${
+          variables.length > 0 ? ` USING ${variables.join(", ")}` : ""
+        }`
+      )
+      .stream();
+    let fields: unknown = null;
+    stream.on("fields", (received: unknown) => (fields = received));
+    const rows: AsyncIterator<Record<string, any>> =
+      stream[Symbol.asyncIterator]();
+
+    let done = false;
+    return {
+      read: async (count) => {
+        const read: Record<string, any>[] = [];
+        while (!done && read.length < count) {
+          const next = await rows.next();
+          if (next.done) {
+            done = true;
+          } else {
+            read.push(next.value);
+          }
+        }
+        return { rows: read, fields };
+      },
+      close: async () => {
+        if (!done) {
+          // The rest of the result would otherwise still be sent and skipped
+          await cancel();
+          try {
+            while (!(await rows.next()).done);
+          } catch {
+            // Interrupted, as asked
+          }
+          done = true;
+        }
+        await run("DEALLOCATE PREPARE smartdb_cursor");
+        await run("SET SESSION net_write_timeout = DEFAULT");
+      },
+    };
+  }
+
+  async explain(
+    run: QueryRunner,
+    sql: string,
+    params: unknown[]
+  ): Promise<PlanNode> {
+    const [row] = await run(`EXPLAIN FORMAT=JSON ${sql}`, params);
+    const explained = row?.EXPLAIN;
+    const plan =
+      typeof explained === "string" ? JSON.parse(explained) : explained;
+    if (!plan?.query_block) {
+      throw new Error("EXPLAIN returned no plan");
+    }
+    return this.toOperationNode("query_block", plan.query_block);
+  }
+
+  // Cursors pass on the field packets; Sequelize drops them, so otherwise the
+  // statement is prepared again to read them
+  async describeResult({
+    sql,
+    fields,
+    withConnection,
+  }: ResultSource): Promise<ResultColumn[] | null> {
+    const columns: Record<string, any>[] = Array.isArray(fields)
+      ? fields
+      : await withConnection(
+          (connection) =>
+            new Promise((resolve, reject) =>
+              connection.prepare(sql, (error: Error | null, statement: any) => {
+                if (error) {
+                  reject(error);
+                  return;
+                }
+                const described = statement.columns;
+                statement.close();
+                resolve(described);
+              })
+            )
+        );
+
+    return columns.map((column) => ({
+      name: column.name,
+      dataType: this.columnTypeName(column),
+      nullable: (column.flags & NOT_NULL_FLAG) === 0,
+      table: column.orgTable || null,
+    }));
+  }
+
+  async describeColumns(
+    run: QueryRunner,
+    table: string | TableReference
+  ): Promise<ColumnDescription[]> {
+    const { schema, name } = this.toReference(table);
+    const inSchema = this.schemaCondition("table_schema", schema, "DATABASE()");
+    const rows = await run(
+      this.columnsQuery(`${inSchema.sql} AND table_name = ?`),
+      [...inSchema.params, name]
+    );
+    return rows.map((row) => this.toColumn(row));
+  }
+
+  // MySQL 8 returns information_schema columns in upper case unless aliased
+  async describeSchema(run: QueryRunner): Promise<SchemaDescription> {
+    const tables = await run(`
+      SELECT table_schema AS table_schema, table_name AS table_name,
+        table_type AS table_type, table_rows AS estimated_rows,
+        data_length + index_length AS total_bytes
+      FROM information_schema.tables
+      WHERE table_schema NOT IN ${SYSTEM_SCHEMAS}
+      ORDER BY table_schema, table_name
+    `);
+    const columns = this.groupByTable(
+      await run(this.columnsQuery(`table_schema NOT IN ${SYSTEM_SCHEMAS}`))
+    );
+    const foreignKeys = await run(`
+      SELECT table_schema AS table_schema, table_name AS table_name,
+        column_name AS column_name,
+        referenced_table_schema AS foreign_table_schema,
+        referenced_table_name AS foreign_table_name,
+        referenced_column_name AS foreign_column_name,
+        constraint_name AS constraint_name
+      FROM information_schema.key_column_usage
+      WHERE table_schema NOT IN ${SYSTEM_SCHEMAS}
+        AND referenced_table_name IS NOT NULL
+      ORDER BY table_schema, table_name, constraint_name, ordinal_position
+    `);
+
+    return {
+      tables: tables.map((row) => ({
+        name: row.table_name,
+        schema: row.table_schema,
+        type: row.table_type === "BASE TABLE" ? "TABLE" : row.table_type,
+        // InnoDB row counts are estimates; views have none
+        estimatedRows: Number(row.estimated_rows) || 0,
+        totalBytes: Number(row.total_bytes) || 0,
+        columns: (
+          columns.get(this.tableKey(row.table_schema, row.table_name)) ?? []
+        ).map((column) => this.toColumn(column)),
+      })),
+      foreignKeys: foreignKeys.map((row) => ({
+        schema: row.table_schema,
+        table: row.table_name,
+        column: row.column_name,
+        foreignSchema: row.foreign_table_schema,
+        foreignTable: row.foreign_table_name,
+        foreignColumn: row.foreign_column_name,
+        constraintName: row.constraint_name,
+      })),
+    };
+  }
+
+  private columnsQuery(where: string): string {
+    return `
+      SELECT table_schema AS table_schema, table_name AS table_name,
+        column_name AS column_name,
+        data_type AS data_type, is_nullable AS is_nullable,
+        column_default AS column_default, extra AS extra,
+        column_key AS column_key
+      FROM information_schema.columns
+      WHERE ${where}
+      ORDER BY table_schema, table_name, ordinal_position
+    `;
+  }
+
+  /**
+   * An operation's cost covers its children unless MySQL reports its own
+   */
+  private toOperationNode(name: string, block: Record<string, any>): PlanNode {
+    const children = this.childPlanNodes(block);
+    const reported = block.cost_info?.query_cost ?? block.cost_info?.sort_cost;
+    const childCost = children.reduce(
+      (sum, child) => sum + (child.estimatedCost ?? 0),
+      0
+    );
+
+    return this.planNode(PLAN_OPERATIONS[name] ?? name, {
+      estimatedCost:
+        name === "query_block" && reported !== undefined
+          ? Number(reported)
+          : childCost + Number(block.cost_info?.sort_cost ?? 0),
+      detail: block.message ?? null,
+      children,
+    });
+  }
+
+  private toTableNode(table: Record<string, any>): PlanNode {
+    const fullScan = table.access_type === "ALL";
+    const cost = table.cost_info;
+    const detail = [
+      table.key && `Index: ${table.key}`,
+      table.attached_condition && `Condition: ${table.attached_condition}`,
+    ]
+      .filter(Boolean)
+      .join("; ");
+
+    return this.planNode(
+      ACCESS_TYPES[table.access_type] ?? table.access_type ?? "Table",
+      {
+        relation: table.table_name ?? null,
+        fullScan,
+        // A full scan examines every row of the table
+        relationRows: fullScan
+          ? Number(table.rows_examined_per_scan ?? 0)
+          : null,
+        estimatedCost: cost
+          ? Number(cost.read_cost ?? 0) + Number(cost.eval_cost ?? 0)
+          : null,
+        estimatedRows:
+          table.rows_produced_per_join === undefined
+            ? null
+            : Number(table.rows_produced_per_join),
+        detail: detail || null,
+        children: this.childPlanNodes(table),
+      }
+    );
+  }
+
+  private childPlanNodes(block: Record<string, any>): PlanNode[] {
+    const children: PlanNode[] = [];
+    for (const [key, value] of Object.entries(block)) {
+      if (key === "table") {
+        children.push(this.toTableNode(value));
+      } else if (key === "nested_loop") {
+        const joined = (value as Record<string, any>[]).flatMap((item) =>
+          this.childPlanNodes(item)
+        );
+        children.push(
+          this.planNode("Nested Loop", {
+            estimatedCost: joined.reduce(
+              (sum, child) => sum + (child.estimatedCost ?? 0),
+              0
+            ),
+            children: joined,
+          })
+        );
+      } else if (PLAN_LISTS.includes(key) && Array.isArray(value)) {
+        children.push(...value.flatMap((item) => this.childPlanNodes(item)));
+      } else if (PLAN_OPERATIONS[key] && value && typeof value === "object") {
+        children.push(this.toOperationNode(key, value));
+      }
+    }
+    return children;
+  }
+
+  private columnTypeName(column: Record<string, any>): string | null {
+    const binary = column.characterSet === BINARY_CHARSET;
+    if (column.flags & ENUM_FLAG) {
+      return "enum";
+    }
+    if (column.flags & SET_FLAG) {
+      return "set";
+    }
+
+    const name = COLUMN_TYPES[column.columnType];
+    if (name === "varchar" || name === "char") {
+      return binary ? name.replace("char", "binary") : name;
+    }
+    // Text columns travel as blobs with a text character set
+    if (name?.endsWith("blob") && !binary) {
+      return name.replace("blob", "text");
+    }
+    return name ?? null;
+  }
+
+  private toColumn(row: Record<string, any>): ColumnDescription {
+    return {
+      name: row.column_name,
+      dataType: row.data_type,
+      nullable: row.is_nullable === "YES",
+      defaultValue: row.column_default ?? null,
+      autoIncrement: /auto_increment/i.test(row.extra || ""),
+      primaryKey: row.column_key === "PRI",
+    };
+  }
+}
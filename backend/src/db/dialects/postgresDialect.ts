@@ -0,0 +1,351 @@
+import {
+  ColumnDescription,
+  CursorSource,
+  DialectAdapter,
+  PlanNode,
+  QueryRunner,
+  ResultSource,
+  RowCursor,
+  SchemaDescription,
+} from "./dialectAdapter";
+import { ResultColumn, TableReference } from "../../types/database";
+
+const TABLE_TYPES: Record<string, string> = {
+  r: "TABLE",
+  p: "TABLE",
+  v: "VIEW",
+  m: "MATERIALIZED VIEW",
+  f: "FOREIGN TABLE",
+};
+
+// Schemas of user objects, leaving out the catalogs and temporary schemas
+const userSchemas = (column: string) =>
+  `${column} NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+    AND ${column} NOT LIKE 'pg_temp%' AND ${column} NOT LIKE 'pg_toast_temp%'`;
+
+// Plan fields worth showing next to a node
+const PLAN_DETAILS = [
+  "Index Name",
+  "Index Cond",
+  "Hash Cond",
+  "Merge Cond",
+  "Join Filter",
+  "Filter",
+  "Sort Key",
+];
+
+export class PostgresDialect extends DialectAdapter {
+  readonly type = "postgresql" as const;
+  readonly supportsExplainAnalyze = true;
+
+  quoteIdentifier(name: string): string {
+    return this.quoteWith(name, '"');
+  }
+
+  autoIncrementKey(columnName: string): string {
+    return `${this.quoteIdentifier(columnName)} SERIAL PRIMARY KEY`;
+  }
+
+  buildDropTable(tableName: string): string {
+    // Drop dependent foreign keys and views along with the table
+    return `${super.buildDropTable(tableName)} CASCADE`;
+  }
+
+  literal(value: unknown): string {
+    // Hex bytea input; standard_conforming_strings keeps the backslash
+    if (Buffer.isBuffer(value)) {
+      return `'\\x${value.toString("hex")}'::bytea`;
+    }
+    return super.literal(value);
+  }
+
+  // With the zone, so timestamptz columns load the same instant
+  protected timestampText(date: Date): string {
+    return `${super.timestampText(date)}+00`;
+  }
+
+  // LIKE only takes text and is case-sensitive here
+  protected likeCondition(column: string): string {
+    return `CAST(${column} AS TEXT) ILIKE ? ESCAPE '!'`;
+  }
+
+  protected nullSafeEquals(column: string): string {
+    return `${column} IS NOT DISTINCT FROM ?`;
+  }
+
+  async cancelQuery(connection: any, run: QueryRunner): Promise<void> {
+    await run("SELECT pg_cancel_backend(?)", [connection.processID]);
+  }
+
+  async estimateRowCount(
+    run: QueryRunner,
+    sql: string,
+    params: unknown[]
+  ): Promise<number | null> {
+    const [row] = await run(`EXPLAIN (FORMAT JSON) ${sql}`, params);
+    const rows = row?.["QUERY PLAN"]?.[0]?.Plan?.["Plan Rows"];
+    return typeof rows === "number" ? rows : null;
+  }
+
+  // A cursor declared in the held transaction; ending the transaction closes it
+  async openCursor({
+    sql,
+    params,
+    connection,
+    run,
+  }: CursorSource): Promise<RowCursor> {
+    await run(`DECLARE smartdb_cursor NO SCROLL CURSOR FOR\n${sql}\n`, params);
+    return {
+      read: async (count) => {
+        // Straight to the driver, which returns the field metadata with the rows
+        const { rows, fields } = await connection.query(
+          `FETCH FORWARD ${Math.floor(count)} FROM smartdb_cursor`
+        );
+        return { rows, fields };
+      },
+      close: async () => undefined,
+    };
+  }
+
+  async explain(
+    run: QueryRunner,
+    sql: string,
+    params: unknown[],
+    analyze: boolean
+  ): Promise<PlanNode> {
+    // VERBOSE names the schema of each scanned relation
+    const options = analyze
+      ? "FORMAT JSON, VERBOSE, ANALYZE"
+      : "FORMAT JSON, VERBOSE";
+    const [row] = await run(`EXPLAIN (${options}) ${sql}`, params);
+    const plan = row?.["QUERY PLAN"]?.[0]?.Plan;
+    if (!plan) {
+      throw new Error("EXPLAIN returned no plan");
+    }
+
+    const scans: Array<{ node: PlanNode; schema: string }> = [];
+    const root = this.toPlanNode(plan, scans);
+    if (scans.length > 0) {
+      // Planner statistics; reltuples is -1 until a table is first analyzed
+      const sizes = await run(
+        `SELECT n.nspname, c.relname, c.reltuples
+        FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE c.relkind IN ('r', 'p', 'm') AND n.nspname IN (?) AND c.relname IN (?)`,
+        [
+          [...new Set(scans.map(({ schema }) => schema))],
+          [...new Set(scans.map(({ node }) => node.relation))],
+        ]
+      );
+      for (const { node, schema } of scans) {
+        const size = sizes.find(
+          (size) => size.nspname === schema && size.relname === node.relation
+        );
+        node.relationRows =
+          size && Number(size.reltuples) >= 0 ? Number(size.reltuples) : null;
+      }
+    }
+    return root;
+  }
+
+  // The driver reports type and source column ids, which the catalogs name
+  async describeResult({
+    fields,
+    run,
+  }: ResultSource): Promise<ResultColumn[] | null> {
+    if (!Array.isArray(fields)) {
+      return null;
+    }
+
+    const typeIds = [...new Set(fields.map((field) => field.dataTypeID))];
+    const tableIds = [
+      ...new Set(fields.map((field) => field.tableID).filter((id) => id > 0)),
+    ];
+    const types = new Map(
+      (
+        await run(
+          `SELECT oid, format_type(oid, NULL) AS name FROM pg_type WHERE oid IN (?)`,
+          [typeIds]
+        )
+      ).map((row) => [Number(row.oid), row.name])
+    );
+    const sources = new Map(
+      tableIds.length === 0
+        ? []
+        : (
+            await run(
+              `SELECT a.attrelid, a.attnum, c.relname, a.attnotnull
+              FROM pg_attribute a JOIN pg_class c ON c.oid = a.attrelid
+              WHERE a.attrelid IN (?) AND a.attnum > 0`,
+              [tableIds]
+            )
+          ).map((row) => [`${row.attrelid}:${row.attnum}`, row])
+    );
+
+    return fields.map((field) => {
+      const source = sources.get(`${field.tableID}:${field.columnID}`);
+      return {
+        name: field.name,
+        dataType: types.get(field.dataTypeID) ?? null,
+        nullable: source ? !source.attnotnull : null,
+        table: source?.relname ?? null,
+      };
+    });
+  }
+
+  async describeColumns(
+    run: QueryRunner,
+    table: string | TableReference
+  ): Promise<ColumnDescription[]> {
+    const { schema, name } = this.toReference(table);
+    const inSchema = this.schemaCondition(
+      "c.table_schema",
+      schema,
+      "current_schema()"
+    );
+    const rows = await run(
+      this.columnsQuery(`${inSchema.sql} AND c.table_name = ?`),
+      [...inSchema.params, name]
+    );
+    return rows.map((row) => this.toColumn(row));
+  }
+
+  async describeSchema(run: QueryRunner): Promise<SchemaDescription> {
+    const tables = await run(`
+      SELECT c.relname AS table_name, n.nspname AS schema_name,
+        c.relkind AS relkind,
+        c.reltuples AS estimated_rows,
+        pg_total_relation_size(c.oid) AS total_bytes
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE ${userSchemas("n.nspname")}
+        AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+        AND NOT c.relispartition
+      ORDER BY n.nspname, c.relname
+    `);
+    const columns = this.groupByTable(
+      await run(this.columnsQuery(userSchemas("c.table_schema")))
+    );
+    const foreignKeys = await run(`
+      SELECT kcu.table_schema, kcu.table_name, kcu.column_name,
+        ref.table_schema AS foreign_table_schema,
+        ref.table_name AS foreign_table_name,
+        ref.column_name AS foreign_column_name,
+        kcu.constraint_name
+      FROM information_schema.referential_constraints rc
+      JOIN information_schema.key_column_usage kcu
+        ON kcu.constraint_schema = rc.constraint_schema
+        AND kcu.constraint_name = rc.constraint_name
+      JOIN information_schema.key_column_usage ref
+        ON ref.constraint_schema = rc.unique_constraint_schema
+        AND ref.constraint_name = rc.unique_constraint_name
+        AND ref.ordinal_position = kcu.position_in_unique_constraint
+      WHERE ${userSchemas("kcu.table_schema")}
+      ORDER BY kcu.table_schema, kcu.table_name, kcu.constraint_name,
+        kcu.ordinal_position
+    `);
+
+    return {
+      tables: tables.map((row) => ({
+        name: row.table_name,
+        schema: row.schema_name,
+        type: TABLE_TYPES[row.relkind] ?? String(row.relkind),
+        // reltuples is -1 until a table is first analyzed
+        estimatedRows: Math.max(Math.round(Number(row.estimated_rows)), 0),
+        totalBytes: Number(row.total_bytes) || 0,
+        columns: (
+          columns.get(this.tableKey(row.schema_name, row.table_name)) ?? []
+        ).map((column) => this.toColumn(column)),
+      })),
+      foreignKeys: foreignKeys.map((row) => ({
+        schema: row.table_schema,
+        table: row.table_name,
+        column: row.column_name,
+        foreignSchema: row.foreign_table_schema,
+        foreignTable: row.foreign_table_name,
+        foreignColumn: row.foreign_column_name,
+        constraintName: row.constraint_name,
+      })),
+    };
+  }
+
+  /**
+   * Arrays stay arrays for ARRAY columns so Sequelize renders ARRAY[...]
+   */
+  toParameter(value: unknown, column: ColumnDescription): unknown {
+    if (Array.isArray(value) && column.dataType === "ARRAY") {
+      return value;
+    }
+    return super.toParameter(value, column);
+  }
+
+  private columnsQuery(where: string): string {
+    return `
+      SELECT c.table_schema, c.table_name, c.column_name, c.data_type, c.is_nullable,
+        c.column_default, c.is_identity,
+        EXISTS (
+          SELECT 1
+          FROM information_schema.table_constraints tc
+          JOIN information_schema.key_column_usage kcu
+            ON kcu.constraint_schema = tc.constraint_schema
+            AND kcu.constraint_name = tc.constraint_name
+          WHERE tc.constraint_type = 'PRIMARY KEY'
+            AND kcu.table_schema = c.table_schema
+            AND kcu.table_name = c.table_name
+            AND kcu.column_name = c.column_name
+        ) AS is_primary_key
+      FROM information_schema.columns c
+      WHERE ${where}
+      ORDER BY c.table_schema, c.table_name, c.ordinal_position
+    `;
+  }
+
+  /**
+   * Convert a FORMAT JSON plan; ANALYZE reports rows and time per loop
+   * @param scans - Collects the sequential scans, with the schema of each relation
+   */
+  private toPlanNode(
+    plan: Record<string, any>,
+    scans: Array<{ node: PlanNode; schema: string }>
+  ): PlanNode {
+    const loops = Number(plan["Actual Loops"] ?? 1);
+    const detail = PLAN_DETAILS.filter((key) => plan[key] !== undefined)
+      .map((key) => `${key}: ${[plan[key]].flat().join(", ")}`)
+      .join("; ");
+
+    const node = this.planNode(plan["Node Type"], {
+      relation: plan["Relation Name"] ?? null,
+      fullScan: plan["Node Type"] === "Seq Scan",
+      estimatedCost: plan["Total Cost"] ?? null,
+      estimatedRows:
+        plan["Plan Rows"] === undefined ? null : plan["Plan Rows"] * loops,
+      actualRows:
+        plan["Actual Rows"] === undefined ? null : plan["Actual Rows"] * loops,
+      actualTimeMs:
+        plan["Actual Total Time"] === undefined
+          ? null
+          : plan["Actual Total Time"] * loops,
+      detail: detail || null,
+      children: (plan.Plans ?? []).map((child: Record<string, any>) =>
+        this.toPlanNode(child, scans)
+      ),
+    });
+    if (node.fullScan && node.relation && plan.Schema) {
+      scans.push({ node, schema: plan.Schema });
+    }
+    return node;
+  }
+
+  private toColumn(row: Record<string, any>): ColumnDescription {
+    return {
+      name: row.column_name,
+      dataType: row.data_type,
+      nullable: row.is_nullable === "YES",
+      defaultValue: row.column_default ?? null,
+      // serial columns default to nextval(...); identity columns are flagged
+      autoIncrement:
+        row.is_identity === "YES" ||
+        Boolean(row.column_default?.startsWith("nextval(")),
+      primaryKey: Boolean(row.is_primary_key),
+    };
+  }
+}
@@ -0,0 +1,311 @@
+import { randomUUID } from "crypto";
+import {
+  ColumnDescription,
+  CursorSource,
+  DialectAdapter,
+  PlanNode,
+  QueryRunner,
+  ResultSource,
+  RowCursor,
+  SchemaDescription,
+  TableDescription,
+} from "./dialectAdapter";
+import { ResultColumn, TableReference } from "../../types/database";
+
+// Tables and views created by users, not SQLite's own bookkeeping
+const USER_OBJECTS =
+  "m.type IN ('table', 'view') AND m.name NOT LIKE 'sqlite_%'";
+
+export class SqliteDialect extends DialectAdapter {
+  readonly type = "sqlite" as const;
+
+  quoteIdentifier(name: string): string {
+    return this.quoteWith(name, '"');
+  }
+
+  autoIncrementKey(columnName: string): string {
+    return `${this.quoteIdentifier(
+      columnName
+    )} INTEGER PRIMARY KEY AUTOINCREMENT`;
+  }
+
+  literal(value: unknown): string {
+    // TRUE and FALSE are only keywords from SQLite 3.23
+    if (typeof value === "boolean") {
+      return value ? "1" : "0";
+    }
+    return super.literal(value);
+  }
+
+  // The database is in-process, so the running statement is interrupted directly
+  async cancelQuery(connection: any): Promise<void> {
+    connection.interrupt();
+  }
+
+  // There is no planner estimate, and counting would read the whole result
+  async estimateRowCount(): Promise<number | null> {
+    return null;
+  }
+
+  // The statement is stepped a row at a time. Until it is closed it holds a
+  // read lock, which keeps writers waiting unless the database is in WAL mode.
+  async openCursor({
+    sql,
+    params,
+    connection,
+  }: CursorSource): Promise<RowCursor> {
+    const statement = await new Promise<any>((resolve, reject) => {
+      const prepared = connection.prepare(sql, params, (error: Error | null) =>
+        error ? reject(error) : resolve(prepared)
+      );
+    });
+    const step = () =>
+      new Promise<Record<string, any> | undefined>((resolve, reject) =>
+        statement.get((error: Error | null, row?: Record<string, any>) =>
+          error ? reject(error) : resolve(row)
+        )
+      );
+
+    let done = false;
+    return {
+      read: async (count) => {
+        const rows: Record<string, any>[] = [];
+        while (!done && rows.length < count) {
+          const row = await step();
+          if (row === undefined) {
+            done = true;
+          } else {
+            rows.push(row);
+          }
+        }
+        // The driver reports no column metadata
+        return { rows, fields: null };
+      },
+      close: () =>
+        new Promise<void>((resolve) => statement.finalize(() => resolve())),
+    };
+  }
+
+  // EXPLAIN QUERY PLAN lists steps as text with no costs or row estimates
+  async explain(
+    run: QueryRunner,
+    sql: string,
+    params: unknown[]
+  ): Promise<PlanNode> {
+    const rows = await run(`EXPLAIN QUERY PLAN ${sql}`, params);
+    const nodes = new Map<number, PlanNode>();
+    const root = this.planNode("Query");
+
+    for (const row of rows) {
+      const detail = String(row.detail);
+      const scan = detail.match(/^(SCAN|SEARCH)(?: TABLE)? (\S+)/);
+      const viaIndex = /USING (COVERING )?(INDEX|PRIMARY KEY)/.test(detail);
+      const relation =
+        scan && !/^SCAN CONSTANT ROW/.test(detail) ? scan[2]! : null;
+      const node = this.planNode(
+        !scan
+          ? detail
+          : scan[1] === "SEARCH"
+          ? "Index Search"
+          : viaIndex
+          ? "Index Scan"
+          : "Table Scan",
+        { relation, fullScan: Boolean(relation) && !viaIndex, detail }
+      );
+      nodes.set(Number(row.id), node);
+      (nodes.get(Number(row.parent)) ?? root).children.push(node);
+    }
+
+    // Sizes come from ANALYZE statistics, so the plan never scans a table;
+    // subquery results are not tables and have none
+    const scans = this.flattenPlan(root).filter(
+      (node) => node.fullScan && /^\w+$/.test(node.relation!)
+    );
+    if (scans.length > 0) {
+      const rowCounts = await this.readRowCounts(run, "main").catch(
+        () => new Map<string, number>()
+      );
+      for (const node of scans) {
+        node.relationRows = rowCounts.get(node.relation!) ?? null;
+      }
+    }
+    return root;
+  }
+
+  // The driver has no result metadata, so a temporary view over the statement
+  // is described; declared types carry through plain columns only
+  async describeResult({
+    sql,
+    params,
+    run,
+  }: ResultSource): Promise<ResultColumn[] | null> {
+    // Views cannot hold placeholders
+    if (params.length > 0) {
+      return null;
+    }
+
+    // Read-only connections and statements a view cannot hold leave the
+    // result undescribed rather than failing the query
+    const view = `smartdb_result_${randomUUID().replace(/-/g, "")}`;
+    try {
+      await run(`CREATE TEMP VIEW ${this.quoteIdentifier(view)} AS\n${sql}\n`);
+    } catch {
+      return null;
+    }
+    try {
+      const rows = await run(
+        `SELECT name, type FROM pragma_table_info(?, 'temp')`,
+        [view]
+      );
+      return rows.map((row) => ({
+        name: row.name,
+        dataType: row.type || null,
+        nullable: null,
+        table: null,
+      }));
+    } finally {
+      await run(`DROP VIEW ${this.quoteIdentifier(view)}`).catch(() => []);
+    }
+  }
+
+  async describeColumns(
+    run: QueryRunner,
+    table: string | TableReference
+  ): Promise<ColumnDescription[]> {
+    const { schema, name } = this.toReference(table);
+    const rows = await run(
+      `SELECT name, type, "notnull", dflt_value, pk FROM pragma_table_info(?${
+        schema ? ", ?" : ""
+      })`,
+      schema ? [name, schema] : [name]
+    );
+    return this.toColumns(rows);
+  }
+
+  // Schemas are the main database and any attached to it
+  async describeSchema(run: QueryRunner): Promise<SchemaDescription> {
+    const schemas = await run(
+      `SELECT name FROM pragma_database_list WHERE name <> 'temp' ORDER BY seq`
+    );
+    const described: SchemaDescription = { tables: [], foreignKeys: [] };
+    for (const { name } of schemas) {
+      const { tables, foreignKeys } = await this.describeDatabase(run, name);
+      described.tables.push(...tables);
+      described.foreignKeys.push(...foreignKeys);
+    }
+    return described;
+  }
+
+  private async describeDatabase(
+    run: QueryRunner,
+    schema: string
+  ): Promise<SchemaDescription> {
+    const master = `${this.quoteIdentifier(schema)}.sqlite_master`;
+    const tables = await run(
+      `SELECT m.name AS table_name, m.type FROM ${master} m WHERE ${USER_OBJECTS} ORDER BY m.name`
+    );
+    const columns = this.groupByTable(
+      await run(
+        `
+        SELECT m.name AS table_name, p.name, p.type, p."notnull",
+          p.dflt_value, p.pk
+        FROM ${master} m
+        JOIN pragma_table_info(m.name, ?) p
+        WHERE ${USER_OBJECTS}
+        ORDER BY m.name, p.cid
+      `,
+        [schema]
+      )
+    );
+    const foreignKeys = await run(
+      `
+      SELECT m.name AS table_name, f.id, f."from", f."table", f."to"
+      FROM ${master} m
+      JOIN pragma_foreign_key_list(m.name, ?) f
+      WHERE m.type = 'table'
+      ORDER BY m.name, f.id, f.seq
+    `,
+      [schema]
+    );
+    const rowCounts = await this.readRowCounts(run, schema);
+
+    const described: TableDescription[] = tables.map((row) => ({
+      name: row.table_name,
+      schema,
+      type: String(row.type).toUpperCase(),
+      estimatedRows:
+        row.type === "table" ? rowCounts.get(row.table_name) ?? null : 0,
+      columns: this.toColumns(
+        columns.get(this.tableKey(undefined, row.table_name)) ?? []
+      ),
+    }));
+
+    return {
+      tables: described,
+      // Foreign keys cannot reach into another database file
+      foreignKeys: foreignKeys.map((row) => ({
+        schema,
+        table: row.table_name,
+        column: row.from,
+        foreignSchema: schema,
+        foreignTable: row.table,
+        // A missing "to" column references the parent's primary key
+        foreignColumn:
+          row.to ??
+          described
+            .find((table) => table.name === row.table)
+            ?.columns.find((column) => column.primaryKey)?.name ??
+          "",
+        // SQLite foreign keys are unnamed
+        constraintName: `fk_${row.table_name}_${row.id}`,
+      })),
+    };
+  }
+
+  // Only ANALYZE records row counts, in sqlite_stat1; tables it has not seen
+  // are left unknown rather than counted in full
+  private async readRowCounts(
+    run: QueryRunner,
+    schema: string
+  ): Promise<Map<string, number>> {
+    const database = this.quoteIdentifier(schema);
+    const [analyzed] = await run(
+      `SELECT 1 AS analyzed FROM ${database}.sqlite_master WHERE name = 'sqlite_stat1'`
+    );
+    if (!analyzed) {
+      return new Map();
+    }
+
+    // Each stat starts with the rows in the table or index; partial indexes
+    // hold fewer, so a table's count is the largest
+    const counts = new Map<string, number>();
+    for (const row of await run(
+      `SELECT tbl, stat FROM ${database}.sqlite_stat1`
+    )) {
+      const count = parseInt(String(row.stat), 10);
+      if (Number.isFinite(count)) {
+        counts.set(row.tbl, Math.max(counts.get(row.tbl) ?? 0, count));
+      }
+    }
+    return counts;
+  }
+
+  private toColumns(rows: Record<string, any>[]): ColumnDescription[] {
+    // A single INTEGER PRIMARY KEY column aliases the rowid and fills itself
+    const keyColumns = rows.filter((row) => Number(row.pk) > 0);
+    const rowidAlias =
+      keyColumns.length === 1 &&
+      String(keyColumns[0]!.type).toUpperCase() === "INTEGER"
+        ? keyColumns[0]!.name
+        : null;
+
+    return rows.map((row) => ({
+      name: row.name,
+      dataType: row.type,
+      nullable: Number(row.notnull) === 0,
+      defaultValue: row.dflt_value ?? null,
+      autoIncrement: row.name === rowidAlias,
+      primaryKey: Number(row.pk) > 0,
+    }));
+  }
+}
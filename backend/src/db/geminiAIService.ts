@@ -1,6 +1,22 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import { AISchemaContext } from "./aiSchemaAnalyzer";
 import { QueryGenerationResult } from "../types/ai";
+import { DatabaseType } from "./dialects";
+
+const DIALECT_NAMES: Record<DatabaseType, string> = {
+  postgresql: "PostgreSQL",
+  mysql: "MySQL",
+  sqlite: "SQLite",
+};
+
+// Case-insensitive matching differs per dialect
+const TEXT_MATCH_RULES: Record<DatabaseType, string> = {
+  postgresql: "Use ILIKE for case-insensitive text matching.",
+  mysql:
+    "Use LIKE for case-insensitive text matching (the default collations ignore case).",
+  sqlite:
+    "Use LIKE for case-insensitive text matching (it ignores case for ASCII text).",
+};
 
 /**
  * Google Gemini AI Service for intelligent SQL query generation
@@ -47,7 +63,9 @@ export class GeminiAIService {
           role: "model",
           parts: [
             {
-              text: "I understand. I'm ready to generate PostgreSQL queries based on your database schema. Please provide your natural language request and I'll convert it to optimized SQL.",
+              text: `I understand. I'm ready to generate ${
+                DIALECT_NAMES[schema.dialect]
+              } queries based on your database schema. Please provide your natural language request and I'll convert it to optimized SQL.`,
             },
           ],
         },
@@ -104,7 +122,11 @@ export class GeminiAIService {
           )
           .join(", ");
 
-        return `Table: ${table.name} (${table.estimatedRows} rows)
+        const rows =
+          table.estimatedRows === null
+            ? "row count unknown"
+            : `${table.estimatedRows} rows`;
+        return `Table: ${table.name} (${rows})
 Columns: ${columns}`;
       })
       .join("\n\n");
@@ -119,7 +141,9 @@ Columns: ${columns}`;
             .join("\n")}`
         : "";
 
-    return `You are a PostgreSQL SQL expert. Generate accurate, efficient SQL queries from natural language requests.
+    return `You are a ${
+      DIALECT_NAMES[schema.dialect]
+    } SQL expert. Generate accurate, efficient SQL queries from natural language requests.
 
 DATABASE SCHEMA:
 ${tablesInfo}
@@ -128,8 +152,7 @@ ${relationshipsInfo}
 CORE RULES:
 1. Always generate a working SQL query for the request
 2. Use proper JOIN syntax when connecting tables
-3. Use ILIKE for case-insensitive text matching
-3. Use ILIKE for case-insensitive text matching.
+3. ${TEXT_MATCH_RULES[schema.dialect]}
 4. Include ORDER BY when data ordering matters for consistency.
 5. Always use table.column syntax to avoid ambiguity.
 6. Prefer simple, readable queries over complex ones.
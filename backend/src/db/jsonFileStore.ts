@@ -0,0 +1,89 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { DatabaseError } from "../utils/errors";
+
+interface JsonFileStoreOptions<T> {
+  path: () => string; // Read on every access, so the location can change at runtime
+  description: string; // Names the file in errors, e.g. "query history"
+  collection: Exclude<keyof T, "version">; // The array every valid file holds
+  indent?: number; // Pretty-print files people may read
+}
+
+/**
+ * A versioned JSON file that is read whole and replaced whole
+ * Writes are serialized and go through a temporary file that is renamed
+ * over the old one, so readers never see half a file.
+ */
+export class JsonFileStore<T extends { version: 1 }> {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: JsonFileStoreOptions<T>) {}
+
+  /**
+   * The file's contents
+   * @returns null when the file does not exist yet
+   * @throws DatabaseError when the file cannot be read or is not a version 1 file
+   */
+  async read(): Promise<T | null> {
+    const { description, collection } = this.options;
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.options.path(), "utf8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        return null;
+      }
+      throw new DatabaseError(`Failed to read ${description}`, error);
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as T;
+      if (parsed.version !== 1 || !Array.isArray(parsed[collection])) {
+        throw new Error(`Unsupported version: ${parsed.version}`);
+      }
+      return parsed;
+    } catch (error) {
+      throw new DatabaseError(
+        `${description[0]!.toUpperCase()}${description.slice(1)} is corrupt`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Read the file, change it and write it back, after any write in progress
+   */
+  update(mutate: (current: T | null) => T): Promise<void> {
+    return this.enqueue(async () => this.save(mutate(await this.read())));
+  }
+
+  /**
+   * Replace the file, after any write in progress
+   * @param produce - Called once it is this write's turn, so it sees every change made meanwhile
+   */
+  write(produce: () => T): Promise<void> {
+    return this.enqueue(() => this.save(produce()));
+  }
+
+  /**
+   * Wait for the writes queued so far
+   */
+  settled(): Promise<void> {
+    return this.writeQueue;
+  }
+
+  private enqueue(run: () => Promise<void>): Promise<void> {
+    const next = this.writeQueue.then(run, run);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async save(contents: T): Promise<void> {
+    const text = JSON.stringify(contents, null, this.options.indent);
+    const filePath = this.options.path();
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tempPath, text, { mode: 0o600 });
+    await fs.rename(tempPath, filePath);
+  }
+}
@@ -0,0 +1,133 @@
+import * as path from "path";
+import * as crypto from "crypto";
+import { QueryHistoryEntry, QueryHistoryFilter } from "../types/database";
+import { JsonFileStore } from "./jsonFileStore";
+
+// Oldest runs are dropped once the history holds this many
+const DEFAULT_HISTORY_SIZE = 5000;
+
+// Entries returned per request unless the client asks for another count
+const DEFAULT_HISTORY_PAGE = 100;
+
+interface QueryHistoryFile {
+  version: 1;
+  entries: QueryHistoryEntry[]; // Oldest first
+}
+
+/**
+ * Server-side record of every query run through the console
+ * Entries are kept in a JSON file and cached in memory after the first read
+ */
+export class QueryHistory {
+  private static file = new JsonFileStore<QueryHistoryFile>({
+    path: () => QueryHistory.getHistoryPath(),
+    description: "query history",
+    collection: "entries",
+  });
+  private static cache: { path: string; entries: QueryHistoryEntry[] } | null =
+    null;
+  private static loading: Promise<QueryHistoryEntry[]> | null = null;
+  // The next write, shared by every run recorded before it starts
+  private static pendingWrite: Promise<void> | null = null;
+
+  /**
+   * Location of the history file
+   */
+  static getHistoryPath(): string {
+    return path.resolve(
+      process.env.QUERY_HISTORY_PATH || "data/query-history.json"
+    );
+  }
+
+  /**
+   * Append a run, dropping the oldest entries beyond QUERY_HISTORY_SIZE
+   */
+  static async record(
+    entry: Omit<QueryHistoryEntry, "id" | "executedAt">
+  ): Promise<QueryHistoryEntry> {
+    const recorded: QueryHistoryEntry = {
+      id: crypto.randomUUID(),
+      ...entry,
+      executedAt: new Date().toISOString(),
+    };
+
+    const entries = await this.getEntries();
+    entries.push(recorded);
+    entries.splice(0, Math.max(0, entries.length - this.getHistorySize()));
+    await this.save(entries);
+    return recorded;
+  }
+
+  /**
+   * Matching runs, newest first, with the number of matches before paging
+   */
+  static async search(
+    filter: QueryHistoryFilter = {}
+  ): Promise<{ entries: QueryHistoryEntry[]; total: number }> {
+    const entries = await this.getEntries();
+    const words = (filter.search ?? "")
+      .toLowerCase()
+      .split(/\s+/)
+      .filter(Boolean);
+
+    const matches = entries
+      .filter((entry) => {
+        const executedAt = new Date(entry.executedAt);
+        const text = `${entry.sql}\n${entry.error ?? ""}`.toLowerCase();
+        return (
+          (!filter.databaseId || entry.databaseId === filter.databaseId) &&
+          (!filter.status?.length || filter.status.includes(entry.status)) &&
+          (!filter.from || executedAt >= filter.from) &&
+          (!filter.to || executedAt <= filter.to) &&
+          words.every((word) => text.includes(word))
+        );
+      })
+      .reverse();
+
+    const offset = filter.offset ?? 0;
+    return {
+      entries: matches.slice(
+        offset,
+        offset + (filter.limit ?? DEFAULT_HISTORY_PAGE)
+      ),
+      total: matches.length,
+    };
+  }
+
+  private static getHistorySize(): number {
+    const size = Number(process.env.QUERY_HISTORY_SIZE);
+    return Number.isInteger(size) && size > 0 ? size : DEFAULT_HISTORY_SIZE;
+  }
+
+  private static async getEntries(): Promise<QueryHistoryEntry[]> {
+    const historyPath = this.getHistoryPath();
+    if (this.cache?.path === historyPath) {
+      return this.cache.entries;
+    }
+
+    // Runs recorded while the file is first read wait for the same read
+    this.loading ??= this.file
+      .read()
+      .then((file) => {
+        this.cache = { path: historyPath, entries: file?.entries ?? [] };
+        return this.cache.entries;
+      })
+      .finally(() => {
+        this.loading = null;
+      });
+    return this.loading;
+  }
+
+  /**
+   * Write the history out once the write in progress is done
+   * Runs recorded meanwhile share that next write, so a busy server rewrites
+   * the file once per batch of runs rather than once per run.
+   */
+  private static save(entries: QueryHistoryEntry[]): Promise<void> {
+    this.pendingWrite ??= this.file.write(() => {
+      this.pendingWrite = null;
+      return { version: 1, entries };
+    });
+    return this.pendingWrite;
+  }
+}
@@ -0,0 +1,110 @@
+import * as path from "path";
+import * as crypto from "crypto";
+import { SavedQuery, SavedQueryInput } from "../types/database";
+import { JsonFileStore } from "./jsonFileStore";
+
+interface SavedQueryFile {
+  version: 1;
+  queries: SavedQuery[];
+}
+
+/**
+ * Library of named, parameterized queries shared by everyone using the server
+ * Queries are kept in a JSON file next to the connection registry
+ */
+export class SavedQueryStore {
+  private static file = new JsonFileStore<SavedQueryFile>({
+    path: () => SavedQueryStore.getStorePath(),
+    description: "saved query store",
+    collection: "queries",
+    indent: 2,
+  });
+
+  /**
+   * Location of the library file
+   */
+  static getStorePath(): string {
+    return path.resolve(
+      process.env.SAVED_QUERIES_PATH || "data/saved-queries.json"
+    );
+  }
+
+  /**
+   * All saved queries, sorted by name
+   */
+  static async list(): Promise<SavedQuery[]> {
+    await this.file.settled();
+    const file = await this.file.read();
+    return (file?.queries ?? []).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  static async get(id: string): Promise<SavedQuery | null> {
+    const queries = await this.list();
+    return queries.find((query) => query.id === id) ?? null;
+  }
+
+  static async create(input: SavedQueryInput): Promise<SavedQuery> {
+    const now = new Date().toISOString();
+    const query: SavedQuery = {
+      id: crypto.randomUUID(),
+      ...input,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.update((file) => {
+      file.queries.push(query);
+    });
+    return query;
+  }
+
+  /**
+   * Replace a saved query's fields
+   * @returns null when no query has the id
+   */
+  static async replace(
+    id: string,
+    input: SavedQueryInput
+  ): Promise<SavedQuery | null> {
+    let replaced: SavedQuery | null = null;
+
+    await this.update((file) => {
+      const index = file.queries.findIndex((query) => query.id === id);
+      if (index >= 0) {
+        replaced = {
+          ...input,
+          id,
+          createdAt: file.queries[index]!.createdAt,
+          updatedAt: new Date().toISOString(),
+        };
+        file.queries[index] = replaced;
+      }
+    });
+    return replaced;
+  }
+
+  /**
+   * @returns false when no query has the id
+   */
+  static async remove(id: string): Promise<boolean> {
+    let removed = false;
+
+    await this.update((file) => {
+      const remaining = file.queries.filter((query) => query.id !== id);
+      removed = remaining.length < file.queries.length;
+      file.queries = remaining;
+    });
+    return removed;
+  }
+
+  /**
+   * Apply a mutation to the library file
+   */
+  private static update(mutate: (file: SavedQueryFile) => void): Promise<void> {
+    return this.file.update((current) => {
+      const file = current || { version: 1 as const, queries: [] };
+      mutate(file);
+      return file;
+    });
+  }
+}
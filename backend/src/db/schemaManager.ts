@@ -1,5 +1,7 @@
-import { DatabaseConnection } from '../db/dbConnection';
+import { SequelizeDbManager } from './sequelizeDbManager';
+import { DialectAdapter } from './dialects';
 import { DatabaseTable, CreateTableResult, TableMetadata } from '../types';
+import { LOCAL_DB_ID } from '../types/database';
 import { TypeMapper } from '../utils/typeMapper';
 
 /**
@@ -16,9 +18,14 @@ export class SchemaManager {
    * Create tables from database table definitions
    * @param tables - Array of table definitions
    * @param dropExisting - Whether to drop existing tables first
+   * @param databaseId - Connection to create the tables in
    * @returns Result of table creation operation
    */
-  static async createTables(tables: DatabaseTable[], dropExisting: boolean = false): Promise<CreateTableResult> {
+  static async createTables(
+    tables: DatabaseTable[],
+    dropExisting: boolean = false,
+    databaseId: string = LOCAL_DB_ID
+  ): Promise<CreateTableResult> {
     const tablesCreated: string[] = [];
     
     try {
@@ -35,14 +42,16 @@ export class SchemaManager {
         }
       }
 
+      const dialect = SequelizeDbManager.getDialect(databaseId);
+
       // Create tables one by one
       for (const table of tables) {
         if (dropExisting) {
-          await DatabaseConnection.dropTableIfExists(table.name);
+          await SequelizeDbManager.query(dialect.buildDropTable(table.name), [], databaseId);
         }
 
-        const createTableSQL = this.generateCreateTableSQL(table);
-        await DatabaseConnection.query(createTableSQL);
+        const createTableSQL = this.generateCreateTableSQL(table, dialect);
+        await SequelizeDbManager.query(createTableSQL, [], databaseId);
         
         tablesCreated.push(table.name);
       }
@@ -69,28 +78,25 @@ export class SchemaManager {
   /**
    * Generate CREATE TABLE SQL statement
    * @param table - Table definition
+   * @param dialect - Adapter for the target database
    * @returns SQL CREATE TABLE statement
    */
-  private static generateCreateTableSQL(table: DatabaseTable): string {
+  private static generateCreateTableSQL(table: DatabaseTable, dialect: DialectAdapter): string {
     if (table.columns.length === 0) {
       throw new Error(`Table ${table.name} has no columns`);
     }
 
     const columnDefinitions = table.columns.map(column => {
-      return `"${column.name}" ${column.sqlType}`;
+      return `${dialect.quoteIdentifier(column.name)} ${column.sqlType}`;
     });
 
     // Add a basic primary key if no id column exists
     const hasIdColumn = table.columns.some(col => col.name.toLowerCase() === 'id');
     if (!hasIdColumn) {
-      columnDefinitions.unshift('"id" SERIAL PRIMARY KEY');
+      columnDefinitions.unshift(dialect.autoIncrementKey('id'));
     }
 
-    const sql = `CREATE TABLE IF NOT EXISTS "${table.name}" (
-      ${columnDefinitions.join(',\n      ')}
-    )`;
-
-    return sql;
+    return dialect.buildCreateTable(table.name, columnDefinitions);
   }
 
   /**
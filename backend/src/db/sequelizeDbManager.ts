@@ -1,25 +1,174 @@
-import { Sequelize, QueryTypes } from "sequelize";
+import { Sequelize, QueryTypes, QueryOptions, Transaction } from "sequelize";
+import { randomUUID } from "crypto";
 import * as dotenv from "dotenv";
 import {
   DatabaseCredentials,
   ConnectionResult,
   DatabaseSession,
   LOCAL_DB_ID,
+  SslOptions,
+  PoolOptions,
+  ConnectionStats,
+  HealthCheck,
+  StatementInfo,
+  StatementType,
+  QueryExecutionOptions,
+  ExplainOptions,
+  ResultLimits,
+  ResultTruncation,
+  ResultColumn,
+  TableDataOptions,
+  TableFilter,
+  TableReference,
+  RowUpdate,
+  RowDeletion,
 } from "../types/database";
+import { ConnectionStore, StoredConnection } from "./connectionStore";
+import { SqlClassifier } from "../utils/sqlClassifier";
+import { ResultLimiter } from "../utils/resultLimiter";
+import { QueryPlan } from "../utils/queryPlan";
+import {
+  FieldError,
+  ReadOnlyError,
+  RowConflictError,
+  QueryCancelledError,
+  QueryTimeoutError,
+  TableNotFoundError,
+  TransactionNotFoundError,
+  ValidationError,
+} from "../utils/errors";
+import {
+  ColumnDescription,
+  DialectAdapter,
+  ParameterizedQuery,
+  PlanNode,
+  QueryRunner,
+  RowCursor,
+  getDialectAdapter,
+} from "./dialects";
 
 // Load environment variables
 dotenv.config();
 
+interface QueryStats {
+  queries: number;
+  errors: number;
+  totalLatencyMs: number;
+}
+
 interface SequelizeConnection {
   sequelize: Sequelize;
   credentials: DatabaseCredentials;
+  stats: QueryStats;
+}
+
+const DEFAULT_POOL_OPTIONS: Required<Omit<PoolOptions, "statementTimeout">> = {
+  max: 20,
+  acquireTimeout: 30000,
+  idleTimeout: 10000,
+};
+
+const DEFAULT_RESULT_LIMITS: Required<ResultLimits> = {
+  maxRows: 10000,
+  maxBytes: 20 * 1024 * 1024,
+};
+
+// Number of health checks kept per connection
+const HEALTH_HISTORY_SIZE = 20;
+
+// Cursors not read from for this long are closed
+const CURSOR_IDLE_TIMEOUT = 10 * 60 * 1000;
+
+// Open transactions left unused for this long are rolled back
+const DEFAULT_TRANSACTION_IDLE_TIMEOUT = 5 * 60 * 1000;
+
+// Rows per table page unless the caller asks for another size
+const DEFAULT_TABLE_PAGE_SIZE = 100;
+
+// Tables expected to hold more matching rows than this are not counted exactly
+const EXACT_COUNT_LIMIT = 1000000;
+
+// Rows read per round trip while exporting
+const EXPORT_BATCH_SIZE = 1000;
+
+// Statements that can be wrapped in a paging SELECT
+const PAGEABLE_COMMANDS = new Set(["SELECT", "WITH", "VALUES", "TABLE"]);
+
+interface RunningQuery {
+  connection: SequelizeConnection;
+  driverConnection: unknown; // Set while the query holds a pool connection
+  outcome: "cancelled" | "timeout" | null;
+}
+
+interface QueryCursor {
+  id: string;
+  databaseId: string;
+  connection: SequelizeConnection;
+  transaction: Transaction; // Holds the driver connection the rows are read from
+  rows: RowCursor;
+  sql: string; // The single statement being paged
+  params: any[];
+  pending: Record<string, any>[]; // Read ahead but not yet returned
+  fields: ResultColumn[] | null; // Described with the first page
+  estimatedTotalRows: number | null;
+  idleTimer: NodeJS.Timeout | null; // Set once the cursor outlives its first page
+  closed: boolean;
+}
+
+interface OpenTransaction {
+  databaseId: string;
+  connection: SequelizeConnection; // The pool the transaction's connection came from
+  transaction: Transaction;
+  idleTimer: NodeJS.Timeout;
+}
+
+// Sequelize hands unknown query options through to hooks
+interface TrackedQueryOptions extends QueryOptions {
+  queryId?: string;
 }
 
 interface QueryResult {
+  queryId?: string;
   rows: any[];
-  fields?: any[];
+  fields?: ResultColumn[];
+  driverFields?: unknown; // Field metadata from the driver, until the result is described
   columns?: string[];
   rowCount?: number;
+  statementType?: StatementType;
+  command?: string;
+  affectedRows?: number; // Only for DML
+  returnedRows?: number;
+  cursorId?: string | null; // Set while more pages can be fetched
+  hasMore?: boolean;
+  estimatedTotalRows?: number | null;
+  truncation?: ResultTruncation | null; // Set when rows were dropped to fit the limits
+  totalRows?: number | null; // Rows before truncation, when known
+}
+
+interface TablePage extends QueryResult {
+  page: number;
+  pageSize: number;
+  totalRows: number;
+  totalRowsEstimated: boolean; // The planner's estimate rather than a count
+  primaryKey: string[]; // Empty when rows cannot be told apart, so cannot be edited
+}
+
+interface RowStream {
+  fields: ResultColumn[];
+  batches: AsyncGenerator<Record<string, any>[]>; // Read as it is consumed
+  close: () => Promise<void>; // Frees the connection if batches are left unread
+}
+
+interface EditableTable {
+  dialect: DialectAdapter;
+  columns: Map<string, ColumnDescription>;
+  keyColumns: string[];
+}
+
+interface ExplainResult {
+  plan: PlanNode;
+  analyzed: boolean;
+  rolledBack: boolean; // The statement ran in a transaction that was rolled back
 }
 
 /**
@@ -31,6 +180,13 @@ export class SequelizeDbManager {
   private static connections = new Map<string, SequelizeConnection>();
   private static sessions = new Map<string, DatabaseSession>();
   private static localConnection: SequelizeConnection | null = null;
+  // Sessions whose stored credentials could not be decrypted; retrying is pointless
+  private static unrecoverable = new Set<string>();
+  private static healthTimer: NodeJS.Timeout | null = null;
+  private static checkingHealth = false;
+  private static running = new Map<string, RunningQuery>();
+  private static cursors = new Map<string, QueryCursor>();
+  private static transactions = new Map<string, OpenTransaction>();
 
   /**
    * Initialize the local PostgreSQL database
@@ -50,27 +206,24 @@ export class SequelizeDbManager {
       username: process.env.DB_USER || "postgres",
       password: process.env.DB_PASSWORD || "password",
       isLocal: true,
-    };
-
-    const sequelize = new Sequelize({
-      dialect: "postgres",
-      host: localCredentials.host!,
-      port: localCredentials.port!,
-      database: localCredentials.database,
-      username: localCredentials.username!,
-      password: localCredentials.password!,
-      logging: false, // Disable SQL logging for cleaner output
       pool: {
-        max: 20,
-        min: 0,
-        acquire: 30000,
-        idle: 10000,
+        ...(process.env.DB_POOL_MAX && { max: parseInt(process.env.DB_POOL_MAX) }),
+        ...(process.env.DB_STATEMENT_TIMEOUT && {
+          statementTimeout: parseInt(process.env.DB_STATEMENT_TIMEOUT),
+        }),
       },
-    });
+      limits: {
+        ...(process.env.DB_MAX_ROWS && { maxRows: parseInt(process.env.DB_MAX_ROWS) }),
+        ...(process.env.DB_MAX_RESPONSE_BYTES && {
+          maxBytes: parseInt(process.env.DB_MAX_RESPONSE_BYTES),
+        }),
+      },
+    };
 
     this.localConnection = {
-      sequelize,
+      sequelize: this.createSequelizeInstance(localCredentials),
       credentials: localCredentials,
+      stats: this.createStats(),
     };
 
     // Store local connection
@@ -80,25 +233,125 @@ export class SequelizeDbManager {
       credentials: localCredentials,
       createdAt: new Date(),
       lastUsed: new Date(),
+      status: "connected",
+      healthHistory: [],
     });
 
     console.log("✅ Local PostgreSQL database initialized with Sequelize");
   }
 
+  /**
+   * Reload and re-authenticate connections saved in the ConnectionStore
+   * Connections that fail to restore are kept as "degraded" sessions, and a
+   * store that cannot be read is logged and skipped rather than thrown
+   */
+  static async restorePersistedConnections(): Promise<void> {
+    let stored: Array<StoredConnection & { error?: string }>;
+    try {
+      stored = await ConnectionStore.load();
+    } catch (error) {
+      console.error(
+        `❌ Skipped restoring stored connections: ${this.getErrorMessage(
+          error
+        )}`
+      );
+      return;
+    }
+
+    for (const connection of stored) {
+      try {
+        await this.restoreConnection(connection);
+      } catch (error) {
+        console.error(
+          `❌ Skipped restoring stored connection ${
+            connection.credentials?.id ?? "(unknown)"
+          }: ${this.getErrorMessage(error)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Open one stored connection and register its session
+   */
+  private static async restoreConnection({
+    credentials,
+    createdAt,
+    error,
+  }: StoredConnection & { error?: string }): Promise<void> {
+    if (this.sessions.has(credentials.id)) {
+      return;
+    }
+
+    let lastError = error;
+    if (!lastError) {
+      let sequelize: Sequelize | null = null;
+      try {
+        sequelize = this.createSequelizeInstance(credentials);
+        await sequelize.authenticate();
+        this.connections.set(credentials.id, {
+          sequelize,
+          credentials,
+          stats: this.createStats(),
+        });
+      } catch (restoreError: any) {
+        lastError = this.getErrorMessage(restoreError);
+        if (sequelize) {
+          await sequelize.close().catch(() => undefined);
+        }
+      }
+    }
+
+    this.sessions.set(credentials.id, {
+      id: credentials.id,
+      credentials,
+      createdAt,
+      lastUsed: createdAt,
+      status: lastError ? "degraded" : "connected",
+      ...(lastError && { lastError }),
+      healthHistory: [],
+    });
+    if (error) {
+      this.unrecoverable.add(credentials.id);
+    }
+
+    if (lastError) {
+      console.warn(
+        `⚠️ Restored ${credentials.id} in degraded state: ${lastError}`
+      );
+    } else {
+      console.log(
+        `✅ Restored ${credentials.type.toUpperCase()} connection: ${credentials.id}`
+      );
+    }
+  }
+
   /**
    * Create Sequelize instance based on database credentials
    */
   private static createSequelizeInstance(credentials: DatabaseCredentials): Sequelize {
+    const pool = { ...DEFAULT_POOL_OPTIONS, ...credentials.pool };
     const baseConfig = {
       logging: false,
       pool: {
-        max: 20,
+        max: pool.max,
         min: 0,
-        acquire: 30000,
-        idle: 10000,
+        acquire: pool.acquireTimeout,
+        idle: pool.idleTimeout,
+      },
+      hooks: {
+        beforeQuery: (
+          options: TrackedQueryOptions,
+          query: { connection: unknown }
+        ) => this.attachRunningQuery(options, query.connection),
+        afterQuery: (options: TrackedQueryOptions) =>
+          this.attachRunningQuery(options, null),
       },
     };
 
+    const dialectOptions = this.getDialectOptions(credentials);
+    const mysqlSessionStatements = this.getMysqlSessionStatements(credentials);
+
     switch (credentials.type) {
       case "postgresql":
         return new Sequelize({
@@ -108,6 +361,7 @@ export class SequelizeDbManager {
           database: credentials.database,
           username: credentials.username!,
           password: credentials.password!,
+          dialectOptions,
           ...baseConfig,
         });
 
@@ -121,14 +375,23 @@ export class SequelizeDbManager {
           password: credentials.password!,
           dialectOptions: {
             multipleStatements: true, // Allow multiple statements
+            ...dialectOptions,
           },
           ...baseConfig,
+          hooks: {
+            ...baseConfig.hooks,
+            ...(mysqlSessionStatements.length > 0 && {
+              afterConnect: (connection: any) =>
+                this.runSessionStatements(connection, mysqlSessionStatements),
+            }),
+          },
         });
 
       case "sqlite":
         return new Sequelize({
           dialect: "sqlite",
           storage: credentials.database, // For SQLite, database field contains file path
+          dialectOptions,
           ...baseConfig,
         });
 
@@ -137,10 +400,134 @@ export class SequelizeDbManager {
     }
   }
 
+  /**
+   * Translate connection-string options into driver-specific dialectOptions
+   */
+  private static getDialectOptions(
+    credentials: DatabaseCredentials
+  ): Record<string, unknown> {
+    const options = credentials.options || {};
+    const dialectOptions: Record<string, unknown> = {};
+
+    switch (credentials.type) {
+      case "postgresql":
+        if (options.application_name) {
+          dialectOptions.application_name = options.application_name;
+        }
+        if (options.connect_timeout) {
+          dialectOptions.connectionTimeoutMillis = options.connect_timeout * 1000;
+        }
+        if (credentials.pool?.statementTimeout) {
+          dialectOptions.statement_timeout = credentials.pool.statementTimeout;
+        }
+        break;
+
+      case "mysql":
+        if (options.charset) {
+          dialectOptions.charset = options.charset;
+        }
+        if (options.connect_timeout) {
+          dialectOptions.connectTimeout = options.connect_timeout * 1000;
+        }
+        break;
+
+      case "sqlite":
+        if (credentials.readOnly) {
+          dialectOptions.mode = 1;
+        } else if (options.mode) {
+          // sqlite3 open flags: OPEN_READONLY = 1, OPEN_READWRITE = 2, OPEN_CREATE = 4
+          dialectOptions.mode = { ro: 1, rw: 2, rwc: 6 }[options.mode];
+        }
+        return dialectOptions;
+    }
+
+    const ssl = this.getSslOptions(credentials);
+    if (ssl) {
+      dialectOptions.ssl = ssl;
+    }
+
+    return dialectOptions;
+  }
+
+  /**
+   * Session settings applied to every new MySQL connection
+   */
+  private static getMysqlSessionStatements(credentials: DatabaseCredentials): string[] {
+    const statements: string[] = [];
+    if (credentials.type !== "mysql") {
+      return statements;
+    }
+
+    if (credentials.readOnly) {
+      // MySQL only accepts transaction characteristics before a transaction
+      // starts, so make every transaction on these sessions read-only
+      statements.push("SET SESSION TRANSACTION READ ONLY");
+    }
+    if (credentials.pool?.statementTimeout) {
+      // Applies to SELECT statements only
+      statements.push(
+        `SET SESSION max_execution_time = ${Math.floor(
+          credentials.pool.statementTimeout
+        )}`
+      );
+    }
+    return statements;
+  }
+
+  /**
+   * Run statements one after another on a raw mysql2 connection
+   */
+  private static async runSessionStatements(
+    connection: any,
+    statements: string[]
+  ): Promise<void> {
+    for (const statement of statements) {
+      await new Promise<void>((resolve, reject) => {
+        connection.query(statement, (error: Error | null) =>
+          error ? reject(error) : resolve()
+        );
+      });
+    }
+  }
+
+  /**
+   * Build the TLS options for pg and mysql2 from the configured SSL mode
+   */
+  private static getSslOptions(
+    credentials: DatabaseCredentials
+  ): Record<string, unknown> | undefined {
+    const ssl = credentials.ssl;
+    if (!ssl || ssl.mode === "disable") {
+      return undefined;
+    }
+
+    const pem = {
+      ...(ssl.ca && { ca: ssl.ca }),
+      ...(ssl.cert && { cert: ssl.cert }),
+      ...(ssl.key && { key: ssl.key }),
+    };
+
+    switch (ssl.mode) {
+      case "require":
+        return { ...pem, rejectUnauthorized: false };
+      case "verify-ca":
+        // Trust the chain but skip the host name check
+        return credentials.type === "mysql"
+          ? { ...pem, rejectUnauthorized: true }
+          : { ...pem, rejectUnauthorized: true, checkServerIdentity: () => undefined };
+      case "verify-full":
+        return credentials.type === "mysql"
+          ? { ...pem, rejectUnauthorized: true, verifyIdentity: true }
+          : { ...pem, rejectUnauthorized: true };
+    }
+  }
+
   /**
    * Test database connection for any supported database type
    */
-  static async testConnection(credentials: DatabaseCredentials): Promise<ConnectionResult> {
+  static async testConnection(
+    credentials: DatabaseCredentials
+  ): Promise<ConnectionResult> {
     let testSequelize: Sequelize | null = null;
 
     try {
@@ -151,7 +538,9 @@ export class SequelizeDbManager {
 
       return {
         success: true,
-        message: `Successfully connected to ${credentials.type.toUpperCase()} database: ${credentials.database}`,
+        message: `Successfully connected to ${credentials.type.toUpperCase()} database: ${
+          credentials.database
+        }`,
         connectionId: credentials.id,
       };
     } catch (error: any) {
@@ -170,7 +559,9 @@ export class SequelizeDbManager {
   /**
    * Add a new database connection
    */
-  static async addConnection(credentials: DatabaseCredentials): Promise<ConnectionResult> {
+  static async addConnection(
+    credentials: DatabaseCredentials
+  ): Promise<ConnectionResult> {
     try {
       // First test the connection
       const testResult = await this.testConnection(credentials);
@@ -187,18 +578,32 @@ export class SequelizeDbManager {
       const connection: SequelizeConnection = {
         sequelize,
         credentials,
+        stats: this.createStats(),
       };
 
       // Store connection and session
+      const createdAt = new Date();
       this.connections.set(credentials.id, connection);
       this.sessions.set(credentials.id, {
         id: credentials.id,
         credentials,
-        createdAt: new Date(),
-        lastUsed: new Date(),
+        createdAt,
+        lastUsed: createdAt,
+        status: "connected",
+        healthHistory: [],
       });
 
-      console.log(`✅ Added ${credentials.type.toUpperCase()} connection: ${credentials.id}`);
+      try {
+        await ConnectionStore.save(credentials, createdAt);
+      } catch (storeError) {
+        console.error(`Failed to persist connection ${credentials.id}:`, storeError);
+      }
+
+      console.log(
+        `✅ Added ${credentials.type.toUpperCase()} connection: ${
+          credentials.id
+        }`
+      );
 
       return {
         success: true,
@@ -215,184 +620,1908 @@ export class SequelizeDbManager {
   }
 
   /**
-   * Get table data using Sequelize's universal approach
+   * Update an existing connection in place
+   * The new credentials are tested first; the Sequelize instance is only
+   * swapped once the replacement is authenticated, so running queries keep
+   * using the old pool until it is closed
    */
-  static async getTableData(databaseId: string, tableName: string): Promise<QueryResult> {
-    const connection = this.connections.get(databaseId);
-    if (!connection) {
-      throw new Error(`Database connection not found: ${databaseId}`);
+  static async updateConnection(
+    databaseId: string,
+    updates: DatabaseCredentials
+  ): Promise<ConnectionResult> {
+    const session = this.sessions.get(databaseId);
+    if (!session) {
+      return {
+        success: false,
+        message: `Database connection '${databaseId}' not found`,
+      };
+    }
+    if (session.credentials.isLocal) {
+      return {
+        success: false,
+        message: "The local database is configured through environment variables",
+      };
+    }
+
+    const credentials = this.withStoredSecrets({
+      ...updates,
+      id: databaseId,
+      isLocal: false,
+    });
+
+    const testResult = await this.testConnection(credentials);
+    if (!testResult.success) {
+      return testResult;
     }
 
     try {
-      // Use Sequelize's universal query method - it handles database-specific syntax internally
-      const result = await connection.sequelize.query(
-        `SELECT * FROM ${tableName}`,
-        {
-          type: QueryTypes.SELECT,
-          raw: true,
-        }
-      );
+      const sequelize = this.createSequelizeInstance(credentials);
+      await sequelize.authenticate();
+
+      // Transactions and cursors hold connections from the pool being replaced
+      await this.rollbackTransactions(databaseId);
+      await this.closeCursors(databaseId);
+      const previous = this.connections.get(databaseId);
+      this.connections.set(databaseId, {
+        sequelize,
+        credentials,
+        stats: this.createStats(),
+      });
+      session.credentials = credentials;
+      session.status = "connected";
+      delete session.lastError;
+      this.unrecoverable.delete(databaseId);
+
+      if (previous) {
+        previous.sequelize.close().catch((closeError) => {
+          console.error(`Error closing previous pool for ${databaseId}:`, closeError);
+        });
+      }
+
+      try {
+        await ConnectionStore.save(credentials, session.createdAt);
+      } catch (storeError) {
+        console.error(`Failed to persist connection ${databaseId}:`, storeError);
+      }
 
-      const rows = result as any[];
-      const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+      console.log(
+        `✅ Updated ${credentials.type.toUpperCase()} connection: ${databaseId}`
+      );
 
       return {
-        rows: rows,
-        rowCount: rows.length,
-        columns: columns,
+        success: true,
+        message: `Updated ${credentials.name}`,
+        connectionId: databaseId,
       };
     } catch (error: any) {
-      throw new Error(`Failed to get table data: ${error.message}`);
+      console.error("Error updating database connection:", error);
+      return {
+        success: false,
+        message: this.getErrorMessage(error),
+      };
     }
   }
 
   /**
-   * Execute query on any database type using Sequelize
+   * Fill secrets omitted by the client (the API never returns them)
+   * from the stored credentials of the same connection
+   * Stored secrets are only sent to the server they were saved for.
+   * @throws ValidationError when a secret is omitted but the type, host,
+   * port, database or username changed
    */
-  static async query(
-    sql: string,
-    params: any[] = [],
-    databaseId: string = LOCAL_DB_ID
-  ): Promise<QueryResult> {
-    const connection = this.connections.get(databaseId);
-    if (!connection) {
-      throw new Error(`Database connection not found: ${databaseId}`);
+  static withStoredSecrets(credentials: DatabaseCredentials): DatabaseCredentials {
+    const existing = this.sessions.get(credentials.id)?.credentials;
+    if (existing?.isLocal) {
+      return credentials;
     }
 
-    // Update last used time
-    const session = this.sessions.get(databaseId);
-    if (session) {
-      session.lastUsed = new Date();
+    const reusable =
+      existing && this.sameEndpoint(credentials, existing)
+        ? existing
+        : undefined;
+    if (existing && !reusable && credentials.type !== "sqlite") {
+      const errors: FieldError[] = [];
+      if (!credentials.password && existing.password) {
+        errors.push({
+          field: "password",
+          message: "Enter the password again for the changed connection",
+        });
+      }
+      if (credentials.ssl && credentials.ssl.mode !== "disable") {
+        for (const field of ["ca", "cert", "key"] as const) {
+          if (credentials.ssl[field] === undefined && existing.ssl?.[field]) {
+            errors.push({
+              field: `ssl.${field}`,
+              message: "Enter this again for the changed connection",
+            });
+          }
+        }
+      }
+      if (errors.length > 0) {
+        throw new ValidationError(
+          "Stored secrets are only reused for the same server, database and user",
+          errors
+        );
+      }
+    }
+
+    const ssl = this.mergeSslOptions(credentials.ssl, reusable?.ssl);
+    return {
+      ...credentials,
+      ...(!credentials.password &&
+        reusable?.password !== undefined && { password: reusable.password }),
+      ...(ssl && { ssl }),
+    };
+  }
+
+  // Whether two credentials log in to the same database as the same user
+  private static sameEndpoint(a: DatabaseCredentials, b: DatabaseCredentials): boolean {
+    return (
+      a.type === b.type &&
+      (a.host ?? "") === (b.host ?? "") &&
+      Number(a.port ?? 0) === Number(b.port ?? 0) &&
+      a.database === b.database &&
+      (a.username ?? "") === (b.username ?? "")
+    );
+  }
+
+  /**
+   * Keep stored PEM values that were omitted; an empty string clears one
+   */
+  private static mergeSslOptions(
+    ssl?: SslOptions,
+    existing?: SslOptions
+  ): SslOptions | undefined {
+    if (!ssl || ssl.mode === "disable") {
+      return ssl && { mode: ssl.mode };
+    }
+
+    const merged: SslOptions = { mode: ssl.mode };
+    for (const field of ["ca", "cert", "key"] as const) {
+      const value = ssl[field] ?? existing?.[field];
+      if (value) {
+        merged[field] = value;
+      }
     }
+    return merged;
+  }
+
+  /**
+   * Read one page of a table, filtered and sorted by the database
+   * Without orderBy, rows are sorted by primary key so pages stay stable.
+   * totalRows is counted exactly unless the planner expects more than
+   * EXACT_COUNT_LIMIT matching rows, when its estimate is returned instead.
+   * @throws ValidationError when orderBy or a filter names an unknown column
+   * @throws TableNotFoundError when the table does not exist
+   */
+  static async getTableData(
+    databaseId: string,
+    table: TableReference,
+    options: TableDataOptions = {}
+  ): Promise<TablePage> {
+    const connection = this.getConnection(databaseId);
+    const dialect = getDialectAdapter(connection.credentials.type);
+    const limits = this.getResultLimits(databaseId);
+    const { page = 1, filters = [] } = options;
+    const pageSize = Math.min(
+      options.pageSize ?? DEFAULT_TABLE_PAGE_SIZE,
+      limits.maxRows
+    );
+    const run = this.metadataRunner(connection);
 
     try {
-      // Use Sequelize's query method which handles all database types
-      const result = await connection.sequelize.query(sql, {
-        replacements: params,
-        type: QueryTypes.SELECT,
-        raw: true,
-      });
+      const tableColumns = await dialect.describeColumns(run, table);
+      if (tableColumns.length === 0) {
+        throw new TableNotFoundError(`Table ${this.tableLabel(table)} does not exist`);
+      }
+
+      const select = this.tableSelect(dialect, table, tableColumns, options);
+      const { rows: fetched } = await this.track(connection, () =>
+        this.readRows(connection, `${select.sql} LIMIT ? OFFSET ?`, {
+          replacements: [...select.params, pageSize, (page - 1) * pageSize],
+        })
+      );
 
-      // Extract column names from the first row
-      const rows = result as any[];
-      const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+      const { rows, truncation } = ResultLimiter.apply(fetched, limits);
+      const fields = this.tableFields(table, tableColumns);
+      const count = await this.countTableRows(run, dialect, table, filters);
 
       return {
         rows: rows,
-        rowCount: Array.isArray(rows) ? rows.length : 0,
-        columns: columns,
+        rowCount: rows.length,
+        fields,
+        columns: fields.map((field) => field.name),
+        truncation,
+        page,
+        pageSize,
+        totalRows: count.totalRows,
+        totalRowsEstimated: count.estimated,
+        primaryKey: tableColumns
+          .filter((column) => column.primaryKey)
+          .map((column) => column.name),
       };
     } catch (error: any) {
-      // For non-SELECT queries, try again without QueryTypes.SELECT
-      try {
-        const result = await connection.sequelize.query(sql, {
-          replacements: params,
-          raw: true,
-        });
-
-        // Result format: [results, metadata]
-        const [results, metadata] = result as [any[], any];
-        const resultRows = Array.isArray(results) ? results : [];
-        const columns = resultRows.length > 0 ? Object.keys(resultRows[0]) : [];
-        
-        return {
-          rows: resultRows,
-          rowCount: metadata?.affectedRows || resultRows?.length || 0,
-          columns: columns,
-        };
-      } catch (secondError: any) {
-        throw new Error(`Query execution failed: ${secondError.message}`);
+      if (error instanceof ValidationError || error instanceof TableNotFoundError) {
+        throw error;
       }
+      throw new Error(`Failed to get table data: ${error.message}`);
     }
   }
 
   /**
-   * Get database schema using Sequelize's built-in introspection
+   * Read every row of a table that matches the filters, in the order getTableData() uses
+   * Rows come from a cursor EXPORT_BATCH_SIZE at a time as the batches are
+   * consumed, so the result limits do not apply. The first batch is read
+   * before returning, so a table that cannot be read fails here.
+   * @throws ValidationError when orderBy or a filter names an unknown column
    */
-  static async getDatabaseSchema(databaseId: string): Promise<any[]> {
-    const connection = this.connections.get(databaseId);
-    if (!connection) {
-      throw new Error(`Database connection not found: ${databaseId}`);
+  static async streamTable(
+    databaseId: string,
+    table: TableReference,
+    options: Omit<TableDataOptions, "page" | "pageSize"> = {}
+  ): Promise<RowStream> {
+    const connection = this.getConnection(databaseId);
+    const dialect = getDialectAdapter(connection.credentials.type);
+    const tableColumns = await dialect.describeColumns(
+      this.metadataRunner(connection),
+      table
+    );
+    if (tableColumns.length === 0) {
+      throw new TableNotFoundError(`Table ${this.tableLabel(table)} does not exist`);
     }
 
-    try {
-      const queryInterface = connection.sequelize.getQueryInterface();
-      
-      // Get all table names
-      const tableNames = await queryInterface.showAllTables();
-      
-      const schema = [];
-      
-      for (const tableName of tableNames) {
-        try {
-          // Get table description (columns info)
-          const tableDescription = await queryInterface.describeTable(tableName);
-          
-          // Convert Sequelize format to our expected format
-          const columns = Object.entries(tableDescription).map(([columnName, columnInfo]: [string, any]) => ({
-            column_name: columnName,
-            data_type: columnInfo.type,
-            is_nullable: columnInfo.allowNull ? 'YES' : 'NO',
-            column_default: columnInfo.defaultValue,
-          }));
-
-          schema.push({
-            tableName,
-            columns,
-          });
-        } catch (tableError) {
-          console.warn(`Could not describe table ${tableName}:`, tableError);
-          // Skip this table if we can't describe it
-        }
-      }
+    const select = this.tableSelect(dialect, table, tableColumns, options);
+    const cursor = await this.openCursor(
+      connection,
+      databaseId,
+      select.sql,
+      select.params,
+      {}
+    );
+    const first = await this.readBatch(cursor);
+    return {
+      fields: this.tableFields(table, tableColumns),
+      batches: this.readBatches(cursor, first.rows),
+      close: () => this.closeCursor(cursor),
+    };
+  }
 
-      return schema;
-    } catch (error: any) {
-      throw new Error(`Schema introspection failed: ${error.message}`);
+  /**
+   * Read every row of a single SELECT through a cursor
+   * As with streamTable(), the result limits do not apply.
+   * @throws ValidationError unless the SQL is a single read statement
+   */
+  static async streamQuery(
+    sql: string,
+    params: any[] = [],
+    databaseId: string = LOCAL_DB_ID
+  ): Promise<RowStream> {
+    const connection = this.getConnection(databaseId);
+    const pageable = this.getPageableStatement(sql, connection.credentials.type);
+    if (!pageable) {
+      throw new ValidationError("Only a single SELECT statement can be exported");
     }
+
+    const cursor = await this.openCursor(connection, databaseId, pageable, params, {});
+    const first = await this.readBatch(cursor);
+    const fields =
+      (await this.describeRead(
+        connection,
+        pageable,
+        params,
+        first.fields,
+        cursor.transaction
+      )) ?? this.fieldsFromRows(first.rows);
+    return {
+      fields,
+      batches: this.readBatches(cursor, first.rows),
+      close: () => this.closeCursor(cursor),
+    };
   }
 
   /**
-   * Get all available database sessions
+   * Read up to EXPORT_BATCH_SIZE rows from a cursor, closing it when that fails
    */
-  static getAvailableDatabases(): DatabaseSession[] {
-    return Array.from(this.sessions.values());
+  private static async readBatch(
+    cursor: QueryCursor
+  ): Promise<{ rows: Record<string, any>[]; fields: unknown }> {
+    this.touchSession(cursor.databaseId);
+    try {
+      return await this.supervise(
+        cursor.connection,
+        {},
+        (cursor.transaction as any).connection,
+        () => cursor.rows.read(EXPORT_BATCH_SIZE)
+      );
+    } catch (error) {
+      await this.closeCursor(cursor);
+      throw error;
+    }
   }
 
   /**
-   * Remove database connection
+   * Yield rows a batch at a time, reading the next batch only when asked for it
+   * A batch shorter than EXPORT_BATCH_SIZE is the last one. The cursor is
+   * closed once read to the end or when the consumer stops early.
    */
-  static async removeConnection(databaseId: string): Promise<boolean> {
+  private static async *readBatches(
+    cursor: QueryCursor,
+    first: Record<string, any>[]
+  ): AsyncGenerator<Record<string, any>[]> {
     try {
-      const connection = this.connections.get(databaseId);
-      if (!connection) {
-        return false;
+      let rows = first;
+      while (rows.length > 0) {
+        yield rows;
+        if (rows.length < EXPORT_BATCH_SIZE) {
+          return;
+        }
+        rows = (await this.readBatch(cursor)).rows;
       }
+    } finally {
+      await this.closeCursor(cursor);
+    }
+  }
 
-      // Close Sequelize connection
-      await connection.sequelize.close();
+  /**
+   * Build the SELECT of a table's rows for getTableData() and streamTable()
+   * Without orderBy, rows are sorted by primary key so pages stay stable.
+   * @throws ValidationError when orderBy or a filter names an unknown column
+   */
+  private static tableSelect(
+    dialect: DialectAdapter,
+    table: TableReference,
+    tableColumns: ColumnDescription[],
+    options: Omit<TableDataOptions, "page" | "pageSize">
+  ): ParameterizedQuery {
+    const { direction = "asc", filters = [] } = options;
+    const known = new Set(tableColumns.map((column) => column.name));
+    const errors = [
+      ...(options.orderBy !== undefined && !known.has(options.orderBy)
+        ? [{ field: "orderBy", message: `Unknown column: ${options.orderBy}` }]
+        : []),
+      ...filters.flatMap((filter, index) =>
+        known.has(filter.column)
+          ? []
+          : [
+              {
+                field: `filters[${index}].column`,
+                message: `Unknown column: ${filter.column}`,
+              },
+            ]
+      ),
+    ];
+    if (errors.length > 0) {
+      throw new ValidationError(
+        `Invalid options for table ${this.tableLabel(table)}`,
+        errors
+      );
+    }
 
-      // Remove from maps
-      this.connections.delete(databaseId);
-      this.sessions.delete(databaseId);
+    const orderBy = options.orderBy
+      ? [options.orderBy]
+      : tableColumns
+          .filter((column) => column.primaryKey)
+          .map((column) => column.name);
+    return dialect.buildTableSelect(
+      table,
+      filters,
+      orderBy,
+      options.orderBy ? direction : "asc"
+    );
+  }
 
-      console.log(`✅ Removed database connection: ${databaseId}`);
-      return true;
-    } catch (error) {
-      console.error(`Error removing database connection ${databaseId}:`, error);
-      return false;
+  /**
+   * Count the rows of a table that match every filter
+   * Tables the planner expects to be huge are estimated rather than counted
+   */
+  private static async countTableRows(
+    run: QueryRunner,
+    dialect: DialectAdapter,
+    table: TableReference,
+    filters: TableFilter[]
+  ): Promise<{ totalRows: number; estimated: boolean }> {
+    const select = dialect.buildTableSelect(table, filters, [], "asc");
+    const estimate = await dialect
+      .estimateRowCount(run, select.sql, select.params)
+      .catch(() => null);
+    if (estimate !== null && estimate > EXACT_COUNT_LIMIT) {
+      return { totalRows: Math.round(estimate), estimated: true };
     }
+
+    const count = dialect.buildTableCount(table, filters);
+    const [row] = await run(count.sql, count.params);
+    return { totalRows: Number(row?.count) || 0, estimated: false };
   }
 
   /**
-   * Close all database connections
+   * Update table rows by primary key in a single transaction
+   * A row whose changed columns no longer hold their original values was
+   * changed by someone else since it was read, and nothing is saved.
+   * @returns The number of rows updated
+   * @throws ValidationError when the table has no primary key or a change does
+   * not fit the table
+   * @throws RowConflictError naming the first change whose row was changed or deleted
    */
-  static async closeAllConnections(): Promise<void> {
-    const connectionIds = Array.from(this.connections.keys());
-    
-    for (const connectionId of connectionIds) {
-      try {
-        await this.removeConnection(connectionId);
+  static async updateRows(
+    databaseId: string,
+    table: TableReference,
+    changes: RowUpdate[]
+  ): Promise<number> {
+    const { dialect, columns, keyColumns } = await this.describeEditableTable(
+      databaseId,
+      table
+    );
+
+    const errors = changes.flatMap((change, index) => {
+      const field = `changes[${index}]`;
+      const changed = Object.keys(change.values);
+      return [
+        ...this.checkRowKey(change.key, keyColumns, `${field}.key`),
+        ...(changed.length === 0
+          ? [
+              {
+                field: `${field}.values`,
+                message: "Must change at least one column",
+              },
+            ]
+          : []),
+        ...changed.flatMap((column) =>
+          !columns.has(column)
+            ? [
+                {
+                  field: `${field}.values.${column}`,
+                  message: `Unknown column: ${column}`,
+                },
+              ]
+            : keyColumns.includes(column)
+            ? [
+                {
+                  field: `${field}.values.${column}`,
+                  message: "Primary key columns cannot be changed",
+                },
+              ]
+            : !(column in change.original)
+            ? [
+                {
+                  field: `${field}.original.${column}`,
+                  message: "The value read before the change is required",
+                },
+              ]
+            : []
+        ),
+      ];
+    });
+    if (errors.length > 0) {
+      throw new ValidationError(
+        `Invalid changes to table ${this.tableLabel(table)}`,
+        errors
+      );
+    }
+
+    const statements = changes.map((change): ParameterizedQuery => {
+      const changed = Object.keys(change.values);
+      const parameter = (values: Record<string, unknown>) => (column: string) =>
+        dialect.toParameter(values[column], columns.get(column)!);
+      return {
+        sql: dialect.buildRowUpdate(table, changed, keyColumns, changed),
+        params: [
+          ...changed.map(parameter(change.values)),
+          ...keyColumns.map(parameter(change.key)),
+          ...changed.map(parameter(change.original)),
+        ],
+      };
+    });
+    return this.applyRowChanges(databaseId, statements);
+  }
+
+  /**
+   * Delete table rows by primary key in a single transaction
+   * Rows given with original values are only deleted while they still hold them.
+   * @returns The number of rows deleted
+   * @throws ValidationError when the table has no primary key or a row does
+   * not fit the table
+   * @throws RowConflictError naming the first row that was changed or already deleted
+   */
+  static async deleteRows(
+    databaseId: string,
+    table: TableReference,
+    rows: RowDeletion[]
+  ): Promise<number> {
+    const { dialect, columns, keyColumns } = await this.describeEditableTable(
+      databaseId,
+      table
+    );
+    const expected = (row: RowDeletion) =>
+      Object.keys(row.original ?? {}).filter(
+        (column) => !keyColumns.includes(column)
+      );
+
+    const errors = rows.flatMap((row, index) => [
+      ...this.checkRowKey(row.key, keyColumns, `rows[${index}].key`),
+      ...expected(row).flatMap((column) =>
+        columns.has(column)
+          ? []
+          : [
+              {
+                field: `rows[${index}].original.${column}`,
+                message: `Unknown column: ${column}`,
+              },
+            ]
+      ),
+    ]);
+    if (errors.length > 0) {
+      throw new ValidationError(
+        `Invalid rows of table ${this.tableLabel(table)}`,
+        errors
+      );
+    }
+
+    const statements = rows.map((row): ParameterizedQuery => {
+      const checked = expected(row);
+      return {
+        sql: dialect.buildRowDelete(table, keyColumns, checked),
+        params: [
+          ...keyColumns.map((column) =>
+            dialect.toParameter(row.key[column], columns.get(column)!)
+          ),
+          ...checked.map((column) =>
+            dialect.toParameter(row.original![column], columns.get(column)!)
+          ),
+        ],
+      };
+    });
+    return this.applyRowChanges(databaseId, statements);
+  }
+
+  /**
+   * Describe a table whose rows are about to be changed
+   * @throws ValidationError when the table has no primary key to find rows by
+   */
+  private static async describeEditableTable(
+    databaseId: string,
+    table: TableReference
+  ): Promise<EditableTable> {
+    const connection = this.getConnection(databaseId);
+    const dialect = getDialectAdapter(connection.credentials.type);
+
+    const tableColumns = await dialect.describeColumns(
+      this.metadataRunner(connection),
+      table
+    );
+    if (tableColumns.length === 0) {
+      throw new TableNotFoundError(`Table ${this.tableLabel(table)} does not exist`);
+    }
+    const keyColumns = tableColumns
+      .filter((column) => column.primaryKey)
+      .map((column) => column.name);
+    if (keyColumns.length === 0) {
+      throw new ValidationError(
+        `Table ${this.tableLabel(
+          table
+        )} has no primary key, so its rows are read-only`
+      );
+    }
+    return {
+      dialect,
+      columns: new Map(tableColumns.map((column) => [column.name, column])),
+      keyColumns,
+    };
+  }
+
+  /**
+   * Run introspection reads on a connection, outside any transaction
+   */
+  private static metadataRunner(connection: SequelizeConnection): QueryRunner {
+    return async (sql, params = []) =>
+      (
+        await this.track(connection, () =>
+          this.readRows(connection, sql, { replacements: params })
+        )
+      ).rows;
+  }
+
+  /**
+   * "billing.invoices", or just the name for tables in the current schema
+   */
+  private static tableLabel(table: TableReference): string {
+    return table.schema ? `${table.schema}.${table.name}` : table.name;
+  }
+
+  /**
+   * Check that a row key names every primary key column and nothing else
+   */
+  private static checkRowKey(
+    key: Record<string, unknown>,
+    keyColumns: string[],
+    field: string
+  ): FieldError[] {
+    return [
+      ...keyColumns
+        .filter((column) => key[column] === undefined || key[column] === null)
+        .map((column) => ({
+          field: `${field}.${column}`,
+          message: "A primary key value is required",
+        })),
+      ...Object.keys(key)
+        .filter((column) => !keyColumns.includes(column))
+        .map((column) => ({
+          field: `${field}.${column}`,
+          message: "Not a primary key column",
+        })),
+    ];
+  }
+
+  /**
+   * Run single-row statements in one transaction, rolling all of them back
+   * as soon as one matches no row
+   */
+  private static async applyRowChanges(
+    databaseId: string,
+    statements: ParameterizedQuery[]
+  ): Promise<number> {
+    const { transactionId } = await this.beginTransaction(databaseId);
+    try {
+      for (const [index, statement] of statements.entries()) {
+        const result = await this.runStatement(
+          statement.sql,
+          statement.params,
+          databaseId,
+          { transactionId }
+        );
+        if (!result.affectedRows) {
+          throw new RowConflictError(
+            `Row ${index + 1} was changed or deleted since it was read`,
+            index
+          );
+        }
+      }
+      await this.commitTransaction(transactionId, databaseId);
+      return statements.length;
+    } catch (error) {
+      await this.rollbackTransaction(transactionId, databaseId).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Execute query on any database type using Sequelize
+   * Queries are cancelled once they run past the connection's statementTimeout
+   * or the shorter timeout requested in options. With a pageSize, a single
+   * SELECT returns its first page and a cursor for the rest; statements in a
+   * transaction are not paged, as later pages would be read outside it.
+   */
+  static async query(
+    sql: string,
+    params: any[] = [],
+    databaseId: string = LOCAL_DB_ID,
+    options: QueryExecutionOptions = {}
+  ): Promise<QueryResult> {
+    const { pageSize, ...execution } = options;
+    const connection = this.getConnection(databaseId);
+    const pageable =
+      pageSize &&
+      !execution.transactionId &&
+      this.getCursorLimit(connection, databaseId) > 0
+        ? this.getPageableStatement(sql, connection.credentials.type)
+        : null;
+    if (!pageSize || !pageable) {
+      return this.limitResult(
+        await this.runDescribed(sql, params, databaseId, execution),
+        databaseId
+      );
+    }
+
+    const cursor = await this.openCursor(
+      connection,
+      databaseId,
+      pageable,
+      params,
+      execution
+    );
+    const page = await this.readPage(cursor, pageSize, execution);
+    if (!page.hasMore) {
+      return { ...page, estimatedTotalRows: page.truncation ? null : page.rows.length };
+    }
+
+    cursor.estimatedTotalRows = await this.estimateRowCount(cursor);
+    this.cursors.set(cursor.id, cursor);
+    cursor.idleTimer = this.scheduleCursorExpiry(cursor.id);
+    return {
+      ...page,
+      cursorId: cursor.id,
+      estimatedTotalRows: cursor.estimatedTotalRows,
+    };
+  }
+
+  /**
+   * Fetch the next page from a cursor opened by query()
+   * @returns null when the cursor does not exist or has expired
+   */
+  static async fetchPage(
+    cursorId: string,
+    pageSize: number,
+    options: Omit<QueryExecutionOptions, "pageSize"> = {}
+  ): Promise<QueryResult | null> {
+    const cursor = this.cursors.get(cursorId);
+    if (!cursor) {
+      return null;
+    }
+
+    // Re-inserting keeps the map ordered from least to most recently read
+    this.cursors.delete(cursorId);
+    this.cursors.set(cursorId, cursor);
+    clearTimeout(cursor.idleTimer!);
+    cursor.idleTimer = this.scheduleCursorExpiry(cursorId);
+    const page = await this.readPage(cursor, pageSize, options);
+    return {
+      ...page,
+      cursorId: page.hasMore ? cursorId : null,
+      estimatedTotalRows: cursor.estimatedTotalRows,
+    };
+  }
+
+  /**
+   * Read the next page from a cursor; one row read ahead tells whether more follow
+   * Pages never exceed maxRows, and maxBytes shortens them instead of dropping
+   * rows. Only a row too large to send on its own ends the cursor as truncated.
+   * The cursor is closed once it has no more rows or a read fails.
+   */
+  private static async readPage(
+    cursor: QueryCursor,
+    pageSize: number,
+    options: QueryExecutionOptions
+  ): Promise<QueryResult> {
+    const limits = this.getResultLimits(cursor.databaseId);
+    const size = Math.min(pageSize, limits.maxRows);
+    const wanted = size + 1 - cursor.pending.length;
+    this.touchSession(cursor.databaseId);
+    let queryId: string | undefined;
+    let read: { rows: Record<string, any>[]; fields: unknown } = {
+      rows: [],
+      fields: null,
+    };
+    try {
+      if (wanted > 0) {
+        read = await this.supervise(
+          cursor.connection,
+          options,
+          (cursor.transaction as any).connection,
+          (id) => {
+            queryId = id;
+            return cursor.rows.read(wanted);
+          }
+        );
+      }
+    } catch (error) {
+      await this.closeCursor(cursor);
+      throw error;
+    }
+
+    const available = [...cursor.pending, ...read.rows];
+    const { rows, truncation } = ResultLimiter.apply(available.slice(0, size), limits);
+    const stuck = truncation !== null && rows.length === 0;
+    cursor.pending = stuck ? [] : available.slice(rows.length);
+    const hasMore = cursor.pending.length > 0;
+    if (!cursor.fields) {
+      cursor.fields =
+        (await this.describeRead(
+          cursor.connection,
+          cursor.sql,
+          cursor.params,
+          read.fields,
+          cursor.transaction
+        )) ?? this.fieldsFromRows(available);
+    }
+    if (!hasMore) {
+      await this.closeCursor(cursor);
+    }
+
+    return {
+      ...(queryId && { queryId }),
+      statementType: "read",
+      command: SqlClassifier.classify(
+        cursor.sql,
+        cursor.connection.credentials.type
+      ).command,
+      rows,
+      rowCount: rows.length,
+      fields: cursor.fields,
+      columns: cursor.fields.map((field) => field.name),
+      returnedRows: rows.length,
+      hasMore,
+      cursorId: null,
+      truncation: stuck ? truncation : null,
+      totalRows: null,
+    };
+  }
+
+  /**
+   * Show how the database runs a single statement, with warnings on the costly parts
+   * ANALYZE really runs the statement, so writes are only analyzed when
+   * rollback is set; they then run in a transaction that is rolled back.
+   * @throws ValidationError when the request cannot be explained as asked
+   */
+  static async explain(
+    sql: string,
+    params: any[] = [],
+    databaseId: string = LOCAL_DB_ID,
+    options: ExplainOptions = {}
+  ): Promise<ExplainResult> {
+    const { analyze = false, rollback = false, ...execution } = options;
+    const { credentials } = this.getConnection(databaseId);
+    const dialect = getDialectAdapter(credentials.type);
+
+    const statements = SqlClassifier.split(sql, credentials.type);
+    if (statements.length !== 1) {
+      throw new ValidationError("EXPLAIN takes exactly one statement");
+    }
+    if (analyze && !dialect.supportsExplainAnalyze) {
+      throw new ValidationError(
+        `ANALYZE is not supported on ${credentials.type} connections`
+      );
+    }
+
+    const rollsBack =
+      analyze && SqlClassifier.classify(sql, credentials.type).type !== "read";
+    if (rollsBack && !rollback) {
+      throw new ValidationError(
+        "ANALYZE runs the statement; set rollback to analyze writes"
+      );
+    }
+    if (rollsBack && execution.transactionId) {
+      throw new ValidationError("Writes cannot be analyzed inside an open transaction");
+    }
+
+    const transactionId = rollsBack
+      ? (await this.beginTransaction(databaseId)).transactionId
+      : execution.transactionId;
+    const run: QueryRunner = async (explainSql, explainParams = []) =>
+      (
+        await this.runStatement(explainSql, explainParams, databaseId, {
+          ...execution,
+          ...(transactionId && { transactionId }),
+        })
+      ).rows;
+
+    try {
+      const plan = await dialect.explain(run, statements[0]!, params, analyze);
+      return { plan: QueryPlan.annotate(plan), analyzed: analyze, rolledBack: rollsBack };
+    } finally {
+      if (rollsBack) {
+        await this.rollbackTransaction(transactionId!, databaseId);
+      }
+    }
+  }
+
+  /**
+   * Drop rows past the connection's result limits
+   */
+  private static limitResult(
+    result: QueryResult,
+    databaseId: string
+  ): QueryResult {
+    const { rows, truncation } = ResultLimiter.apply(
+      result.rows,
+      this.getResultLimits(databaseId)
+    );
+    return {
+      ...result,
+      rows,
+      ...(result.statementType === "read" && { rowCount: rows.length }),
+      returnedRows: rows.length,
+      truncation,
+      totalRows: result.rows.length,
+    };
+  }
+
+  /**
+   * Row and byte limits for responses from a connection
+   */
+  static getResultLimits(databaseId: string): Required<ResultLimits> {
+    const session = this.sessions.get(databaseId);
+    if (!session) {
+      throw new Error(`Database connection not found: ${databaseId}`);
+    }
+    return { ...DEFAULT_RESULT_LIMITS, ...session.credentials.limits };
+  }
+
+  /**
+   * Ask the database how many rows a paged statement returns in total
+   * Estimates are best effort and never fail the query
+   */
+  private static async estimateRowCount(cursor: QueryCursor): Promise<number | null> {
+    try {
+      return await getDialectAdapter(
+        cursor.connection.credentials.type
+      ).estimateRowCount(
+        async (sql, params = []) =>
+          (
+            await this.runStatement(sql, params, cursor.databaseId)
+          ).rows,
+        cursor.sql,
+        cursor.params
+      );
+    } catch (error: any) {
+      console.warn(`Could not estimate result size: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * The statement text when the SQL is a single SELECT that can be paged
+   */
+  private static getPageableStatement(
+    sql: string,
+    type: DatabaseCredentials["type"]
+  ): string | null {
+    const statements = SqlClassifier.split(sql, type);
+    const { type: statementType, command } = SqlClassifier.classify(sql, type);
+    if (
+      statements.length !== 1 ||
+      statementType !== "read" ||
+      !PAGEABLE_COMMANDS.has(command)
+    ) {
+      return null;
+    }
+    return statements[0]!;
+  }
+
+  /**
+   * Start a single read statement on a connection held until the cursor is closed
+   * Cursors and transactions leave one pooled connection for everything
+   * else, so opening a cursor past that closes the least recently read.
+   */
+  private static async openCursor(
+    connection: SequelizeConnection,
+    databaseId: string,
+    sql: string,
+    params: any[],
+    options: QueryExecutionOptions
+  ): Promise<QueryCursor> {
+    const { credentials } = connection;
+    if (credentials.readOnly && !SqlClassifier.isReadOnly(sql, credentials.type)) {
+      throw new ReadOnlyError(
+        `Database connection '${databaseId}' is read-only. ` +
+          "Only SELECT, SHOW, EXPLAIN and similar read statements are allowed."
+      );
+    }
+
+    await this.closeOldestCursors(
+      databaseId,
+      this.getCursorLimit(connection, databaseId) - 1
+    );
+
+    const dialect = getDialectAdapter(credentials.type);
+    const transaction = await this.startTransaction(connection);
+    const driverConnection = (transaction as any).connection;
+    try {
+      const rows = await this.supervise(connection, options, driverConnection, () =>
+        dialect.openCursor({
+          sql,
+          params,
+          connection: driverConnection,
+          run: this.directRunner(connection, transaction),
+          cancel: () => this.stopOnDriverConnection(connection, driverConnection),
+          idleTimeoutMs: CURSOR_IDLE_TIMEOUT,
+        })
+      );
+      return {
+        id: randomUUID(),
+        databaseId,
+        connection,
+        transaction,
+        rows,
+        sql,
+        params,
+        pending: [],
+        fields: null,
+        estimatedTotalRows: null,
+        idleTimer: null,
+        closed: false,
+      };
+    } catch (error) {
+      await transaction.rollback().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop reading a cursor and give its connection back to the pool
+   */
+  private static async closeCursor(cursor: QueryCursor): Promise<void> {
+    if (cursor.closed) {
+      return;
+    }
+    cursor.closed = true;
+    clearTimeout(cursor.idleTimer ?? undefined);
+    this.cursors.delete(cursor.id);
+    try {
+      await cursor.rows.close();
+    } catch (error: any) {
+      console.warn(`Could not close cursor ${cursor.id}: ${error.message}`);
+    }
+    // The statement only read, so there is nothing to keep
+    await this.track(cursor.connection, () =>
+      cursor.transaction.rollback()
+    ).catch((error) =>
+      console.error(
+        `Failed to end the transaction of cursor ${cursor.id}:`,
+        error
+      )
+    );
+  }
+
+  /**
+   * Close every cursor on a connection before its pool goes away
+   */
+  private static async closeCursors(databaseId: string): Promise<void> {
+    for (const cursor of Array.from(this.cursors.values())) {
+      if (cursor.databaseId === databaseId) {
+        await this.closeCursor(cursor);
+      }
+    }
+  }
+
+  private static scheduleCursorExpiry(cursorId: string): NodeJS.Timeout {
+    const timer = setTimeout(() => {
+      const cursor = this.cursors.get(cursorId);
+      if (cursor) {
+        this.closeCursor(cursor).catch((error) =>
+          console.error(`Failed to close cursor ${cursorId}:`, error)
+        );
+      }
+    }, CURSOR_IDLE_TIMEOUT);
+    // Open cursors should not keep the process alive
+    timer.unref();
+    return timer;
+  }
+
+  /**
+   * How many cursors a connection can hold open: all but one of its pooled
+   * connections, less those its open transactions hold
+   */
+  private static getCursorLimit(
+    connection: SequelizeConnection,
+    databaseId: string
+  ): number {
+    const max = connection.credentials.pool?.max ?? DEFAULT_POOL_OPTIONS.max;
+    const transactions = Array.from(this.transactions.values()).filter(
+      (open) => open.databaseId === databaseId
+    );
+    return max - 1 - transactions.length;
+  }
+
+  /**
+   * Close the least recently read cursors of a connection until `keep` remain
+   */
+  private static async closeOldestCursors(
+    databaseId: string,
+    keep: number
+  ): Promise<void> {
+    const open = Array.from(this.cursors.values()).filter(
+      (cursor) => cursor.databaseId === databaseId
+    );
+    for (const cursor of open.slice(0, Math.max(0, open.length - keep))) {
+      await this.closeCursor(cursor);
+    }
+  }
+
+  /**
+   * Run SQL as given, tracking it so it can be cancelled or time out
+   */
+  private static async runStatement(
+    sql: string,
+    params: any[],
+    databaseId: string,
+    options: QueryExecutionOptions = {}
+  ): Promise<QueryResult> {
+    const open = options.transactionId
+      ? this.useTransaction(options.transactionId, databaseId)
+      : null;
+    const connection = open?.connection ?? this.getConnection(databaseId);
+    const { credentials } = connection;
+
+    if (credentials.readOnly && !SqlClassifier.isReadOnly(sql, credentials.type)) {
+      throw new ReadOnlyError(
+        `Database connection '${databaseId}' is read-only. ` +
+          "Only SELECT, SHOW, EXPLAIN and similar read statements are allowed."
+      );
+    }
+
+    if (open && SqlClassifier.controlsTransaction(sql, credentials.type)) {
+      // Sequelize would keep using a connection whose transaction has ended
+      throw new ValidationError(
+        "Use commit or rollback to finish the transaction"
+      );
+    }
+    if (SqlClassifier.controlsTransaction(sql, credentials.type)) {
+      // The pooled connection would carry the transaction to other requests
+      throw new ValidationError(
+        "Begin a transaction instead of running BEGIN, COMMIT or ROLLBACK"
+      );
+    }
+
+    const statement = SqlClassifier.classify(sql, credentials.type);
+
+    // Sequelize hooks record the driver connection once the query has one
+    return this.supervise(connection, options, null, async (queryId) => {
+      const result = await this.execute(
+        connection,
+        sql,
+        params,
+        statement,
+        queryId,
+        open?.transaction
+      );
+      return { queryId, ...result };
+    });
+  }
+
+  /**
+   * Run a query so it can be cancelled, cancelling it once it runs past its timeout
+   * @param driverConnection - The connection the query runs on, when already known
+   */
+  private static async supervise<T>(
+    connection: SequelizeConnection,
+    options: QueryExecutionOptions,
+    driverConnection: unknown,
+    run: (queryId: string) => Promise<T>
+  ): Promise<T> {
+    const queryId = options.queryId ?? randomUUID();
+    if (this.running.has(queryId)) {
+      throw new Error(`Query ${queryId} is already running`);
+    }
+
+    const timeoutMs = this.getTimeout(connection.credentials, options.timeoutMs);
+    const running: RunningQuery = { connection, driverConnection, outcome: null };
+    this.running.set(queryId, running);
+    const timer = timeoutMs
+      ? setTimeout(() => {
+          this.cancelQuery(queryId, "timeout").catch((error) =>
+            console.error(`Failed to cancel query ${queryId}:`, error)
+          );
+        }, timeoutMs)
+      : null;
+
+    try {
+      return await this.track(connection, async () => {
+        try {
+          return await run(queryId);
+        } catch (error: any) {
+          if (running.outcome === "cancelled") {
+            throw new QueryCancelledError(`Query ${queryId} was cancelled`);
+          }
+          // The database may enforce statementTimeout before our timer fires
+          if (
+            running.outcome === "timeout" ||
+            /statement timeout|maximum statement execution time/i.test(
+              error.message
+            )
+          ) {
+            throw new QueryTimeoutError(
+              `Query timed out after ${timeoutMs}ms`,
+              timeoutMs
+            );
+          }
+          throw new Error(`Query execution failed: ${error.message}`);
+        }
+      });
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      this.running.delete(queryId);
+    }
+  }
+
+  /**
+   * Cancel a running query
+   * @returns false when no query with that id is running
+   */
+  static async cancelQuery(
+    queryId: string,
+    outcome: "cancelled" | "timeout" = "cancelled"
+  ): Promise<boolean> {
+    const running = this.running.get(queryId);
+    if (!running) {
+      return false;
+    }
+    if (running.outcome) {
+      return true; // Already being cancelled
+    }
+
+    running.outcome = outcome;
+    // Queries still waiting for a pool connection stop when they get one
+    if (running.driverConnection) {
+      await this.stopOnDriverConnection(running.connection, running.driverConnection);
+    }
+    return true;
+  }
+
+  /**
+   * Stop whatever runs on a driver connection from a connection of its own
+   * The pool may be taken up by the very queries being stopped, so the
+   * statement that stops them would wait for one. The connection is only
+   * opened when the dialect runs SQL to stop a query, and closed afterwards.
+   */
+  private static async stopOnDriverConnection(
+    connection: SequelizeConnection,
+    driverConnection: unknown
+  ): Promise<void> {
+    const { credentials } = connection;
+    let dedicated = null as Sequelize | null;
+    const run: QueryRunner = async (sql, params = []) => {
+      dedicated ??= this.createSequelizeInstance({
+        ...credentials,
+        pool: { ...credentials.pool, max: 1 },
+      });
+      const [rows] = (await dedicated.query(sql, {
+        replacements: params,
+        type: QueryTypes.RAW,
+        raw: true,
+      })) as [unknown, unknown];
+      return Array.isArray(rows) ? (rows as Record<string, any>[]) : [];
+    };
+    try {
+      await getDialectAdapter(credentials.type).cancelQuery(driverConnection, run);
+    } finally {
+      await dedicated?.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Start a transaction on a connection taken from the pool and held until
+   * commitTransaction() or rollbackTransaction(), or until it sits unused for
+   * TRANSACTION_IDLE_TIMEOUT_MS (default 5 minutes) and is rolled back
+   */
+  static async beginTransaction(
+    databaseId: string
+  ): Promise<{ transactionId: string; idleTimeoutMs: number }> {
+    const connection = this.getConnection(databaseId);
+    // The transaction's connection comes out of the cursors' share
+    await this.closeOldestCursors(
+      databaseId,
+      this.getCursorLimit(connection, databaseId) - 1
+    );
+    const transaction = await this.startTransaction(connection);
+    const transactionId = randomUUID();
+    const idleTimeoutMs = this.getTransactionIdleTimeout();
+    this.transactions.set(transactionId, {
+      databaseId,
+      connection,
+      transaction,
+      idleTimer: this.scheduleIdleRollback(transactionId, idleTimeoutMs),
+    });
+    return { transactionId, idleTimeoutMs };
+  }
+
+  /**
+   * Take a connection from the pool for a transaction, read-only on read-only connections
+   */
+  private static async startTransaction(
+    connection: SequelizeConnection
+  ): Promise<Transaction> {
+    const { sequelize, credentials } = connection;
+    const transaction = await this.track(connection, () => sequelize.transaction());
+
+    if (credentials.readOnly && credentials.type === "postgresql") {
+      try {
+        await sequelize.query("SET TRANSACTION READ ONLY", { transaction });
+      } catch (error) {
+        await transaction.rollback().catch(() => undefined);
+        throw error;
+      }
+    }
+    return transaction;
+  }
+
+  /**
+   * Commit a transaction opened by beginTransaction()
+   * @returns false when the transaction does not exist or has expired
+   */
+  static async commitTransaction(
+    transactionId: string,
+    databaseId: string
+  ): Promise<boolean> {
+    return this.finishTransaction(transactionId, databaseId, "commit");
+  }
+
+  /**
+   * Roll back a transaction opened by beginTransaction()
+   * @returns false when the transaction does not exist or has expired
+   */
+  static async rollbackTransaction(
+    transactionId: string,
+    databaseId: string
+  ): Promise<boolean> {
+    return this.finishTransaction(transactionId, databaseId, "rollback");
+  }
+
+  private static async finishTransaction(
+    transactionId: string,
+    databaseId: string,
+    action: "commit" | "rollback"
+  ): Promise<boolean> {
+    const open = this.transactions.get(transactionId);
+    if (!open || open.databaseId !== databaseId) {
+      return false;
+    }
+
+    // Forget it first so no further statements are sent to it
+    clearTimeout(open.idleTimer);
+    this.transactions.delete(transactionId);
+    await this.track(open.connection, () => open.transaction[action]());
+    return true;
+  }
+
+  /**
+   * Look up an open transaction for a statement and restart its idle timer
+   */
+  private static useTransaction(
+    transactionId: string,
+    databaseId: string
+  ): OpenTransaction {
+    const open = this.transactions.get(transactionId);
+    if (!open || open.databaseId !== databaseId) {
+      throw new TransactionNotFoundError(
+        `Transaction ${transactionId} not found or expired`
+      );
+    }
+
+    clearTimeout(open.idleTimer);
+    open.idleTimer = this.scheduleIdleRollback(
+      transactionId,
+      this.getTransactionIdleTimeout()
+    );
+    this.touchSession(databaseId);
+    return open;
+  }
+
+  /**
+   * Mark a connection as used, so the idle TTL does not close its pool
+   */
+  private static touchSession(databaseId: string): void {
+    const session = this.sessions.get(databaseId);
+    if (session) {
+      session.lastUsed = new Date();
+    }
+  }
+
+  private static scheduleIdleRollback(
+    transactionId: string,
+    idleTimeoutMs: number
+  ): NodeJS.Timeout {
+    const timer = setTimeout(() => {
+      const open = this.transactions.get(transactionId);
+      if (open) {
+        console.warn(`⏱️ Rolling back idle transaction ${transactionId}`);
+        this.finishTransaction(
+          transactionId,
+          open.databaseId,
+          "rollback"
+        ).catch((error) =>
+          console.error(
+            `Failed to roll back transaction ${transactionId}:`,
+            error
+          )
+        );
+      }
+    }, idleTimeoutMs);
+    // Open transactions should not keep the process alive
+    timer.unref();
+    return timer;
+  }
+
+  private static getTransactionIdleTimeout(): number {
+    return (
+      parseInt(process.env.TRANSACTION_IDLE_TIMEOUT_MS || "") ||
+      DEFAULT_TRANSACTION_IDLE_TIMEOUT
+    );
+  }
+
+  /**
+   * Roll back every open transaction on a connection before its pool goes away
+   */
+  private static async rollbackTransactions(databaseId: string): Promise<void> {
+    for (const [transactionId, open] of Array.from(this.transactions)) {
+      if (open.databaseId === databaseId) {
+        await this.finishTransaction(
+          transactionId,
+          databaseId,
+          "rollback"
+        ).catch((error) =>
+          console.error(
+            `Failed to roll back transaction ${transactionId}:`,
+            error
+          )
+        );
+      }
+    }
+  }
+
+  /**
+   * Check whether a connection has a transaction, cursor or query open
+   */
+  private static isInUse(databaseId: string): boolean {
+    const owned = (item: { databaseId: string }) =>
+      item.databaseId === databaseId;
+    return (
+      Array.from(this.transactions.values()).some(owned) ||
+      Array.from(this.cursors.values()).some(owned) ||
+      Array.from(this.running.values()).some(
+        (running) => running.connection.credentials.id === databaseId
+      )
+    );
+  }
+
+  /**
+   * Check whether a query id belongs to a running query
+   */
+  static isQueryRunning(queryId: string): boolean {
+    return this.running.has(queryId);
+  }
+
+  /**
+   * Record the driver connection a tracked query runs on, or clear it once the query ends
+   */
+  private static attachRunningQuery(
+    options: TrackedQueryOptions,
+    driverConnection: unknown
+  ): void {
+    const running = options.queryId
+      ? this.running.get(options.queryId)
+      : undefined;
+    if (!running) {
+      return;
+    }
+    if (driverConnection && running.outcome) {
+      throw new Error("Query was stopped before it started");
+    }
+    running.driverConnection = driverConnection;
+  }
+
+  /**
+   * The shorter of the connection's statement timeout and the requested one
+   */
+  private static getTimeout(
+    credentials: DatabaseCredentials,
+    requested?: number
+  ): number | undefined {
+    const limits = [credentials.pool?.statementTimeout, requested].filter(
+      (limit): limit is number => typeof limit === "number" && limit > 0
+    );
+    return limits.length > 0 ? Math.min(...limits) : undefined;
+  }
+
+  /**
+   * Run a classified statement on the execution path that suits it
+   */
+  private static async execute(
+    connection: SequelizeConnection,
+    sql: string,
+    params: any[],
+    statement: StatementInfo,
+    queryId: string,
+    transaction?: Transaction
+  ): Promise<QueryResult> {
+    const { credentials } = connection;
+
+    if (statement.type === "read") {
+      const { rows, driverFields } = await this.readRows(connection, sql, {
+        replacements: params,
+        queryId,
+        ...(transaction && { transaction }),
+      });
+
+      return {
+        rows: rows,
+        driverFields,
+        rowCount: rows.length,
+        columns: rows.length > 0 ? Object.keys(rows[0]) : [],
+        statementType: statement.type,
+        command: statement.command,
+        returnedRows: rows.length,
+      };
+    }
+
+    // SQLite only reports changed rows for statements Sequelize treats as bulk updates
+    if (
+      credentials.type === "sqlite" &&
+      statement.type === "dml" &&
+      !statement.returnsRows
+    ) {
+      const changes = (await this.runQuery(connection, sql, {
+        replacements: params,
+        type: QueryTypes.BULKUPDATE,
+        raw: true,
+        queryId,
+        ...(transaction && { transaction }),
+      })) as number;
+
+      return {
+        rows: [],
+        rowCount: changes,
+        columns: [],
+        statementType: statement.type,
+        command: statement.command,
+        affectedRows: changes,
+        returnedRows: 0,
+      };
+    }
+
+    // Result format: [results, metadata]
+    const [results, metadata] = (await this.runQuery(connection, sql, {
+      replacements: params,
+      type: QueryTypes.RAW,
+      raw: true,
+      queryId,
+      ...(transaction && { transaction }),
+    })) as [unknown, unknown];
+    const rows = Array.isArray(results) ? results : [];
+    const affectedRows =
+      statement.type === "dml"
+        ? this.countAffectedRows(credentials.type, metadata) ?? rows.length
+        : undefined;
+
+    return {
+      rows: rows,
+      rowCount: affectedRows ?? rows.length,
+      columns: rows.length > 0 ? Object.keys(rows[0]) : [],
+      statementType: statement.type,
+      command: statement.command,
+      ...(affectedRows !== undefined && { affectedRows }),
+      returnedRows: rows.length,
+    };
+  }
+
+  /**
+   * Run a read and keep the field metadata its driver returns
+   * Only PostgreSQL passes field metadata on, and only for raw queries
+   */
+  private static async readRows(
+    connection: SequelizeConnection,
+    sql: string,
+    options: TrackedQueryOptions
+  ): Promise<{ rows: any[]; driverFields: unknown }> {
+    if (connection.credentials.type !== "postgresql") {
+      const rows = (await this.runQuery(connection, sql, {
+        ...options,
+        type: QueryTypes.SELECT,
+        raw: true,
+      })) as any[];
+      return { rows, driverFields: null };
+    }
+
+    const [rows, metadata] = (await this.runQuery(connection, sql, {
+      ...options,
+      type: QueryTypes.RAW,
+      raw: true,
+    })) as [unknown, { fields?: unknown } | undefined];
+    return {
+      rows: Array.isArray(rows) ? rows : [],
+      driverFields: metadata?.fields ?? null,
+    };
+  }
+
+  /**
+   * Run a statement and describe the columns of its result
+   */
+  private static async runDescribed(
+    sql: string,
+    params: any[],
+    databaseId: string,
+    options: QueryExecutionOptions
+  ): Promise<QueryResult> {
+    const { driverFields, ...result } = await this.runStatement(
+      sql,
+      params,
+      databaseId,
+      options
+    );
+    const open = options.transactionId
+      ? this.transactions.get(options.transactionId)
+      : undefined;
+    const described =
+      result.statementType === "read"
+        ? await this.describeRead(
+            open?.connection ?? this.getConnection(databaseId),
+            sql,
+            params,
+            driverFields,
+            open?.transaction
+          )
+        : null;
+    const fields = described ?? this.fieldsFromRows(result.rows);
+    return { ...result, fields, columns: fields.map((field) => field.name) };
+  }
+
+  /**
+   * Describe the columns of a single read statement from driver metadata
+   * Dialects whose driver sent none describe the statement again, on the
+   * transaction's connection when there is one. Descriptions are best effort
+   * and never fail the query.
+   * @returns null when the database cannot tell
+   */
+  private static async describeRead(
+    connection: SequelizeConnection,
+    sql: string,
+    params: any[],
+    driverFields: unknown,
+    transaction?: Transaction
+  ): Promise<ResultColumn[] | null> {
+    const { sequelize, credentials } = connection;
+    const statements = SqlClassifier.split(sql, credentials.type);
+    if (statements.length !== 1) {
+      return null;
+    }
+
+    const withConnection = async <T>(
+      use: (driverConnection: any) => Promise<T>
+    ): Promise<T> => {
+      if (transaction) {
+        return use((transaction as any).connection);
+      }
+      const manager = sequelize.connectionManager as any;
+      const driverConnection = await manager.getConnection({ type: "read" });
+      try {
+        return await use(driverConnection);
+      } finally {
+        manager.releaseConnection(driverConnection);
+      }
+    };
+
+    try {
+      return await getDialectAdapter(credentials.type).describeResult({
+        sql: statements[0]!,
+        params,
+        fields: driverFields,
+        run: this.directRunner(connection, transaction),
+        withConnection,
+      });
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Result columns of a table read, as the table declares them
+   */
+  private static tableFields(
+    table: TableReference,
+    tableColumns: ColumnDescription[]
+  ): ResultColumn[] {
+    return tableColumns.map((column) => ({
+      name: column.name,
+      dataType: column.dataType,
+      nullable: column.nullable,
+      table: table.name,
+    }));
+  }
+
+  /**
+   * Columns named after the keys of the first row, with nothing else known
+   */
+  private static fieldsFromRows(rows: any[]): ResultColumn[] {
+    return Object.keys(rows[0] ?? {}).map((name) => ({
+      name,
+      dataType: null,
+      nullable: null,
+      table: null,
+    }));
+  }
+
+  /**
+   * Run SQL the manager issues itself straight on a connection, outside
+   * tracking and read-only checks
+   */
+  private static directRunner(
+    connection: SequelizeConnection,
+    transaction?: Transaction
+  ): QueryRunner {
+    return async (sql, params = []) => {
+      const [rows] = (await connection.sequelize.query(sql, {
+        replacements: params,
+        type: QueryTypes.RAW,
+        raw: true,
+        ...(transaction && { transaction }),
+      })) as [unknown, unknown];
+      // MySQL returns a result header rather than rows for statements like KILL
+      return Array.isArray(rows) ? (rows as Record<string, any>[]) : [];
+    };
+  }
+
+  /**
+   * Read the affected row count from raw query metadata
+   * (PostgreSQL and MySQL report one result per statement when several run)
+   */
+  private static countAffectedRows(
+    type: DatabaseCredentials["type"],
+    metadata: unknown
+  ): number | undefined {
+    const results = Array.isArray(metadata) ? metadata : [metadata];
+    const key = {
+      postgresql: "rowCount",
+      mysql: "affectedRows",
+      sqlite: "changes",
+    }[type];
+    const counts = results
+      .map((result) => (result as Record<string, unknown> | null)?.[key])
+      .filter((count): count is number => typeof count === "number");
+
+    return counts.length > 0 ? counts.reduce((sum, count) => sum + count, 0) : undefined;
+  }
+
+  /**
+   * Run a query, inside a read-only transaction for read-only PostgreSQL connections
+   * (MySQL sessions are made read-only when they connect, and transactions
+   * opened by beginTransaction() are made read-only when they start)
+   */
+  private static async runQuery(
+    connection: SequelizeConnection,
+    sql: string,
+    options: TrackedQueryOptions
+  ): Promise<unknown> {
+    const { sequelize, credentials } = connection;
+    if (
+      options.transaction ||
+      !credentials.readOnly ||
+      credentials.type !== "postgresql"
+    ) {
+      return sequelize.query(sql, options);
+    }
+
+    return sequelize.transaction(async (transaction) => {
+      await sequelize.query("SET TRANSACTION READ ONLY", { transaction });
+      return sequelize.query(sql, { ...options, transaction });
+    });
+  }
+
+  /**
+   * Time a query and record it in the connection's statistics
+   */
+  private static async track<T>(
+    connection: SequelizeConnection,
+    run: () => Promise<T>
+  ): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      return await run();
+    } catch (error) {
+      connection.stats.errors++;
+      throw error;
+    } finally {
+      connection.stats.queries++;
+      connection.stats.totalLatencyMs += Date.now() - startedAt;
+    }
+  }
+
+  private static createStats(): QueryStats {
+    return { queries: 0, errors: 0, totalLatencyMs: 0 };
+  }
+
+  /**
+   * Pool usage and query statistics for a connection
+   * @returns null when the connection does not exist
+   */
+  static getConnectionStats(databaseId: string): ConnectionStats | null {
+    if (!this.sessions.has(databaseId)) {
+      return null;
+    }
+
+    const connection = this.connections.get(databaseId);
+    if (!connection) {
+      // Degraded and idle connections have no open pool
+      return { pool: null, queries: 0, errors: 0, averageLatencyMs: 0 };
+    }
+
+    const { queries, errors, totalLatencyMs } = connection.stats;
+    // sequelize-pool instance; SQLite keeps plain connections without a pool
+    const pool = (connection.sequelize.connectionManager as any).pool;
+
+    return {
+      pool:
+        pool && typeof pool.size === "number"
+          ? {
+              max: pool.maxSize,
+              active: pool.using,
+              idle: pool.available,
+              waiting: pool.waiting,
+            }
+          : null,
+      queries,
+      errors,
+      averageLatencyMs: queries > 0 ? Math.round(totalLatencyMs / queries) : 0,
+    };
+  }
+
+  /**
+   * Check whether a connection only allows read statements
+   */
+  static isReadOnly(databaseId: string): boolean {
+    return Boolean(this.sessions.get(databaseId)?.credentials.readOnly);
+  }
+
+  /**
+   * Check whether a connection is registered
+   */
+  static hasConnection(databaseId: string): boolean {
+    return this.sessions.has(databaseId);
+  }
+
+  /**
+   * Get the SQL dialect adapter for a connection
+   */
+  static getDialect(databaseId: string): DialectAdapter {
+    const session = this.sessions.get(databaseId);
+    if (!session) {
+      throw new Error(`Database connection not found: ${databaseId}`);
+    }
+    return getDialectAdapter(session.credentials.type);
+  }
+
+  /**
+   * List the tables and views of every schema the connection can see
+   * Columns keep the information_schema names the explorer reads
+   */
+  static async getDatabaseSchema(databaseId: string): Promise<any[]> {
+    const connection = this.getConnection(databaseId);
+    const dialect = getDialectAdapter(connection.credentials.type);
+
+    try {
+      const { tables } = await dialect.describeSchema(this.metadataRunner(connection));
+      return tables.map((table) => ({
+        schema: table.schema ?? null,
+        tableName: table.name,
+        type: table.type,
+        columns: table.columns.map((column) => ({
+          column_name: column.name,
+          data_type: column.dataType,
+          is_nullable: column.nullable ? "YES" : "NO",
+          column_default: column.defaultValue,
+        })),
+      }));
+    } catch (error: any) {
+      throw new Error(`Schema introspection failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get all available database sessions
+   */
+  static getAvailableDatabases(): DatabaseSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Remove database connection and forget it in the ConnectionStore
+   */
+  static async removeConnection(databaseId: string): Promise<boolean> {
+    try {
+      if (!this.sessions.has(databaseId)) {
+        return false;
+      }
+
+      await this.closeConnection(databaseId);
+      await ConnectionStore.remove(databaseId);
+
+      console.log(`✅ Removed database connection: ${databaseId}`);
+      return true;
+    } catch (error) {
+      console.error(`Error removing database connection ${databaseId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Close all database connections
+   * Stored connections are kept so they are restored on the next start
+   */
+  static async closeAllConnections(): Promise<void> {
+    const connectionIds = Array.from(this.sessions.keys());
+    
+    for (const connectionId of connectionIds) {
+      try {
+        await this.closeConnection(connectionId);
       } catch (error) {
         console.error(`Error closing connection ${connectionId}:`, error);
       }
@@ -401,6 +2530,231 @@ export class SequelizeDbManager {
     console.log("✅ All database connections closed");
   }
 
+  /**
+   * Close a connection and drop it from the in-memory maps
+   */
+  private static async closeConnection(databaseId: string): Promise<void> {
+    await this.rollbackTransactions(databaseId);
+    await this.closeCursors(databaseId);
+    const connection = this.connections.get(databaseId);
+
+    // Remove from maps first so no new queries are routed to it
+    this.connections.delete(databaseId);
+    this.sessions.delete(databaseId);
+    this.unrecoverable.delete(databaseId);
+    if (databaseId === LOCAL_DB_ID) {
+      this.localConnection = null;
+    }
+
+    if (connection) {
+      await connection.sequelize.close();
+    }
+  }
+
+  /**
+   * Look up a live connection, explaining why it is unavailable otherwise
+   */
+  private static getConnection(databaseId: string): SequelizeConnection {
+    const session = this.sessions.get(databaseId);
+    const connection =
+      this.connections.get(databaseId) ||
+      // Pools closed by the idle TTL reopen on the next use
+      (session?.status === "idle" ? this.openConnection(session) : undefined);
+
+    if (connection) {
+      if (session) {
+        session.lastUsed = new Date();
+      }
+      return connection;
+    }
+
+    if (session?.status === "degraded") {
+      throw new Error(
+        `Database connection '${databaseId}' is degraded: ${session.lastError}`
+      );
+    }
+    throw new Error(`Database connection not found: ${databaseId}`);
+  }
+
+  /**
+   * Register a Sequelize instance for an existing session and mark it connected
+   */
+  private static openConnection(
+    session: DatabaseSession,
+    sequelize: Sequelize = this.createSequelizeInstance(session.credentials)
+  ): SequelizeConnection {
+    const connection: SequelizeConnection = {
+      sequelize,
+      credentials: session.credentials,
+      stats: this.createStats(),
+    };
+    this.connections.set(session.id, connection);
+    session.status = "connected";
+    delete session.lastError;
+    if (session.id === LOCAL_DB_ID) {
+      this.localConnection = connection;
+    }
+    return connection;
+  }
+
+  /**
+   * Start checking connections in the background
+   * HEALTH_CHECK_INTERVAL_MS sets how often (default 30s)
+   */
+  static startHealthMonitor(
+    intervalMs: number = parseInt(process.env.HEALTH_CHECK_INTERVAL_MS || "30000")
+  ): void {
+    if (this.healthTimer) {
+      return;
+    }
+
+    this.healthTimer = setInterval(() => {
+      this.checkConnections().catch((error) => {
+        console.error("Health check failed:", error);
+      });
+    }, intervalMs);
+    // Never keep the process alive just for health checks
+    this.healthTimer.unref();
+  }
+
+  static stopHealthMonitor(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  /**
+   * Run one monitor pass over all sessions:
+   * close pools unused for longer than CONNECTION_IDLE_TTL_MS (default 10
+   * minutes, 0 disables), ping open pools and rebuild broken connections
+   */
+  static async checkConnections(): Promise<void> {
+    if (this.checkingHealth) {
+      return; // Previous pass still running
+    }
+
+    this.checkingHealth = true;
+    try {
+      const idleTtl = parseInt(process.env.CONNECTION_IDLE_TTL_MS || "600000");
+
+      for (const session of Array.from(this.sessions.values())) {
+        const connection = this.connections.get(session.id);
+
+        if (connection) {
+          if (
+            idleTtl > 0 &&
+            Date.now() - session.lastUsed.getTime() > idleTtl &&
+            !this.isInUse(session.id)
+          ) {
+            await this.closeIdleConnection(session, connection);
+          } else {
+            await this.pingConnection(session, connection);
+          }
+        } else if (session.status === "degraded" && !this.unrecoverable.has(session.id)) {
+          await this.rebuildConnection(session);
+        }
+      }
+    } finally {
+      this.checkingHealth = false;
+    }
+  }
+
+  /**
+   * Ping a connection and rebuild it when the ping fails
+   * A pool with every connection lent out is busy, not broken, so it is not
+   * pinged; a pool with transactions or cursors open is never rebuilt, since
+   * that would roll back work the user has not finished.
+   */
+  private static async pingConnection(
+    session: DatabaseSession,
+    connection: SequelizeConnection
+  ): Promise<void> {
+    // sequelize-pool instance; SQLite keeps plain connections without a pool
+    const pool = (connection.sequelize.connectionManager as any).pool;
+    if (pool && typeof pool.using === "number" && pool.using >= pool.maxSize) {
+      return;
+    }
+
+    const startedAt = Date.now();
+    try {
+      await connection.sequelize.authenticate();
+      this.recordHealth(session, { ok: true, latencyMs: Date.now() - startedAt });
+    } catch (error: any) {
+      if (error?.name === "SequelizeConnectionAcquireTimeoutError") {
+        return;
+      }
+
+      const message = this.getErrorMessage(error);
+      this.recordHealth(session, {
+        ok: false,
+        latencyMs: Date.now() - startedAt,
+        error: message,
+      });
+      console.warn(`⚠️ Health check failed for ${session.id}: ${message}`);
+      if (this.isInUse(session.id)) {
+        return;
+      }
+
+      // Stop routing queries to the broken pool while it is rebuilt
+      session.status = "degraded";
+      session.lastError = message;
+      await this.rebuildConnection(session);
+    }
+  }
+
+  /**
+   * Replace a connection's Sequelize instance with a fresh one
+   * The session stays degraded until the new instance authenticates
+   */
+  private static async rebuildConnection(session: DatabaseSession): Promise<void> {
+    await this.rollbackTransactions(session.id);
+    await this.closeCursors(session.id);
+    const previous = this.connections.get(session.id);
+    this.connections.delete(session.id);
+    if (previous) {
+      previous.sequelize.close().catch(() => undefined);
+    }
+
+    const sequelize = this.createSequelizeInstance(session.credentials);
+    try {
+      await sequelize.authenticate();
+      this.openConnection(session, sequelize);
+      console.log(`🔄 Reconnected ${session.id}`);
+    } catch (error: any) {
+      session.status = "degraded";
+      session.lastError = this.getErrorMessage(error);
+      await sequelize.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Close the pool of an unused connection; it reopens on the next query
+   */
+  private static async closeIdleConnection(
+    session: DatabaseSession,
+    connection: SequelizeConnection
+  ): Promise<void> {
+    this.connections.delete(session.id);
+    session.status = "idle";
+    try {
+      await connection.sequelize.close();
+      console.log(`💤 Closed idle pool for ${session.id}`);
+    } catch (error) {
+      console.error(`Error closing idle pool for ${session.id}:`, error);
+    }
+  }
+
+  private static recordHealth(
+    session: DatabaseSession,
+    check: Omit<HealthCheck, "checkedAt">
+  ): void {
+    session.healthHistory.push({ checkedAt: new Date(), ...check });
+    if (session.healthHistory.length > HEALTH_HISTORY_SIZE) {
+      session.healthHistory.splice(0, session.healthHistory.length - HEALTH_HISTORY_SIZE);
+    }
+  }
+
   /**
    * Get error message from error object
    */
@@ -421,7 +2775,10 @@ export class SequelizeDbManager {
       if (error?.message?.includes("does not exist")) {
         return "Database does not exist. Please check the database name.";
       }
-      if (error?.message?.includes("role") && error?.message?.includes("does not exist")) {
+      if (
+        error?.message?.includes("role") &&
+        error?.message?.includes("does not exist")
+      ) {
         return "User/role does not exist. Please check the username.";
       }
     }
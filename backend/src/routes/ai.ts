@@ -1,6 +1,9 @@
 import express from "express";
 import { AISchemaAnalyzer } from "../db/aiSchemaAnalyzer";
 import { GeminiAIService } from "../db/geminiAIService";
+import { SequelizeDbManager } from "../db/sequelizeDbManager";
+import { ResultLimiter } from "../utils/resultLimiter";
+import { LOCAL_DB_ID } from "../types/database";
 
 const router = express.Router();
 
@@ -19,12 +22,32 @@ setInterval(() => {
 }, 3600000); // 1 hour
 
 /**
- * GET /api/ai/schema-context
+ * Read the target connection from a request, defaulting to the local database
+ * @returns The database ID, or null when it is invalid or unknown
+ */
+function getDatabaseId(value: unknown): string | null {
+  const databaseId = value === undefined ? LOCAL_DB_ID : value;
+  return typeof databaseId === "string" &&
+    SequelizeDbManager.hasConnection(databaseId)
+    ? databaseId
+    : null;
+}
+
+/**
+ * GET /api/ai/schema-context?databaseId=...
  * Get comprehensive database schema information for AI
  */
 router.get("/schema-context", async (req, res) => {
   try {
-    const context = await AISchemaAnalyzer.getAIContext();
+    const databaseId = getDatabaseId(req.query.databaseId);
+    if (!databaseId) {
+      return res.status(404).json({
+        success: false,
+        error: `Database connection '${req.query.databaseId}' not found`,
+      });
+    }
+
+    const context = await AISchemaAnalyzer.getAIContext(databaseId);
     res.json({
       success: true,
       data: context,
@@ -83,8 +106,16 @@ router.post("/generate-query", async (req, res) => {
       });
     }
 
+    const databaseId = getDatabaseId(req.body.databaseId);
+    if (!databaseId) {
+      return res.status(404).json({
+        success: false,
+        error: `Database connection '${req.body.databaseId}' not found`,
+      });
+    }
+
     // Get current schema context
-    const schema = await AISchemaAnalyzer.getAIContext();
+    const schema = await AISchemaAnalyzer.getAIContext(databaseId);
 
     // Check if Gemini API key is configured
     const apiKey = process.env.API_KEY;
@@ -97,13 +128,15 @@ router.post("/generate-query", async (req, res) => {
     }
 
     // Get or create AI service for this session
+    // Each database gets its own chat, since the schema is sent once per chat
     const currentSessionId = sessionId || "default";
-    let geminiService = aiSessions.get(currentSessionId);
+    const sessionKey = `${currentSessionId}:${databaseId}`;
+    let geminiService = aiSessions.get(sessionKey);
 
     if (!geminiService) {
-      console.log("🆕 Creating new AI session:", currentSessionId);
+      console.log("🆕 Creating new AI session:", sessionKey);
       geminiService = new GeminiAIService(apiKey);
-      aiSessions.set(currentSessionId, geminiService);
+      aiSessions.set(sessionKey, geminiService);
     }
 
     // Generate query using conversational AI
@@ -125,7 +158,7 @@ router.post("/generate-query", async (req, res) => {
 });
 
 /**
- * GET /api/ai/sample-data/:tableName
+ * GET /api/ai/sample-data/:tableName?databaseId=...
  * Get sample data from a specific table
  */
 router.get("/sample-data/:tableName", async (req, res) => {
@@ -139,11 +172,29 @@ router.get("/sample-data/:tableName", async (req, res) => {
       });
     }
 
-    const sampleData = await AISchemaAnalyzer.getSampleData(tableName);
+    const databaseId = getDatabaseId(req.query.databaseId);
+    if (!databaseId) {
+      return res.status(404).json({
+        success: false,
+        error: `Database connection '${req.query.databaseId}' not found`,
+      });
+    }
+
+    const sampleData = await AISchemaAnalyzer.getSampleData(
+      tableName,
+      databaseId
+    );
+    const { rows, truncation } = ResultLimiter.apply(
+      sampleData,
+      SequelizeDbManager.getResultLimits(databaseId)
+    );
 
     res.json({
       success: true,
-      data: sampleData,
+      data: rows,
+      truncated: Boolean(truncation),
+      limit: truncation,
+      totalRows: sampleData.length,
     });
   } catch (error) {
     console.error("Error getting sample data:", error);
@@ -163,10 +214,11 @@ router.post("/reset-session", async (req, res) => {
     const { sessionId } = req.body;
     const currentSessionId = sessionId || "default";
 
-    const geminiService = aiSessions.get(currentSessionId);
-    if (geminiService) {
-      geminiService.resetSession();
-      console.log("🔄 Reset AI session:", currentSessionId);
+    for (const [key, geminiService] of aiSessions) {
+      if (key.startsWith(`${currentSessionId}:`)) {
+        geminiService.resetSession();
+        console.log("🔄 Reset AI session:", key);
+      }
     }
 
     res.json({
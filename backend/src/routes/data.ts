@@ -1,11 +1,13 @@
 import { Router, Request, Response } from "express";
 import { SequelizeDbManager } from "../db/sequelizeDbManager";
-import { LOCAL_DB_ID } from "../types/database";
+import { QueryRunner } from "../db/dialects";
+import { LOCAL_DB_ID, TableReference } from "../types/database";
 
 const router = Router();
 
 interface InsertDataRequest {
   databaseId: string;
+  schema?: string; // Schema of every table in data; defaults to the current one
   data: Record<string, Array<Record<string, any>>>;
 }
 
@@ -20,20 +22,17 @@ interface InsertDataResponse {
   }>;
 }
 
-interface ColumnInfo {
-  column_name: string;
-  data_type: string;
-  is_nullable: string;
-  column_default: string | null;
-}
-
 /**
  * POST /api/data/insert
  * Insert JSON data into existing database tables
  */
 router.post("/insert", async (req: Request, res: Response): Promise<void> => {
   try {
-    const { databaseId = LOCAL_DB_ID, data } = req.body as InsertDataRequest;
+    const {
+      databaseId = LOCAL_DB_ID,
+      schema,
+      data,
+    } = req.body as InsertDataRequest;
 
     // Validate input
     if (!databaseId || typeof databaseId !== "string") {
@@ -44,6 +43,14 @@ router.post("/insert", async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    if (schema !== undefined && (typeof schema !== "string" || !schema)) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid schema name",
+      } as InsertDataResponse);
+      return;
+    }
+
     if (!data || typeof data !== "object") {
       res.status(400).json({
         success: false,
@@ -52,6 +59,14 @@ router.post("/insert", async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    if (SequelizeDbManager.isReadOnly(databaseId)) {
+      res.status(403).json({
+        success: false,
+        error: `Database connection "${databaseId}" is read-only. Inserting data is not allowed.`,
+      } as InsertDataResponse);
+      return;
+    }
+
     // Test the connection
     try {
       await SequelizeDbManager.query("SELECT 1", [], databaseId);
@@ -63,6 +78,10 @@ router.post("/insert", async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    const dialect = SequelizeDbManager.getDialect(databaseId);
+    const run: QueryRunner = async (sql, params = []) =>
+      (await SequelizeDbManager.query(sql, params, databaseId)).rows;
+
     const details: Array<{
       table: string;
       recordsInserted: number;
@@ -83,37 +102,32 @@ router.post("/insert", async (req: Request, res: Response): Promise<void> => {
       }
 
       try {
+        const table: TableReference = {
+          name: tableName,
+          ...(schema && { schema }),
+        };
+
         // Get table columns to validate and order data
-        const columnsResult = await SequelizeDbManager.query(
-          `
-          SELECT column_name, data_type, is_nullable, column_default
-          FROM information_schema.columns
-          WHERE table_name = $1 AND table_schema = 'public'
-          ORDER BY ordinal_position
-        `,
-          [tableName],
-          databaseId
-        );
+        const tableColumns = await dialect.describeColumns(run, table);
 
-        if (columnsResult.rows.length === 0) {
+        if (tableColumns.length === 0) {
           details.push({
             table: tableName,
             recordsInserted: 0,
-            errors: [`Table "${tableName}" does not exist in the database`],
+            errors: [
+              `Table "${
+                schema ? `${schema}.${tableName}` : tableName
+              }" does not exist in the database`,
+            ],
           });
           continue;
         }
 
-        const columns: ColumnInfo[] = columnsResult.rows.filter(
-          (col: ColumnInfo) =>
-            !(
-              col.column_name === "id" &&
-              col.column_default?.includes("nextval")
-            )
-        );
-
-        const columnNames = columns.map(
-          (col: ColumnInfo) => `"${col.column_name}"`
+        // Let the database fill serial, identity and AUTO_INCREMENT keys
+        const columns = tableColumns.filter((col) => !col.autoIncrement);
+        const insertQuery = dialect.buildInsert(
+          table,
+          columns.map((col) => col.name)
         );
         const insertErrors: string[] = [];
         let recordsInserted = 0;
@@ -122,19 +136,9 @@ router.post("/insert", async (req: Request, res: Response): Promise<void> => {
         for (const [index, record] of records.entries()) {
           try {
             // Prepare values in the correct order
-            const values = columns.map((col: ColumnInfo) => {
-              const value = record[col.column_name];
-              return value !== undefined ? value : null;
-            });
-
-            // Create parameterized query
-            const placeholders = values
-              .map((_: any, i: number) => `$${i + 1}`)
-              .join(", ");
-            const insertQuery = `
-              INSERT INTO "${tableName}" (${columnNames.join(", ")})
-              VALUES (${placeholders})
-            `;
+            const values = columns.map((col) =>
+              dialect.toParameter(record[col.name], col)
+            );
 
             await SequelizeDbManager.query(insertQuery, values, databaseId);
             recordsInserted++;
@@ -1,9 +1,395 @@
 import { Router, Request, Response } from "express";
+import { pipeline } from "stream/promises";
 import { SequelizeDbManager } from "../db/sequelizeDbManager";
-import { DatabaseCredentials } from "../types/database";
+import {
+  DatabaseCredentials,
+  PoolOptions,
+  ResultLimits,
+  RowDeletion,
+  RowUpdate,
+  SslOptions,
+  TableDataOptions,
+  TableFilter,
+  TableFilterOperator,
+  TableReference,
+} from "../types/database";
+import { ConnectionStringParser } from "../utils/connectionString";
+import { ExportWriter } from "../utils/exportWriter";
+import {
+  FieldError,
+  ReadOnlyError,
+  RowConflictError,
+  TableNotFoundError,
+  ValidationError,
+} from "../utils/errors";
 
 const router = Router();
 
+const SSL_MODES = ["disable", "require", "verify-ca", "verify-full"];
+
+// Upper bound for each pool option; durations are in milliseconds
+const POOL_LIMITS: Record<keyof PoolOptions, number> = {
+  max: 100,
+  acquireTimeout: 600000,
+  idleTimeout: 3600000,
+  statementTimeout: 3600000,
+};
+
+// Upper bound for each result limit
+const RESULT_LIMITS: Record<keyof ResultLimits, number> = {
+  maxRows: 1000000,
+  maxBytes: 512 * 1024 * 1024,
+};
+
+const MAX_TABLE_PAGE_SIZE = 1000;
+
+// Rows one request may update or delete
+const MAX_ROW_CHANGES = 1000;
+
+const FILTER_OPERATORS: TableFilterOperator[] = [
+  "eq",
+  "neq",
+  "lt",
+  "lte",
+  "gt",
+  "gte",
+  "contains",
+  "startsWith",
+  "endsWith",
+  "isNull",
+  "isNotNull",
+];
+
+/**
+ * Build credentials from the request body
+ * A connectionString, when present, takes precedence over individual fields;
+ * its sslmode is combined with any certificates sent alongside it
+ */
+function resolveCredentials(body: any): DatabaseCredentials {
+  const { connectionString, ...fields } = body || {};
+
+  if (connectionString === undefined || connectionString === "") {
+    validateOptions(fields);
+    return fields;
+  }
+
+  if (typeof connectionString !== "string") {
+    throw new ValidationError("Invalid connection string", [
+      { field: "connectionString", message: "Must be a string" },
+    ]);
+  }
+
+  const parsed = ConnectionStringParser.parse(connectionString);
+  const ssl =
+    fields.ssl || parsed.ssl
+      ? { mode: "disable", ...fields.ssl, ...parsed.ssl }
+      : undefined;
+  const credentials = { ...fields, ...parsed, ...(ssl && { ssl }) };
+  validateOptions(credentials);
+  return credentials;
+}
+
+/**
+ * Validate SSL, pool and result limit options
+ * @throws ValidationError listing every invalid field
+ */
+function validateOptions(credentials: Partial<DatabaseCredentials>) {
+  const errors = [
+    ...validateSsl(credentials),
+    ...validateBounds(credentials.pool, "pool", POOL_LIMITS),
+    ...validateBounds(credentials.limits, "limits", RESULT_LIMITS),
+  ];
+  if (errors.length > 0) {
+    throw new ValidationError("Invalid connection options", errors);
+  }
+}
+
+/**
+ * Check the SSL mode and that certificates look like PEM
+ */
+function validateSsl(credentials: Partial<DatabaseCredentials>): FieldError[] {
+  const ssl: any = credentials.ssl;
+  if (ssl === undefined || ssl === null) {
+    return [];
+  }
+
+  const errors: FieldError[] = [];
+  if (credentials.type === "sqlite") {
+    errors.push({ field: "ssl", message: "SSL is not supported for SQLite" });
+  } else if (typeof ssl !== "object" || !SSL_MODES.includes(ssl.mode)) {
+    errors.push({
+      field: "ssl.mode",
+      message: `Must be one of ${SSL_MODES.join(", ")}`,
+    });
+  } else {
+    for (const field of ["ca", "cert", "key"] as const) {
+      const value = ssl[field];
+      if (
+        value !== undefined &&
+        value !== "" &&
+        (typeof value !== "string" || !value.includes("-----BEGIN "))
+      ) {
+        errors.push({
+          field: `ssl.${field}`,
+          message: "Must be a PEM-encoded value",
+        });
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check that pool or result limits are positive integers within sane bounds
+ */
+function validateBounds(
+  options: any,
+  name: string,
+  bounds: Record<string, number>
+): FieldError[] {
+  if (options === undefined || options === null) {
+    return [];
+  }
+  if (typeof options !== "object") {
+    return [{ field: name, message: "Must be an object" }];
+  }
+
+  const errors: FieldError[] = [];
+  for (const [field, max] of Object.entries(bounds)) {
+    const value = options[field];
+    if (
+      value !== undefined &&
+      !(Number.isInteger(value) && value > 0 && value <= max)
+    ) {
+      errors.push({
+        field: `${name}.${field}`,
+        message: `Must be a whole number between 1 and ${max}`,
+      });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Read the table a route names; names are quoted when used, so any
+ * characters the database allows are accepted
+ * @throws ValidationError when a name is empty or holds a NUL character
+ */
+function parseTableReference(params: Request["params"]): TableReference {
+  const { schema, tableName } = params;
+  const isName = (value: string | undefined): value is string =>
+    Boolean(value) && !value!.includes("\0");
+
+  const errors: FieldError[] = [
+    ...(isName(tableName)
+      ? []
+      : [{ field: "tableName", message: "Must be a non-empty name" }]),
+    ...(schema === undefined || isName(schema)
+      ? []
+      : [{ field: "schema", message: "Must be a non-empty name" }]),
+  ];
+  if (errors.length > 0 || !isName(tableName)) {
+    throw new ValidationError("Invalid table name", errors);
+  }
+  return { name: tableName, ...(schema !== undefined && { schema }) };
+}
+
+/**
+ * Read paging, sorting and filters from a table data query string
+ * filters is a JSON array of { column, operator, value } objects
+ * @throws ValidationError listing every invalid parameter
+ */
+function parseTableDataOptions(query: Request["query"]): TableDataOptions {
+  const { page, pageSize, orderBy, direction, filters } = query;
+  const errors: FieldError[] = [];
+  const options: TableDataOptions = {};
+
+  if (page !== undefined) {
+    options.page = Number(page);
+    if (!Number.isInteger(options.page) || options.page < 1) {
+      errors.push({ field: "page", message: "Must be a whole number from 1" });
+    }
+  }
+  if (pageSize !== undefined) {
+    options.pageSize = Number(pageSize);
+    if (
+      !Number.isInteger(options.pageSize) ||
+      options.pageSize < 1 ||
+      options.pageSize > MAX_TABLE_PAGE_SIZE
+    ) {
+      errors.push({
+        field: "pageSize",
+        message: `Must be a whole number between 1 and ${MAX_TABLE_PAGE_SIZE}`,
+      });
+    }
+  }
+  if (orderBy !== undefined) {
+    if (typeof orderBy === "string" && orderBy !== "") {
+      options.orderBy = orderBy;
+    } else {
+      errors.push({ field: "orderBy", message: "Must be a column name" });
+    }
+  }
+  if (direction !== undefined) {
+    if (direction === "asc" || direction === "desc") {
+      options.direction = direction;
+    } else {
+      errors.push({ field: "direction", message: "Must be asc or desc" });
+    }
+  }
+  if (filters !== undefined) {
+    const parsed = parseFilters(filters, errors);
+    if (parsed) {
+      options.filters = parsed;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError("Invalid table data options", errors);
+  }
+  return options;
+}
+
+/**
+ * Check each filter's column, operator and value
+ * @returns null when filters is not a JSON array
+ */
+function parseFilters(
+  filters: unknown,
+  errors: FieldError[]
+): TableFilter[] | null {
+  let parsed: unknown;
+  try {
+    parsed = typeof filters === "string" ? JSON.parse(filters) : undefined;
+  } catch {
+    parsed = undefined;
+  }
+  if (!Array.isArray(parsed)) {
+    errors.push({ field: "filters", message: "Must be a JSON array" });
+    return null;
+  }
+
+  return parsed.map((filter, index): TableFilter => {
+    const field = `filters[${index}]`;
+    const { column, operator, value } = filter ?? {};
+    if (typeof column !== "string" || column === "") {
+      errors.push({
+        field: `${field}.column`,
+        message: "Must be a column name",
+      });
+    }
+    if (!FILTER_OPERATORS.includes(operator)) {
+      errors.push({
+        field: `${field}.operator`,
+        message: `Must be one of ${FILTER_OPERATORS.join(", ")}`,
+      });
+    }
+
+    const needsValue = operator !== "isNull" && operator !== "isNotNull";
+    if (needsValue && !["string", "number", "boolean"].includes(typeof value)) {
+      errors.push({
+        field: `${field}.value`,
+        message: "Must be a string, number or boolean",
+      });
+    }
+    return { column, operator, ...(needsValue && { value }) };
+  });
+}
+
+/**
+ * Check the shape of PATCH .../rows changes; columns are checked against the table later
+ * @throws ValidationError listing every invalid change
+ */
+function parseRowUpdates(body: any): RowUpdate[] {
+  const changes = body?.changes;
+  const errors = checkRowList(changes, "changes");
+  if (errors.length === 0) {
+    (changes as unknown[]).forEach((change: any, index) => {
+      for (const part of ["key", "original", "values"] as const) {
+        if (!isPlainObject(change?.[part])) {
+          errors.push({
+            field: `changes[${index}].${part}`,
+            message: "Must be an object of column values",
+          });
+        }
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError("Invalid row changes", errors);
+  }
+  return changes;
+}
+
+/**
+ * Check the shape of DELETE .../rows rows
+ * @throws ValidationError listing every invalid row
+ */
+function parseRowDeletions(body: any): RowDeletion[] {
+  const rows = body?.rows;
+  const errors = checkRowList(rows, "rows");
+  if (errors.length === 0) {
+    (rows as unknown[]).forEach((row: any, index) => {
+      if (!isPlainObject(row?.key)) {
+        errors.push({
+          field: `rows[${index}].key`,
+          message: "Must be an object of column values",
+        });
+      }
+      if (row?.original !== undefined && !isPlainObject(row.original)) {
+        errors.push({
+          field: `rows[${index}].original`,
+          message: "Must be an object of column values",
+        });
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError("Invalid rows", errors);
+  }
+  return rows;
+}
+
+function checkRowList(list: unknown, field: string): FieldError[] {
+  if (!Array.isArray(list) || list.length === 0) {
+    return [{ field, message: "Must be a non-empty array" }];
+  }
+  if (list.length > MAX_ROW_CHANGES) {
+    return [{ field, message: `At most ${MAX_ROW_CHANGES} rows at a time` }];
+  }
+  return [];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * SSL settings safe to return to clients; the private key is never included
+ */
+function describeSsl(ssl: SslOptions) {
+  return {
+    mode: ssl.mode,
+    ...(ssl.ca && { ca: ssl.ca }),
+    ...(ssl.cert && { cert: ssl.cert }),
+    hasKey: Boolean(ssl.key),
+  };
+}
+
+/**
+ * Send a 400 response with field-level validation errors
+ */
+function sendValidationError(res: Response, error: ValidationError) {
+  return res.status(400).json({
+    success: false,
+    message: error.message,
+    errors: error.fieldErrors,
+  });
+}
+
 /**
  * Get all available database connections
  */
@@ -19,8 +405,16 @@ router.get("/databases", async (req: Request, res: Response) => {
         host: db.credentials.host,
         port: db.credentials.port,
         database: db.credentials.database,
+        username: db.credentials.username,
         isLocal: db.credentials.isLocal,
+        readOnly: Boolean(db.credentials.readOnly),
+        ...(db.credentials.pool && { pool: db.credentials.pool }),
+        ...(db.credentials.limits && { limits: db.credentials.limits }),
+        ...(db.credentials.ssl && { ssl: describeSsl(db.credentials.ssl) }),
         lastUsed: db.lastUsed,
+        status: db.status,
+        ...(db.lastError && { error: db.lastError }),
+        healthHistory: db.healthHistory,
       })),
     });
   } catch (error) {
@@ -37,7 +431,11 @@ router.get("/databases", async (req: Request, res: Response) => {
  */
 router.post("/databases/test", async (req: Request, res: Response) => {
   try {
-    const credentials: DatabaseCredentials = req.body;
+    // When re-testing an existing connection the password may be omitted
+    const parsed = resolveCredentials(req.body);
+    const credentials: DatabaseCredentials = parsed.id
+      ? SequelizeDbManager.withStoredSecrets(parsed)
+      : parsed;
 
     // Basic validation based on database type
     if (credentials.type === "sqlite") {
@@ -71,6 +469,9 @@ router.post("/databases/test", async (req: Request, res: Response) => {
       res.status(400).json(result);
     }
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return sendValidationError(res, error);
+    }
     console.error("Error testing connection:", error);
     res.status(500).json({
       success: false,
@@ -84,7 +485,7 @@ router.post("/databases/test", async (req: Request, res: Response) => {
  */
 router.post("/databases", async (req: Request, res: Response) => {
   try {
-    const credentials: DatabaseCredentials = req.body;
+    const credentials = resolveCredentials(req.body);
 
     // Basic validation based on database type
     if (!credentials.id || !credentials.name || !credentials.database) {
@@ -129,6 +530,9 @@ router.post("/databases", async (req: Request, res: Response) => {
       res.status(400).json(result);
     }
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return sendValidationError(res, error);
+    }
     console.error("Error adding database connection:", error);
     res.status(500).json({
       success: false,
@@ -137,6 +541,71 @@ router.post("/databases", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Update an existing database connection in place
+ * The password may be omitted to keep the current one
+ */
+router.put("/databases/:id", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        message: "Database ID is required",
+      });
+    }
+
+    const credentials: DatabaseCredentials = {
+      ...resolveCredentials(req.body),
+      id,
+    };
+
+    if (!credentials.name || !credentials.database) {
+      return res.status(400).json({
+        success: false,
+        message: "Missing required parameters: name and database",
+      });
+    }
+
+    if (
+      credentials.type !== "sqlite" &&
+      (!credentials.host || !credentials.port || !credentials.username)
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: "Missing required connection parameters for PostgreSQL/MySQL",
+      });
+    }
+
+    if (
+      !SequelizeDbManager.getAvailableDatabases().some((db) => db.id === id)
+    ) {
+      return res.status(404).json({
+        success: false,
+        message: `Database connection '${id}' not found`,
+      });
+    }
+
+    const result = await SequelizeDbManager.updateConnection(id, credentials);
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return sendValidationError(res, error);
+    }
+    console.error("Error updating database connection:", error);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error while updating database connection",
+    });
+  }
+});
+
 /**
  * Remove database connection
  */
@@ -176,6 +645,131 @@ router.delete("/databases/:id", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Get pool usage and query statistics for a database
+ */
+router.get("/databases/:id/stats", (req: Request, res: Response) => {
+  const { id } = req.params;
+  const stats = id ? SequelizeDbManager.getConnectionStats(id) : null;
+
+  if (!stats) {
+    return res.status(404).json({
+      success: false,
+      message: `Database connection '${id}' not found`,
+    });
+  }
+
+  res.json({
+    success: true,
+    stats,
+  });
+});
+
+/**
+ * Begin a transaction that later queries can join by passing its id
+ * POST /api/databases/:id/transactions
+ */
+router.post(
+  "/databases/:id/transactions",
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!id || !SequelizeDbManager.hasConnection(id)) {
+        return res.status(404).json({
+          success: false,
+          message: `Database connection '${id}' not found`,
+        });
+      }
+
+      const { transactionId, idleTimeoutMs } =
+        await SequelizeDbManager.beginTransaction(id);
+
+      res.status(201).json({
+        success: true,
+        transactionId,
+        idleTimeoutMs,
+      });
+    } catch (error) {
+      console.error("Error beginning transaction:", error);
+      res.status(500).json({
+        success: false,
+        message:
+          error instanceof Error
+            ? error.message
+            : "Failed to begin transaction",
+      });
+    }
+  }
+);
+
+/**
+ * Commit or roll back a transaction, answering 404 once it has expired
+ */
+async function finishTransaction(
+  req: Request,
+  res: Response,
+  action: "commit" | "rollback"
+) {
+  try {
+    const { id, transactionId } = req.params;
+
+    if (!id || !transactionId) {
+      return res.status(400).json({
+        success: false,
+        message: "Database ID and transaction ID are required",
+      });
+    }
+
+    const finished =
+      action === "commit"
+        ? await SequelizeDbManager.commitTransaction(transactionId, id)
+        : await SequelizeDbManager.rollbackTransaction(transactionId, id);
+
+    if (!finished) {
+      return res.status(404).json({
+        success: false,
+        message: `Transaction ${transactionId} not found or expired`,
+      });
+    }
+
+    res.json({
+      success: true,
+      message:
+        action === "commit"
+          ? "Transaction committed"
+          : "Transaction rolled back",
+    });
+  } catch (error) {
+    console.error(`Error during transaction ${action}:`, error);
+    res.status(500).json({
+      success: false,
+      message:
+        error instanceof Error
+          ? error.message
+          : `Failed to ${action} transaction`,
+    });
+  }
+}
+
+/**
+ * Commit a transaction
+ * POST /api/databases/:id/transactions/:transactionId/commit
+ */
+router.post(
+  "/databases/:id/transactions/:transactionId/commit",
+  (req: Request, res: Response) => finishTransaction(req, res, "commit")
+);
+
+/**
+ * Roll back a transaction
+ * POST /api/databases/:id/transactions/:transactionId/rollback
+ */
+router.post(
+  "/databases/:id/transactions/:transactionId/rollback",
+  (req: Request, res: Response) => finishTransaction(req, res, "rollback")
+);
+
 /**
  * Get schema for a specific database
  */
@@ -207,45 +801,64 @@ router.get("/databases/:id/schema", async (req: Request, res: Response) => {
 });
 
 /**
- * Get data from a specific table
+ * Get a page of data from a specific table, filtered and sorted by the database
+ * Without a schema, the table is looked up in the connection's current one
+ * GET /api/databases/:id/tables/:tableName/data?page=&pageSize=&orderBy=&direction=&filters=
+ * GET /api/databases/:id/schemas/:schema/tables/:tableName/data?...
  */
 router.get(
-  "/databases/:id/tables/:tableName/data",
+  [
+    "/databases/:id/tables/:tableName/data",
+    "/databases/:id/schemas/:schema/tables/:tableName/data",
+  ],
   async (req: Request, res: Response) => {
     try {
-      const { id, tableName } = req.params;
+      const { id } = req.params;
 
       // Validate required parameters
-      if (!id || !tableName) {
+      if (!id) {
         return res.status(400).json({
           success: false,
-          message: "Database ID and table name are required",
+          message: "Database ID is required",
         });
       }
 
-      // Security: Validate table name to prevent SQL injection
-      if (!/^[a-zA-Z0-9_]+$/.test(tableName)) {
-        return res.status(400).json({
-          success: false,
-          message: "Invalid table name",
-        });
-      }
-
-      // WARNING: No limit applied - could cause memory issues with large tables
-      // Get all data from the table using Sequelize's universal ORM approach
-      const result = await SequelizeDbManager.getTableData(id, tableName);
+      const table = parseTableReference(req.params);
+      const options = parseTableDataOptions(req.query);
+      const result = await SequelizeDbManager.getTableData(id, table, options);
 
       res.json({
         success: true,
         data: {
-          tableName,
+          schema: table.schema ?? null,
+          tableName: table.name,
           columns: result.columns || [],
+          fields: result.fields || [],
           rows: result.rows || [],
           rowCount: result.rowCount || 0,
-          totalRows: result.rowCount || 0,
+          page: result.page,
+          pageSize: result.pageSize,
+          totalRows: result.totalRows,
+          totalRowsEstimated: result.totalRowsEstimated,
+          primaryKey: result.primaryKey,
+          orderBy: options.orderBy ?? null,
+          direction: options.direction ?? "asc",
+          filters: options.filters ?? [],
+          // The byte limit can still shorten a page
+          truncated: Boolean(result.truncation),
+          limit: result.truncation ?? null,
         },
       });
     } catch (error) {
+      if (error instanceof ValidationError) {
+        return sendValidationError(res, error);
+      }
+      if (error instanceof TableNotFoundError) {
+        return res.status(404).json({
+          success: false,
+          message: error.message,
+        });
+      }
       console.error("Error getting table data:", error);
       res.status(500).json({
         success: false,
@@ -255,4 +868,200 @@ router.get(
   }
 );
 
+/**
+ * Check the database and table named in a row change or export request
+ * @returns null once an error response has been sent
+ */
+function getTableTarget(
+  req: Request,
+  res: Response
+): { id: string; table: TableReference } | null {
+  const { id } = req.params;
+
+  if (!id || !SequelizeDbManager.hasConnection(id)) {
+    res.status(404).json({
+      success: false,
+      message: `Database connection '${id}' not found`,
+    });
+    return null;
+  }
+  try {
+    return { id, table: parseTableReference(req.params) };
+  } catch (error) {
+    sendValidationError(res, error as ValidationError);
+    return null;
+  }
+}
+
+/**
+ * Answer a failed row mutation; nothing was saved in any case
+ */
+function sendRowChangeError(res: Response, error: unknown, action: string) {
+  if (error instanceof ValidationError) {
+    return sendValidationError(res, error);
+  }
+  if (error instanceof RowConflictError) {
+    return res.status(409).json({
+      success: false,
+      message: error.message,
+      index: error.index,
+    });
+  }
+  if (error instanceof ReadOnlyError) {
+    return res.status(403).json({
+      success: false,
+      message: error.message,
+    });
+  }
+  if (error instanceof TableNotFoundError) {
+    return res.status(404).json({
+      success: false,
+      message: error.message,
+    });
+  }
+  console.error(`Error trying to ${action} rows:`, error);
+  res.status(500).json({
+    success: false,
+    message:
+      error instanceof Error ? error.message : `Failed to ${action} rows`,
+  });
+}
+
+/**
+ * Update rows by primary key in one transaction
+ * Each change carries the original values of the columns it changes, and the
+ * whole request fails with 409 if any row no longer holds them
+ * PATCH /api/databases/:id[/schemas/:schema]/tables/:tableName/rows
+ * Body: { changes: [{ key, original, values }] }
+ */
+router.patch(
+  [
+    "/databases/:id/tables/:tableName/rows",
+    "/databases/:id/schemas/:schema/tables/:tableName/rows",
+  ],
+  async (req: Request, res: Response) => {
+    const target = getTableTarget(req, res);
+    if (!target) {
+      return;
+    }
+    try {
+      const changes = parseRowUpdates(req.body);
+      const updated = await SequelizeDbManager.updateRows(
+        target.id,
+        target.table,
+        changes
+      );
+
+      res.json({ success: true, updated });
+    } catch (error) {
+      sendRowChangeError(res, error, "update");
+    }
+  }
+);
+
+/**
+ * Delete rows by primary key in one transaction
+ * DELETE /api/databases/:id[/schemas/:schema]/tables/:tableName/rows
+ * Body: { rows: [{ key, original? }] }
+ */
+router.delete(
+  [
+    "/databases/:id/tables/:tableName/rows",
+    "/databases/:id/schemas/:schema/tables/:tableName/rows",
+  ],
+  async (req: Request, res: Response) => {
+    const target = getTableTarget(req, res);
+    if (!target) {
+      return;
+    }
+    try {
+      const rows = parseRowDeletions(req.body);
+      const deleted = await SequelizeDbManager.deleteRows(
+        target.id,
+        target.table,
+        rows
+      );
+
+      res.json({ success: true, deleted });
+    } catch (error) {
+      sendRowChangeError(res, error, "delete");
+    }
+  }
+);
+
+/**
+ * Download every row of a table that matches the filters, read from the
+ * database as the response streams
+ * GET /api/databases/:id[/schemas/:schema]/tables/:tableName/export?format=&columns=&delimiter=&header=&nullValue=&dialect=&table=&upsertKey=&orderBy=&direction=&filters=
+ * format is csv, ndjson, json, xlsx or sql; columns, upsertKey and filters
+ * are JSON arrays
+ */
+router.get(
+  [
+    "/databases/:id/tables/:tableName/export",
+    "/databases/:id/schemas/:schema/tables/:tableName/export",
+  ],
+  async (req: Request, res: Response) => {
+    const target = getTableTarget(req, res);
+    if (!target) {
+      return;
+    }
+
+    try {
+      const options = ExportWriter.parseOptions(req.query);
+      const { orderBy, direction, filters } = parseTableDataOptions(req.query);
+      const stream = await SequelizeDbManager.streamTable(
+        target.id,
+        target.table,
+        {
+          ...(orderBy !== undefined && { orderBy }),
+          ...(direction !== undefined && { direction }),
+          ...(filters !== undefined && { filters }),
+        }
+      );
+      try {
+        const fields = ExportWriter.selectColumns(stream.fields, options);
+
+        res.setHeader("Content-Type", ExportWriter.contentType(options.format));
+        res.setHeader(
+          "Content-Disposition",
+          ExportWriter.contentDisposition(target.table.name, options.format)
+        );
+        await pipeline(
+          ExportWriter.stream(fields, stream.batches, options, {
+            name: target.table.name,
+            table: target.table,
+            dialect: SequelizeDbManager.getDialect(target.id).type,
+          }),
+          res
+        );
+      } finally {
+        // Closes the cursor when the export stopped early
+        await stream.close();
+      }
+    } catch (error) {
+      // Once rows are streaming, the failed download is all the client sees
+      if (res.headersSent) {
+        console.error("Table export failed while streaming:", error);
+        return;
+      }
+      if (error instanceof ValidationError) {
+        return sendValidationError(res, error);
+      }
+      if (error instanceof TableNotFoundError) {
+        return res.status(404).json({
+          success: false,
+          message: error.message,
+        });
+      }
+      console.error("Error exporting table:", error);
+      res.status(500).json({
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Failed to export table",
+      });
+    }
+  }
+);
+
 export default router;
@@ -1,28 +1,323 @@
 import { Router, Request, Response } from "express";
+import { pipeline } from "stream/promises";
 import { SequelizeDbManager } from "../db/sequelizeDbManager";
+import { QueryHistory } from "../db/queryHistory";
+import {
+  ReadOnlyError,
+  QueryCancelledError,
+  QueryTimeoutError,
+  TransactionNotFoundError,
+  ValidationError,
+} from "../utils/errors";
+import { SqlClassifier } from "../utils/sqlClassifier";
+import { ExportWriter } from "../utils/exportWriter";
+import {
+  QueryHistoryEntry,
+  QueryHistoryStatus,
+  ResultColumn,
+  ResultTruncation,
+  StatementType,
+} from "../types/database";
 
 const router = Router();
 
+// Rows per page unless the client asks for another size
+const DEFAULT_PAGE_SIZE = 500;
+const MAX_PAGE_SIZE = 10000;
+
+const MAX_HISTORY_PAGE = 1000;
+const HISTORY_STATUSES: QueryHistoryStatus[] = [
+  "success",
+  "error",
+  "cancelled",
+  "timeout",
+];
+
 interface QueryRequest {
   query: string;
   databaseId: string;
-  params?: any[]; // Add support for query parameters
+  // Positional values for ? placeholders, or values by name for :name ones
+  params?: any[] | Record<string, unknown>;
+  queryId?: string; // Chosen by the client so it can cancel the query
+  timeoutMs?: number; // Applies to each statement in script mode
+  pageSize?: number;
+  mode?: "statement" | "script";
+  stopOnError?: boolean; // Script mode only; defaults to true
+  transactionId?: string; // From POST /api/databases/:id/transactions
 }
 
 interface QueryResult {
+  queryId: string;
   columns: string[];
+  fields: ResultColumn[]; // Name, type and source of each column
   rows: Record<string, any>[];
   rowCount: number;
+  statementType: StatementType;
+  command: string;
+  affectedRows: number | null; // null unless the statement changed rows
+  returnedRows: number;
+  cursorId: string | null; // Pass to GET /api/query/:cursorId for the next page
+  hasMore: boolean;
+  estimatedTotalRows: number | null;
+  truncated: boolean; // Rows were left out to respect the result limits
+  limit: ResultTruncation | null; // The limit that was hit
+  totalRows: number | null; // Rows before truncation, when known
+  executionTime: string;
+}
+
+type QueryOutcome = "cancelled" | "timeout";
+
+interface StatementResult {
+  index: number;
+  sql: string;
+  command: string; // e.g. "INSERT", known even for skipped statements
+  status: "success" | "error" | "skipped";
   executionTime: string;
+  result: QueryResult | null;
+  error: string | null;
+  outcome: QueryOutcome | null; // Set when the statement was stopped on purpose
 }
 
+type ManagerResult = Awaited<ReturnType<typeof SequelizeDbManager.query>>;
+
+const isValidPageSize = (pageSize: unknown): pageSize is number =>
+  Number.isInteger(pageSize) &&
+  (pageSize as number) > 0 &&
+  (pageSize as number) <= MAX_PAGE_SIZE;
+
+/**
+ * Format a query result for the frontend
+ */
+const formatResult = (
+  result: ManagerResult,
+  executionTime: string,
+  queryId = ""
+): QueryResult => ({
+  queryId: result.queryId || queryId,
+  columns: result.columns || [],
+  fields: result.fields || [],
+  rows: result.rows || [],
+  rowCount: result.rowCount || 0,
+  statementType: result.statementType || "read",
+  command: result.command || "",
+  affectedRows: result.affectedRows ?? null,
+  returnedRows: result.returnedRows ?? (result.rows || []).length,
+  cursorId: result.cursorId ?? null,
+  hasMore: result.hasMore ?? false,
+  estimatedTotalRows: result.estimatedTotalRows ?? null,
+  truncated: Boolean(result.truncation),
+  limit: result.truncation ?? null,
+  totalRows: result.totalRows ?? null,
+  executionTime,
+});
+
+/**
+ * The outcome of a query that was stopped on purpose, if it was
+ */
+const getOutcome = (error: unknown): QueryOutcome | null => {
+  if (error instanceof QueryCancelledError) {
+    return "cancelled";
+  }
+  if (error instanceof QueryTimeoutError) {
+    return "timeout";
+  }
+  return null;
+};
+
+/**
+ * Turn :named parameters into the positional values the manager binds
+ * Positional params pass through untouched
+ */
+const bindParams = (
+  query: string,
+  params: QueryRequest["params"],
+  databaseId: string
+): { sql: string; params: any[] } => {
+  if (!params || Array.isArray(params)) {
+    return { sql: query, params: params || [] };
+  }
+  const dialect = SequelizeDbManager.getDialect(databaseId).type;
+  return SqlClassifier.bindParameters(query, params, dialect);
+};
+
+const hasParams = (params: QueryRequest["params"]): boolean =>
+  Array.isArray(params)
+    ? params.length > 0
+    : Boolean(params) && Object.keys(params!).length > 0;
+
+// Rows a statement returned, or changed when it returned none
+const countRows = (result: QueryResult): number =>
+  result.affectedRows ?? result.rowCount;
+
+/**
+ * Add a run to the query history
+ * A history that cannot be written never fails the query itself
+ */
+const recordHistory = (entry: Omit<QueryHistoryEntry, "id" | "executedAt">) => {
+  QueryHistory.record(entry).catch((error) => {
+    console.error("Failed to record query history:", error);
+  });
+};
+
+const sendQueryError = (res: Response, error: unknown) => {
+  if (error instanceof ReadOnlyError) {
+    return res.status(403).json({
+      success: false,
+      message: error.message,
+    });
+  }
+
+  if (error instanceof ValidationError) {
+    return res.status(400).json({
+      success: false,
+      message: error.message,
+      ...(error.fieldErrors.length > 0 && { errors: error.fieldErrors }),
+    });
+  }
+
+  if (error instanceof TransactionNotFoundError) {
+    return res.status(404).json({
+      success: false,
+      message: error.message,
+    });
+  }
+
+  // Cancelled and timed-out queries are outcomes, not server errors
+  const outcome = getOutcome(error);
+  if (outcome) {
+    return res.status(outcome === "cancelled" ? 409 : 408).json({
+      success: false,
+      outcome,
+      message: (error as Error).message,
+    });
+  }
+
+  console.error("Query execution error:", error);
+
+  return res.status(500).json({
+    success: false,
+    message: error instanceof Error ? error.message : "Query execution failed",
+  });
+};
+
+/**
+ * Run each statement of a script in order, reporting every one separately
+ * A failed statement skips the rest when stopOnError is set; a cancelled one
+ * always does
+ */
+const runScript = async (
+  script: string,
+  databaseId: string,
+  options: {
+    queryId?: string;
+    timeoutMs?: number;
+    transactionId?: string;
+    stopOnError: boolean;
+  }
+): Promise<StatementResult[]> => {
+  const dialect = SequelizeDbManager.getDialect(databaseId).type;
+  const statements = SqlClassifier.split(script, dialect);
+  const results: StatementResult[] = [];
+  let stopped = false;
+
+  // Outside an open transaction each statement may run on a different
+  // pooled connection, so BEGIN would neither hold the script together
+  // nor be ended before the connection serves other requests
+  if (!options.transactionId) {
+    const control = statements.flatMap((sql, index) => {
+      const { type, command } = SqlClassifier.classify(sql, dialect);
+      return type === "transaction"
+        ? [
+            {
+              field: `statements[${index}]`,
+              message: `${command} is not allowed here`,
+            },
+          ]
+        : [];
+    });
+    if (control.length > 0) {
+      throw new ValidationError(
+        "Scripts cannot begin or end transactions; begin a transaction and run the script in it",
+        control
+      );
+    }
+  }
+
+  for (const [index, sql] of statements.entries()) {
+    const { command } = SqlClassifier.classify(sql, dialect);
+    if (stopped) {
+      results.push({
+        index,
+        sql,
+        command,
+        status: "skipped",
+        executionTime: "0ms",
+        result: null,
+        error: null,
+        outcome: null,
+      });
+      continue;
+    }
+
+    const startTime = Date.now();
+    try {
+      const result = await SequelizeDbManager.query(sql, [], databaseId, {
+        ...(options.queryId && { queryId: options.queryId }),
+        ...(options.timeoutMs && { timeoutMs: options.timeoutMs }),
+        ...(options.transactionId && {
+          transactionId: options.transactionId,
+        }),
+      });
+      const executionTime = `${Date.now() - startTime}ms`;
+      results.push({
+        index,
+        sql,
+        command,
+        status: "success",
+        executionTime,
+        result: formatResult(result, executionTime, options.queryId),
+        error: null,
+        outcome: null,
+      });
+    } catch (error) {
+      const outcome = getOutcome(error);
+      results.push({
+        index,
+        sql,
+        command,
+        status: "error",
+        executionTime: `${Date.now() - startTime}ms`,
+        result: null,
+        error:
+          error instanceof Error ? error.message : "Query execution failed",
+        outcome,
+      });
+      stopped = options.stopOnError || outcome === "cancelled";
+    }
+  }
+
+  return results;
+};
+
 /**
  * Execute SQL query on specified database
  * POST /api/query
+ * With mode "script", the SQL is split into statements that run one at a
+ * time and results come back per statement
  */
 router.post("/query", async (req: Request, res: Response) => {
   try {
-    const { query, databaseId, params } = req.body as QueryRequest;
+    const {
+      query,
+      databaseId,
+      params,
+      queryId,
+      timeoutMs,
+      pageSize = DEFAULT_PAGE_SIZE,
+      mode = "statement",
+      stopOnError = true,
+      transactionId,
+    } = req.body as QueryRequest;
 
     if (!query || !query.trim()) {
       return res.status(400).json({
@@ -38,36 +333,426 @@ router.post("/query", async (req: Request, res: Response) => {
       });
     }
 
+    if (
+      queryId !== undefined &&
+      (typeof queryId !== "string" || !queryId.trim())
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: "queryId must be a non-empty string",
+      });
+    }
+
+    if (
+      timeoutMs !== undefined &&
+      (typeof timeoutMs !== "number" || !(timeoutMs > 0))
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: "timeoutMs must be a positive number",
+      });
+    }
+
+    if (!isValidPageSize(pageSize)) {
+      return res.status(400).json({
+        success: false,
+        message: `pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+      });
+    }
+
+    if (
+      transactionId !== undefined &&
+      (typeof transactionId !== "string" || !transactionId.trim())
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: "transactionId must be a non-empty string",
+      });
+    }
+
+    if (mode !== "statement" && mode !== "script") {
+      return res.status(400).json({
+        success: false,
+        message: 'mode must be "statement" or "script"',
+      });
+    }
+
+    if (
+      params !== undefined &&
+      (params === null || typeof params !== "object")
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: "params must be an array or an object of named values",
+      });
+    }
+
+    if (mode === "script" && hasParams(params)) {
+      return res.status(400).json({
+        success: false,
+        message: "Parameters are not supported in script mode",
+      });
+    }
+
+    if (queryId && SequelizeDbManager.isQueryRunning(queryId)) {
+      return res.status(409).json({
+        success: false,
+        message: `Query ${queryId} is already running`,
+      });
+    }
+
+    const bound = bindParams(query, params, databaseId);
     const startTime = Date.now();
+    const history = { sql: query, databaseId };
+
+    try {
+      if (mode === "script") {
+        const results = await runScript(query, databaseId, {
+          ...(queryId && { queryId }),
+          ...(timeoutMs && { timeoutMs }),
+          ...(transactionId && { transactionId }),
+          stopOnError: stopOnError !== false,
+        });
+
+        const failed = results.find((result) => result.status === "error");
+        recordHistory({
+          ...history,
+          durationMs: Date.now() - startTime,
+          rowCount: results.reduce(
+            (sum, result) =>
+              sum + (result.result ? countRows(result.result) : 0),
+            0
+          ),
+          status: failed ? failed.outcome ?? "error" : "success",
+          error: failed?.error ?? null,
+        });
+
+        return res.json({
+          success: true,
+          mode,
+          results,
+          executionTime: `${Date.now() - startTime}ms`,
+        });
+      }
 
-    // Execute the query with optional parameters
-    const result = await SequelizeDbManager.query(
+      // Execute the query with optional parameters
+      const result = await SequelizeDbManager.query(
+        bound.sql,
+        bound.params,
+        databaseId,
+        {
+          ...(queryId && { queryId }),
+          ...(timeoutMs && { timeoutMs }),
+          ...(transactionId && { transactionId }),
+          pageSize,
+        }
+      );
+
+      const durationMs = Date.now() - startTime;
+      const formatted = formatResult(result, `${durationMs}ms`, queryId);
+      recordHistory({
+        ...history,
+        durationMs,
+        rowCount: countRows(formatted),
+        status: "success",
+        error: null,
+      });
+
+      res.json({
+        success: true,
+        result: formatted,
+      });
+    } catch (error) {
+      recordHistory({
+        ...history,
+        durationMs: Date.now() - startTime,
+        rowCount: null,
+        status: getOutcome(error) ?? "error",
+        error:
+          error instanceof Error ? error.message : "Query execution failed",
+      });
+      throw error;
+    }
+  } catch (error) {
+    sendQueryError(res, error);
+  }
+});
+
+/**
+ * Show the query plan of a single statement as a normalized node tree
+ * POST /api/query/explain
+ */
+router.post("/query/explain", async (req: Request, res: Response) => {
+  try {
+    const {
       query,
-      params || [],
+      databaseId,
+      params,
+      queryId,
+      timeoutMs,
+      transactionId,
+      analyze = false,
+      rollback = false,
+    } = req.body as QueryRequest & { analyze?: boolean; rollback?: boolean };
+
+    if (!query || !query.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: "Query is required",
+      });
+    }
+
+    if (!databaseId) {
+      return res.status(400).json({
+        success: false,
+        message: "Database ID is required",
+      });
+    }
+
+    if (typeof analyze !== "boolean" || typeof rollback !== "boolean") {
+      return res.status(400).json({
+        success: false,
+        message: "analyze and rollback must be booleans",
+      });
+    }
+
+    const bound = bindParams(query, params, databaseId);
+    const startTime = Date.now();
+    const result = await SequelizeDbManager.explain(
+      bound.sql,
+      bound.params,
+      databaseId,
+      {
+        ...(queryId && { queryId }),
+        ...(timeoutMs && { timeoutMs }),
+        ...(transactionId && { transactionId }),
+        analyze,
+        rollback,
+      }
+    );
+
+    res.json({
+      success: true,
+      result: { ...result, executionTime: `${Date.now() - startTime}ms` },
+    });
+  } catch (error) {
+    sendQueryError(res, error);
+  }
+});
+
+/**
+ * Download every row of a single SELECT, read from the database as the
+ * response streams; the result limits do not apply
+ * POST /api/query/export
+ * Body: { query, databaseId, params?, format, columns?, delimiter?, header?, nullValue?, dialect?, table?, upsertKey? }
+ */
+router.post("/query/export", async (req: Request, res: Response) => {
+  try {
+    const { query, databaseId, params } = req.body as QueryRequest;
+
+    if (!query || !query.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: "Query is required",
+      });
+    }
+
+    if (!databaseId) {
+      return res.status(400).json({
+        success: false,
+        message: "Database ID is required",
+      });
+    }
+
+    const options = ExportWriter.parseOptions(req.body);
+    const bound = bindParams(query, params, databaseId);
+    const stream = await SequelizeDbManager.streamQuery(
+      bound.sql,
+      bound.params,
       databaseId
     );
+    try {
+      const fields = ExportWriter.selectColumns(stream.fields, options);
+
+      res.setHeader("Content-Type", ExportWriter.contentType(options.format));
+      res.setHeader(
+        "Content-Disposition",
+        ExportWriter.contentDisposition("query_results", options.format)
+      );
+      await pipeline(
+        ExportWriter.stream(fields, stream.batches, options, {
+          name: "Query results",
+          table: { name: "query_results" },
+          dialect: SequelizeDbManager.getDialect(databaseId).type,
+        }),
+        res
+      );
+    } finally {
+      // Gives the connection back if the rows were not all read
+      await stream.close();
+    }
+  } catch (error) {
+    // Once rows are streaming, the failed download is all the client sees
+    if (res.headersSent) {
+      console.error("Query export failed while streaming:", error);
+      return;
+    }
+    sendQueryError(res, error);
+  }
+});
+
+/**
+ * Search the queries run through POST /api/query, newest first
+ * GET /api/query/history?search=&databaseId=&status=&from=&to=&limit=&offset=
+ * status takes a comma-separated list; from and to are ISO 8601 timestamps
+ */
+router.get("/query/history", async (req: Request, res: Response) => {
+  try {
+    const { search, databaseId, status, from, to, limit, offset } =
+      req.query as Record<string, string | undefined>;
+
+    const statuses = status ? status.split(",") : [];
+    const unknown = statuses.find(
+      (value) => !HISTORY_STATUSES.includes(value as QueryHistoryStatus)
+    );
+    if (unknown !== undefined) {
+      return res.status(400).json({
+        success: false,
+        message: `status must be one of ${HISTORY_STATUSES.join(", ")}`,
+      });
+    }
+
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+    if (
+      (fromDate && isNaN(fromDate.getTime())) ||
+      (toDate && isNaN(toDate.getTime()))
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: "from and to must be ISO 8601 dates",
+      });
+    }
+
+    const limitCount = limit === undefined ? undefined : Number(limit);
+    const offsetCount = offset === undefined ? undefined : Number(offset);
+    if (
+      (limitCount !== undefined &&
+        (!Number.isInteger(limitCount) ||
+          limitCount < 1 ||
+          limitCount > MAX_HISTORY_PAGE)) ||
+      (offsetCount !== undefined &&
+        (!Number.isInteger(offsetCount) || offsetCount < 0))
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: `limit must be an integer between 1 and ${MAX_HISTORY_PAGE} and offset a non-negative integer`,
+      });
+    }
 
-    const executionTime = `${Date.now() - startTime}ms`;
+    const { entries, total } = await QueryHistory.search({
+      ...(search && { search }),
+      ...(databaseId && { databaseId }),
+      ...(statuses.length > 0 && {
+        status: statuses as QueryHistoryStatus[],
+      }),
+      ...(fromDate && { from: fromDate }),
+      ...(toDate && { to: toDate }),
+      ...(limitCount !== undefined && { limit: limitCount }),
+      ...(offsetCount !== undefined && { offset: offsetCount }),
+    });
 
-    // Format the result for the frontend
-    const queryResult: QueryResult = {
-      columns: result.columns || [],
-      rows: result.rows || [],
-      rowCount: result.rowCount || 0,
-      executionTime,
-    };
+    res.json({ success: true, entries, total });
+  } catch (error) {
+    console.error("Error reading query history:", error);
+    res.status(500).json({
+      success: false,
+      message:
+        error instanceof Error ? error.message : "Failed to read query history",
+    });
+  }
+});
+
+/**
+ * Fetch the next page of a query result
+ * GET /api/query/:cursorId?pageSize=
+ */
+router.get("/query/:cursorId", async (req: Request, res: Response) => {
+  try {
+    const { cursorId } = req.params;
+    const pageSize =
+      req.query.pageSize === undefined
+        ? DEFAULT_PAGE_SIZE
+        : Number(req.query.pageSize);
+
+    if (!cursorId) {
+      return res.status(400).json({
+        success: false,
+        message: "Cursor ID is required",
+      });
+    }
+
+    if (!isValidPageSize(pageSize)) {
+      return res.status(400).json({
+        success: false,
+        message: `pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+      });
+    }
+
+    const startTime = Date.now();
+    const result = await SequelizeDbManager.fetchPage(cursorId, pageSize);
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        message: "Cursor not found or expired",
+      });
+    }
+
+    res.json({
+      success: true,
+      result: formatResult(result, `${Date.now() - startTime}ms`),
+    });
+  } catch (error) {
+    sendQueryError(res, error);
+  }
+});
+
+/**
+ * Cancel a running query
+ * POST /api/query/:queryId/cancel
+ */
+router.post("/query/:queryId/cancel", async (req: Request, res: Response) => {
+  try {
+    const { queryId } = req.params;
+
+    if (!queryId) {
+      return res.status(400).json({
+        success: false,
+        message: "Query ID is required",
+      });
+    }
+
+    const cancelled = await SequelizeDbManager.cancelQuery(queryId);
+
+    if (!cancelled) {
+      return res.status(404).json({
+        success: false,
+        message: "Query not found or already finished",
+      });
+    }
 
     res.json({
       success: true,
-      result: queryResult,
+      message: "Query cancelled",
     });
   } catch (error) {
-    console.error("Query execution error:", error);
+    console.error("Query cancellation error:", error);
 
     res.status(500).json({
       success: false,
       message:
-        error instanceof Error ? error.message : "Query execution failed",
+        error instanceof Error ? error.message : "Failed to cancel query",
     });
   }
 });
@@ -0,0 +1,254 @@
+import { Router, Request, Response } from "express";
+import { SavedQueryStore } from "../db/savedQueryStore";
+import { SequelizeDbManager } from "../db/sequelizeDbManager";
+import {
+  SavedQueryInput,
+  SavedQueryParameter,
+  SavedQueryParameterType,
+} from "../types/database";
+import { FieldError, ValidationError } from "../utils/errors";
+import { SqlClassifier } from "../utils/sqlClassifier";
+
+const router = Router();
+
+const PARAMETER_TYPES: SavedQueryParameterType[] = [
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "date",
+];
+
+const PARAMETER_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Whether a default value suits the parameter's declared type
+const DEFAULT_CHECKS: Record<SavedQueryParameterType, (value: any) => boolean> =
+  {
+    string: (value) => typeof value === "string",
+    number: (value) => typeof value === "number" && Number.isFinite(value),
+    integer: (value) => Number.isInteger(value),
+    boolean: (value) => typeof value === "boolean",
+    date: (value) =>
+      typeof value === "string" &&
+      /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+      !isNaN(new Date(value).getTime()),
+  };
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+/**
+ * Check a saved query from the request body
+ * Every :name in the SQL must be declared as a parameter
+ * @throws ValidationError listing every invalid field
+ */
+function parseSavedQuery(body: any): SavedQueryInput {
+  const { name, description = "", tags = [], databaseId, sql } = body || {};
+  const parameters = body?.parameters ?? [];
+  const errors: FieldError[] = [];
+
+  if (!isNonEmptyString(name)) {
+    errors.push({ field: "name", message: "Name is required" });
+  }
+  if (typeof description !== "string") {
+    errors.push({ field: "description", message: "Must be a string" });
+  }
+  if (!Array.isArray(tags) || !tags.every(isNonEmptyString)) {
+    errors.push({ field: "tags", message: "Must be a list of tag names" });
+  }
+  if (!isNonEmptyString(databaseId)) {
+    errors.push({ field: "databaseId", message: "Database ID is required" });
+  }
+  if (!isNonEmptyString(sql)) {
+    errors.push({ field: "sql", message: "SQL is required" });
+  }
+
+  if (!Array.isArray(parameters)) {
+    errors.push({ field: "parameters", message: "Must be a list" });
+  } else {
+    parameters.forEach((parameter: any, index: number) => {
+      const field = `parameters[${index}]`;
+      if (
+        typeof parameter?.name !== "string" ||
+        !PARAMETER_NAME.test(parameter.name)
+      ) {
+        errors.push({
+          field: `${field}.name`,
+          message: "Must be a letter or underscore followed by word characters",
+        });
+      } else if (
+        parameters.findIndex((other: any) => other?.name === parameter.name) !==
+        index
+      ) {
+        errors.push({ field: `${field}.name`, message: "Duplicate parameter" });
+      }
+      if (!PARAMETER_TYPES.includes(parameter?.type)) {
+        errors.push({
+          field: `${field}.type`,
+          message: `Must be one of ${PARAMETER_TYPES.join(", ")}`,
+        });
+      } else if (
+        parameter.default !== undefined &&
+        parameter.default !== null &&
+        !DEFAULT_CHECKS[parameter.type as SavedQueryParameterType](
+          parameter.default
+        )
+      ) {
+        errors.push({
+          field: `${field}.default`,
+          message: `Must be a ${parameter.type}`,
+        });
+      }
+    });
+
+    if (isNonEmptyString(sql) && isNonEmptyString(databaseId)) {
+      // Comments and literals are recognized the way the target database does
+      const dialect = SequelizeDbManager.hasConnection(databaseId)
+        ? SequelizeDbManager.getDialect(databaseId).type
+        : "postgresql";
+      const declared = new Set(
+        parameters.map((parameter: any) => parameter?.name)
+      );
+      for (const used of SqlClassifier.parameterNames(sql, dialect)) {
+        if (!declared.has(used)) {
+          errors.push({
+            field: "parameters",
+            message: `:${used} is used in the SQL but not declared`,
+          });
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError("Invalid saved query", errors);
+  }
+
+  return {
+    name: name.trim(),
+    description,
+    tags: [...new Set<string>(tags.map((tag: string) => tag.trim()))],
+    databaseId,
+    sql,
+    parameters: parameters.map(
+      (parameter: any): SavedQueryParameter => ({
+        name: parameter.name,
+        type: parameter.type,
+        default: parameter.default ?? null,
+      })
+    ),
+  };
+}
+
+/**
+ * Send a 400 response with field-level validation errors
+ */
+function sendValidationError(res: Response, error: ValidationError) {
+  return res.status(400).json({
+    success: false,
+    message: error.message,
+    errors: error.fieldErrors,
+  });
+}
+
+function sendStoreError(res: Response, error: unknown, action: string) {
+  if (error instanceof ValidationError) {
+    return sendValidationError(res, error);
+  }
+  console.error(`Error trying to ${action}:`, error);
+  res.status(500).json({
+    success: false,
+    message: error instanceof Error ? error.message : `Failed to ${action}`,
+  });
+}
+
+/**
+ * List saved queries, optionally only those with a tag
+ * GET /api/saved-queries?tag=
+ */
+router.get("/saved-queries", async (req: Request, res: Response) => {
+  try {
+    const { tag } = req.query as { tag?: string };
+    const queries = await SavedQueryStore.list();
+    res.json({
+      success: true,
+      queries: tag
+        ? queries.filter((query) => query.tags.includes(tag))
+        : queries,
+    });
+  } catch (error) {
+    sendStoreError(res, error, "list saved queries");
+  }
+});
+
+/**
+ * GET /api/saved-queries/:id
+ */
+router.get("/saved-queries/:id", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const query = id ? await SavedQueryStore.get(id) : null;
+    if (!query) {
+      return res.status(404).json({
+        success: false,
+        message: "Saved query not found",
+      });
+    }
+    res.json({ success: true, query });
+  } catch (error) {
+    sendStoreError(res, error, "load the saved query");
+  }
+});
+
+/**
+ * POST /api/saved-queries
+ */
+router.post("/saved-queries", async (req: Request, res: Response) => {
+  try {
+    const query = await SavedQueryStore.create(parseSavedQuery(req.body));
+    res.status(201).json({ success: true, query });
+  } catch (error) {
+    sendStoreError(res, error, "save the query");
+  }
+});
+
+/**
+ * Replace every field of a saved query
+ * PUT /api/saved-queries/:id
+ */
+router.put("/saved-queries/:id", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const input = parseSavedQuery(req.body);
+    const query = id ? await SavedQueryStore.replace(id, input) : null;
+    if (!query) {
+      return res.status(404).json({
+        success: false,
+        message: "Saved query not found",
+      });
+    }
+    res.json({ success: true, query });
+  } catch (error) {
+    sendStoreError(res, error, "update the saved query");
+  }
+});
+
+/**
+ * DELETE /api/saved-queries/:id
+ */
+router.delete("/saved-queries/:id", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!id || !(await SavedQueryStore.remove(id))) {
+      return res.status(404).json({
+        success: false,
+        message: "Saved query not found",
+      });
+    }
+    res.json({ success: true, message: "Saved query deleted" });
+  } catch (error) {
+    sendStoreError(res, error, "delete the saved query");
+  }
+});
+
+export default router;
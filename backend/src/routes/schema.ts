@@ -2,6 +2,9 @@ import { Router, Request, Response } from 'express';
 import { MermaidParser } from '../utils/mermaidParser';
 import { TypeMapper } from '../utils/typeMapper';
 import { SchemaManager } from '../db/schemaManager';
+import { SequelizeDbManager } from '../db/sequelizeDbManager';
+import { DialectAdapter } from '../db/dialects';
+import { LOCAL_DB_ID } from '../types/database';
 
 const router = Router();
 
@@ -11,15 +14,16 @@ const router = Router();
 interface CreateTablesRequest {
   mermaidDiagram: string;
   dropExisting?: boolean;
+  databaseId?: string;
 }
 
 /**
  * POST /api/schema/create-from-mermaid
- * Create PostgreSQL tables from a Mermaid ER diagram
+ * Create tables from a Mermaid ER diagram in the selected database
  */
 router.post('/create-from-mermaid', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { mermaidDiagram, dropExisting = false } = req.body as CreateTablesRequest;
+    const { mermaidDiagram, dropExisting = false, databaseId = LOCAL_DB_ID } = req.body as CreateTablesRequest;
 
     // Validate input
     if (!mermaidDiagram || typeof mermaidDiagram !== 'string') {
@@ -30,6 +34,33 @@ router.post('/create-from-mermaid', async (req: Request, res: Response): Promise
       return;
     }
 
+    if (typeof databaseId !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid databaseId in request body'
+      });
+      return;
+    }
+
+    let dialect: DialectAdapter;
+    try {
+      dialect = SequelizeDbManager.getDialect(databaseId);
+    } catch {
+      res.status(404).json({
+        success: false,
+        error: `Database connection '${databaseId}' not found`
+      });
+      return;
+    }
+
+    if (SequelizeDbManager.isReadOnly(databaseId)) {
+      res.status(403).json({
+        success: false,
+        error: `Database connection '${databaseId}' is read-only. Creating tables is not allowed.`
+      });
+      return;
+    }
+
     // Validate Mermaid diagram format
     if (!MermaidParser.isValidMermaidDiagram(mermaidDiagram)) {
       res.status(400).json({
@@ -51,10 +82,10 @@ router.post('/create-from-mermaid', async (req: Request, res: Response): Promise
     }
 
     // Convert entities to database table definitions
-    const tables = TypeMapper.entitiesToTables(parsedDiagram.entities);
+    const tables = TypeMapper.entitiesToTables(parsedDiagram.entities, dialect.type);
 
     // Create tables in database
-    const result = await SchemaManager.createTables(tables, dropExisting);
+    const result = await SchemaManager.createTables(tables, dropExisting, databaseId);
 
     if (result.success) {
       res.status(201).json({
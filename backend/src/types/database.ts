@@ -1,3 +1,62 @@
+/**
+ * Driver options accepted from a connection string query
+ */
+export interface ConnectionOptions {
+  application_name?: string; // PostgreSQL only
+  charset?: string; // MySQL only
+  connect_timeout?: number; // Seconds
+  mode?: "ro" | "rw" | "rwc"; // SQLite only
+}
+
+export type SslMode = "disable" | "require" | "verify-ca" | "verify-full";
+
+/**
+ * TLS settings for PostgreSQL and MySQL connections
+ * Certificates and the private key are PEM-encoded strings
+ */
+export interface SslOptions {
+  mode: SslMode;
+  ca?: string;
+  cert?: string;
+  key?: string; // Never returned by the API
+}
+
+/**
+ * Connection pool limits; all durations are in milliseconds
+ */
+export interface PoolOptions {
+  max?: number; // Maximum open connections
+  acquireTimeout?: number; // Wait for a free connection before failing
+  idleTimeout?: number; // Close connections idle for longer than this
+  statementTimeout?: number; // Cancel statements running longer than this
+}
+
+/**
+ * Caps on the rows a single response may carry
+ */
+export interface ResultLimits {
+  maxRows?: number;
+  maxBytes?: number; // Size of the rows serialized as JSON
+}
+
+/**
+ * Why a result was cut short
+ */
+export interface ResultTruncation {
+  limit: keyof ResultLimits;
+  value: number;
+}
+
+/**
+ * A column of a query result, as far as the driver can tell
+ */
+export interface ResultColumn {
+  name: string;
+  dataType: string | null; // The database's type name
+  nullable: boolean | null; // As declared on the source column
+  table: string | null; // Set when the column is read straight from a table
+}
+
 export interface DatabaseCredentials {
   id: string;
   name: string;
@@ -8,6 +67,11 @@ export interface DatabaseCredentials {
   username?: string; // Optional for SQLite
   password?: string; // Optional for SQLite
   isLocal?: boolean;
+  readOnly?: boolean; // Reject anything but read statements
+  options?: ConnectionOptions;
+  ssl?: SslOptions; // PostgreSQL and MySQL only
+  pool?: PoolOptions;
+  limits?: ResultLimits;
 }
 
 export interface ConnectionResult {
@@ -16,11 +80,209 @@ export interface ConnectionResult {
   connectionId?: string;
 }
 
+// "idle" connections had their pool closed after inactivity and reopen on the next query
+export type ConnectionStatus = "connected" | "degraded" | "idle";
+
+/**
+ * Result of one background health check
+ */
+export interface HealthCheck {
+  checkedAt: Date;
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
 export interface DatabaseSession {
   id: string;
   credentials: DatabaseCredentials;
   createdAt: Date;
   lastUsed: Date;
+  status: ConnectionStatus;
+  lastError?: string; // Set when the connection could not be restored
+  healthHistory: HealthCheck[]; // Most recent checks, oldest first
+}
+
+export interface PoolStats {
+  max: number;
+  active: number;
+  idle: number;
+  waiting: number;
+}
+
+export interface ConnectionStats {
+  pool: PoolStats | null; // SQLite connections are not pooled
+  queries: number;
+  errors: number;
+  averageLatencyMs: number;
+}
+
+// read: returns rows without changing data; dml: changes rows;
+// ddl: changes the schema; transaction: BEGIN, COMMIT and friends;
+// utility: settings, maintenance and anything else
+export type StatementType = "read" | "dml" | "ddl" | "transaction" | "utility";
+
+export interface StatementInfo {
+  type: StatementType;
+  command: string; // Leading keyword, e.g. SELECT, UPDATE, CREATE
+  returnsRows: boolean; // Reads, and DML with a RETURNING clause
+}
+
+/**
+ * Per-execution settings for a query
+ */
+export interface QueryExecutionOptions {
+  queryId?: string; // Lets the caller cancel the query while it runs
+  timeoutMs?: number; // Can only shorten the connection's statementTimeout
+  pageSize?: number; // Return single SELECTs a page at a time through a cursor
+  transactionId?: string; // Run inside a transaction opened by beginTransaction()
 }
 
+/**
+ * Settings for showing a statement's query plan
+ */
+export interface ExplainOptions extends Omit<QueryExecutionOptions, "pageSize"> {
+  analyze?: boolean; // Run the statement to measure actual rows and time
+  rollback?: boolean; // Required to analyze writes; their changes are rolled back
+}
+
+/**
+ * A table, optionally in a named schema; MySQL schemas are databases and
+ * SQLite ones are attached database files
+ */
+export interface TableReference {
+  schema?: string; // Defaults to the connection's current schema
+  name: string;
+}
+
+export type TableFilterOperator =
+  | "eq"
+  | "neq"
+  | "lt"
+  | "lte"
+  | "gt"
+  | "gte"
+  | "contains"
+  | "startsWith"
+  | "endsWith"
+  | "isNull"
+  | "isNotNull";
+
+/**
+ * A condition on one column when browsing a table
+ */
+export interface TableFilter {
+  column: string;
+  operator: TableFilterOperator;
+  value?: string | number | boolean; // Unused by isNull and isNotNull
+}
+
+/**
+ * Which page of a table to read, and how to filter and sort it
+ */
+export interface TableDataOptions {
+  page?: number; // 1-based
+  pageSize?: number;
+  orderBy?: string; // Defaults to the primary key, so pages stay stable
+  direction?: "asc" | "desc";
+  filters?: TableFilter[]; // Rows must match every filter
+}
+
+/**
+ * A change to one table row, found by its primary key
+ * original holds the changed columns as they were read; the change is only
+ * made while the row still holds those values
+ */
+export interface RowUpdate {
+  key: Record<string, unknown>; // Every primary key column
+  original: Record<string, unknown>;
+  values: Record<string, unknown>; // New values by column
+}
+
+/**
+ * A table row to delete, found by its primary key
+ */
+export interface RowDeletion {
+  key: Record<string, unknown>;
+  original?: Record<string, unknown>; // Checked like RowUpdate.original
+}
+
+// ndjson: one JSON object per line; json: a single array of objects;
+// xlsx: an Office Open XML workbook; sql: a script of multi-row INSERTs
+export type ExportFormat = "csv" | "ndjson" | "json" | "xlsx" | "sql";
+
+/**
+ * How to write exported rows; unset fields take their defaults
+ */
+export interface ExportOptions {
+  format: ExportFormat;
+  columns?: string[]; // In this order; every column when unset
+  delimiter?: string; // CSV only; a single character, "," by default
+  header?: boolean; // CSV and XLSX; true by default
+  nullValue?: string; // CSV and XLSX text for NULL; empty by default
+  dialect?: DatabaseCredentials["type"]; // SQL only; the source's by default
+  table?: string; // SQL only; an unqualified name, the source table by default
+  upsertKey?: string[]; // SQL only; update rows that match on these columns
+}
+
+// "cancelled" and "timeout" runs were stopped on purpose rather than failing
+export type QueryHistoryStatus = "success" | "error" | "cancelled" | "timeout";
+
+/**
+ * One run of POST /api/query; a script is recorded as a single run
+ */
+export interface QueryHistoryEntry {
+  id: string;
+  sql: string;
+  databaseId: string;
+  durationMs: number;
+  rowCount: number | null; // Rows returned or changed; null when it failed
+  status: QueryHistoryStatus;
+  error: string | null;
+  executedAt: string; // ISO 8601
+}
+
+/**
+ * Narrows GET /api/query/history; every field is optional
+ */
+export interface QueryHistoryFilter {
+  search?: string; // Every word must appear in the SQL or the error
+  databaseId?: string;
+  status?: QueryHistoryStatus[];
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export type SavedQueryParameterType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "date";
+
+/**
+ * A :named parameter of a saved query
+ */
+export interface SavedQueryParameter {
+  name: string; // Without the colon
+  type: SavedQueryParameterType;
+  default: string | number | boolean | null; // Dates are YYYY-MM-DD strings
+}
+
+export interface SavedQuery {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  databaseId: string; // The database the query is written for
+  sql: string;
+  parameters: SavedQueryParameter[];
+  createdAt: string; // ISO 8601
+  updatedAt: string;
+}
+
+export type SavedQueryInput = Omit<SavedQuery, "id" | "createdAt" | "updatedAt">;
+
 export const LOCAL_DB_ID = "pg-db";
@@ -1,7 +1,12 @@
 // Custom error classes for better error handling
 
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
 export class ValidationError extends Error {
-  constructor(message: string) {
+  constructor(message: string, public readonly fieldErrors: FieldError[] = []) {
     super(message);
     this.name = 'ValidationError';
   }
@@ -14,6 +19,48 @@ export class DatabaseError extends Error {
   }
 }
 
+export class ReadOnlyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReadOnlyError';
+  }
+}
+
+export class QueryCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryCancelledError';
+  }
+}
+
+export class QueryTimeoutError extends Error {
+  constructor(message: string, public readonly timeoutMs?: number) {
+    super(message);
+    this.name = 'QueryTimeoutError';
+  }
+}
+
+export class TransactionNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransactionNotFoundError';
+  }
+}
+
+export class TableNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TableNotFoundError';
+  }
+}
+
+export class RowConflictError extends Error {
+  constructor(message: string, public readonly index: number) {
+    super(message);
+    this.name = 'RowConflictError';
+  }
+}
+
 export class ParsingError extends Error {
   constructor(message: string) {
     super(message);
@@ -0,0 +1,392 @@
+import { Readable } from "stream";
+import { DatabaseType, getDialectAdapter } from "../db/dialects";
+import {
+  ExportFormat,
+  ExportOptions,
+  ResultColumn,
+  TableReference,
+} from "../types/database";
+import { FieldError, ValidationError } from "./errors";
+import { XlsxCell, XlsxWriter } from "./xlsxWriter";
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  "csv",
+  "ndjson",
+  "json",
+  "xlsx",
+  "sql",
+];
+
+const SQL_DIALECTS: DatabaseType[] = ["postgresql", "mysql", "sqlite"];
+
+// Rows per INSERT in the SQL format, well under every dialect's limits
+const SQL_ROWS_PER_INSERT = 100;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  sql: "application/sql; charset=utf-8",
+};
+
+type Row = Record<string, unknown>;
+
+/**
+ * Where exported rows came from
+ */
+export interface ExportTarget {
+  name: string; // Titles the XLSX sheet
+  table: TableReference; // Inserted into by the SQL format by default
+  dialect: DatabaseType; // Of the source connection
+}
+
+/**
+ * Encodes exported rows as CSV, NDJSON, a JSON array, an XLSX workbook or
+ * a script of SQL INSERTs
+ * Rows are encoded a batch at a time as they are read, so exports of any
+ * size stream in constant memory. Binary values are written as base64 and
+ * dates as ISO 8601 text.
+ */
+export class ExportWriter {
+  /**
+   * Read export options from a request body or query string
+   * Query string values arrive as text, so header may also be "true" or
+   * "false" and columns and upsertKey JSON arrays.
+   * @throws ValidationError listing every invalid option
+   */
+  static parseOptions(input: Record<string, unknown>): ExportOptions {
+    const {
+      format,
+      columns,
+      delimiter,
+      header,
+      nullValue,
+      dialect,
+      table,
+      upsertKey,
+    } = input;
+    const errors: FieldError[] = [];
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      errors.push({
+        field: "format",
+        message: `Must be one of ${EXPORT_FORMATS.join(", ")}`,
+      });
+    }
+    const options: ExportOptions = { format: format as ExportFormat };
+
+    if (columns !== undefined) {
+      const parsed = this.columnList(columns);
+      if (parsed) {
+        options.columns = parsed;
+      } else {
+        errors.push({
+          field: "columns",
+          message: "Must be a non-empty JSON array of column names",
+        });
+      }
+    }
+    if (delimiter !== undefined) {
+      if (
+        typeof delimiter === "string" &&
+        [...delimiter].length === 1 &&
+        !/["\r\n]/.test(delimiter)
+      ) {
+        options.delimiter = delimiter;
+      } else {
+        errors.push({
+          field: "delimiter",
+          message: "Must be one character other than a quote or line break",
+        });
+      }
+    }
+    if (header !== undefined) {
+      if (
+        typeof header === "boolean" ||
+        header === "true" ||
+        header === "false"
+      ) {
+        options.header = header === true || header === "true";
+      } else {
+        errors.push({ field: "header", message: "Must be true or false" });
+      }
+    }
+    if (nullValue !== undefined) {
+      if (typeof nullValue === "string") {
+        options.nullValue = nullValue;
+      } else {
+        errors.push({ field: "nullValue", message: "Must be a string" });
+      }
+    }
+    if (dialect !== undefined) {
+      if (SQL_DIALECTS.includes(dialect as DatabaseType)) {
+        options.dialect = dialect as DatabaseType;
+      } else {
+        errors.push({
+          field: "dialect",
+          message: `Must be one of ${SQL_DIALECTS.join(", ")}`,
+        });
+      }
+    }
+    if (table !== undefined) {
+      if (typeof table === "string" && table.trim() !== "") {
+        options.table = table;
+      } else {
+        errors.push({ field: "table", message: "Must be a table name" });
+      }
+    }
+    if (upsertKey !== undefined) {
+      const parsed = this.columnList(upsertKey);
+      if (parsed) {
+        options.upsertKey = parsed;
+      } else {
+        errors.push({
+          field: "upsertKey",
+          message: "Must be a non-empty JSON array of column names",
+        });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid export options", errors);
+    }
+    return options;
+  }
+
+  /**
+   * Narrow result fields to the chosen columns, in the order chosen
+   * @throws ValidationError naming the columns the result does not have,
+   * and upsert key columns that are not exported
+   */
+  static selectColumns(
+    fields: ResultColumn[],
+    options: ExportOptions
+  ): ResultColumn[] {
+    const errors: FieldError[] = [];
+    const selected = options.columns
+      ? options.columns.flatMap((name, index) => {
+          const field = fields.find((candidate) => candidate.name === name);
+          if (!field) {
+            errors.push({
+              field: `columns[${index}]`,
+              message: `Unknown column: ${name}`,
+            });
+          }
+          return field ? [field] : [];
+        })
+      : fields;
+    options.upsertKey?.forEach((name, index) => {
+      if (!selected.some((field) => field.name === name)) {
+        errors.push({
+          field: `upsertKey[${index}]`,
+          message: `Not an exported column: ${name}`,
+        });
+      }
+    });
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid export options", errors);
+    }
+    return selected;
+  }
+
+  static contentType(format: ExportFormat): string {
+    return CONTENT_TYPES[format];
+  }
+
+  /**
+   * A Content-Disposition header that downloads the export as name.format
+   * Browsers without RFC 5987 support get the name with non-ASCII replaced
+   */
+  static contentDisposition(name: string, format: ExportFormat): string {
+    const filename = `${name}.${format}`;
+    const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+    const encoded = encodeURIComponent(filename).replace(
+      /['()*]/g,
+      (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+    );
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+  }
+
+  /**
+   * Encode rows as they are read
+   * Destroying the stream stops reading batches.
+   */
+  static stream(
+    fields: ResultColumn[],
+    batches: AsyncIterable<Row[]>,
+    options: ExportOptions,
+    target: ExportTarget
+  ): Readable {
+    return Readable.from(this.encode(fields, batches, options, target), {
+      objectMode: false,
+    });
+  }
+
+  private static async *encode(
+    fields: ResultColumn[],
+    batches: AsyncIterable<Row[]>,
+    options: ExportOptions,
+    target: ExportTarget
+  ): AsyncGenerator<string | Buffer> {
+    const columns = fields.map((field) => field.name);
+    const { header = true, nullValue = "" } = options;
+
+    switch (options.format) {
+      case "csv": {
+        const delimiter = options.delimiter ?? ",";
+        const line = (values: unknown[]) =>
+          values
+            .map((value) => this.csvField(value, delimiter, nullValue))
+            .join(delimiter) + "\r\n";
+        if (header) {
+          yield line(columns);
+        }
+        for await (const rows of batches) {
+          yield rows
+            .map((row) => line(columns.map((column) => row[column])))
+            .join("");
+        }
+        return;
+      }
+
+      case "ndjson":
+        for await (const rows of batches) {
+          yield rows
+            .map((row) => JSON.stringify(this.jsonRow(row, columns)) + "\n")
+            .join("");
+        }
+        return;
+
+      case "json": {
+        let written = 0;
+        yield "[";
+        for await (const rows of batches) {
+          yield rows
+            .map(
+              (row, index) =>
+                (written + index === 0 ? "\n" : ",\n") +
+                JSON.stringify(this.jsonRow(row, columns))
+            )
+            .join("");
+          written += rows.length;
+        }
+        yield written === 0 ? "]\n" : "\n]\n";
+        return;
+      }
+
+      case "xlsx":
+        yield* XlsxWriter.write(
+          columns,
+          this.cellBatches(batches, columns, nullValue),
+          { sheetName: target.name, header }
+        );
+        return;
+
+      case "sql": {
+        const dialect = getDialectAdapter(options.dialect ?? target.dialect);
+        const table = options.table ?? target.table;
+        for await (const rows of batches) {
+          const statements: string[] = [];
+          for (let i = 0; i < rows.length; i += SQL_ROWS_PER_INSERT) {
+            statements.push(
+              dialect.buildInsertScript(
+                table,
+                columns,
+                rows
+                  .slice(i, i + SQL_ROWS_PER_INSERT)
+                  .map((row) => columns.map((column) => row[column])),
+                options.upsertKey
+              )
+            );
+          }
+          yield statements.join("");
+        }
+        return;
+      }
+    }
+  }
+
+  // A JSON array of column names, or undefined when the value is not one
+  private static columnList(value: unknown): string[] | undefined {
+    let parsed: unknown = value;
+    if (typeof value === "string") {
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        return undefined;
+      }
+    }
+    return Array.isArray(parsed) &&
+      parsed.length > 0 &&
+      parsed.every((column) => typeof column === "string" && column !== "")
+      ? parsed
+      : undefined;
+  }
+
+  private static async *cellBatches(
+    batches: AsyncIterable<Row[]>,
+    columns: string[],
+    nullValue: string
+  ): AsyncGenerator<XlsxCell[][]> {
+    for await (const rows of batches) {
+      yield rows.map((row) =>
+        columns.map((column): XlsxCell => {
+          const value = row[column];
+          if (value === null || value === undefined) {
+            return nullValue === "" ? null : nullValue;
+          }
+          return typeof value === "number" || typeof value === "boolean"
+            ? value
+            : this.toText(value);
+        })
+      );
+    }
+  }
+
+  /**
+   * One RFC 4180 field; text that matches nullValue is quoted so that it
+   * reads back as text rather than NULL
+   */
+  private static csvField(
+    value: unknown,
+    delimiter: string,
+    nullValue: string
+  ): string {
+    if (value === null || value === undefined) {
+      return nullValue;
+    }
+    const text = this.toText(value);
+    return text === nullValue ||
+      text.includes(delimiter) ||
+      /["\r\n]/.test(text)
+      ? `"${text.replace(/"/g, '""')}"`
+      : text;
+  }
+
+  private static jsonRow(row: Row, columns: string[]): Row {
+    return Object.fromEntries(
+      columns.map((column) => {
+        const value = row[column];
+        if (Buffer.isBuffer(value)) {
+          return [column, value.toString("base64")];
+        }
+        return [column, typeof value === "bigint" ? String(value) : value];
+      })
+    );
+  }
+
+  private static toText(value: unknown): string {
+    if (value instanceof Date) {
+      return Number.isNaN(value.getTime())
+        ? String(value)
+        : value.toISOString();
+    }
+    if (Buffer.isBuffer(value)) {
+      return value.toString("base64");
+    }
+    if (typeof value === "object") {
+      return JSON.stringify(value);
+    }
+    return String(value);
+  }
+}
@@ -0,0 +1,65 @@
+import { PlanNode, PlanWarning } from "../db/dialects";
+
+// Full scans of relations at least this large are flagged
+const LARGE_TABLE_ROWS = 10000;
+
+// Nodes doing at least this share of the plan's own work are flagged
+const EXPENSIVE_SHARE = 0.25;
+
+// Actual rows this many times above or below the estimate are flagged
+const ESTIMATE_MISS_FACTOR = 10;
+
+/**
+ * Flags the parts of a normalized plan worth a closer look
+ */
+export class QueryPlan {
+  /**
+   * Fill in each node's warnings
+   * Work is measured in actual time after ANALYZE and in cost otherwise
+   */
+  static annotate(root: PlanNode): PlanNode {
+    const measure =
+      root.actualTimeMs !== null
+        ? (node: PlanNode) => node.actualTimeMs
+        : (node: PlanNode) => node.estimatedCost;
+    const total = measure(root) ?? 0;
+
+    const visit = (node: PlanNode) => {
+      const warnings: PlanWarning[] = [];
+
+      const work = measure(node);
+      if (work !== null && total > 0) {
+        const childWork = node.children.reduce(
+          (sum, child) => sum + (measure(child) ?? 0),
+          0
+        );
+        if (work - childWork >= total * EXPENSIVE_SHARE) {
+          warnings.push("expensive");
+        }
+      }
+
+      if (
+        node.fullScan &&
+        (node.relationRows ?? node.estimatedRows ?? 0) >= LARGE_TABLE_ROWS
+      ) {
+        warnings.push("fullScan");
+      }
+
+      if (node.actualRows !== null && node.estimatedRows !== null) {
+        const ratio = (node.actualRows + 1) / (node.estimatedRows + 1);
+        if (
+          ratio >= ESTIMATE_MISS_FACTOR ||
+          ratio <= 1 / ESTIMATE_MISS_FACTOR
+        ) {
+          warnings.push("estimateMiss");
+        }
+      }
+
+      node.warnings = warnings;
+      node.children.forEach(visit);
+    };
+
+    visit(root);
+    return root;
+  }
+}
@@ -0,0 +1,35 @@
+import { ResultLimits, ResultTruncation } from "../types/database";
+
+export interface LimitedRows<T> {
+  rows: T[];
+  truncation: ResultTruncation | null; // null when every row fit
+}
+
+/**
+ * Cuts result rows down to a connection's row and byte limits
+ */
+export class ResultLimiter {
+  /**
+   * Keep rows in order until the next one would break a limit
+   */
+  static apply<T>(rows: T[], limits: Required<ResultLimits>): LimitedRows<T> {
+    let bytes = 2; // The surrounding []
+    for (let i = 0; i < rows.length; i++) {
+      if (i >= limits.maxRows) {
+        return {
+          rows: rows.slice(0, i),
+          truncation: { limit: "maxRows", value: limits.maxRows },
+        };
+      }
+
+      bytes += Buffer.byteLength(JSON.stringify(rows[i]) ?? "null") + 1;
+      if (bytes > limits.maxBytes) {
+        return {
+          rows: rows.slice(0, i),
+          truncation: { limit: "maxBytes", value: limits.maxBytes },
+        };
+      }
+    }
+    return { rows, truncation: null };
+  }
+}
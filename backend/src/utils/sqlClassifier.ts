@@ -0,0 +1,516 @@
+import {
+  DatabaseCredentials,
+  StatementInfo,
+  StatementType,
+} from "../types/database";
+import { ValidationError } from "./errors";
+
+type Dialect = DatabaseCredentials["type"];
+
+interface ScannedStatement {
+  tokens: string[]; // Upper-cased words plus = and (
+  text: string;
+  parameters: NamedParameter[];
+}
+
+interface NamedParameter {
+  name: string;
+  start: number; // Offset of the colon in the scanned SQL
+}
+
+// Keywords that make an otherwise read-only statement write or lock data
+const WRITE_KEYWORDS = new Set([
+  "INSERT",
+  "UPDATE",
+  "DELETE",
+  "MERGE",
+  "INTO", // SELECT ... INTO creates a table or writes a file
+  "CREATE",
+  "DROP",
+  "ALTER",
+  "TRUNCATE",
+  "GRANT",
+  "REVOKE",
+  "CALL",
+  "LOCK",
+]);
+
+// Statements EXPLAIN and DESCRIBE may wrap
+const STATEMENT_STARTERS = new Set([
+  "SELECT",
+  "WITH",
+  "VALUES",
+  "TABLE",
+  "INSERT",
+  "UPDATE",
+  "DELETE",
+  "MERGE",
+  "REPLACE",
+]);
+
+const DML_COMMANDS = new Set([
+  "INSERT",
+  "UPDATE",
+  "DELETE",
+  "MERGE",
+  "REPLACE",
+]);
+
+const DDL_COMMANDS = new Set([
+  "CREATE",
+  "DROP",
+  "ALTER",
+  "TRUNCATE",
+  "RENAME",
+  "COMMENT",
+  "GRANT",
+  "REVOKE",
+]);
+
+const TRANSACTION_COMMANDS = new Set([
+  "BEGIN",
+  "START",
+  "COMMIT",
+  "ROLLBACK",
+  "SAVEPOINT",
+  "RELEASE",
+  "END",
+  "ABORT",
+]);
+
+// When a script mixes statement types, the most consequential one describes it
+const TYPE_PRECEDENCE: StatementType[] = [
+  "ddl",
+  "dml",
+  "transaction",
+  "utility",
+  "read",
+];
+
+/**
+ * Keyword-level SQL inspection
+ * String literals, quoted identifiers and comments are skipped, so words
+ * inside them never affect the result
+ */
+export class SqlClassifier {
+  /**
+   * Check whether every statement in the SQL only reads data
+   * @param sql - One or more statements separated by semicolons
+   * @param dialect - Decides which quoting and comment rules apply
+   */
+  static isReadOnly(sql: string, dialect: Dialect): boolean {
+    const statements = this.tokenize(sql, dialect);
+    return (
+      statements.length > 0 &&
+      statements.every((tokens) => this.isReadStatement(tokens))
+    );
+  }
+
+  /**
+   * Classify SQL so it can be executed and reported the right way
+   * @param sql - One or more statements separated by semicolons
+   * @param dialect - Decides which quoting and comment rules apply
+   */
+  static classify(sql: string, dialect: Dialect): StatementInfo {
+    const statements = this.tokenize(sql, dialect);
+    if (statements.length === 0) {
+      return { type: "utility", command: "", returnsRows: false };
+    }
+
+    const classified = statements.map((tokens) =>
+      this.classifyStatement(tokens, dialect)
+    );
+    const { type, command } = classified.reduce((current, statement) =>
+      TYPE_PRECEDENCE.indexOf(statement.type) <
+      TYPE_PRECEDENCE.indexOf(current.type)
+        ? statement
+        : current
+    );
+    const returnsRows = classified.some(
+      (statement, i) =>
+        statement.type === "read" ||
+        (statement.type === "dml" && statements[i]!.includes("RETURNING"))
+    );
+
+    return { type, command, returnsRows };
+  }
+
+  /**
+   * Check whether any statement in the SQL begins or ends a transaction
+   * classify() ranks writes above transaction control, so a batch such as
+   * UPDATE ...; COMMIT reports dml and needs this check
+   */
+  static controlsTransaction(sql: string, dialect: Dialect): boolean {
+    return this.tokenize(sql, dialect).some(
+      (tokens) => this.classifyStatement(tokens, dialect).type === "transaction"
+    );
+  }
+
+  private static classifyStatement(
+    tokens: string[],
+    dialect: Dialect
+  ): Omit<StatementInfo, "returnsRows"> {
+    const command = tokens[0]!;
+
+    switch (command) {
+      case "SELECT":
+      case "WITH":
+      case "VALUES":
+      case "TABLE": {
+        // Data-modifying CTEs; FOR [NO KEY] UPDATE only locks rows
+        const modifying = tokens.find(
+          (token, i) =>
+            DML_COMMANDS.has(token) &&
+            !(token === "UPDATE" && ["FOR", "KEY"].includes(tokens[i - 1]!))
+        );
+        if (modifying) {
+          return { type: "dml", command: modifying };
+        }
+        // PostgreSQL SELECT ... INTO creates a table; MySQL's fills variables or files
+        if (command === "SELECT" && tokens.includes("INTO")) {
+          return {
+            type: dialect === "postgresql" ? "ddl" : "utility",
+            command,
+          };
+        }
+        return { type: "read", command };
+      }
+
+      case "SHOW":
+      case "EXPLAIN":
+      case "DESCRIBE":
+      case "DESC":
+        return { type: "read", command };
+
+      case "PRAGMA":
+        return {
+          type: this.isReadStatement(tokens) ? "read" : "utility",
+          command,
+        };
+
+      case "SET":
+        return {
+          type: tokens[1] === "TRANSACTION" ? "transaction" : "utility",
+          command,
+        };
+    }
+
+    if (DML_COMMANDS.has(command)) {
+      return { type: "dml", command };
+    }
+    if (DDL_COMMANDS.has(command)) {
+      return { type: "ddl", command };
+    }
+    if (TRANSACTION_COMMANDS.has(command)) {
+      return { type: "transaction", command };
+    }
+    return { type: "utility", command };
+  }
+
+  private static isReadStatement(tokens: string[]): boolean {
+    const [first] = tokens;
+
+    switch (first) {
+      case "SELECT":
+      case "WITH":
+      case "VALUES":
+      case "TABLE":
+        return !tokens.some((token) => WRITE_KEYWORDS.has(token));
+
+      case "SHOW":
+        return true;
+
+      case "EXPLAIN":
+      case "DESCRIBE":
+      case "DESC": {
+        // Only EXPLAIN ANALYZE executes the wrapped statement
+        const start = tokens.findIndex((token) =>
+          STATEMENT_STARTERS.has(token)
+        );
+        const options = start < 0 ? tokens : tokens.slice(0, start);
+        const analyze = options.findIndex(
+          (token) => token === "ANALYZE" || token === "ANALYSE"
+        );
+        const analyzes =
+          analyze >= 0 &&
+          !["FALSE", "OFF"].includes(options[analyze + 1] ?? "");
+        return (
+          !analyzes || start < 0 || this.isReadStatement(tokens.slice(start))
+        );
+      }
+
+      case "PRAGMA": {
+        // PRAGMA name = value and PRAGMA name(value) change settings, except
+        // for the introspection pragmas that take a table or index name
+        const paren = tokens.indexOf("(");
+        return (
+          !tokens.includes("=") &&
+          (paren < 0 || /_(INFO|XINFO|LIST)$/.test(tokens[paren - 1] || ""))
+        );
+      }
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Split SQL into statements without their terminating semicolons
+   * Text that holds only comments is dropped. On MySQL, DELIMITER lines
+   * change the terminator as they do in the mysql client.
+   */
+  static split(sql: string, dialect: Dialect): string[] {
+    return this.scan(sql, dialect).map((statement) => statement.text);
+  }
+
+  /**
+   * Names of the :named parameters in the SQL, in order of first use
+   */
+  static parameterNames(sql: string, dialect: Dialect): string[] {
+    const names = this.scan(sql, dialect).flatMap((statement) =>
+      statement.parameters.map((parameter) => parameter.name)
+    );
+    return [...new Set(names)];
+  }
+
+  /**
+   * Replace :named parameters with positional placeholders and their values
+   * Text in literals, quoted identifiers and comments is left alone
+   * @throws ValidationError listing parameters that have no value
+   */
+  static bindParameters(
+    sql: string,
+    values: Record<string, unknown>,
+    dialect: Dialect
+  ): { sql: string; params: unknown[] } {
+    const parameters = this.scan(sql, dialect).flatMap(
+      (statement) => statement.parameters
+    );
+    const missing = [
+      ...new Set(
+        parameters
+          .map((parameter) => parameter.name)
+          .filter((name) => !Object.prototype.hasOwnProperty.call(values, name))
+      ),
+    ];
+    if (missing.length > 0) {
+      throw new ValidationError(
+        `Missing values for parameters: ${missing.join(", ")}`,
+        missing.map((name) => ({ field: name, message: "Value is required" }))
+      );
+    }
+
+    let bound = "";
+    let last = 0;
+    for (const { name, start } of parameters) {
+      bound += `${sql.slice(last, start)}?`;
+      last = start + name.length + 1;
+    }
+    return {
+      sql: bound + sql.slice(last),
+      params: parameters.map(({ name }) => values[name]),
+    };
+  }
+
+  /**
+   * Split SQL into statements of upper-cased words and significant symbols
+   */
+  private static tokenize(sql: string, dialect: Dialect): string[][] {
+    return this.scan(sql, dialect).map((statement) => statement.tokens);
+  }
+
+  private static scan(sql: string, dialect: Dialect): ScannedStatement[] {
+    const statements: ScannedStatement[] = [];
+    let tokens: string[] = [];
+    let parameters: NamedParameter[] = [];
+    let delimiter = ";";
+    // BEGIN ... END nesting inside a SQLite trigger or PostgreSQL BEGIN ATOMIC
+    // body, whose statements end in the delimiter too
+    let depth = 0;
+    let start = 0;
+    let i = 0;
+
+    const endStatement = (next: number) => {
+      if (tokens.length > 0) {
+        statements.push({
+          tokens,
+          text: sql.slice(start, i).trim(),
+          parameters,
+        });
+      }
+      tokens = [];
+      parameters = [];
+      start = next;
+    };
+
+    while (i < sql.length) {
+      const char = sql[i]!;
+      const next = sql[i + 1];
+
+      // DELIMITER is a client command, so it only counts between statements
+      if (dialect === "mysql" && tokens.length === 0) {
+        const command = sql.slice(i).match(/^DELIMITER[ \t]+(\S+)/i);
+        if (command && /^\s*$/.test(sql.slice(start, i))) {
+          delimiter = command[1]!;
+          i = this.skipLine(sql, i);
+          start = i;
+          continue;
+        }
+      }
+
+      // Comments
+      if (char === "-" && next === "-") {
+        // MySQL only treats -- as a comment when followed by whitespace
+        if (
+          dialect !== "mysql" ||
+          i + 2 >= sql.length ||
+          /\s/.test(sql[i + 2]!)
+        ) {
+          i = this.skipLine(sql, i);
+          continue;
+        }
+      }
+      if (char === "#" && dialect === "mysql") {
+        i = this.skipLine(sql, i);
+        continue;
+      }
+      if (char === "/" && next === "*") {
+        if (dialect === "mysql" && sql[i + 2] === "!") {
+          // MySQL executes the body of /*! ... */ comments
+          i += 3;
+          while (i < sql.length && /\d/.test(sql[i]!)) i++;
+          continue;
+        }
+        const end = sql.indexOf("*/", i + 2);
+        i = end < 0 ? sql.length : end + 2;
+        continue;
+      }
+      if (char === "*" && next === "/") {
+        // Closing an executable MySQL comment
+        i += 2;
+        continue;
+      }
+
+      // Literals and quoted identifiers
+      if (char === "'" || char === '"' || char === "`") {
+        const escapable =
+          dialect === "mysql" ||
+          (char === "'" &&
+            /[eE]/.test(sql[i - 1] || "") &&
+            !/\w/.test(sql[i - 2] || ""));
+        i = this.skipQuoted(sql, i, char, escapable && char !== "`");
+        continue;
+      }
+      if (char === "$" && dialect === "postgresql") {
+        const tag = sql.slice(i).match(/^\$([A-Za-z_][A-Za-z0-9_]*)?\$/);
+        if (tag && !/\w/.test(sql[i - 1] || "")) {
+          const end = sql.indexOf(tag[0], i + tag[0].length);
+          i = end < 0 ? sql.length : end + tag[0].length;
+          continue;
+        }
+      }
+
+      // Named parameters; a double colon is a PostgreSQL cast
+      if (char === ":") {
+        const name = sql.slice(i + 1).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+        if (next === ":") {
+          i += 2;
+          continue;
+        }
+        if (name) {
+          parameters.push({ name: name[0], start: i });
+          i += name[0].length + 1;
+          continue;
+        }
+      }
+
+      if (sql.startsWith(delimiter, i)) {
+        if (depth === 0) {
+          endStatement(i + delimiter.length);
+        }
+        i += delimiter.length;
+        continue;
+      }
+
+      const word = sql.slice(i).match(/^[A-Za-z_][A-Za-z0-9_$]*/);
+      if (word) {
+        // A custom delimiter such as $$ can directly follow a word
+        const end = word[0].indexOf(delimiter);
+        const text = end > 0 ? word[0].slice(0, end) : word[0];
+        const upper = text.toUpperCase();
+        depth = this.nestBlocks(tokens, upper, depth, dialect);
+        tokens.push(upper);
+        i += text.length;
+        continue;
+      }
+
+      if (char === "=" || char === "(") {
+        tokens.push(char);
+      }
+      i++;
+    }
+
+    endStatement(i);
+    return statements;
+  }
+
+  /**
+   * The block depth after a word, for the statement's tokens so far
+   * CASE ... END also nests inside a body, so its END does not close it
+   */
+  private static nestBlocks(
+    tokens: string[],
+    word: string,
+    depth: number,
+    dialect: Dialect
+  ): number {
+    if (depth > 0) {
+      if (word === "BEGIN" || word === "CASE") {
+        return depth + 1;
+      }
+      return word === "END" ? depth - 1 : depth;
+    }
+
+    const creates = tokens[0] === "CREATE";
+    const triggerBody =
+      dialect === "sqlite" && word === "BEGIN" && tokens.includes("TRIGGER");
+    const atomicBody =
+      dialect === "postgresql" &&
+      word === "ATOMIC" &&
+      tokens[tokens.length - 1] === "BEGIN";
+    return creates && (triggerBody || atomicBody) ? 1 : 0;
+  }
+
+  private static skipLine(sql: string, start: number): number {
+    const end = sql.indexOf("\n", start);
+    return end < 0 ? sql.length : end + 1;
+  }
+
+  /**
+   * Skip a quoted section; doubled quotes and, where enabled, backslashes escape
+   */
+  private static skipQuoted(
+    sql: string,
+    start: number,
+    quote: string,
+    backslashEscapes: boolean
+  ): number {
+    let i = start + 1;
+    while (i < sql.length) {
+      const char = sql[i];
+      if (backslashEscapes && char === "\\") {
+        i += 2;
+        continue;
+      }
+      if (char === quote) {
+        if (sql[i + 1] === quote) {
+          i += 2;
+          continue;
+        }
+        return i + 1;
+      }
+      i++;
+    }
+    return sql.length;
+  }
+}
@@ -4,9 +4,10 @@ import {
   DatabaseColumn,
   TableMetadata,
 } from "../types";
+import { DatabaseType } from "../db/dialects";
 
 /**
- * Type mapper for converting Mermaid types to PostgreSQL types
+ * Type mapper for converting Mermaid types to SQL column types
  */
 export class TypeMapper {
   private static readonly TYPE_MAPPING: Record<string, string> = {
@@ -25,17 +26,43 @@ export class TypeMapper {
   };
 
   /**
-   * Map a Mermaid type to PostgreSQL type
+   * Per-dialect overrides of TYPE_MAPPING
+   */
+  private static readonly DIALECT_OVERRIDES: Record<DatabaseType, Record<string, string>> = {
+    postgresql: {},
+    mysql: {
+      datetime: "DATETIME",
+    },
+    // SQLite column types only pick an affinity, so map to its storage classes
+    sqlite: {
+      int: "INTEGER",
+      integer: "INTEGER",
+      string: "TEXT",
+      date: "TEXT",
+      datetime: "TEXT",
+      timestamp: "TEXT",
+      boolean: "INTEGER",
+      bool: "INTEGER",
+      float: "REAL",
+      decimal: "NUMERIC",
+    },
+  };
+
+  /**
+   * Map a Mermaid type to a SQL type
    * @param mermaidType - The type from Mermaid diagram
-   * @returns PostgreSQL type string
+   * @param dialect - Database type the column is created in
+   * @returns SQL type string
    */
-  static mapType(mermaidType: string): string {
+  static mapType(mermaidType: string, dialect: DatabaseType = "postgresql"): string {
     const normalizedType = mermaidType.toLowerCase().trim();
-    const sqlType = this.TYPE_MAPPING[normalizedType];
+    const sqlType =
+      this.DIALECT_OVERRIDES[dialect][normalizedType] ?? this.TYPE_MAPPING[normalizedType];
 
     if (!sqlType) {
-      process.emitWarning(`Unknown type '${mermaidType}', defaulting to VARCHAR(255)`);
-      return "VARCHAR(255)";
+      const fallback = this.mapType("string", dialect);
+      process.emitWarning(`Unknown type '${mermaidType}', defaulting to ${fallback}`);
+      return fallback;
     }
 
     return sqlType;
@@ -44,35 +71,39 @@ export class TypeMapper {
   /**
    * Convert Mermaid entities to database table definitions
    * @param entities - Array of parsed Mermaid entities
+   * @param dialect - Database type the tables are created in
    * @returns Array of database table definitions
    */
-  static entitiesToTables(entities: MermaidEntity[]): DatabaseTable[] {
+  static entitiesToTables(
+    entities: MermaidEntity[],
+    dialect: DatabaseType = "postgresql"
+  ): DatabaseTable[] {
     return entities.map((entity) => ({
-      name: entity.name.toLowerCase(), // PostgreSQL convention
+      name: entity.name.toLowerCase(), // Lower case names need no quoting in any dialect
       columns: entity.attributes.map((attr) => ({
-        name: attr.name.toLowerCase(), // PostgreSQL convention
+        name: attr.name.toLowerCase(),
         type: attr.type,
-        sqlType: this.mapType(attr.type),
+        sqlType: this.mapType(attr.type, dialect),
       })),
     }));
   }
 
   /**
-   * Validate column name for PostgreSQL
+   * Validate column name
    * @param columnName - Column name to validate
    * @returns True if valid, false otherwise
    */
   static isValidColumnName(columnName: string): boolean {
-    // PostgreSQL column name rules:
+    // Portable identifier rules:
     // - Must start with letter or underscore
     // - Can contain letters, digits, underscores
-    // - Max 63 characters
+    // - Max 63 characters (the PostgreSQL limit, below MySQL's 64)
     const regex = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
     return regex.test(columnName) && columnName.length <= 63;
   }
 
   /**
-   * Validate table name for PostgreSQL
+   * Validate table name
    * @param tableName - Table name to validate
    * @returns True if valid, false otherwise
    */
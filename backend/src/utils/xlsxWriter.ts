@@ -0,0 +1,190 @@
+import { ZipEntry, ZipWriter } from "./zipWriter";
+
+// Excel's limits on rows per sheet and characters per cell
+const MAX_SHEET_ROWS = 1048576;
+const MAX_CELL_TEXT = 32767;
+const MAX_SHEET_NAME = 31;
+
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const RELATIONSHIPS_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_RELATIONSHIPS_NS =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+const XML_DECLARATION =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Characters XML 1.0 cannot carry at all, even escaped
+// eslint-disable-next-line no-control-regex
+const INVALID_XML = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g;
+
+/**
+ * A cell value; null leaves the cell empty
+ */
+export type XlsxCell = string | number | boolean | null;
+
+export interface XlsxOptions {
+  sheetName: string;
+  header: boolean; // Start each sheet with the column names
+}
+
+/**
+ * Writes rows as an Office Open XML workbook, streamed as it is built
+ * Rows past a sheet's limit continue on a new sheet. Text is stored inline,
+ * so no shared string table has to be held in memory.
+ */
+export class XlsxWriter {
+  static async *write(
+    columns: string[],
+    batches: AsyncIterable<XlsxCell[][]>,
+    options: XlsxOptions
+  ): AsyncGenerator<Buffer> {
+    const zip = new ZipWriter();
+    const letters = columns.map((_, index) => this.columnLetters(index));
+    const sheetNames: string[] = [];
+    let sheet: ZipEntry;
+    let sheetRows = 0;
+
+    const startSheet = (): Buffer => {
+      const base = this.sheetName(options.sheetName);
+      const suffix = sheetNames.length > 0 ? ` (${sheetNames.length + 1})` : "";
+      sheetNames.push(base.slice(0, MAX_SHEET_NAME - suffix.length) + suffix);
+
+      const started = zip.startEntry(
+        `xl/worksheets/sheet${sheetNames.length}.xml`
+      );
+      sheet = started.entry;
+      sheetRows = 0;
+      let xml = `${XML_DECLARATION}<worksheet xmlns="${MAIN_NS}"><sheetData>`;
+      if (options.header) {
+        xml += this.row(columns, letters, ++sheetRows);
+      }
+      return Buffer.concat([started.header, sheet.write(xml)]);
+    };
+
+    yield startSheet();
+    for await (const batch of batches) {
+      const chunks: Buffer[] = [];
+      let xml = "";
+      for (const cells of batch) {
+        if (sheetRows === MAX_SHEET_ROWS) {
+          chunks.push(
+            sheet!.write(`${xml}</sheetData></worksheet>`),
+            sheet!.end(),
+            startSheet()
+          );
+          xml = "";
+        }
+        xml += this.row(cells, letters, ++sheetRows);
+      }
+      chunks.push(sheet!.write(xml));
+      yield Buffer.concat(chunks);
+    }
+
+    yield Buffer.concat([
+      sheet!.write("</sheetData></worksheet>"),
+      sheet!.end(),
+      ...this.packageParts(sheetNames).map(([name, xml]) =>
+        zip.addEntry(name, xml)
+      ),
+      zip.finish(),
+    ]);
+  }
+
+  /**
+   * The workbook, its relationships and the content types of every part
+   */
+  private static packageParts(sheetNames: string[]): [string, string][] {
+    const sheets = sheetNames.map((name, index) => ({
+      name: this.escape(name),
+      id: index + 1,
+    }));
+    return [
+      [
+        "xl/workbook.xml",
+        `${XML_DECLARATION}<workbook xmlns="${MAIN_NS}" xmlns:r="${RELATIONSHIPS_NS}"><sheets>${sheets
+          .map(
+            ({ name, id }) =>
+              `<sheet name="${name}" sheetId="${id}" r:id="rId${id}"/>`
+          )
+          .join("")}</sheets></workbook>`,
+      ],
+      [
+        "xl/_rels/workbook.xml.rels",
+        `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">${sheets
+          .map(
+            ({ id }) =>
+              `<Relationship Id="rId${id}" Type="${RELATIONSHIPS_NS}/worksheet" Target="worksheets/sheet${id}.xml"/>`
+          )
+          .join("")}</Relationships>`,
+      ],
+      [
+        "_rels/.rels",
+        `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}"><Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+      ],
+      [
+        "[Content_Types].xml",
+        `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>${sheets
+          .map(
+            ({ id }) =>
+              `<Override PartName="/xl/worksheets/sheet${id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+          )
+          .join("")}</Types>`,
+      ],
+    ];
+  }
+
+  private static row(
+    cells: XlsxCell[],
+    letters: string[],
+    rowNumber: number
+  ): string {
+    const xml = cells
+      .map((value, index) => {
+        const ref = `${
+          letters[index] ?? this.columnLetters(index)
+        }${rowNumber}`;
+        if (value === null) {
+          return "";
+        }
+        if (typeof value === "boolean") {
+          return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+        }
+        if (typeof value === "number" && Number.isFinite(value)) {
+          return `<c r="${ref}"><v>${value}</v></c>`;
+        }
+        // Longer text would make Excel repair the file
+        const text = this.escape(String(value).slice(0, MAX_CELL_TEXT));
+        return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+      })
+      .join("");
+    return `<row r="${rowNumber}">${xml}</row>`;
+  }
+
+  // 0 is A, 25 is Z, 26 is AA
+  private static columnLetters(index: number): string {
+    let letters = "";
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+    }
+    return letters;
+  }
+
+  // Sheet names cannot hold []:*?/\ or start or end with an apostrophe
+  private static sheetName(name: string): string {
+    const cleaned = name
+      .replace(INVALID_XML, "")
+      .replace(/[[\]:*?/\\]/g, "_")
+      .replace(/^'+|'+$/g, "")
+      .slice(0, MAX_SHEET_NAME);
+    return cleaned || "Sheet1";
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(INVALID_XML, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+}
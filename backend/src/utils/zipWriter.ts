@@ -0,0 +1,195 @@
+import { constants, deflateRawSync } from "zlib";
+
+// Archives past either limit need ZIP64, which is not written
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+// Sizes and checksums follow each entry's data; names are UTF-8
+const ENTRY_FLAGS = 0x0808;
+const DEFLATE = 8;
+const ZIP_VERSION = 20;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+interface WrittenEntry {
+  name: Buffer;
+  offset: number; // Of the entry's local header
+  crc: number;
+  compressedSize: number;
+  size: number;
+}
+
+/**
+ * An entry being written; data is compressed as it arrives
+ */
+export interface ZipEntry {
+  write(data: Buffer | string): Buffer;
+  end(): Buffer;
+}
+
+/**
+ * Builds a ZIP archive one chunk at a time, so it can be streamed
+ * Every method returns the bytes to send next, in the order called.
+ * Entries are written one after another and cannot overlap.
+ */
+export class ZipWriter {
+  private entries: WrittenEntry[] = [];
+  private offset = 0;
+  private open = false;
+  private readonly time: number;
+  private readonly date: number;
+
+  constructor(modified: Date = new Date()) {
+    // MS-DOS timestamps have a two-second resolution and start in 1980
+    this.time =
+      (modified.getHours() << 11) |
+      (modified.getMinutes() << 5) |
+      (modified.getSeconds() >> 1);
+    this.date =
+      (Math.max(modified.getFullYear() - 1980, 0) << 9) |
+      ((modified.getMonth() + 1) << 5) |
+      modified.getDate();
+  }
+
+  /**
+   * Start an entry; returns its header and the entry to write data to
+   * Each write is compressed on its own and ends on a sync flush, so the
+   * chunks join into one deflate stream without holding the data back.
+   */
+  startEntry(name: string): { header: Buffer; entry: ZipEntry } {
+    if (this.open) {
+      throw new Error("The previous ZIP entry has not ended");
+    }
+    if (this.entries.length >= MAX_ZIP_ENTRIES) {
+      throw new Error(`ZIP archives hold at most ${MAX_ZIP_ENTRIES} entries`);
+    }
+
+    const written: WrittenEntry = {
+      name: Buffer.from(name, "utf8"),
+      offset: this.offset,
+      crc: 0xffffffff,
+      compressedSize: 0,
+      size: 0,
+    };
+    this.open = true;
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(ENTRY_FLAGS, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(this.time, 10);
+    header.writeUInt16LE(this.date, 12);
+    // The checksum and sizes are left zero for the data descriptor
+    header.writeUInt16LE(written.name.length, 26);
+
+    const emit = (chunk: Buffer): Buffer => {
+      written.compressedSize += chunk.length;
+      this.advance(chunk.length);
+      return chunk;
+    };
+
+    const entry: ZipEntry = {
+      write: (data) => {
+        const bytes = typeof data === "string" ? Buffer.from(data) : data;
+        if (bytes.length === 0) {
+          return Buffer.alloc(0);
+        }
+        written.crc = this.updateCrc(written.crc, bytes);
+        written.size += bytes.length;
+        if (written.size > MAX_ZIP_SIZE) {
+          throw new Error("ZIP entries over 4 GiB are not supported");
+        }
+        return emit(
+          deflateRawSync(bytes, { finishFlush: constants.Z_SYNC_FLUSH })
+        );
+      },
+      end: () => {
+        // An empty final block ends the deflate stream
+        const last = emit(deflateRawSync(Buffer.alloc(0)));
+        written.crc = (written.crc ^ 0xffffffff) >>> 0;
+
+        const descriptor = Buffer.alloc(16);
+        descriptor.writeUInt32LE(0x08074b50, 0);
+        descriptor.writeUInt32LE(written.crc, 4);
+        descriptor.writeUInt32LE(written.compressedSize, 8);
+        descriptor.writeUInt32LE(written.size, 12);
+        this.advance(descriptor.length);
+
+        this.entries.push(written);
+        this.open = false;
+        return Buffer.concat([last, descriptor]);
+      },
+    };
+
+    const start = Buffer.concat([header, written.name]);
+    this.advance(start.length);
+    return { header: start, entry };
+  }
+
+  /**
+   * Write a whole entry at once
+   */
+  addEntry(name: string, data: Buffer | string): Buffer {
+    const { header, entry } = this.startEntry(name);
+    return Buffer.concat([header, entry.write(data), entry.end()]);
+  }
+
+  /**
+   * The central directory that ends the archive
+   */
+  finish(): Buffer {
+    if (this.open) {
+      throw new Error("The last ZIP entry has not ended");
+    }
+
+    const directoryOffset = this.offset;
+    const records = this.entries.map((entry) => {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014b50, 0);
+      record.writeUInt16LE(ZIP_VERSION, 4);
+      record.writeUInt16LE(ZIP_VERSION, 6);
+      record.writeUInt16LE(ENTRY_FLAGS, 8);
+      record.writeUInt16LE(DEFLATE, 10);
+      record.writeUInt16LE(this.time, 12);
+      record.writeUInt16LE(this.date, 14);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.compressedSize, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      record.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([record, entry.name]);
+    });
+    const directory = Buffer.concat(records);
+    this.advance(directory.length);
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    return Buffer.concat([directory, end]);
+  }
+
+  private advance(bytes: number): void {
+    this.offset += bytes;
+    if (this.offset > MAX_ZIP_SIZE) {
+      throw new Error("ZIP archives over 4 GiB are not supported");
+    }
+  }
+
+  private updateCrc(crc: number, bytes: Buffer): number {
+    let value = crc;
+    for (const byte of bytes) {
+      value = CRC_TABLE[(value ^ byte) & 0xff]! ^ (value >>> 8);
+    }
+    return value >>> 0;
+  }
+}
@@ -0,0 +1,152 @@
+import { AISchemaAnalyzer } from "../src/db/aiSchemaAnalyzer";
+import { SequelizeDbManager } from "../src/db/sequelizeDbManager";
+import { getDialectAdapter } from "../src/db/dialects";
+import { LOCAL_DB_ID } from "../src/types/database";
+
+jest.mock("../src/db/sequelizeDbManager");
+
+const MockedSequelizeDbManager = SequelizeDbManager as jest.Mocked<
+  typeof SequelizeDbManager
+>;
+
+describe("AISchemaAnalyzer", () => {
+  const mysql = getDialectAdapter("mysql");
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    MockedSequelizeDbManager.getDialect.mockReturnValue(mysql);
+  });
+
+  describe("getAIContext", () => {
+    test("describes the selected database through its dialect", async () => {
+      const describeSchema = jest
+        .spyOn(mysql, "describeSchema")
+        .mockResolvedValueOnce({
+          tables: [
+            {
+              name: "orders",
+              type: "TABLE",
+              estimatedRows: 10,
+              totalBytes: 4096,
+              columns: [
+                {
+                  name: "id",
+                  dataType: "int",
+                  nullable: false,
+                  defaultValue: null,
+                  autoIncrement: true,
+                  primaryKey: true,
+                },
+                {
+                  name: "user_id",
+                  dataType: "int",
+                  nullable: true,
+                  defaultValue: null,
+                  autoIncrement: false,
+                  primaryKey: false,
+                },
+              ],
+            },
+          ],
+          foreignKeys: [
+            {
+              table: "orders",
+              column: "user_id",
+              foreignTable: "users",
+              foreignColumn: "id",
+              constraintName: "orders_ibfk_1",
+            },
+          ],
+        });
+
+      const context = await AISchemaAnalyzer.getAIContext("shop");
+
+      expect(MockedSequelizeDbManager.getDialect).toHaveBeenCalledWith("shop");
+      expect(describeSchema).toHaveBeenCalledTimes(1);
+      expect(context).toMatchObject({
+        databaseId: "shop",
+        dialect: "mysql",
+        totalTables: 1,
+        totalColumns: 2,
+        relationships: [
+          {
+            fromTable: "orders",
+            fromColumn: "user_id",
+            toTable: "users",
+            toColumn: "id",
+            constraintName: "orders_ibfk_1",
+          },
+        ],
+      });
+      expect(context.tables[0]!.columns).toEqual([
+        {
+          name: "id",
+          type: "int",
+          nullable: false,
+          isPrimaryKey: true,
+          isForeignKey: false,
+          ordinalPosition: 1,
+        },
+        {
+          name: "user_id",
+          type: "int",
+          nullable: true,
+          isPrimaryKey: false,
+          isForeignKey: true,
+          foreignTable: "users",
+          foreignColumn: "id",
+          ordinalPosition: 2,
+        },
+      ]);
+    });
+
+    test("runs introspection queries on the selected connection", async () => {
+      MockedSequelizeDbManager.query.mockResolvedValue({ rows: [] });
+
+      await AISchemaAnalyzer.getAIContext("shop");
+
+      expect(MockedSequelizeDbManager.query).toHaveBeenCalledWith(
+        expect.stringContaining("information_schema.tables"),
+        [],
+        "shop"
+      );
+    });
+  });
+
+  describe("getSampleData", () => {
+    test("quotes the table name for the dialect", async () => {
+      MockedSequelizeDbManager.query.mockResolvedValueOnce({
+        rows: [{ id: 1 }],
+      });
+
+      const rows = await AISchemaAnalyzer.getSampleData("order items", "shop");
+
+      expect(rows).toEqual([{ id: 1 }]);
+      expect(MockedSequelizeDbManager.query).toHaveBeenCalledWith(
+        "SELECT * FROM `order items` LIMIT 3",
+        [],
+        "shop"
+      );
+    });
+
+    test("defaults to the local database and returns no rows on failure", async () => {
+      MockedSequelizeDbManager.getDialect.mockReturnValue(
+        getDialectAdapter("postgresql")
+      );
+      MockedSequelizeDbManager.query.mockRejectedValueOnce(
+        new Error("relation does not exist")
+      );
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      const rows = await AISchemaAnalyzer.getSampleData("missing");
+
+      expect(rows).toEqual([]);
+      expect(MockedSequelizeDbManager.query).toHaveBeenCalledWith(
+        'SELECT * FROM "missing" LIMIT 3',
+        [],
+        LOCAL_DB_ID
+      );
+      warn.mockRestore();
+    });
+  });
+});
@@ -2,6 +2,7 @@ import request from "supertest";
 import express from "express";
 import dataRouter from "../src/routes/data";
 import { SequelizeDbManager } from "../src/db/sequelizeDbManager";
+import { getDialectAdapter } from "../src/db/dialects";
 import { LOCAL_DB_ID } from "../src/types/database";
 
 // Mock SequelizeDbManager
@@ -21,6 +22,9 @@ describe("Data Routes", () => {
 
     // Reset mocks
     jest.clearAllMocks();
+    MockedSequelizeDbManager.getDialect.mockReturnValue(
+      getDialectAdapter("postgresql")
+    );
   });
 
   describe("POST /api/data/insert", () => {
@@ -499,5 +503,74 @@ describe("Data Routes", () => {
       expect(insertCall![0]).not.toContain('"id"');
       expect(insertCall![1]).toEqual(["John", "john@example.com"]);
     });
+
+    test("quotes with backticks and skips AUTO_INCREMENT columns on MySQL", async () => {
+      MockedSequelizeDbManager.getDialect.mockReturnValue(
+        getDialectAdapter("mysql")
+      );
+      MockedSequelizeDbManager.query.mockResolvedValueOnce({
+        rows: [{ 1: 1 }],
+      }); // Connection test
+      MockedSequelizeDbManager.query.mockResolvedValueOnce({
+        rows: [
+          {
+            column_name: "user_id",
+            data_type: "int",
+            is_nullable: "NO",
+            column_default: null,
+            extra: "auto_increment",
+          },
+          {
+            column_name: "name",
+            data_type: "varchar",
+            is_nullable: "NO",
+            column_default: null,
+            extra: "",
+          },
+        ],
+      }); // Table columns
+      MockedSequelizeDbManager.query.mockResolvedValueOnce({ rows: [] }); // Insert
+
+      const response = await request(app)
+        .post("/api/data/insert")
+        .send({ databaseId: "mysql-db", data: { users: [{ name: "John" }] } });
+
+      expect(response.body.insertedRecords).toBe(1);
+      expect(MockedSequelizeDbManager.query).toHaveBeenLastCalledWith(
+        "INSERT INTO `users` (`name`) VALUES (?)",
+        ["John"],
+        "mysql-db"
+      );
+    });
+
+    test("skips INTEGER PRIMARY KEY columns on SQLite", async () => {
+      MockedSequelizeDbManager.getDialect.mockReturnValue(
+        getDialectAdapter("sqlite")
+      );
+      MockedSequelizeDbManager.query.mockResolvedValueOnce({
+        rows: [{ 1: 1 }],
+      }); // Connection test
+      MockedSequelizeDbManager.query.mockResolvedValueOnce({
+        rows: [
+          { name: "id", type: "INTEGER", notnull: 0, dflt_value: null, pk: 1 },
+          { name: "tags", type: "TEXT", notnull: 0, dflt_value: null, pk: 0 },
+        ],
+      }); // Table columns
+      MockedSequelizeDbManager.query.mockResolvedValueOnce({ rows: [] }); // Insert
+
+      const response = await request(app)
+        .post("/api/data/insert")
+        .send({
+          databaseId: "sqlite-db",
+          data: { posts: [{ id: 5, tags: ["a", "b"] }] },
+        });
+
+      expect(response.body.insertedRecords).toBe(1);
+      expect(MockedSequelizeDbManager.query).toHaveBeenLastCalledWith(
+        'INSERT INTO "posts" ("tags") VALUES (?)',
+        ['["a","b"]'],
+        "sqlite-db"
+      );
+    });
   });
 });
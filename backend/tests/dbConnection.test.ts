@@ -48,7 +48,7 @@ describe("DatabaseConnection", () => {
         database: "smartdb",
         user: "postgres",
         password: "password",
-        max: 20,
+        max: 2,
         idleTimeoutMillis: 30000,
         connectionTimeoutMillis: 2000,
       });
@@ -74,7 +74,7 @@ describe("DatabaseConnection", () => {
         database: "testdb",
         user: "testuser",
         password: "testpass",
-        max: 20,
+        max: 2,
         idleTimeoutMillis: 30000,
         connectionTimeoutMillis: 2000,
       });
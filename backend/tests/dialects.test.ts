@@ -0,0 +1,1077 @@
+import { Readable } from "stream";
+import { getDialectAdapter, QueryRunner } from "../src/db/dialects";
+
+const runnerReturning = (rows: Record<string, any>[]) =>
+  jest.fn<ReturnType<QueryRunner>, Parameters<QueryRunner>>(async () => rows);
+
+describe("Dialect adapters", () => {
+  describe("quoteIdentifier", () => {
+    test("uses double quotes for PostgreSQL and SQLite", () => {
+      expect(getDialectAdapter("postgresql").quoteIdentifier('my"table')).toBe(
+        '"my""table"'
+      );
+      expect(getDialectAdapter("sqlite").quoteIdentifier("users")).toBe(
+        '"users"'
+      );
+    });
+
+    test("uses backticks for MySQL", () => {
+      expect(getDialectAdapter("mysql").quoteIdentifier("my`table")).toBe(
+        "`my``table`"
+      );
+    });
+  });
+
+  describe("quoteTable", () => {
+    test("qualifies tables in a named schema", () => {
+      expect(
+        getDialectAdapter("postgresql").quoteTable({
+          schema: "Billing",
+          name: "line.items",
+        })
+      ).toBe('"Billing"."line.items"');
+      expect(getDialectAdapter("mysql").quoteTable({ name: "users" })).toBe(
+        "`users`"
+      );
+      expect(getDialectAdapter("sqlite").quoteTable("users")).toBe('"users"');
+    });
+  });
+
+  describe("buildInsert", () => {
+    test("builds a parameterized insert", () => {
+      expect(
+        getDialectAdapter("postgresql").buildInsert("users", ["name", "email"])
+      ).toBe('INSERT INTO "users" ("name", "email") VALUES (?, ?)');
+    });
+
+    test("falls back to default values when every column is generated", () => {
+      expect(getDialectAdapter("sqlite").buildInsert("ids", [])).toBe(
+        'INSERT INTO "ids" DEFAULT VALUES'
+      );
+      expect(getDialectAdapter("mysql").buildInsert("ids", [])).toBe(
+        "INSERT INTO `ids` () VALUES ()"
+      );
+    });
+  });
+
+  describe("insert scripts", () => {
+    const when = new Date("2024-03-05T06:07:08.009Z");
+
+    test("writes values as literals for each dialect", () => {
+      const values = [
+        null,
+        1.5,
+        true,
+        "it's \\ here",
+        when,
+        Buffer.from([1, 255]),
+      ];
+
+      expect(
+        values.map((value) => getDialectAdapter("postgresql").literal(value))
+      ).toEqual([
+        "NULL",
+        "1.5",
+        "TRUE",
+        "'it''s \\ here'",
+        "'2024-03-05 06:07:08.009+00'",
+        "'\\x01ff'::bytea",
+      ]);
+      expect(
+        values.map((value) => getDialectAdapter("mysql").literal(value))
+      ).toEqual([
+        "NULL",
+        "1.5",
+        "TRUE",
+        "'it''s \\\\ here'",
+        "'2024-03-05 06:07:08.009'",
+        "X'01ff'",
+      ]);
+      expect(getDialectAdapter("sqlite").literal(false)).toBe("0");
+      expect(getDialectAdapter("sqlite").literal({ tags: ["a"] })).toBe(
+        `'{"tags":["a"]}'`
+      );
+      expect(getDialectAdapter("mysql").literal(new Date(NaN))).toBe("NULL");
+      expect(getDialectAdapter("postgresql").literal(BigInt(2) ** 70n)).toBe(
+        "1180591620717411303424"
+      );
+    });
+
+    test("batches rows into one insert", () => {
+      expect(
+        getDialectAdapter("postgresql").buildInsertScript(
+          { schema: "billing", name: "users" },
+          ["id", "name"],
+          [
+            [1, "Ann"],
+            [2, null],
+          ]
+        )
+      ).toBe(
+        `INSERT INTO "billing"."users" ("id", "name") VALUES\n  (1, 'Ann'),\n  (2, NULL);\n`
+      );
+    });
+
+    test("upserts on the key columns", () => {
+      const rows = [[1, "Ann"]];
+
+      expect(
+        getDialectAdapter("sqlite").buildInsertScript(
+          "users",
+          ["id", "name"],
+          rows,
+          ["id"]
+        )
+      ).toBe(
+        `INSERT INTO "users" ("id", "name") VALUES\n  (1, 'Ann')\nON CONFLICT ("id") DO UPDATE SET "name" = excluded."name";\n`
+      );
+      expect(
+        getDialectAdapter("mysql").buildInsertScript(
+          "users",
+          ["id", "name"],
+          rows,
+          ["id"]
+        )
+      ).toBe(
+        "INSERT INTO `users` (`id`, `name`) VALUES\n  (1, 'Ann')\nON DUPLICATE KEY UPDATE `name` = VALUES(`name`);\n"
+      );
+      expect(
+        getDialectAdapter("postgresql").buildInsertScript(
+          "tags",
+          ["id"],
+          [[1]],
+          ["id"]
+        )
+      ).toBe(
+        `INSERT INTO "tags" ("id") VALUES\n  (1)\nON CONFLICT ("id") DO NOTHING;\n`
+      );
+    });
+  });
+
+  describe("DDL", () => {
+    test("builds dialect-specific auto-increment keys", () => {
+      expect(getDialectAdapter("postgresql").autoIncrementKey("id")).toBe(
+        '"id" SERIAL PRIMARY KEY'
+      );
+      expect(getDialectAdapter("mysql").autoIncrementKey("id")).toBe(
+        "`id` INT AUTO_INCREMENT PRIMARY KEY"
+      );
+      expect(getDialectAdapter("sqlite").autoIncrementKey("id")).toBe(
+        '"id" INTEGER PRIMARY KEY AUTOINCREMENT'
+      );
+    });
+
+    test("only cascades drops on PostgreSQL", () => {
+      expect(getDialectAdapter("postgresql").buildDropTable("users")).toBe(
+        'DROP TABLE IF EXISTS "users" CASCADE'
+      );
+      expect(getDialectAdapter("mysql").buildDropTable("users")).toBe(
+        "DROP TABLE IF EXISTS `users`"
+      );
+    });
+  });
+
+  describe("describeColumns", () => {
+    test("detects serial and identity columns on PostgreSQL", async () => {
+      const run = runnerReturning([
+        {
+          column_name: "id",
+          data_type: "integer",
+          is_nullable: "NO",
+          column_default: "nextval('users_id_seq'::regclass)",
+          is_identity: "NO",
+        },
+        {
+          column_name: "uid",
+          data_type: "bigint",
+          is_nullable: "NO",
+          column_default: null,
+          is_identity: "YES",
+        },
+        {
+          column_name: "name",
+          data_type: "text",
+          is_nullable: "YES",
+          column_default: null,
+          is_identity: "NO",
+        },
+      ]);
+
+      const columns = await getDialectAdapter("postgresql").describeColumns(
+        run,
+        "users"
+      );
+
+      expect(run).toHaveBeenCalledWith(
+        expect.stringContaining("current_schema()"),
+        ["users"]
+      );
+      expect(columns.map((col) => col.autoIncrement)).toEqual([
+        true,
+        true,
+        false,
+      ]);
+      expect(columns[2]).toEqual({
+        name: "name",
+        dataType: "text",
+        nullable: true,
+        defaultValue: null,
+        autoIncrement: false,
+        primaryKey: false,
+      });
+    });
+
+    test("detects AUTO_INCREMENT on MySQL", async () => {
+      const run = runnerReturning([
+        {
+          column_name: "code",
+          data_type: "int",
+          is_nullable: "NO",
+          column_default: null,
+          extra: "auto_increment",
+        },
+        {
+          column_name: "created_at",
+          data_type: "timestamp",
+          is_nullable: "YES",
+          column_default: "CURRENT_TIMESTAMP",
+          extra: "DEFAULT_GENERATED",
+        },
+      ]);
+
+      const columns = await getDialectAdapter("mysql").describeColumns(
+        run,
+        "orders"
+      );
+
+      expect(run).toHaveBeenCalledWith(expect.stringContaining("DATABASE()"), [
+        "orders",
+      ]);
+      expect(columns.map((col) => col.autoIncrement)).toEqual([true, false]);
+    });
+
+    test("looks tables up in the given schema", async () => {
+      const postgres = runnerReturning([]);
+      const mysql = runnerReturning([]);
+      const sqlite = runnerReturning([]);
+
+      await getDialectAdapter("postgresql").describeColumns(postgres, {
+        schema: "billing",
+        name: "invoices",
+      });
+      await getDialectAdapter("mysql").describeColumns(mysql, {
+        schema: "billing",
+        name: "invoices",
+      });
+      await getDialectAdapter("sqlite").describeColumns(sqlite, {
+        schema: "archive",
+        name: "invoices",
+      });
+
+      expect(postgres).toHaveBeenCalledWith(
+        expect.not.stringContaining("current_schema()"),
+        ["billing", "invoices"]
+      );
+      expect(mysql).toHaveBeenCalledWith(
+        expect.not.stringContaining("DATABASE()"),
+        ["billing", "invoices"]
+      );
+      expect(sqlite).toHaveBeenCalledWith(
+        expect.stringContaining("pragma_table_info(?, ?)"),
+        ["invoices", "archive"]
+      );
+    });
+
+    test("only treats a lone INTEGER primary key as a rowid alias on SQLite", async () => {
+      const single = await getDialectAdapter("sqlite").describeColumns(
+        runnerReturning([
+          { name: "id", type: "integer", notnull: 0, dflt_value: null, pk: 1 },
+          { name: "body", type: "TEXT", notnull: 1, dflt_value: "''", pk: 0 },
+        ]),
+        "notes"
+      );
+      const composite = await getDialectAdapter("sqlite").describeColumns(
+        runnerReturning([
+          { name: "a", type: "INTEGER", notnull: 1, dflt_value: null, pk: 1 },
+          { name: "b", type: "INTEGER", notnull: 1, dflt_value: null, pk: 2 },
+        ]),
+        "pairs"
+      );
+      const bigint = await getDialectAdapter("sqlite").describeColumns(
+        runnerReturning([
+          { name: "id", type: "BIGINT", notnull: 0, dflt_value: null, pk: 1 },
+        ]),
+        "events"
+      );
+
+      expect(single.map((col) => col.autoIncrement)).toEqual([true, false]);
+      expect(single[1]).toMatchObject({ nullable: false, defaultValue: "''" });
+      expect(composite.some((col) => col.autoIncrement)).toBe(false);
+      expect(bigint[0]!.autoIncrement).toBe(false);
+    });
+  });
+
+  describe("describeSchema", () => {
+    test("assembles PostgreSQL tables, columns and foreign keys", async () => {
+      const run = jest
+        .fn<ReturnType<QueryRunner>, Parameters<QueryRunner>>()
+        .mockResolvedValueOnce([
+          {
+            table_name: "orders",
+            schema_name: "public",
+            relkind: "r",
+            estimated_rows: -1,
+            total_bytes: "16384",
+          },
+          {
+            table_name: "totals",
+            schema_name: "public",
+            relkind: "m",
+            estimated_rows: 12,
+            total_bytes: "8192",
+          },
+        ])
+        .mockResolvedValueOnce([
+          {
+            table_schema: "public",
+            table_name: "orders",
+            column_name: "id",
+            data_type: "integer",
+            is_nullable: "NO",
+            column_default: "nextval('orders_id_seq'::regclass)",
+            is_identity: "NO",
+            is_primary_key: true,
+          },
+          {
+            table_schema: "public",
+            table_name: "orders",
+            column_name: "user_id",
+            data_type: "integer",
+            is_nullable: "NO",
+            column_default: null,
+            is_identity: "NO",
+            is_primary_key: false,
+          },
+        ])
+        .mockResolvedValueOnce([
+          {
+            table_schema: "public",
+            table_name: "orders",
+            column_name: "user_id",
+            foreign_table_schema: "auth",
+            foreign_table_name: "users",
+            foreign_column_name: "id",
+            constraint_name: "orders_user_id_fkey",
+          },
+        ]);
+
+      const schema = await getDialectAdapter("postgresql").describeSchema(run);
+
+      expect(schema.tables).toHaveLength(2);
+      expect(schema.tables[0]).toMatchObject({
+        name: "orders",
+        schema: "public",
+        type: "TABLE",
+        estimatedRows: 0,
+        totalBytes: 16384,
+      });
+      expect(schema.tables[0]!.columns.map((col) => col.primaryKey)).toEqual([
+        true,
+        false,
+      ]);
+      expect(schema.tables[1]).toMatchObject({
+        type: "MATERIALIZED VIEW",
+        estimatedRows: 12,
+        columns: [],
+      });
+      expect(schema.foreignKeys).toEqual([
+        {
+          schema: "public",
+          table: "orders",
+          column: "user_id",
+          foreignSchema: "auth",
+          foreignTable: "users",
+          foreignColumn: "id",
+          constraintName: "orders_user_id_fkey",
+        },
+      ]);
+    });
+
+    test("reads MySQL table types, row estimates and key columns", async () => {
+      const run = jest
+        .fn<ReturnType<QueryRunner>, Parameters<QueryRunner>>()
+        .mockResolvedValueOnce([
+          {
+            table_schema: "app",
+            table_name: "users",
+            table_type: "BASE TABLE",
+            estimated_rows: 42,
+            total_bytes: 32768,
+          },
+          {
+            table_schema: "app",
+            table_name: "active_users",
+            table_type: "VIEW",
+            estimated_rows: null,
+            total_bytes: null,
+          },
+        ])
+        .mockResolvedValueOnce([
+          {
+            table_schema: "app",
+            table_name: "users",
+            column_name: "id",
+            data_type: "int",
+            is_nullable: "NO",
+            column_default: null,
+            extra: "auto_increment",
+            column_key: "PRI",
+          },
+        ])
+        .mockResolvedValueOnce([]);
+
+      const schema = await getDialectAdapter("mysql").describeSchema(run);
+
+      expect(schema.tables.map((table) => table.type)).toEqual([
+        "TABLE",
+        "VIEW",
+      ]);
+      expect(schema.tables[0]!.estimatedRows).toBe(42);
+      expect(schema.tables[0]!.columns[0]).toMatchObject({
+        primaryKey: true,
+        autoIncrement: true,
+      });
+      expect(schema.tables[0]!.schema).toBe("app");
+      expect(schema.tables[1]!.estimatedRows).toBe(0);
+      expect(schema.foreignKeys).toEqual([]);
+    });
+
+    test("describes every attached SQLite database with ANALYZE row counts", async () => {
+      const run = jest
+        .fn<ReturnType<QueryRunner>, Parameters<QueryRunner>>()
+        .mockResolvedValueOnce([{ name: "main" }, { name: "archive" }])
+        .mockResolvedValueOnce([{ table_name: "notes", type: "table" }])
+        .mockResolvedValueOnce([
+          {
+            table_name: "notes",
+            name: "id",
+            type: "INTEGER",
+            notnull: 0,
+            dflt_value: null,
+            pk: 1,
+          },
+        ])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ analyzed: 1 }])
+        .mockResolvedValueOnce([
+          { tbl: "notes", stat: "3" },
+          { tbl: "notes", stat: "2 1" },
+        ])
+        .mockResolvedValueOnce([{ table_name: "old_notes", type: "table" }])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([]);
+
+      const schema = await getDialectAdapter("sqlite").describeSchema(run);
+
+      expect(schema.tables).toEqual([
+        expect.objectContaining({
+          schema: "main",
+          name: "notes",
+          estimatedRows: 3,
+          columns: [expect.objectContaining({ name: "id", primaryKey: true })],
+        }),
+        expect.objectContaining({
+          schema: "archive",
+          name: "old_notes",
+          estimatedRows: null,
+        }),
+      ]);
+      expect(run).toHaveBeenCalledWith(
+        expect.stringContaining('FROM "archive".sqlite_master'),
+        ["archive"]
+      );
+      expect(run).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "FROM \"archive\".sqlite_master WHERE name = 'sqlite_stat1'"
+        )
+      );
+      expect(run).not.toHaveBeenCalledWith(expect.stringContaining("COUNT(*)"));
+    });
+  });
+
+  describe("paging", () => {
+    test("reads the PostgreSQL planner estimate", async () => {
+      const run = runnerReturning([
+        { "QUERY PLAN": [{ Plan: { "Plan Rows": 1200 } }] },
+      ]);
+
+      await expect(
+        getDialectAdapter("postgresql").estimateRowCount(
+          run,
+          "SELECT * FROM t WHERE a = ?",
+          [1]
+        )
+      ).resolves.toBe(1200);
+      expect(run).toHaveBeenCalledWith(
+        "EXPLAIN (FORMAT JSON) SELECT * FROM t WHERE a = ?",
+        [1]
+      );
+    });
+
+    test("does not count SQLite rows to estimate them", async () => {
+      const run = runnerReturning([{ count: 7 }]);
+
+      await expect(
+        getDialectAdapter("sqlite").estimateRowCount(run, "SELECT 1", [])
+      ).resolves.toBeNull();
+      expect(run).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("openCursor", () => {
+    const source = {
+      sql: "SELECT id FROM t WHERE a = ?",
+      params: [5],
+      cancel: jest.fn().mockResolvedValue(undefined),
+      idleTimeoutMs: 600000,
+    };
+
+    test("fetches from a PostgreSQL cursor declared in the transaction", async () => {
+      const run = runnerReturning([]);
+      const fields = [{ name: "id", dataTypeID: 23 }];
+      const connection = {
+        query: jest.fn().mockResolvedValue({ rows: [{ id: 1 }], fields }),
+      };
+
+      const cursor = await getDialectAdapter("postgresql").openCursor({
+        ...source,
+        connection,
+        run,
+      });
+
+      expect(run).toHaveBeenCalledWith(
+        "DECLARE smartdb_cursor NO SCROLL CURSOR FOR\nSELECT id FROM t WHERE a = ?\n",
+        [5]
+      );
+      await expect(cursor.read(2)).resolves.toEqual({
+        rows: [{ id: 1 }],
+        fields,
+      });
+      expect(connection.query).toHaveBeenCalledWith(
+        "FETCH FORWARD 2 FROM smartdb_cursor"
+      );
+    });
+
+    test("streams MySQL rows and stops the statement when closed early", async () => {
+      const run = runnerReturning([]);
+      const stream = Readable.from([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      const connection = { query: jest.fn(() => ({ stream: () => stream })) };
+
+      const cursor = await getDialectAdapter("mysql").openCursor({
+        ...source,
+        connection,
+        run,
+      });
+      stream.emit("fields", [{ name: "id" }]);
+
+      expect(run.mock.calls).toEqual([
+        ["SET SESSION net_write_timeout = ?", [660]],
+        ["PREPARE smartdb_cursor FROM ?", [source.sql]],
+        ["SET @smartdb_param0 = ?", [5]],
+      ]);
+      expect(connection.query).toHaveBeenCalledWith(
+        "EXECUTE smartdb_cursor USING @smartdb_param0"
+      );
+      await expect(cursor.read(2)).resolves.toEqual({
+        rows: [{ id: 1 }, { id: 2 }],
+        fields: [{ name: "id" }],
+      });
+
+      await cursor.close();
+
+      expect(source.cancel).toHaveBeenCalled();
+      expect(run).toHaveBeenCalledWith("DEALLOCATE PREPARE smartdb_cursor");
+      expect(run).toHaveBeenLastCalledWith(
+        "SET SESSION net_write_timeout = DEFAULT"
+      );
+    });
+
+    test("steps through a prepared SQLite statement", async () => {
+      const rows = [{ id: 1 }, { id: 2 }];
+      const statement = {
+        get: jest.fn((callback) => callback(null, rows.shift())),
+        finalize: jest.fn((callback) => callback()),
+      };
+      const connection = {
+        prepare: jest.fn((_sql, _params, callback) => {
+          setImmediate(() => callback(null));
+          return statement;
+        }),
+      };
+
+      const cursor = await getDialectAdapter("sqlite").openCursor({
+        ...source,
+        connection,
+        run: runnerReturning([]),
+      });
+
+      expect(connection.prepare).toHaveBeenCalledWith(
+        source.sql,
+        [5],
+        expect.any(Function)
+      );
+      await expect(cursor.read(3)).resolves.toEqual({
+        rows: [{ id: 1 }, { id: 2 }],
+        fields: null,
+      });
+      await expect(cursor.read(3)).resolves.toEqual({ rows: [], fields: null });
+      expect(statement.get).toHaveBeenCalledTimes(3);
+
+      await cursor.close();
+
+      expect(statement.finalize).toHaveBeenCalled();
+    });
+  });
+
+  describe("explain", () => {
+    test("converts PostgreSQL plans and sizes sequential scans by schema", async () => {
+      const run = jest
+        .fn<ReturnType<QueryRunner>, Parameters<QueryRunner>>()
+        .mockResolvedValueOnce([
+          {
+            "QUERY PLAN": [
+              {
+                Plan: {
+                  "Node Type": "Hash Join",
+                  "Total Cost": 120.5,
+                  "Plan Rows": 10,
+                  "Actual Rows": 400,
+                  "Actual Loops": 1,
+                  "Actual Total Time": 3.5,
+                  "Hash Cond": "(o.user_id = u.id)",
+                  Plans: [
+                    {
+                      "Node Type": "Seq Scan",
+                      "Relation Name": "orders",
+                      Schema: "public",
+                      "Total Cost": 80,
+                      "Plan Rows": 5,
+                      "Actual Rows": 2,
+                      "Actual Loops": 2,
+                      "Actual Total Time": 1,
+                    },
+                    {
+                      "Node Type": "Seq Scan",
+                      "Relation Name": "orders",
+                      Schema: "archive",
+                    },
+                  ],
+                },
+              },
+            ],
+          },
+        ])
+        .mockResolvedValueOnce([
+          { nspname: "archive", relname: "orders", reltuples: 900000 },
+          { nspname: "public", relname: "orders", reltuples: 50000 },
+        ]);
+
+      const plan = await getDialectAdapter("postgresql").explain(
+        run,
+        "SELECT * FROM orders o JOIN users u ON o.user_id = u.id",
+        [],
+        true
+      );
+
+      expect(run).toHaveBeenNthCalledWith(
+        1,
+        "EXPLAIN (FORMAT JSON, VERBOSE, ANALYZE) SELECT * FROM orders o JOIN users u ON o.user_id = u.id",
+        []
+      );
+      expect(run).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining("JOIN pg_namespace"),
+        [["public", "archive"], ["orders"]]
+      );
+      expect(plan).toMatchObject({
+        nodeType: "Hash Join",
+        estimatedCost: 120.5,
+        actualRows: 400,
+        detail: "Hash Cond: (o.user_id = u.id)",
+      });
+      expect(plan.children[0]).toMatchObject({
+        nodeType: "Seq Scan",
+        relation: "orders",
+        fullScan: true,
+        relationRows: 50000,
+        estimatedRows: 10,
+        actualRows: 4,
+        actualTimeMs: 2,
+      });
+      expect(plan.children[1]?.relationRows).toBe(900000);
+    });
+
+    test("walks MySQL FORMAT=JSON joins", async () => {
+      const run = runnerReturning([
+        {
+          EXPLAIN: JSON.stringify({
+            query_block: {
+              cost_info: { query_cost: "25.00" },
+              ordering_operation: {
+                nested_loop: [
+                  {
+                    table: {
+                      table_name: "u",
+                      access_type: "ALL",
+                      rows_examined_per_scan: 20000,
+                      rows_produced_per_join: 20000,
+                      cost_info: { read_cost: "10.00", eval_cost: "2.00" },
+                    },
+                  },
+                  {
+                    table: {
+                      table_name: "o",
+                      access_type: "ref",
+                      key: "user_id",
+                      rows_produced_per_join: 3,
+                      cost_info: { read_cost: "1.00", eval_cost: "0.50" },
+                    },
+                  },
+                ],
+              },
+            },
+          }),
+        },
+      ]);
+
+      const plan = await getDialectAdapter("mysql").explain(
+        run,
+        "SELECT * FROM users u JOIN orders o ON o.user_id = u.id ORDER BY u.name",
+        [],
+        false
+      );
+
+      expect(plan).toMatchObject({ nodeType: "Query", estimatedCost: 25 });
+      const sort = plan.children[0]!;
+      expect(sort.nodeType).toBe("Sort");
+      expect(sort.children[0]).toMatchObject({
+        nodeType: "Nested Loop",
+        estimatedCost: 13.5,
+      });
+      expect(sort.children[0]!.children).toMatchObject([
+        {
+          nodeType: "Full Table Scan",
+          relation: "u",
+          fullScan: true,
+          relationRows: 20000,
+        },
+        {
+          nodeType: "Index Lookup",
+          relation: "o",
+          fullScan: false,
+          detail: "Index: user_id",
+        },
+      ]);
+    });
+
+    test("nests SQLite plan steps and sizes scanned tables from statistics", async () => {
+      const run = jest
+        .fn<ReturnType<QueryRunner>, Parameters<QueryRunner>>()
+        .mockResolvedValueOnce([
+          { id: 2, parent: 0, detail: "SCAN users" },
+          {
+            id: 5,
+            parent: 0,
+            detail: "SEARCH orders USING INDEX orders_user_id (user_id=?)",
+          },
+          { id: 7, parent: 0, detail: "SCAN tags" },
+          { id: 9, parent: 0, detail: "USE TEMP B-TREE FOR ORDER BY" },
+        ])
+        .mockResolvedValueOnce([{ analyzed: 1 }])
+        .mockResolvedValueOnce([
+          { tbl: "users", stat: "12" },
+          { tbl: "users", stat: "12 1" },
+          { tbl: "orders", stat: "40 4" },
+        ]);
+
+      const plan = await getDialectAdapter("sqlite").explain(
+        run,
+        "SELECT * FROM users JOIN orders ON orders.user_id = users.id CROSS JOIN tags ORDER BY 1",
+        [],
+        false
+      );
+
+      expect(plan.nodeType).toBe("Query");
+      expect(plan.children.map((node) => node.nodeType)).toEqual([
+        "Table Scan",
+        "Index Search",
+        "Table Scan",
+        "USE TEMP B-TREE FOR ORDER BY",
+      ]);
+      expect(plan.children[0]).toMatchObject({
+        relation: "users",
+        fullScan: true,
+        relationRows: 12,
+      });
+      // Tables without statistics stay unknown instead of being counted
+      expect(plan.children[2]).toMatchObject({
+        relation: "tags",
+        relationRows: null,
+      });
+      expect(run).not.toHaveBeenCalledWith(expect.stringContaining("COUNT(*)"));
+      expect(getDialectAdapter("sqlite").supportsExplainAnalyze).toBe(false);
+    });
+  });
+
+  describe("table browsing", () => {
+    const filters = [
+      { column: "name", operator: "contains" as const, value: "50%_off" },
+      { column: "age", operator: "gte" as const, value: 18 },
+      { column: "deleted_at", operator: "isNull" as const },
+    ];
+
+    test("builds filtered, sorted selects with placeholders", () => {
+      expect(
+        getDialectAdapter("mysql").buildTableSelect(
+          "users",
+          filters,
+          ["age", "id"],
+          "desc"
+        )
+      ).toEqual({
+        sql: "SELECT * FROM `users` WHERE `name` LIKE ? ESCAPE '!' AND `age` >= ? AND `deleted_at` IS NULL ORDER BY `age` DESC, `id` DESC",
+        params: ["%50!%!_off%", 18],
+      });
+    });
+
+    test("matches PostgreSQL text patterns without regard to case", () => {
+      expect(
+        getDialectAdapter("postgresql").buildTableCount("users", [
+          { column: "id", operator: "startsWith", value: "12" },
+        ])
+      ).toEqual({
+        sql: `SELECT COUNT(*) AS count FROM "users" WHERE CAST("id" AS TEXT) ILIKE ? ESCAPE '!'`,
+        params: ["12%"],
+      });
+    });
+
+    test("leaves out the WHERE clause without filters", () => {
+      expect(
+        getDialectAdapter("sqlite").buildTableSelect("users", [], [], "asc")
+      ).toEqual({ sql: 'SELECT * FROM "users"', params: [] });
+    });
+  });
+
+  describe("row changes", () => {
+    test("guards updates with null-safe comparisons per dialect", () => {
+      expect(
+        getDialectAdapter("postgresql").buildRowUpdate(
+          "users",
+          ["name", "email"],
+          ["id"],
+          ["name", "email"]
+        )
+      ).toBe(
+        `UPDATE "users" SET "name" = ?, "email" = ? WHERE "id" = ? AND "name" IS NOT DISTINCT FROM ? AND "email" IS NOT DISTINCT FROM ?`
+      );
+      expect(
+        getDialectAdapter("mysql").buildRowUpdate(
+          "users",
+          ["name"],
+          ["id"],
+          ["name"]
+        )
+      ).toBe("UPDATE `users` SET `name` = ? WHERE `id` = ? AND `name` <=> ?");
+      expect(
+        getDialectAdapter("sqlite").buildRowUpdate(
+          "users",
+          ["name"],
+          ["id"],
+          ["name"]
+        )
+      ).toBe('UPDATE "users" SET "name" = ? WHERE "id" = ? AND "name" IS ?');
+    });
+
+    test("deletes by composite key, checking only the given columns", () => {
+      expect(
+        getDialectAdapter("sqlite").buildRowDelete(
+          "memberships",
+          ["user_id", "group_id"],
+          []
+        )
+      ).toBe(
+        'DELETE FROM "memberships" WHERE "user_id" = ? AND "group_id" = ?'
+      );
+      expect(
+        getDialectAdapter("mysql").buildRowDelete("users", ["id"], ["name"])
+      ).toBe("DELETE FROM `users` WHERE `id` = ? AND `name` <=> ?");
+    });
+  });
+
+  describe("describeResult", () => {
+    const source = {
+      sql: "SELECT id, name, created_at FROM users",
+      params: [],
+      fields: null,
+      run: runnerReturning([]),
+      withConnection: jest.fn(),
+    };
+
+    test("names PostgreSQL field types and source columns", async () => {
+      const run = jest
+        .fn<ReturnType<QueryRunner>, Parameters<QueryRunner>>()
+        .mockResolvedValueOnce([
+          { oid: 23, name: "integer" },
+          { oid: 25, name: "text" },
+        ])
+        .mockResolvedValueOnce([
+          { attrelid: 16384, attnum: 1, relname: "users", attnotnull: true },
+          { attrelid: 16384, attnum: 2, relname: "users", attnotnull: false },
+        ]);
+
+      const columns = await getDialectAdapter("postgresql").describeResult({
+        ...source,
+        run,
+        fields: [
+          { name: "id", tableID: 16384, columnID: 1, dataTypeID: 23 },
+          { name: "name", tableID: 16384, columnID: 2, dataTypeID: 25 },
+          { name: "total", tableID: 0, columnID: 0, dataTypeID: 23 },
+        ],
+      });
+
+      expect(run).toHaveBeenNthCalledWith(1, expect.any(String), [[23, 25]]);
+      expect(run).toHaveBeenNthCalledWith(2, expect.any(String), [[16384]]);
+      expect(columns).toEqual([
+        { name: "id", dataType: "integer", nullable: false, table: "users" },
+        { name: "name", dataType: "text", nullable: true, table: "users" },
+        { name: "total", dataType: "integer", nullable: null, table: null },
+      ]);
+    });
+
+    test("cannot describe PostgreSQL results without driver fields", async () => {
+      await expect(
+        getDialectAdapter("postgresql").describeResult(source)
+      ).resolves.toBeNull();
+      expect(source.run).not.toHaveBeenCalled();
+    });
+
+    test("prepares MySQL statements to read their columns", async () => {
+      const statement = {
+        columns: [
+          { name: "id", columnType: 3, flags: 1, orgTable: "users" },
+          {
+            name: "bio",
+            columnType: 252,
+            flags: 16,
+            characterSet: 224,
+            orgTable: "users",
+          },
+          { name: "total", columnType: 246, flags: 128, orgTable: "" },
+        ],
+        close: jest.fn(),
+      };
+      const connection = {
+        prepare: jest.fn((_sql, callback) => callback(null, statement)),
+      };
+
+      const columns = await getDialectAdapter("mysql").describeResult({
+        ...source,
+        withConnection: (use) => use(connection),
+      });
+
+      expect(connection.prepare).toHaveBeenCalledWith(
+        source.sql,
+        expect.any(Function)
+      );
+      expect(statement.close).toHaveBeenCalled();
+      expect(columns).toEqual([
+        { name: "id", dataType: "int", nullable: false, table: "users" },
+        { name: "bio", dataType: "text", nullable: true, table: "users" },
+        { name: "total", dataType: "decimal", nullable: true, table: null },
+      ]);
+    });
+
+    test("reads MySQL columns from the field packets a cursor received", async () => {
+      const columns = await getDialectAdapter("mysql").describeResult({
+        ...source,
+        fields: [{ name: "id", columnType: 3, flags: 1, orgTable: "users" }],
+      });
+
+      expect(source.withConnection).not.toHaveBeenCalled();
+      expect(columns).toEqual([
+        { name: "id", dataType: "int", nullable: false, table: "users" },
+      ]);
+    });
+
+    test("describes SQLite results through a temporary view", async () => {
+      const run = jest
+        .fn<ReturnType<QueryRunner>, Parameters<QueryRunner>>()
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([
+          { name: "id", type: "INTEGER" },
+          { name: "total", type: "" },
+        ])
+        .mockResolvedValueOnce([]);
+
+      const columns = await getDialectAdapter("sqlite").describeResult({
+        ...source,
+        run,
+      });
+
+      expect(run.mock.calls[0]![0]).toMatch(
+        /^CREATE TEMP VIEW "smartdb_result_\w+" AS\nSELECT id/
+      );
+      expect(run.mock.calls[2]![0]).toMatch(/^DROP VIEW "smartdb_result_\w+"/);
+      expect(columns).toEqual([
+        { name: "id", dataType: "INTEGER", nullable: null, table: null },
+        { name: "total", dataType: null, nullable: null, table: null },
+      ]);
+      await expect(
+        getDialectAdapter("sqlite").describeResult({ ...source, params: [1] })
+      ).resolves.toBeNull();
+    });
+
+    test("leaves SQLite results undescribed when the view cannot be created", async () => {
+      const run = jest
+        .fn<ReturnType<QueryRunner>, Parameters<QueryRunner>>()
+        .mockRejectedValueOnce(
+          new Error("attempt to write a readonly database")
+        );
+
+      await expect(
+        getDialectAdapter("sqlite").describeResult({ ...source, run })
+      ).resolves.toBeNull();
+      // Nothing was created, so nothing is dropped
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("toParameter", () => {
+    const column = {
+      name: "payload",
+      dataType: "jsonb",
+      nullable: true,
+      defaultValue: null,
+      autoIncrement: false,
+      primaryKey: false,
+    };
+
+    test("stores objects as JSON text and missing values as null", () => {
+      const adapter = getDialectAdapter("mysql");
+
+      expect(adapter.toParameter({ a: 1 }, column)).toBe('{"a":1}');
+      expect(adapter.toParameter(undefined, column)).toBeNull();
+      expect(adapter.toParameter(42, column)).toBe(42);
+    });
+
+    test("keeps arrays for PostgreSQL array columns", () => {
+      const adapter = getDialectAdapter("postgresql");
+
+      expect(
+        adapter.toParameter(["a"], { ...column, dataType: "ARRAY" })
+      ).toEqual(["a"]);
+      expect(adapter.toParameter(["a"], column)).toBe('["a"]');
+    });
+  });
+});
@@ -2,6 +2,8 @@ import {
   ValidationError,
   DatabaseError,
   ParsingError,
+  QueryCancelledError,
+  QueryTimeoutError,
   createSuccessResponse,
   createErrorResponse,
 } from "../src/utils/errors"; // Adjust path based on your folder structure
@@ -30,6 +32,16 @@ describe("Custom Error Classes", () => {
     expect(error.name).toBe("ParsingError");
     expect(error.message).toBe("JSON parsing failed");
   });
+
+  test("QueryCancelledError and QueryTimeoutError should be distinguishable", () => {
+    const cancelled = new QueryCancelledError("Query q-1 was cancelled");
+    const timedOut = new QueryTimeoutError("Query timed out after 50ms", 50);
+
+    expect(cancelled.name).toBe("QueryCancelledError");
+    expect(timedOut.name).toBe("QueryTimeoutError");
+    expect(timedOut.timeoutMs).toBe(50);
+    expect(cancelled).not.toBeInstanceOf(QueryTimeoutError);
+  });
 });
 
 describe("API Response Helpers", () => {
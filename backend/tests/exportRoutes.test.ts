@@ -0,0 +1,181 @@
+import request from "supertest";
+import express, { Express } from "express";
+import databaseRouter from "../src/routes/database-management";
+import queryRouter from "../src/routes/query";
+import { SequelizeDbManager } from "../src/db/sequelizeDbManager";
+
+jest.mock("../src/db/sequelizeDbManager", () => ({
+  SequelizeDbManager: {
+    hasConnection: jest.fn(),
+    getDialect: jest.fn(() => ({ type: "postgresql" })),
+    streamTable: jest.fn(),
+    streamQuery: jest.fn(),
+  },
+}));
+jest.mock("../src/db/queryHistory");
+
+const mockHasConnection = SequelizeDbManager.hasConnection as jest.Mock;
+const mockStreamTable = SequelizeDbManager.streamTable as jest.Mock;
+const mockStreamQuery = SequelizeDbManager.streamQuery as jest.Mock;
+
+async function* batchesOf(...batches: Record<string, unknown>[][]) {
+  yield* batches;
+}
+
+const rowStream = (...batches: Record<string, unknown>[][]) => ({
+  fields: ["id", "name"].map((name) => ({
+    name,
+    dataType: null,
+    nullable: null,
+    table: null,
+  })),
+  batches: batchesOf(...batches),
+  close: jest.fn().mockResolvedValue(undefined),
+});
+
+describe("export routes", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    app = express();
+    app.use(express.json());
+    app.use("/api", databaseRouter);
+    app.use("/api", queryRouter);
+    mockHasConnection.mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("GET /api/databases/:id/tables/:tableName/export", () => {
+    it("streams the table with the chosen columns and filters", async () => {
+      mockStreamTable.mockResolvedValue(
+        rowStream([{ id: 1, name: "Ann" }], [{ id: 2, name: null }])
+      );
+      const filters = [{ column: "id", operator: "gt", value: 0 }];
+
+      const response = await request(app)
+        .get("/api/databases/pg-db/schemas/billing/tables/users/export")
+        .query({
+          format: "csv",
+          columns: JSON.stringify(["name"]),
+          orderBy: "name",
+          filters: JSON.stringify(filters),
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toBe("text/csv; charset=utf-8");
+      expect(response.headers["content-disposition"]).toContain(
+        'filename="users.csv"'
+      );
+      expect(response.text).toBe("name\r\nAnn\r\n\r\n");
+      expect(mockStreamTable).toHaveBeenCalledWith(
+        "pg-db",
+        { schema: "billing", name: "users" },
+        { orderBy: "name", filters }
+      );
+    });
+
+    it("rejects invalid options and unknown columns", async () => {
+      const invalid = await request(app)
+        .get("/api/databases/pg-db/tables/users/export")
+        .query({ format: "xml" });
+
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.errors).toEqual([
+        {
+          field: "format",
+          message: "Must be one of csv, ndjson, json, xlsx, sql",
+        },
+      ]);
+      expect(mockStreamTable).not.toHaveBeenCalled();
+
+      const stream = rowStream();
+      mockStreamTable.mockResolvedValue(stream);
+      const unknown = await request(app)
+        .get("/api/databases/pg-db/tables/users/export")
+        .query({ format: "json", columns: JSON.stringify(["nope"]) });
+
+      expect(unknown.status).toBe(400);
+      expect(unknown.body.errors).toEqual([
+        { field: "columns[0]", message: "Unknown column: nope" },
+      ]);
+      // The rows were never read, so the cursor is closed here
+      expect(stream.close).toHaveBeenCalled();
+    });
+
+    it("inserts into the schema-qualified table", async () => {
+      mockStreamTable.mockResolvedValue(rowStream([{ id: 1, name: "Ann" }]));
+
+      const response = await request(app)
+        .get("/api/databases/pg-db/schemas/billing/tables/users/export")
+        .query({ format: "sql", upsertKey: JSON.stringify(["id"]) });
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-disposition"]).toContain(
+        'filename="users.sql"'
+      );
+      expect(response.text).toBe(
+        `INSERT INTO "billing"."users" ("id", "name") VALUES\n  (1, 'Ann')\n` +
+          `ON CONFLICT ("id") DO UPDATE SET "name" = excluded."name";\n`
+      );
+    });
+
+    it("returns 404 for unknown connections", async () => {
+      mockHasConnection.mockReturnValue(false);
+
+      const response = await request(app)
+        .get("/api/databases/nope/tables/users/export")
+        .query({ format: "csv" });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("POST /api/query/export", () => {
+    it("streams every row of the query", async () => {
+      mockStreamQuery.mockResolvedValue(
+        rowStream([{ id: 1, name: "Ann" }], [{ id: 2, name: "Bo" }])
+      );
+
+      const response = await request(app)
+        .post("/api/query/export")
+        .send({
+          query: "SELECT id, name FROM users WHERE id > ?",
+          params: [0],
+          databaseId: "pg-db",
+          format: "ndjson",
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-disposition"]).toContain(
+        'filename="query_results.ndjson"'
+      );
+      expect(response.text).toBe(
+        '{"id":1,"name":"Ann"}\n{"id":2,"name":"Bo"}\n'
+      );
+      expect(mockStreamQuery).toHaveBeenCalledWith(
+        "SELECT id, name FROM users WHERE id > ?",
+        [0],
+        "pg-db"
+      );
+    });
+
+    it("requires a query and a format", async () => {
+      const missing = await request(app)
+        .post("/api/query/export")
+        .send({ databaseId: "pg-db", format: "csv" });
+      const invalid = await request(app)
+        .post("/api/query/export")
+        .send({ query: "SELECT 1", databaseId: "pg-db" });
+
+      expect(missing.status).toBe(400);
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.errors[0].field).toBe("format");
+      expect(mockStreamQuery).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { inflateRawSync } from "zlib";
+import { ExportWriter } from "../src/utils/exportWriter";
+import { ValidationError } from "../src/utils/errors";
+import { ExportOptions, ResultColumn } from "../src/types/database";
+
+const field = (name: string): ResultColumn => ({
+  name,
+  dataType: null,
+  nullable: null,
+  table: null,
+});
+
+const fields = [field("id"), field("name"), field("data")];
+
+async function* batchesOf(...batches: Record<string, unknown>[][]) {
+  yield* batches;
+}
+
+const exportRows = async (
+  options: ExportOptions,
+  ...batches: Record<string, unknown>[][]
+): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of ExportWriter.stream(
+    fields,
+    batchesOf(...batches),
+    options,
+    { name: "people", table: { name: "people" }, dialect: "postgresql" }
+  )) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+// Entries by name, read through the central directory
+const unzip = (archive: Buffer): Map<string, string> => {
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = archive.readUInt16LE(end + 10);
+  const entries = new Map<string, string>();
+  let record = archive.readUInt32LE(end + 16);
+  for (let i = 0; i < count; i++) {
+    const compressedSize = archive.readUInt32LE(record + 20);
+    const nameLength = archive.readUInt16LE(record + 28);
+    const offset = archive.readUInt32LE(record + 42);
+    const name = archive.toString(
+      "utf8",
+      record + 46,
+      record + 46 + nameLength
+    );
+    const data = offset + 30 + archive.readUInt16LE(offset + 26);
+    entries.set(
+      name,
+      inflateRawSync(archive.subarray(data, data + compressedSize)).toString()
+    );
+    record += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe("ExportWriter", () => {
+  describe("parseOptions", () => {
+    test("reads options sent as query string text", () => {
+      expect(
+        ExportWriter.parseOptions({
+          format: "csv",
+          columns: '["name","id"]',
+          delimiter: "\t",
+          header: "false",
+          nullValue: "NULL",
+        })
+      ).toEqual({
+        format: "csv",
+        columns: ["name", "id"],
+        delimiter: "\t",
+        header: false,
+        nullValue: "NULL",
+      });
+    });
+
+    test("lists every invalid option", () => {
+      try {
+        ExportWriter.parseOptions({
+          format: "xml",
+          columns: "name",
+          delimiter: '"',
+          header: "yes",
+        });
+        throw new Error("Expected a validation error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(
+          (error as ValidationError).fieldErrors.map((error) => error.field)
+        ).toEqual(["format", "columns", "delimiter", "header"]);
+      }
+    });
+  });
+
+  test("reads the SQL options", () => {
+    expect(
+      ExportWriter.parseOptions({
+        format: "sql",
+        dialect: "mysql",
+        table: "people_copy",
+        upsertKey: '["id"]',
+      })
+    ).toEqual({
+      format: "sql",
+      dialect: "mysql",
+      table: "people_copy",
+      upsertKey: ["id"],
+    });
+    expect(() =>
+      ExportWriter.parseOptions({ format: "sql", dialect: "oracle" })
+    ).toThrow(ValidationError);
+  });
+
+  test("selects columns in the order asked for", () => {
+    expect(
+      ExportWriter.selectColumns(fields, {
+        format: "csv",
+        columns: ["name", "id"],
+      }).map((f) => f.name)
+    ).toEqual(["name", "id"]);
+    expect(() =>
+      ExportWriter.selectColumns(fields, { format: "csv", columns: ["nope"] })
+    ).toThrow(ValidationError);
+  });
+
+  test("requires the upsert key to be exported", () => {
+    try {
+      ExportWriter.selectColumns(fields, {
+        format: "sql",
+        columns: ["name"],
+        upsertKey: ["id"],
+      });
+      throw new Error("Expected a validation error");
+    } catch (error) {
+      expect((error as ValidationError).fieldErrors).toEqual([
+        { field: "upsertKey[0]", message: "Not an exported column: id" },
+      ]);
+    }
+  });
+
+  test("names downloads safely", () => {
+    expect(ExportWriter.contentDisposition('día "1"', "csv")).toBe(
+      `attachment; filename="d_a _1_.csv"; filename*=UTF-8''d%C3%ADa%20%221%22.csv`
+    );
+  });
+
+  describe("formats", () => {
+    const rows = [
+      { id: 1, name: 'Ann, "A"', data: Buffer.from([0, 255]) },
+      { id: 2, name: null, data: null },
+    ];
+
+    test("writes RFC 4180 CSV", async () => {
+      const csv = await exportRows({ format: "csv" }, rows, [
+        { id: 3, name: "", data: "line\nbreak" },
+      ]);
+
+      // Empty text is quoted so it does not read back as NULL
+      expect(csv.toString()).toBe(
+        'id,name,data\r\n1,"Ann, ""A""",AP8=\r\n2,,\r\n3,"","line\nbreak"\r\n'
+      );
+    });
+
+    test("honours the delimiter, header and NULL text", async () => {
+      const csv = await exportRows(
+        { format: "csv", delimiter: ";", header: false, nullValue: "NULL" },
+        [{ id: 1, name: "NULL", data: null }]
+      );
+
+      expect(csv.toString()).toBe('1;"NULL";NULL\r\n');
+    });
+
+    test("writes one JSON object per line", async () => {
+      const ndjson = await exportRows({ format: "ndjson" }, rows);
+
+      expect(ndjson.toString().split("\n")).toEqual([
+        '{"id":1,"name":"Ann, \\"A\\"","data":"AP8="}',
+        '{"id":2,"name":null,"data":null}',
+        "",
+      ]);
+    });
+
+    test("writes a JSON array across batches", async () => {
+      const json = await exportRows({ format: "json" }, [rows[0]!], [rows[1]!]);
+
+      expect(JSON.parse(json.toString())).toEqual([
+        { id: 1, name: 'Ann, "A"', data: "AP8=" },
+        { id: 2, name: null, data: null },
+      ]);
+      expect((await exportRows({ format: "json" })).toString()).toBe("[]\n");
+    });
+
+    test("writes an XLSX workbook with typed cells", async () => {
+      const workbook = unzip(
+        await exportRows({ format: "xlsx", nullValue: "-" }, rows)
+      );
+
+      expect([...workbook.keys()].sort()).toEqual([
+        "[Content_Types].xml",
+        "_rels/.rels",
+        "xl/_rels/workbook.xml.rels",
+        "xl/workbook.xml",
+        "xl/worksheets/sheet1.xml",
+      ]);
+      expect(workbook.get("xl/workbook.xml")).toContain(
+        '<sheet name="people" sheetId="1" r:id="rId1"/>'
+      );
+      const sheet = workbook.get("xl/worksheets/sheet1.xml")!;
+      expect(sheet).toContain(
+        '<row r="2"><c r="A2"><v>1</v></c><c r="B2" t="inlineStr"><is><t xml:space="preserve">Ann, &quot;A&quot;</t></is></c>'
+      );
+      expect(sheet).toContain(
+        '<c r="B3" t="inlineStr"><is><t xml:space="preserve">-</t></is></c>'
+      );
+      expect(sheet).toMatch(/<\/sheetData><\/worksheet>$/);
+    });
+
+    test("writes INSERTs for the source dialect", async () => {
+      const sql = await exportRows({ format: "sql" }, rows);
+
+      expect(sql.toString()).toBe(
+        `INSERT INTO "people" ("id", "name", "data") VALUES\n` +
+          `  (1, 'Ann, "A"', '\\x00ff'::bytea),\n` +
+          `  (2, NULL, NULL);\n`
+      );
+    });
+
+    test("writes upserts for another dialect in batches of 100", async () => {
+      const many = Array.from({ length: 150 }, (_, i) => ({
+        id: i,
+        name: `n${i}`,
+        data: null,
+      }));
+      const sql = (
+        await exportRows(
+          {
+            format: "sql",
+            dialect: "mysql",
+            table: "copy",
+            upsertKey: ["id"],
+          },
+          many
+        )
+      ).toString();
+
+      const statements = sql.split(";\n").filter(Boolean);
+      expect(statements).toHaveLength(2);
+      expect(statements[0]).toMatch(
+        /^INSERT INTO `copy` \(`id`, `name`, `data`\)/
+      );
+      expect(statements[1]!.match(/^  \(/gm)).toHaveLength(50);
+      expect(statements[1]).toMatch(
+        /ON DUPLICATE KEY UPDATE `name` = VALUES\(`name`\), `data` = VALUES\(`data`\)$/
+      );
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { QueryHistory } from "../src/db/queryHistory";
+
+describe("QueryHistory", () => {
+  const run = {
+    sql: "SELECT * FROM users",
+    databaseId: "pg-db",
+    durationMs: 12,
+    rowCount: 3,
+    status: "success" as const,
+    error: null,
+  };
+
+  let tempDir: string;
+  let historyPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "smartdb-history-"));
+    historyPath = path.join(tempDir, "query-history.json");
+    process.env.QUERY_HISTORY_PATH = historyPath;
+  });
+
+  afterEach(async () => {
+    delete process.env.QUERY_HISTORY_PATH;
+    delete process.env.QUERY_HISTORY_SIZE;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("writes runs to disk and returns the newest first", async () => {
+    await QueryHistory.record(run);
+    await QueryHistory.record({ ...run, sql: "SELECT 2" });
+
+    const { entries, total } = await QueryHistory.search();
+    const file = JSON.parse(await fs.readFile(historyPath, "utf8"));
+
+    expect(total).toBe(2);
+    expect(entries.map((entry) => entry.sql)).toEqual([
+      "SELECT 2",
+      "SELECT * FROM users",
+    ]);
+    expect(file.entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      id: expect.any(String),
+      executedAt: expect.any(String),
+    });
+  });
+
+  test("filters by words, database, status and date", async () => {
+    await QueryHistory.record(run);
+    await QueryHistory.record({
+      ...run,
+      sql: "DELETE FROM orders",
+      databaseId: "mysql-db",
+      status: "error",
+      rowCount: null,
+      error: "permission denied for table orders",
+    });
+
+    const search = async (filter: Parameters<typeof QueryHistory.search>[0]) =>
+      (await QueryHistory.search(filter)).entries.map((entry) => entry.sql);
+
+    expect(await search({ search: "from USERS" })).toEqual([run.sql]);
+    expect(await search({ search: "permission orders" })).toEqual([
+      "DELETE FROM orders",
+    ]);
+    expect(await search({ databaseId: "pg-db" })).toEqual([run.sql]);
+    expect(await search({ status: ["error", "timeout"] })).toEqual([
+      "DELETE FROM orders",
+    ]);
+    expect(await search({ to: new Date("2000-01-01") })).toEqual([]);
+    expect(await search({ from: new Date("2000-01-01") })).toHaveLength(2);
+  });
+
+  test("drops the oldest runs beyond the configured size", async () => {
+    process.env.QUERY_HISTORY_SIZE = "2";
+    for (const sql of ["SELECT 1", "SELECT 2", "SELECT 3"]) {
+      await QueryHistory.record({ ...run, sql });
+    }
+
+    const { entries } = await QueryHistory.search({ limit: 1, offset: 1 });
+    const { total } = await QueryHistory.search();
+
+    expect(total).toBe(2);
+    expect(entries.map((entry) => entry.sql)).toEqual(["SELECT 2"]);
+  });
+
+  test("writes runs recorded together to the file once", async () => {
+    const rename = jest.spyOn(fs, "rename");
+    const sqls = ["SELECT 1", "SELECT 2", "SELECT 3", "SELECT 4"];
+
+    await Promise.all(sqls.map((sql) => QueryHistory.record({ ...run, sql })));
+    const file = JSON.parse(await fs.readFile(historyPath, "utf8"));
+
+    expect(rename).toHaveBeenCalledTimes(1);
+    expect(file.entries.map((entry: { sql: string }) => entry.sql)).toEqual(
+      sqls
+    );
+    rename.mockRestore();
+  });
+});
@@ -0,0 +1,69 @@
+import { QueryPlan } from "../src/utils/queryPlan";
+import { PlanNode } from "../src/db/dialects";
+
+const node = (fields: Partial<PlanNode>): PlanNode => ({
+  nodeType: "Node",
+  relation: null,
+  fullScan: false,
+  relationRows: null,
+  estimatedCost: null,
+  estimatedRows: null,
+  actualRows: null,
+  actualTimeMs: null,
+  detail: null,
+  warnings: [],
+  children: [],
+  ...fields,
+});
+
+describe("QueryPlan", () => {
+  test("flags nodes that do most of the planned work", () => {
+    const plan = QueryPlan.annotate(
+      node({
+        nodeType: "Sort",
+        estimatedCost: 100,
+        children: [
+          node({ nodeType: "Seq Scan", estimatedCost: 90 }),
+          node({ nodeType: "Index Scan", estimatedCost: 5 }),
+        ],
+      })
+    );
+
+    expect(plan.warnings).toEqual([]);
+    expect(plan.children[0]!.warnings).toEqual(["expensive"]);
+    expect(plan.children[1]!.warnings).toEqual([]);
+  });
+
+  test("measures work in actual time after ANALYZE", () => {
+    const plan = QueryPlan.annotate(
+      node({
+        actualTimeMs: 10,
+        estimatedCost: 1000,
+        children: [node({ actualTimeMs: 1, estimatedCost: 990 })],
+      })
+    );
+
+    expect(plan.warnings).toEqual(["expensive"]);
+    expect(plan.children[0]!.warnings).toEqual([]);
+  });
+
+  test("flags full scans of large tables and row estimate misses", () => {
+    const plan = QueryPlan.annotate(
+      node({
+        children: [
+          node({ fullScan: true, relationRows: 50000, estimatedRows: 1 }),
+          node({ fullScan: true, relationRows: 50 }),
+          node({ estimatedRows: 10, actualRows: 5000 }),
+          node({ estimatedRows: 10, actualRows: 30 }),
+        ],
+      })
+    );
+
+    expect(plan.children.map((child) => child.warnings)).toEqual([
+      ["fullScan"],
+      [],
+      ["estimateMiss"],
+      [],
+    ]);
+  });
+});
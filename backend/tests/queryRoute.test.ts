@@ -2,15 +2,40 @@ import request from "supertest";
 import express, { Express } from "express";
 import router from "../src/routes/query"; // adjust path as needed
 import { SequelizeDbManager } from "../src/db/sequelizeDbManager";
+import { QueryHistory } from "../src/db/queryHistory";
+import {
+  QueryCancelledError,
+  QueryTimeoutError,
+  TransactionNotFoundError,
+  ValidationError,
+} from "../src/utils/errors";
 
 // 🧠 Mock SequelizeDbManager
 jest.mock("../src/db/sequelizeDbManager", () => ({
   SequelizeDbManager: {
     query: jest.fn(),
+    cancelQuery: jest.fn(),
+    isQueryRunning: jest.fn(),
+    fetchPage: jest.fn(),
+    explain: jest.fn(),
+    getDialect: jest.fn(() => ({ type: "postgresql" })),
+  },
+}));
+
+jest.mock("../src/db/queryHistory", () => ({
+  QueryHistory: {
+    record: jest.fn(() => Promise.resolve()),
+    search: jest.fn(),
   },
 }));
 
 const mockQuery = SequelizeDbManager.query as jest.Mock;
+const mockCancelQuery = SequelizeDbManager.cancelQuery as jest.Mock;
+const mockIsQueryRunning = SequelizeDbManager.isQueryRunning as jest.Mock;
+const mockFetchPage = SequelizeDbManager.fetchPage as jest.Mock;
+const mockExplain = SequelizeDbManager.explain as jest.Mock;
+const mockRecord = QueryHistory.record as jest.Mock;
+const mockSearch = QueryHistory.search as jest.Mock;
 
 let app: Express;
 beforeAll(() => {
@@ -76,6 +101,56 @@ describe("POST /api/query", () => {
     expect(response.body.result.executionTime).toMatch(/\d+ms/);
   });
 
+  it("should return column descriptors for empty results", async () => {
+    const fields = [
+      { name: "id", dataType: "integer", nullable: false, table: "users" },
+    ];
+    mockQuery.mockResolvedValueOnce({
+      columns: ["id"],
+      fields,
+      rows: [],
+      rowCount: 0,
+      statementType: "read",
+    });
+
+    const response = await request(app).post("/api/query").send({
+      query: "SELECT id FROM users WHERE false",
+      databaseId: "test_db",
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.result).toMatchObject({
+      columns: ["id"],
+      fields,
+      rows: [],
+    });
+  });
+
+  it("should report affected and returned rows separately", async () => {
+    mockQuery.mockResolvedValueOnce({
+      columns: [],
+      rows: [],
+      rowCount: 3,
+      statementType: "dml",
+      command: "UPDATE",
+      affectedRows: 3,
+      returnedRows: 0,
+    });
+
+    const response = await request(app).post("/api/query").send({
+      query: "UPDATE users SET active = false",
+      databaseId: "test_db",
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.result).toMatchObject({
+      statementType: "dml",
+      command: "UPDATE",
+      affectedRows: 3,
+      returnedRows: 0,
+    });
+  });
+
   it("should handle query execution errors gracefully", async () => {
     mockQuery.mockRejectedValueOnce(new Error("Syntax error in SQL"));
 
@@ -146,4 +221,485 @@ describe("POST /api/query", () => {
     expect(result.rowCount).toBe(0); // ✅ Default fallback
     expect(result.executionTime).toMatch(/\d+ms/);
   });
+
+  it("should pass the query id and timeout to the manager", async () => {
+    mockQuery.mockResolvedValueOnce({ queryId: "q-1", rows: [] });
+
+    const response = await request(app).post("/api/query").send({
+      query: "SELECT 1",
+      databaseId: "test_db",
+      queryId: "q-1",
+      timeoutMs: 5000,
+    });
+
+    expect(mockQuery).toHaveBeenCalledWith("SELECT 1", [], "test_db", {
+      queryId: "q-1",
+      timeoutMs: 5000,
+      pageSize: 500,
+    });
+    expect(response.body.result.queryId).toBe("q-1");
+  });
+
+  it("should reject invalid timeouts and query ids already running", async () => {
+    const badTimeout = await request(app)
+      .post("/api/query")
+      .send({ query: "SELECT 1", databaseId: "test_db", timeoutMs: -1 });
+    mockIsQueryRunning.mockReturnValueOnce(true);
+    const duplicate = await request(app)
+      .post("/api/query")
+      .send({ query: "SELECT 1", databaseId: "test_db", queryId: "q-1" });
+
+    expect(badTimeout.status).toBe(400);
+    expect(duplicate.status).toBe(409);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it("should report cancelled and timed-out queries as distinct outcomes", async () => {
+    mockQuery
+      .mockRejectedValueOnce(new QueryCancelledError("Query q-1 was cancelled"))
+      .mockRejectedValueOnce(
+        new QueryTimeoutError("Query timed out after 100ms", 100)
+      );
+
+    const cancelled = await request(app)
+      .post("/api/query")
+      .send({ query: "SELECT pg_sleep(60)", databaseId: "test_db" });
+    const timedOut = await request(app)
+      .post("/api/query")
+      .send({ query: "SELECT pg_sleep(60)", databaseId: "test_db" });
+
+    expect(cancelled.status).toBe(409);
+    expect(cancelled.body).toMatchObject({ outcome: "cancelled" });
+    expect(timedOut.status).toBe(408);
+    expect(timedOut.body).toMatchObject({
+      outcome: "timeout",
+      message: "Query timed out after 100ms",
+    });
+  });
+
+  it("should flag results cut off by the connection limits", async () => {
+    mockQuery.mockResolvedValueOnce({
+      columns: ["id"],
+      rows: [{ id: 1 }, { id: 2 }],
+      rowCount: 2,
+      truncation: { limit: "maxRows", value: 2 },
+      totalRows: 5,
+    });
+
+    const response = await request(app)
+      .post("/api/query")
+      .send({ query: "SELECT id FROM users", databaseId: "test_db" });
+
+    expect(response.body.result).toMatchObject({
+      truncated: true,
+      limit: { limit: "maxRows", value: 2 },
+      totalRows: 5,
+    });
+  });
+});
+
+describe("paging", () => {
+  it("should return the first page with a cursor", async () => {
+    mockQuery.mockResolvedValueOnce({
+      columns: ["id"],
+      rows: [{ id: 1 }, { id: 2 }],
+      rowCount: 2,
+      cursorId: "c-1",
+      hasMore: true,
+      estimatedTotalRows: 1000,
+    });
+
+    const response = await request(app).post("/api/query").send({
+      query: "SELECT id FROM big",
+      databaseId: "test_db",
+      pageSize: 2,
+    });
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      "SELECT id FROM big",
+      [],
+      "test_db",
+      { pageSize: 2 }
+    );
+    expect(response.body.result).toMatchObject({
+      cursorId: "c-1",
+      hasMore: true,
+      estimatedTotalRows: 1000,
+    });
+  });
+
+  it("should reject page sizes out of range", async () => {
+    const response = await request(app)
+      .post("/api/query")
+      .send({ query: "SELECT 1", databaseId: "test_db", pageSize: 0 });
+    const next = await request(app).get("/api/query/c-1?pageSize=abc");
+
+    expect(response.status).toBe(400);
+    expect(next.status).toBe(400);
+    expect(mockQuery).not.toHaveBeenCalled();
+    expect(mockFetchPage).not.toHaveBeenCalled();
+  });
+
+  it("should fetch the next page from a cursor", async () => {
+    mockFetchPage.mockResolvedValueOnce({
+      columns: ["id"],
+      rows: [{ id: 3 }],
+      rowCount: 1,
+      cursorId: null,
+      hasMore: false,
+      estimatedTotalRows: 3,
+    });
+
+    const response = await request(app).get("/api/query/c-1?pageSize=2");
+
+    expect(mockFetchPage).toHaveBeenCalledWith("c-1", 2);
+    expect(response.status).toBe(200);
+    expect(response.body.result).toMatchObject({
+      rows: [{ id: 3 }],
+      cursorId: null,
+      hasMore: false,
+    });
+  });
+
+  it("should return 404 for expired cursors", async () => {
+    mockFetchPage.mockResolvedValueOnce(null);
+
+    const response = await request(app).get("/api/query/gone");
+
+    expect(mockFetchPage).toHaveBeenCalledWith("gone", 500);
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("transactions", () => {
+  it("should run the query inside the given transaction", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [], affectedRows: 2 });
+
+    const response = await request(app).post("/api/query").send({
+      query: "UPDATE users SET active = false",
+      databaseId: "test_db",
+      transactionId: "tx-1",
+    });
+
+    expect(response.status).toBe(200);
+    expect(mockQuery).toHaveBeenCalledWith(
+      "UPDATE users SET active = false",
+      [],
+      "test_db",
+      expect.objectContaining({ transactionId: "tx-1" })
+    );
+  });
+
+  it("should return 404 once the transaction has expired", async () => {
+    mockQuery.mockRejectedValueOnce(
+      new TransactionNotFoundError("Transaction tx-1 not found or expired")
+    );
+
+    const response = await request(app).post("/api/query").send({
+      query: "SELECT 1",
+      databaseId: "test_db",
+      transactionId: "tx-1",
+    });
+
+    expect(response.status).toBe(404);
+    expect(response.body.message).toBe("Transaction tx-1 not found or expired");
+  });
+});
+
+describe("named parameters", () => {
+  it("should bind named values as positional params", async () => {
+    mockQuery.mockResolvedValue({ columns: [], rows: [], rowCount: 0 });
+
+    const response = await request(app)
+      .post("/api/query")
+      .send({
+        query: "SELECT * FROM t WHERE id = :id AND name = :name",
+        databaseId: "test_db",
+        params: { id: 4, name: "x" },
+      });
+
+    expect(response.status).toBe(200);
+    expect(mockQuery).toHaveBeenCalledWith(
+      "SELECT * FROM t WHERE id = ? AND name = ?",
+      [4, "x"],
+      "test_db",
+      expect.any(Object)
+    );
+  });
+
+  it("should return 400 when a named value is missing", async () => {
+    const response = await request(app).post("/api/query").send({
+      query: "SELECT * FROM t WHERE id = :id",
+      databaseId: "test_db",
+      params: {},
+    });
+
+    expect(response.status).toBe(400);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe("query history", () => {
+  it("should record successful and failed runs", async () => {
+    mockQuery
+      .mockResolvedValueOnce({
+        columns: ["id"],
+        rows: [{ id: 1 }, { id: 2 }],
+        rowCount: 2,
+      })
+      .mockRejectedValueOnce(new QueryTimeoutError("Query timed out", 1000));
+
+    await request(app)
+      .post("/api/query")
+      .send({ query: "SELECT id FROM t", databaseId: "test_db" });
+    await request(app)
+      .post("/api/query")
+      .send({ query: "SELECT pg_sleep(5)", databaseId: "test_db" });
+
+    expect(mockRecord).toHaveBeenNthCalledWith(1, {
+      sql: "SELECT id FROM t",
+      databaseId: "test_db",
+      durationMs: expect.any(Number),
+      rowCount: 2,
+      status: "success",
+      error: null,
+    });
+    expect(mockRecord).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        rowCount: null,
+        status: "timeout",
+        error: expect.any(String),
+      })
+    );
+  });
+
+  it("should not record requests that fail validation", async () => {
+    await request(app).post("/api/query").send({ query: "SELECT 1" });
+
+    expect(mockRecord).not.toHaveBeenCalled();
+  });
+
+  it("should pass the filters to the history search", async () => {
+    mockSearch.mockResolvedValue({ entries: [], total: 0 });
+
+    const response = await request(app).get("/api/query/history").query({
+      search: "users",
+      databaseId: "test_db",
+      status: "error,timeout",
+      from: "2024-01-01T00:00:00Z",
+      limit: "20",
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ success: true, entries: [], total: 0 });
+    expect(mockSearch).toHaveBeenCalledWith({
+      search: "users",
+      databaseId: "test_db",
+      status: ["error", "timeout"],
+      from: new Date("2024-01-01T00:00:00Z"),
+      limit: 20,
+    });
+  });
+
+  it("should return 400 for an unknown status or date", async () => {
+    const badStatus = await request(app)
+      .get("/api/query/history")
+      .query({ status: "done" });
+    const badDate = await request(app)
+      .get("/api/query/history")
+      .query({ from: "yesterday" });
+
+    expect(badStatus.status).toBe(400);
+    expect(badDate.status).toBe(400);
+    expect(mockSearch).not.toHaveBeenCalled();
+  });
+});
+
+describe("POST /api/query/explain", () => {
+  it("should return the annotated plan", async () => {
+    const plan = { nodeType: "Seq Scan", warnings: ["fullScan"], children: [] };
+    mockExplain.mockResolvedValue({ plan, analyzed: true, rolledBack: false });
+
+    const response = await request(app)
+      .post("/api/query/explain")
+      .send({ query: "SELECT * FROM t", databaseId: "test_db", analyze: true });
+
+    expect(response.status).toBe(200);
+    expect(mockExplain).toHaveBeenCalledWith("SELECT * FROM t", [], "test_db", {
+      analyze: true,
+      rollback: false,
+    });
+    expect(response.body.result).toMatchObject({ plan, analyzed: true });
+  });
+
+  it("should return 400 when the plan cannot be analyzed", async () => {
+    mockExplain.mockRejectedValue(
+      new ValidationError(
+        "ANALYZE runs the statement; set rollback to analyze writes"
+      )
+    );
+
+    const response = await request(app)
+      .post("/api/query/explain")
+      .send({ query: "DELETE FROM t", databaseId: "test_db", analyze: true });
+
+    expect(response.status).toBe(400);
+    expect(response.body.success).toBe(false);
+  });
+
+  it("should return 400 for a non-boolean analyze flag", async () => {
+    const response = await request(app)
+      .post("/api/query/explain")
+      .send({ query: "SELECT 1", databaseId: "test_db", analyze: "yes" });
+
+    expect(response.status).toBe(400);
+    expect(mockExplain).not.toHaveBeenCalled();
+  });
+});
+
+describe("script mode", () => {
+  const script =
+    "CREATE TABLE t (id int);\nINSERT INTO t VALUES (1);\nSELECT * FROM t;";
+
+  it("should run statements in order and skip the rest after an error", async () => {
+    mockQuery
+      .mockResolvedValueOnce({
+        rows: [],
+        statementType: "ddl",
+        command: "CREATE",
+      })
+      .mockRejectedValueOnce(
+        new Error("Query execution failed: duplicate key")
+      );
+
+    const response = await request(app)
+      .post("/api/query")
+      .send({ query: script, databaseId: "test_db", mode: "script" });
+
+    expect(response.status).toBe(200);
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+    expect(mockQuery).toHaveBeenNthCalledWith(
+      1,
+      "CREATE TABLE t (id int)",
+      [],
+      "test_db",
+      {}
+    );
+    expect(response.body.results).toMatchObject([
+      { index: 0, status: "success", result: { command: "CREATE" } },
+      {
+        index: 1,
+        sql: "INSERT INTO t VALUES (1)",
+        status: "error",
+        error: "Query execution failed: duplicate key",
+      },
+      { index: 2, command: "SELECT", status: "skipped", result: null },
+    ]);
+  });
+
+  it("should continue past errors unless asked to stop, but not past a cancel", async () => {
+    mockQuery
+      .mockRejectedValueOnce(new Error("relation exists"))
+      .mockRejectedValueOnce(
+        new QueryCancelledError("Query q-1 was cancelled")
+      );
+
+    const response = await request(app).post("/api/query").send({
+      query: script,
+      databaseId: "test_db",
+      mode: "script",
+      stopOnError: false,
+      queryId: "q-1",
+    });
+
+    expect(
+      response.body.results.map((statement: any) => statement.status)
+    ).toEqual(["error", "error", "skipped"]);
+    expect(response.body.results[1].outcome).toBe("cancelled");
+    expect(mockQuery).toHaveBeenLastCalledWith(
+      "INSERT INTO t VALUES (1)",
+      [],
+      "test_db",
+      { queryId: "q-1" }
+    );
+  });
+
+  it("should reject a script that begins its own transaction before running it", async () => {
+    // The failing SELECT would leave BEGIN open on a pooled connection
+    const response = await request(app).post("/api/query").send({
+      query:
+        "BEGIN;\nINSERT INTO t VALUES (1);\nSELECT * FROM missing;\nCOMMIT;",
+      databaseId: "test_db",
+      mode: "script",
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual([
+      { field: "statements[0]", message: "BEGIN is not allowed here" },
+      { field: "statements[3]", message: "COMMIT is not allowed here" },
+    ]);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it("should run a script in an open transaction on its connection", async () => {
+    mockQuery
+      .mockResolvedValueOnce({
+        rows: [],
+        statementType: "dml",
+        command: "INSERT",
+      })
+      .mockRejectedValueOnce(new Error('relation "missing" does not exist'));
+
+    const response = await request(app).post("/api/query").send({
+      query: "INSERT INTO t VALUES (1);\nSELECT * FROM missing;\nSELECT 1;",
+      databaseId: "test_db",
+      mode: "script",
+      transactionId: "tx-1",
+    });
+
+    expect(response.status).toBe(200);
+    expect(
+      response.body.results.map((statement: any) => statement.status)
+    ).toEqual(["success", "error", "skipped"]);
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+    for (const call of mockQuery.mock.calls) {
+      expect(call[3]).toEqual({ transactionId: "tx-1" });
+    }
+  });
+
+  it("should reject parameters", async () => {
+    const response = await request(app)
+      .post("/api/query")
+      .send({
+        query: script,
+        databaseId: "test_db",
+        mode: "script",
+        params: [1],
+      });
+
+    expect(response.status).toBe(400);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe("POST /api/query/:queryId/cancel", () => {
+  it("should cancel a running query", async () => {
+    mockCancelQuery.mockResolvedValueOnce(true);
+
+    const response = await request(app).post("/api/query/q-1/cancel");
+
+    expect(mockCancelQuery).toHaveBeenCalledWith("q-1");
+    expect(response.status).toBe(200);
+    expect(response.body.success).toBe(true);
+  });
+
+  it("should return 404 when the query is not running", async () => {
+    mockCancelQuery.mockResolvedValueOnce(false);
+
+    const response = await request(app).post("/api/query/q-2/cancel");
+
+    expect(response.status).toBe(404);
+    expect(response.body.success).toBe(false);
+  });
 });
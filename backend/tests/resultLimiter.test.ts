@@ -0,0 +1,30 @@
+import { ResultLimiter } from "../src/utils/resultLimiter";
+
+describe("ResultLimiter", () => {
+  const rows = [{ id: 1 }, { id: 2 }, { id: 3 }];
+
+  test("keeps every row within the limits", () => {
+    expect(ResultLimiter.apply(rows, { maxRows: 3, maxBytes: 1024 })).toEqual({
+      rows,
+      truncation: null,
+    });
+  });
+
+  test("stops at the row limit", () => {
+    expect(ResultLimiter.apply(rows, { maxRows: 2, maxBytes: 1024 })).toEqual({
+      rows: rows.slice(0, 2),
+      truncation: { limit: "maxRows", value: 2 },
+    });
+  });
+
+  test("stops before the row that would exceed the byte limit", () => {
+    // [{"id":1},{"id":2}] is 19 bytes
+    const limited = ResultLimiter.apply(rows, { maxRows: 10, maxBytes: 20 });
+
+    expect(limited).toEqual({
+      rows: rows.slice(0, 2),
+      truncation: { limit: "maxBytes", value: 20 },
+    });
+    expect(JSON.stringify(limited.rows).length).toBeLessThanOrEqual(20);
+  });
+});
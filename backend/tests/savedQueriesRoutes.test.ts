@@ -0,0 +1,111 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import request from "supertest";
+import express, { Express } from "express";
+import router from "../src/routes/saved-queries";
+
+jest.mock("../src/db/sequelizeDbManager", () => ({
+  SequelizeDbManager: {
+    hasConnection: jest.fn(() => true),
+    getDialect: jest.fn(() => ({ type: "postgresql" })),
+  },
+}));
+
+const report = {
+  name: "Orders per customer",
+  description: "Daily order report",
+  tags: ["reports", "sales"],
+  databaseId: "pg-db",
+  sql: "SELECT * FROM orders WHERE customer_id = :customer_id AND placed_at >= :since::date",
+  parameters: [
+    { name: "customer_id", type: "integer", default: 1 },
+    { name: "since", type: "date", default: "2024-01-01" },
+  ],
+};
+
+describe("saved query routes", () => {
+  let app: Express;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "smartdb-saved-"));
+    process.env.SAVED_QUERIES_PATH = path.join(tempDir, "saved-queries.json");
+    app = express();
+    app.use(express.json());
+    app.use("/api", router);
+  });
+
+  afterEach(async () => {
+    delete process.env.SAVED_QUERIES_PATH;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should create, list, update and delete saved queries", async () => {
+    const created = await request(app).post("/api/saved-queries").send(report);
+    expect(created.status).toBe(201);
+    const { id } = created.body.query;
+
+    const listed = await request(app)
+      .get("/api/saved-queries")
+      .query({ tag: "sales" });
+    expect(listed.body.queries).toEqual([
+      expect.objectContaining({ id, ...report }),
+    ]);
+
+    const updated = await request(app)
+      .put(`/api/saved-queries/${id}`)
+      .send({ ...report, tags: ["finance"] });
+    expect(updated.status).toBe(200);
+    expect(updated.body.query).toMatchObject({
+      tags: ["finance"],
+      createdAt: created.body.query.createdAt,
+    });
+
+    expect((await request(app).delete(`/api/saved-queries/${id}`)).status).toBe(
+      200
+    );
+    expect((await request(app).get(`/api/saved-queries/${id}`)).status).toBe(
+      404
+    );
+  });
+
+  it("should require every parameter in the SQL to be declared", async () => {
+    const response = await request(app)
+      .post("/api/saved-queries")
+      .send({ ...report, parameters: [report.parameters[0]] });
+
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual([
+      {
+        field: "parameters",
+        message: ":since is used in the SQL but not declared",
+      },
+    ]);
+  });
+
+  it("should reject defaults that do not match the parameter type", async () => {
+    const response = await request(app)
+      .post("/api/saved-queries")
+      .send({
+        ...report,
+        parameters: [
+          { name: "customer_id", type: "integer", default: "seven" },
+          { name: "since", type: "timestamp", default: null },
+        ],
+      });
+
+    expect(response.status).toBe(400);
+    expect(
+      response.body.errors.map((error: { field: string }) => error.field)
+    ).toEqual(["parameters[0].default", "parameters[1].type"]);
+  });
+
+  it("should return 404 when updating a missing query", async () => {
+    const response = await request(app)
+      .put("/api/saved-queries/missing")
+      .send(report);
+
+    expect(response.status).toBe(404);
+  });
+});
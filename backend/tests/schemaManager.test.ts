@@ -1,13 +1,15 @@
 import { SchemaManager } from "../src/db/schemaManager";
-import { DatabaseConnection } from "../src/db/dbConnection";
+import { SequelizeDbManager } from "../src/db/sequelizeDbManager";
+import { getDialectAdapter } from "../src/db/dialects";
 import { TypeMapper } from "../src/utils/typeMapper";
 import { DatabaseTable } from "../src/types";
+import { LOCAL_DB_ID } from "../src/types/database";
 
 // Mock dependencies
-jest.mock("../src/db/dbConnection");
+jest.mock("../src/db/sequelizeDbManager");
 jest.mock("../src/utils/typeMapper");
 
-const MockedDatabaseConnection = DatabaseConnection as jest.Mocked<typeof DatabaseConnection>;
+const MockedSequelizeDbManager = SequelizeDbManager as jest.Mocked<typeof SequelizeDbManager>;
 const MockedTypeMapper = TypeMapper as jest.Mocked<typeof TypeMapper>;
 
 describe("SchemaManager", () => {
@@ -40,8 +42,8 @@ describe("SchemaManager", () => {
     // Setup default mock behaviors
     MockedTypeMapper.isValidTableName.mockReturnValue(true);
     MockedTypeMapper.isValidColumnName.mockReturnValue(true);
-    MockedDatabaseConnection.query.mockResolvedValue({ rows: [] });
-    MockedDatabaseConnection.dropTableIfExists.mockResolvedValue();
+    MockedSequelizeDbManager.getDialect.mockReturnValue(getDialectAdapter("postgresql"));
+    MockedSequelizeDbManager.query.mockResolvedValue({ rows: [] });
   });
 
   describe("createTables", () => {
@@ -66,21 +68,25 @@ describe("SchemaManager", () => {
       expect(MockedTypeMapper.isValidColumnName).toHaveBeenCalledWith("active");
 
       // Verify SQL execution
-      expect(MockedDatabaseConnection.query).toHaveBeenCalledTimes(2);
+      expect(MockedSequelizeDbManager.query).toHaveBeenCalledTimes(2);
     });
 
     test("drops existing tables when dropExisting is true", async () => {
       await SchemaManager.createTables(sampleTables, true);
 
-      expect(MockedDatabaseConnection.dropTableIfExists).toHaveBeenCalledWith("users");
-      expect(MockedDatabaseConnection.dropTableIfExists).toHaveBeenCalledWith("products");
-      expect(MockedDatabaseConnection.dropTableIfExists).toHaveBeenCalledTimes(2);
+      expect(MockedSequelizeDbManager.query).toHaveBeenCalledWith('DROP TABLE IF EXISTS "users" CASCADE', [], LOCAL_DB_ID);
+      expect(MockedSequelizeDbManager.query).toHaveBeenCalledWith('DROP TABLE IF EXISTS "products" CASCADE', [], LOCAL_DB_ID);
+      expect(MockedSequelizeDbManager.query).toHaveBeenCalledTimes(4);
     });
 
     test("does not drop tables when dropExisting is false", async () => {
       await SchemaManager.createTables(sampleTables, false);
 
-      expect(MockedDatabaseConnection.dropTableIfExists).not.toHaveBeenCalled();
+      expect(MockedSequelizeDbManager.query).not.toHaveBeenCalledWith(
+        expect.stringContaining("DROP TABLE"),
+        [],
+        LOCAL_DB_ID
+      );
     });
 
     test("handles invalid table name", async () => {
@@ -91,7 +97,7 @@ describe("SchemaManager", () => {
       expect(result.success).toBe(false);
       expect(result.tablesCreated).toEqual([]);
       expect(result.error).toBe("Invalid table name: users");
-      expect(MockedDatabaseConnection.query).not.toHaveBeenCalled();
+      expect(MockedSequelizeDbManager.query).not.toHaveBeenCalled();
     });
 
     test("handles invalid column name", async () => {
@@ -102,11 +108,11 @@ describe("SchemaManager", () => {
       expect(result.success).toBe(false);
       expect(result.tablesCreated).toEqual([]);
       expect(result.error).toBe("Invalid column name: id in table users");
-      expect(MockedDatabaseConnection.query).not.toHaveBeenCalled();
+      expect(MockedSequelizeDbManager.query).not.toHaveBeenCalled();
     });
 
     test("handles database query failure", async () => {
-      MockedDatabaseConnection.query.mockRejectedValueOnce(new Error("Database error"));
+      MockedSequelizeDbManager.query.mockRejectedValueOnce(new Error("Database error"));
 
       const result = await SchemaManager.createTables(sampleTables);
 
@@ -116,7 +122,7 @@ describe("SchemaManager", () => {
     });
 
     test("handles non-Error exceptions", async () => {
-      MockedDatabaseConnection.query.mockRejectedValueOnce("String error");
+      MockedSequelizeDbManager.query.mockRejectedValueOnce("String error");
 
       const result = await SchemaManager.createTables(sampleTables);
 
@@ -137,8 +143,10 @@ describe("SchemaManager", () => {
 
       await SchemaManager.createTables(tablesWithoutId);
 
-      expect(MockedDatabaseConnection.query).toHaveBeenCalledWith(
-        expect.stringContaining('"id" SERIAL PRIMARY KEY')
+      expect(MockedSequelizeDbManager.query).toHaveBeenCalledWith(
+        expect.stringContaining('"id" SERIAL PRIMARY KEY'),
+        [],
+        LOCAL_DB_ID
       );
     });
 
@@ -146,7 +154,7 @@ describe("SchemaManager", () => {
       await SchemaManager.createTables(sampleTables);
 
       // Check that the query doesn't contain SERIAL PRIMARY KEY for users table (which has id)
-      const calls = MockedDatabaseConnection.query.mock.calls;
+      const calls = MockedSequelizeDbManager.query.mock.calls;
       const userTableCall = calls.find(call => 
         typeof call[0] === 'string' && call[0].includes('"users"')
       );
@@ -155,7 +163,7 @@ describe("SchemaManager", () => {
 
     test("handles partial table creation failure", async () => {
       // First table succeeds, second fails
-      MockedDatabaseConnection.query
+      MockedSequelizeDbManager.query
         .mockResolvedValueOnce({ rows: [] })
         .mockRejectedValueOnce(new Error("Second table failed"));
 
@@ -172,7 +180,7 @@ describe("SchemaManager", () => {
       const emptyTable: DatabaseTable = { name: "empty", columns: [] };
 
       expect(() => {
-        (SchemaManager as any).generateCreateTableSQL(emptyTable);
+        (SchemaManager as any).generateCreateTableSQL(emptyTable, getDialectAdapter("postgresql"));
       }).toThrow("Table empty has no columns");
     });
 
@@ -185,7 +193,7 @@ describe("SchemaManager", () => {
         ]
       };
 
-      const sql = (SchemaManager as any).generateCreateTableSQL(table);
+      const sql = (SchemaManager as any).generateCreateTableSQL(table, getDialectAdapter("postgresql"));
 
       expect(sql).toContain('CREATE TABLE IF NOT EXISTS "users"');
       expect(sql).toContain('"id" INT');
@@ -201,7 +209,7 @@ describe("SchemaManager", () => {
         ]
       };
 
-      const sql = (SchemaManager as any).generateCreateTableSQL(table);
+      const sql = (SchemaManager as any).generateCreateTableSQL(table, getDialectAdapter("postgresql"));
 
       expect(sql).toContain('CREATE TABLE IF NOT EXISTS "categories"');
       expect(sql).toContain('"id" SERIAL PRIMARY KEY');
@@ -209,6 +217,55 @@ describe("SchemaManager", () => {
     });
   });
 
+  describe("dialect DDL", () => {
+    const categories: DatabaseTable[] = [
+      {
+        name: "categories",
+        columns: [{ name: "name", type: "string", sqlType: "VARCHAR(255)" }]
+      }
+    ];
+
+    test("creates MySQL tables with AUTO_INCREMENT and backtick quoting", async () => {
+      MockedSequelizeDbManager.getDialect.mockReturnValue(getDialectAdapter("mysql"));
+
+      const result = await SchemaManager.createTables(categories, true, "shop");
+
+      expect(result.success).toBe(true);
+      expect(MockedSequelizeDbManager.getDialect).toHaveBeenCalledWith("shop");
+      expect(MockedSequelizeDbManager.query).toHaveBeenNthCalledWith(1, "DROP TABLE IF EXISTS `categories`", [], "shop");
+      expect(MockedSequelizeDbManager.query).toHaveBeenNthCalledWith(
+        2,
+        "CREATE TABLE IF NOT EXISTS `categories` (\n  `id` INT AUTO_INCREMENT PRIMARY KEY,\n  `name` VARCHAR(255)\n)",
+        [],
+        "shop"
+      );
+    });
+
+    test("creates SQLite tables with an INTEGER PRIMARY KEY AUTOINCREMENT", async () => {
+      MockedSequelizeDbManager.getDialect.mockReturnValue(getDialectAdapter("sqlite"));
+
+      await SchemaManager.createTables(categories, false, "notes");
+
+      expect(MockedSequelizeDbManager.query).toHaveBeenCalledWith(
+        expect.stringContaining('"id" INTEGER PRIMARY KEY AUTOINCREMENT'),
+        [],
+        "notes"
+      );
+    });
+
+    test("fails without creating tables for an unknown connection", async () => {
+      MockedSequelizeDbManager.getDialect.mockImplementation(() => {
+        throw new Error("Database connection not found: missing");
+      });
+
+      const result = await SchemaManager.createTables(categories, false, "missing");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Database connection not found: missing");
+      expect(MockedSequelizeDbManager.query).not.toHaveBeenCalled();
+    });
+  });
+
   describe("getMetadata", () => {
     test("returns copy of metadata", () => {
       SchemaManager.clearMetadata();
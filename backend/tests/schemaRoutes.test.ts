@@ -4,15 +4,20 @@ import schemaRouter from "../src/routes/schema";
 import { MermaidParser } from "../src/utils/mermaidParser";
 import { TypeMapper } from "../src/utils/typeMapper";
 import { SchemaManager } from "../src/db/schemaManager";
+import { SequelizeDbManager } from "../src/db/sequelizeDbManager";
+import { getDialectAdapter } from "../src/db/dialects";
+import { LOCAL_DB_ID } from "../src/types/database";
 
 // Mock dependencies
 jest.mock("../src/utils/mermaidParser");
 jest.mock("../src/utils/typeMapper");
 jest.mock("../src/db/schemaManager");
+jest.mock("../src/db/sequelizeDbManager");
 
 const MockedMermaidParser = MermaidParser as jest.Mocked<typeof MermaidParser>;
 const MockedTypeMapper = TypeMapper as jest.Mocked<typeof TypeMapper>;
 const MockedSchemaManager = SchemaManager as jest.Mocked<typeof SchemaManager>;
+const MockedSequelizeDbManager = SequelizeDbManager as jest.Mocked<typeof SequelizeDbManager>;
 
 describe("Schema Routes", () => {
   let app: express.Application;
@@ -71,6 +76,8 @@ describe("Schema Routes", () => {
         metadata: { tables: mockTables }
       });
       MockedSchemaManager.generateSchemaSummary.mockReturnValue("Table \"user\": id (INT), name (VARCHAR(255)), email (VARCHAR(255))");
+      MockedSequelizeDbManager.getDialect.mockReturnValue(getDialectAdapter("postgresql"));
+      MockedSequelizeDbManager.isReadOnly.mockReturnValue(false);
     });
 
     test("successfully creates tables from valid mermaid diagram", async () => {
@@ -89,8 +96,49 @@ describe("Schema Routes", () => {
 
       expect(MockedMermaidParser.isValidMermaidDiagram).toHaveBeenCalledWith(validMermaidDiagram);
       expect(MockedMermaidParser.parse).toHaveBeenCalledWith(validMermaidDiagram);
-      expect(MockedTypeMapper.entitiesToTables).toHaveBeenCalledWith(mockParsedDiagram.entities);
-      expect(MockedSchemaManager.createTables).toHaveBeenCalledWith(mockTables, false);
+      expect(MockedTypeMapper.entitiesToTables).toHaveBeenCalledWith(mockParsedDiagram.entities, "postgresql");
+      expect(MockedSchemaManager.createTables).toHaveBeenCalledWith(mockTables, false, LOCAL_DB_ID);
+    });
+
+    test("creates tables in the selected database with its dialect", async () => {
+      MockedSequelizeDbManager.getDialect.mockReturnValue(getDialectAdapter("mysql"));
+
+      const response = await request(app)
+        .post("/api/schema/create-from-mermaid")
+        .send({ mermaidDiagram: validMermaidDiagram, databaseId: "shop" });
+
+      expect(response.status).toBe(201);
+      expect(MockedSequelizeDbManager.getDialect).toHaveBeenCalledWith("shop");
+      expect(MockedTypeMapper.entitiesToTables).toHaveBeenCalledWith(mockParsedDiagram.entities, "mysql");
+      expect(MockedSchemaManager.createTables).toHaveBeenCalledWith(mockTables, false, "shop");
+    });
+
+    test("returns 404 for an unknown database", async () => {
+      MockedSequelizeDbManager.getDialect.mockImplementation(() => {
+        throw new Error("Database connection not found: missing");
+      });
+
+      const response = await request(app)
+        .post("/api/schema/create-from-mermaid")
+        .send({ mermaidDiagram: validMermaidDiagram, databaseId: "missing" });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({
+        success: false,
+        error: "Database connection 'missing' not found"
+      });
+      expect(MockedSchemaManager.createTables).not.toHaveBeenCalled();
+    });
+
+    test("returns 403 for a read-only database", async () => {
+      MockedSequelizeDbManager.isReadOnly.mockReturnValue(true);
+
+      const response = await request(app)
+        .post("/api/schema/create-from-mermaid")
+        .send({ mermaidDiagram: validMermaidDiagram, databaseId: "reporting" });
+
+      expect(response.status).toBe(403);
+      expect(MockedSchemaManager.createTables).not.toHaveBeenCalled();
     });
 
     test("creates tables with dropExisting option", async () => {
@@ -102,7 +150,7 @@ describe("Schema Routes", () => {
         });
 
       expect(response.status).toBe(201);
-      expect(MockedSchemaManager.createTables).toHaveBeenCalledWith(mockTables, true);
+      expect(MockedSchemaManager.createTables).toHaveBeenCalledWith(mockTables, true, LOCAL_DB_ID);
     });
 
     test("returns 400 for missing mermaidDiagram", async () => {
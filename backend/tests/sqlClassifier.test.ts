@@ -0,0 +1,218 @@
+import { SqlClassifier } from "../src/utils/sqlClassifier";
+
+describe("SqlClassifier", () => {
+  describe("isReadOnly", () => {
+    test.each([
+      "SELECT * FROM users",
+      "  with recent as (select * from orders) select * from recent;",
+      "SHOW TABLES",
+      "EXPLAIN SELECT 1",
+      "EXPLAIN DELETE FROM users",
+      "EXPLAIN (COSTS OFF) UPDATE users SET name = 'x'",
+      "EXPLAIN (ANALYZE false) DELETE FROM users",
+      "EXPLAIN ANALYZE SELECT * FROM users",
+      "VALUES (1), (2)",
+      "SELECT 1; SELECT 2;",
+      "PRAGMA table_info(users)",
+      "SELECT 'DROP TABLE users' AS text",
+      'SELECT "delete" FROM t',
+      "SELECT 1 -- DELETE FROM users",
+      "SELECT /* INSERT */ 1",
+      "SELECT $$; DROP TABLE users$$",
+    ])("allows %s", (sql) => {
+      expect(SqlClassifier.isReadOnly(sql, "postgresql")).toBe(true);
+    });
+
+    test.each([
+      "INSERT INTO users VALUES (1)",
+      "update users set name = 'x'",
+      "SELECT 1; DELETE FROM users",
+      "WITH gone AS (DELETE FROM users RETURNING *) SELECT * FROM gone",
+      "SELECT * INTO backup FROM users",
+      "EXPLAIN ANALYZE DELETE FROM users",
+      "EXPLAIN (ANALYZE, BUFFERS) INSERT INTO users VALUES (1)",
+      "SET default_transaction_read_only = off",
+      "PRAGMA journal_mode = WAL",
+      "BEGIN",
+      "",
+    ])("rejects %s", (sql) => {
+      expect(SqlClassifier.isReadOnly(sql, "postgresql")).toBe(false);
+    });
+
+    test("treats backslashes as escapes only where the dialect does", () => {
+      const sql = "SELECT 'a\\'; DELETE FROM users; -- '";
+
+      expect(SqlClassifier.isReadOnly(sql, "mysql")).toBe(true);
+      expect(SqlClassifier.isReadOnly(sql, "postgresql")).toBe(false);
+      expect(
+        SqlClassifier.isReadOnly("SELECT E'a\\'; DELETE'", "postgresql")
+      ).toBe(true);
+    });
+
+    test("follows MySQL comment rules", () => {
+      expect(
+        SqlClassifier.isReadOnly("SELECT 1--1; DELETE FROM t", "mysql")
+      ).toBe(false);
+      expect(
+        SqlClassifier.isReadOnly("SELECT 1 # ; DELETE FROM t", "mysql")
+      ).toBe(true);
+      expect(
+        SqlClassifier.isReadOnly("SELECT 1 /*! ; DELETE FROM t */", "mysql")
+      ).toBe(false);
+    });
+  });
+
+  describe("classify", () => {
+    test.each([
+      ["SELECT * FROM users", "read", "SELECT"],
+      ["SELECT * FROM users FOR UPDATE", "read", "SELECT"],
+      ["SHOW TABLES", "read", "SHOW"],
+      ["PRAGMA table_info(users)", "read", "PRAGMA"],
+      ["update users set name = 'x'", "dml", "UPDATE"],
+      ["WITH gone AS (DELETE FROM users) SELECT 1", "dml", "DELETE"],
+      ["CREATE TABLE t (id int)", "ddl", "CREATE"],
+      ["SELECT * INTO backup FROM users", "ddl", "SELECT"],
+      ["BEGIN", "transaction", "BEGIN"],
+      ["SET TRANSACTION READ ONLY", "transaction", "SET"],
+      ["SET search_path TO app", "utility", "SET"],
+      ["VACUUM", "utility", "VACUUM"],
+      ["SELECT 1; DELETE FROM users; SELECT 2", "dml", "DELETE"],
+      ["BEGIN; DROP TABLE t; COMMIT", "ddl", "DROP"],
+    ])("classifies %s", (sql, type, command) => {
+      expect(SqlClassifier.classify(sql, "postgresql")).toMatchObject({
+        type,
+        command,
+      });
+    });
+
+    test("only expects rows from reads and DML with RETURNING", () => {
+      const returnsRows = (sql: string) =>
+        SqlClassifier.classify(sql, "postgresql").returnsRows;
+
+      expect(returnsRows("SELECT 1")).toBe(true);
+      expect(returnsRows("DELETE FROM users RETURNING id")).toBe(true);
+      expect(returnsRows("DELETE FROM users WHERE note = 'RETURNING'")).toBe(
+        false
+      );
+      expect(returnsRows("CREATE TABLE t (id int)")).toBe(false);
+    });
+
+    test("treats SELECT ... INTO as a variable assignment on MySQL", () => {
+      expect(
+        SqlClassifier.classify("SELECT COUNT(*) INTO @n FROM users", "mysql")
+          .type
+      ).toBe("utility");
+    });
+
+    test("reports empty input as a utility statement", () => {
+      expect(SqlClassifier.classify("  -- nothing", "sqlite")).toEqual({
+        type: "utility",
+        command: "",
+        returnsRows: false,
+      });
+    });
+  });
+
+  describe("split", () => {
+    test("returns each statement without its terminator", () => {
+      expect(
+        SqlClassifier.split(
+          "SELECT ';' AS semi;\n-- next\nUPDATE t SET a = 1; -- done",
+          "postgresql"
+        )
+      ).toEqual(["SELECT ';' AS semi", "-- next\nUPDATE t SET a = 1"]);
+    });
+
+    test("drops empty statements", () => {
+      expect(SqlClassifier.split(";; /* nothing */ ;", "mysql")).toEqual([]);
+    });
+
+    test("keeps dollar-quoted bodies whole", () => {
+      expect(
+        SqlClassifier.split(
+          "CREATE FUNCTION f() RETURNS int AS $body$ BEGIN; RETURN 1; END $body$ LANGUAGE plpgsql; SELECT f()",
+          "postgresql"
+        )
+      ).toEqual([
+        "CREATE FUNCTION f() RETURNS int AS $body$ BEGIN; RETURN 1; END $body$ LANGUAGE plpgsql",
+        "SELECT f()",
+      ]);
+    });
+
+    test("keeps SQLite trigger bodies whole", () => {
+      expect(
+        SqlClassifier.split(
+          "CREATE TEMP TRIGGER tr AFTER INSERT ON t BEGIN UPDATE x SET a = CASE WHEN new.a THEN 1 END; DELETE FROM y; END; SELECT 1",
+          "sqlite"
+        )
+      ).toEqual([
+        "CREATE TEMP TRIGGER tr AFTER INSERT ON t BEGIN UPDATE x SET a = CASE WHEN new.a THEN 1 END; DELETE FROM y; END",
+        "SELECT 1",
+      ]);
+    });
+
+    test("keeps PostgreSQL BEGIN ATOMIC bodies whole", () => {
+      expect(
+        SqlClassifier.split(
+          "CREATE FUNCTION f() RETURNS int LANGUAGE sql BEGIN ATOMIC SELECT 1; SELECT 2; END; BEGIN; SELECT f()",
+          "postgresql"
+        )
+      ).toEqual([
+        "CREATE FUNCTION f() RETURNS int LANGUAGE sql BEGIN ATOMIC SELECT 1; SELECT 2; END",
+        "BEGIN",
+        "SELECT f()",
+      ]);
+    });
+
+    test("follows MySQL DELIMITER commands", () => {
+      const script = [
+        "DELIMITER $$",
+        "CREATE PROCEDURE p() BEGIN SELECT 1; SELECT 2; END$$",
+        "DELIMITER ;",
+        "CALL p();",
+      ].join("\n");
+
+      expect(SqlClassifier.split(script, "mysql")).toEqual([
+        "CREATE PROCEDURE p() BEGIN SELECT 1; SELECT 2; END",
+        "CALL p()",
+      ]);
+      expect(SqlClassifier.classify(script, "mysql").type).toBe("ddl");
+    });
+  });
+
+  describe("bindParameters", () => {
+    test("replaces named parameters with positional values in order", () => {
+      const sql =
+        "SELECT * FROM orders WHERE customer_id = :customer_id AND placed_at >= :since OR referrer_id = :customer_id";
+
+      expect(
+        SqlClassifier.bindParameters(
+          sql,
+          { customer_id: 7, since: "2024-01-01" },
+          "postgresql"
+        )
+      ).toEqual({
+        sql: "SELECT * FROM orders WHERE customer_id = ? AND placed_at >= ? OR referrer_id = ?",
+        params: [7, "2024-01-01", 7],
+      });
+    });
+
+    test("ignores casts, literals and comments", () => {
+      const sql =
+        "SELECT created_at::date, ':not_a_param' -- :nor_this\nFROM t WHERE id = :id";
+
+      expect(SqlClassifier.parameterNames(sql, "postgresql")).toEqual(["id"]);
+      expect(
+        SqlClassifier.bindParameters(sql, { id: 1 }, "postgresql").sql
+      ).toBe(
+        "SELECT created_at::date, ':not_a_param' -- :nor_this\nFROM t WHERE id = ?"
+      );
+    });
+
+    test("rejects parameters without a value", () => {
+      expect(() =>
+        SqlClassifier.bindParameters("SELECT :a, :b, :a", { b: null }, "mysql")
+      ).toThrow("Missing values for parameters: a");
+    });
+  });
+});
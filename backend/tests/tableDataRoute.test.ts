@@ -0,0 +1,162 @@
+import request from "supertest";
+import express, { Express } from "express";
+import router from "../src/routes/database-management";
+import { SequelizeDbManager } from "../src/db/sequelizeDbManager";
+import { TableNotFoundError, ValidationError } from "../src/utils/errors";
+
+jest.mock("../src/db/sequelizeDbManager", () => ({
+  SequelizeDbManager: {
+    getTableData: jest.fn(),
+  },
+}));
+
+const mockGetTableData = SequelizeDbManager.getTableData as jest.Mock;
+
+describe("GET /api/databases/:id/tables/:tableName/data", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    app = express();
+    app.use(express.json());
+    app.use("/api", router);
+    mockGetTableData.mockResolvedValue({
+      columns: ["id"],
+      fields: [
+        { name: "id", dataType: "integer", nullable: false, table: "users" },
+      ],
+      rows: [{ id: 3 }],
+      rowCount: 1,
+      page: 2,
+      pageSize: 1,
+      totalRows: 40,
+      totalRowsEstimated: false,
+      truncation: null,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("passes paging, sorting and filters to the manager", async () => {
+    const filters = [
+      { column: "name", operator: "contains", value: "ann" },
+      { column: "deleted_at", operator: "isNull" },
+    ];
+
+    const response = await request(app)
+      .get("/api/databases/pg-db/tables/users/data")
+      .query({
+        page: 2,
+        pageSize: 1,
+        orderBy: "id",
+        direction: "desc",
+        filters: JSON.stringify(filters),
+      });
+
+    expect(response.status).toBe(200);
+    expect(mockGetTableData).toHaveBeenCalledWith(
+      "pg-db",
+      { name: "users" },
+      {
+        page: 2,
+        pageSize: 1,
+        orderBy: "id",
+        direction: "desc",
+        filters,
+      }
+    );
+    expect(response.body.data).toMatchObject({
+      rows: [{ id: 3 }],
+      page: 2,
+      totalRows: 40,
+      totalRowsEstimated: false,
+      orderBy: "id",
+      direction: "desc",
+    });
+  });
+
+  it("reads tables in other schemas", async () => {
+    const response = await request(app).get(
+      "/api/databases/pg-db/schemas/billing/tables/invoices/data"
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockGetTableData).toHaveBeenCalledWith(
+      "pg-db",
+      { schema: "billing", name: "invoices" },
+      {}
+    );
+    expect(response.body.data).toMatchObject({
+      schema: "billing",
+      tableName: "invoices",
+    });
+  });
+
+  it("rejects invalid options", async () => {
+    const response = await request(app)
+      .get("/api/databases/pg-db/tables/users/data")
+      .query({
+        page: 0,
+        pageSize: 5000,
+        direction: "up",
+        filters: JSON.stringify([{ column: "name", operator: "like" }]),
+      });
+
+    expect(response.status).toBe(400);
+    expect(
+      response.body.errors.map((error: { field: string }) => error.field)
+    ).toEqual([
+      "page",
+      "pageSize",
+      "direction",
+      "filters[0].operator",
+      "filters[0].value",
+    ]);
+    expect(mockGetTableData).not.toHaveBeenCalled();
+  });
+
+  it("rejects filters that are not a JSON array", async () => {
+    const response = await request(app)
+      .get("/api/databases/pg-db/tables/users/data")
+      .query({ filters: "name=ann" });
+
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual([
+      { field: "filters", message: "Must be a JSON array" },
+    ]);
+  });
+
+  it("reports unknown columns as validation errors", async () => {
+    mockGetTableData.mockRejectedValueOnce(
+      new ValidationError("Invalid options for table users", [
+        { field: "orderBy", message: "Unknown column: nope" },
+      ])
+    );
+
+    const response = await request(app)
+      .get("/api/databases/pg-db/tables/users/data")
+      .query({ orderBy: "nope" });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe("Invalid options for table users");
+  });
+
+  it("answers 404 for tables that do not exist", async () => {
+    mockGetTableData.mockRejectedValueOnce(
+      new TableNotFoundError("Table billing.nope does not exist")
+    );
+
+    const response = await request(app).get(
+      "/api/databases/pg-db/schemas/billing/tables/nope/data"
+    );
+
+    expect(response.status).toBe(404);
+    expect(response.body).toEqual({
+      success: false,
+      message: "Table billing.nope does not exist",
+    });
+  });
+});
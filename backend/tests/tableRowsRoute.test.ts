@@ -0,0 +1,159 @@
+import request from "supertest";
+import express, { Express } from "express";
+import router from "../src/routes/database-management";
+import { SequelizeDbManager } from "../src/db/sequelizeDbManager";
+import {
+  ReadOnlyError,
+  RowConflictError,
+  ValidationError,
+} from "../src/utils/errors";
+
+jest.mock("../src/db/sequelizeDbManager", () => ({
+  SequelizeDbManager: {
+    hasConnection: jest.fn(),
+    updateRows: jest.fn(),
+    deleteRows: jest.fn(),
+  },
+}));
+
+const mockHasConnection = SequelizeDbManager.hasConnection as jest.Mock;
+const mockUpdateRows = SequelizeDbManager.updateRows as jest.Mock;
+const mockDeleteRows = SequelizeDbManager.deleteRows as jest.Mock;
+
+describe("/api/databases/:id/tables/:tableName/rows", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    app = express();
+    app.use(express.json());
+    app.use("/api", router);
+    mockHasConnection.mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const change = {
+    key: { id: 7 },
+    original: { name: "Ann" },
+    values: { name: "Anne" },
+  };
+
+  it("updates rows through the manager", async () => {
+    mockUpdateRows.mockResolvedValue(1);
+
+    const response = await request(app)
+      .patch("/api/databases/pg-db/tables/users/rows")
+      .send({ changes: [change] });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ success: true, updated: 1 });
+    expect(mockUpdateRows).toHaveBeenCalledWith("pg-db", { name: "users" }, [
+      change,
+    ]);
+  });
+
+  it("answers 409 naming the change that hit a concurrent edit", async () => {
+    mockUpdateRows.mockRejectedValue(
+      new RowConflictError("Row 2 was changed or deleted since it was read", 1)
+    );
+
+    const response = await request(app)
+      .patch("/api/databases/pg-db/tables/users/rows")
+      .send({ changes: [change, change] });
+
+    expect(response.status).toBe(409);
+    expect(response.body).toEqual({
+      success: false,
+      message: "Row 2 was changed or deleted since it was read",
+      index: 1,
+    });
+  });
+
+  it("checks the shape of each change before reaching the manager", async () => {
+    const response = await request(app)
+      .patch("/api/databases/pg-db/tables/users/rows")
+      .send({ changes: [{ key: { id: 1 }, values: [] }] });
+
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual([
+      {
+        field: "changes[0].original",
+        message: "Must be an object of column values",
+      },
+      {
+        field: "changes[0].values",
+        message: "Must be an object of column values",
+      },
+    ]);
+    expect(mockUpdateRows).not.toHaveBeenCalled();
+  });
+
+  it("reports tables without a primary key as read-only", async () => {
+    mockDeleteRows.mockRejectedValue(
+      new ValidationError(
+        "Table logs has no primary key, so its rows are read-only"
+      )
+    );
+
+    const response = await request(app)
+      .delete("/api/databases/pg-db/tables/logs/rows")
+      .send({ rows: [{ key: { id: 1 } }] });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe(
+      "Table logs has no primary key, so its rows are read-only"
+    );
+  });
+
+  it("deletes rows and refuses them on read-only connections", async () => {
+    mockDeleteRows.mockResolvedValueOnce(2);
+    const rows = [{ key: { id: 1 } }, { key: { id: 2 }, original: { id: 2 } }];
+
+    const deleted = await request(app)
+      .delete("/api/databases/pg-db/tables/users/rows")
+      .send({ rows });
+
+    expect(deleted.body).toEqual({ success: true, deleted: 2 });
+    expect(mockDeleteRows).toHaveBeenCalledWith(
+      "pg-db",
+      { name: "users" },
+      rows
+    );
+
+    mockDeleteRows.mockRejectedValueOnce(new ReadOnlyError("read-only"));
+    const refused = await request(app)
+      .delete("/api/databases/pg-db/tables/users/rows")
+      .send({ rows });
+
+    expect(refused.status).toBe(403);
+  });
+
+  it("rejects unknown connections", async () => {
+    mockHasConnection.mockReturnValueOnce(false);
+    const missing = await request(app)
+      .delete("/api/databases/nope/tables/users/rows")
+      .send({ rows: [{ key: { id: 1 } }] });
+
+    expect(missing.status).toBe(404);
+    expect(mockDeleteRows).not.toHaveBeenCalled();
+  });
+
+  it("changes tables in other schemas", async () => {
+    mockUpdateRows.mockResolvedValue(1);
+
+    const response = await request(app)
+      .patch("/api/databases/pg-db/schemas/billing/tables/Line%20Items/rows")
+      .send({ changes: [change] });
+
+    expect(response.status).toBe(200);
+    expect(mockUpdateRows).toHaveBeenCalledWith(
+      "pg-db",
+      { schema: "billing", name: "Line Items" },
+      [change]
+    );
+  });
+});
@@ -47,6 +47,30 @@ describe("TypeMapper", () => {
 
       process.emitWarning = originalEmitWarning;
     });
+
+    test("maps types for MySQL", () => {
+      expect(TypeMapper.mapType("datetime", "mysql")).toBe("DATETIME");
+      expect(TypeMapper.mapType("string", "mysql")).toBe("VARCHAR(255)");
+      expect(TypeMapper.mapType("boolean", "mysql")).toBe("BOOLEAN");
+    });
+
+    test("maps types to SQLite storage classes", () => {
+      expect(TypeMapper.mapType("int", "sqlite")).toBe("INTEGER");
+      expect(TypeMapper.mapType("string", "sqlite")).toBe("TEXT");
+      expect(TypeMapper.mapType("float", "sqlite")).toBe("REAL");
+      expect(TypeMapper.mapType("bool", "sqlite")).toBe("INTEGER");
+      expect(TypeMapper.mapType("timestamp", "sqlite")).toBe("TEXT");
+      expect(TypeMapper.mapType("number", "sqlite")).toBe("NUMERIC");
+    });
+
+    test("defaults unknown types to the dialect's string type", () => {
+      const originalEmitWarning = process.emitWarning;
+      process.emitWarning = jest.fn();
+
+      expect(TypeMapper.mapType("unknown", "sqlite")).toBe("TEXT");
+
+      process.emitWarning = originalEmitWarning;
+    });
   });
 
   describe("entitiesToTables", () => {
@@ -127,6 +151,15 @@ describe("TypeMapper", () => {
       expect(result[0]!.name).toBe("upper_case_table");
       expect(result[0]!.columns[0]!.name).toBe("upper_case_column");
     });
+
+    test("maps column types for the given dialect", () => {
+      const result = TypeMapper.entitiesToTables(
+        [{ name: "Note", attributes: [{ name: "body", type: "string" }] }],
+        "sqlite"
+      );
+
+      expect(result[0]!.columns[0]!.sqlType).toBe("TEXT");
+    });
   });
 
   describe("isValidColumnName", () => {
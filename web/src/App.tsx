@@ -4,7 +4,7 @@ import AIMode from "./pages/AIMode";
 import DBMode from "./pages/DBMode";
 import { DatabaseExplorer } from "./components/DatabaseExplorerSidebar";
 import { AppMode } from "./types";
-import { LOCAL_DB_ID } from "./types/database";
+import { LOCAL_DB_ID, SavedQuery } from "./types/database";
 
 interface ChatMessage {
   id: string;
@@ -25,6 +25,10 @@ function App() {
   ]);
   const [pendingQuery, setPendingQuery] = useState<string | null>(null);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [openedSavedQuery, setOpenedSavedQuery] = useState<SavedQuery | null>(
+    null
+  );
+  const [savedQueriesVersion, setSavedQueriesVersion] = useState(0);
 
   const handleDatabaseSelectionChange = (databases: string[]) => {
     setSelectedDatabases(databases);
@@ -41,6 +45,14 @@ function App() {
   const handleBackToHome = () => {
     setMode("home");
     setPendingQuery(null); // Clear any pending query when going back to home
+    setOpenedSavedQuery(null);
+  };
+
+  // Saved queries open in the console on the database they were written for
+  const handleOpenSavedQuery = (query: SavedQuery) => {
+    setSelectedDatabases([query.databaseId]);
+    setOpenedSavedQuery(query);
+    setMode("db");
   };
 
   const handleNavigateToDBMode = (query: string) => {
@@ -63,6 +75,8 @@ function App() {
         <DatabaseExplorer
           selectedDatabases={selectedDatabases}
           onDatabaseSelectionChange={handleDatabaseSelectionChange}
+          onOpenSavedQuery={handleOpenSavedQuery}
+          savedQueriesVersion={savedQueriesVersion}
         />
 
         {/* Page Content */}
@@ -85,6 +99,10 @@ function App() {
               selectedDatabases={selectedDatabases}
               initialQuery={pendingQuery}
               onNavigateToAIMode={handleAIMode}
+              savedQuery={openedSavedQuery}
+              onSavedQueriesChange={() =>
+                setSavedQueriesVersion((version) => version + 1)
+              }
             />
           )}
         </main>
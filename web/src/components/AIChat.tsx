@@ -18,12 +18,14 @@ interface ChatMessage {
 }
 
 interface AIChatProps {
+  databaseId?: string;
   onNavigateToDBMode: (query: string) => void;
   chatMessages: ChatMessage[];
   setChatMessages: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
 }
 
 const AIChat: React.FC<AIChatProps> = ({
+  databaseId,
   onNavigateToDBMode,
   chatMessages,
   setChatMessages,
@@ -56,7 +58,7 @@ const AIChat: React.FC<AIChatProps> = ({
     setIsLoading(true);
 
     try {
-      const response = await AIService.generateQuery(input.trim());
+      const response = await AIService.generateQuery(input.trim(), databaseId);
 
       if (response) {
         if (response.type === "clarification") {
@@ -1,16 +1,31 @@
 import React, { useState, useEffect } from "react";
-import { Database, Plus, MoreVertical, Table } from "lucide-react";
-import { DatabaseInfo } from "../types/database";
+import {
+  Database,
+  Plus,
+  MoreVertical,
+  Table,
+  AlertTriangle,
+  Pencil,
+  Lock,
+  Layers,
+  ChevronRight,
+  ChevronDown,
+} from "lucide-react";
+import { ConnectionStats, DatabaseInfo, SavedQuery } from "../types/database";
 import { AddDatabaseModal } from "./AddDatabaseModal";
 import InsertDataModal from "./InsertDataModal";
 import TableDataModal from "./TableDataModal";
+import SavedQueriesList from "./SavedQueriesList";
 
 interface DatabaseExplorerProps {
   selectedDatabases?: string[];
   onDatabaseSelectionChange?: (selectedDatabases: string[]) => void;
+  onOpenSavedQuery?: (query: SavedQuery) => void;
+  savedQueriesVersion?: number;
 }
 
 interface TableInfo {
+  schema: string | null;
   tableName: string;
   columns: {
     column_name: string;
@@ -24,14 +39,27 @@ interface DatabaseSchema {
   [databaseId: string]: TableInfo[];
 }
 
+// Tables grouped by schema, in the order the server listed them
+const groupBySchema = (tables: TableInfo[]): [string, TableInfo[]][] => {
+  const groups = new Map<string, TableInfo[]>();
+  for (const table of tables) {
+    const schema = table.schema ?? "";
+    groups.set(schema, [...(groups.get(schema) ?? []), table]);
+  }
+  return [...groups];
+};
+
 interface ContextMenuProps {
   isOpen: boolean;
   x: number;
   y: number;
   databaseId: string;
   databaseName: string;
+  canEdit: boolean;
+  canInsert: boolean;
   onInsertData: () => void;
   onShowTables: () => void;
+  onEditConnection: () => void;
   onClose: () => void;
 }
 
@@ -39,8 +67,11 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
   isOpen,
   x,
   y,
+  canEdit,
+  canInsert,
   onInsertData,
   onShowTables,
+  onEditConnection,
   onClose,
 }) => {
   if (!isOpen) return null;
@@ -62,37 +93,101 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
           <Table className="w-4 h-4" />
           Tables
         </button>
-        <button
-          onClick={() => {
-            onInsertData();
-            onClose();
-          }}
-          className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 flex items-center gap-2"
-        >
-          <Database className="w-4 h-4" />
-          Insert Data
-        </button>
+        {canInsert && (
+          <button
+            onClick={() => {
+              onInsertData();
+              onClose();
+            }}
+            className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 flex items-center gap-2"
+          >
+            <Database className="w-4 h-4" />
+            Insert Data
+          </button>
+        )}
+        {canEdit && (
+          <button
+            onClick={() => {
+              onEditConnection();
+              onClose();
+            }}
+            className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 flex items-center gap-2"
+          >
+            <Pencil className="w-4 h-4" />
+            Edit connection
+          </button>
+        )}
       </div>
     </>
   );
 };
 
+const STATUS_REFRESH_MS = 30000;
+
+// Health dot colour and tooltip from the monitor's last ping and pool statistics
+const describeHealth = (db: DatabaseInfo, stats?: ConnectionStats) => {
+  if (db.status === "idle") {
+    return {
+      color: "bg-gray-400",
+      summary: "Idle · pool closed, reopens on the next query",
+    };
+  }
+
+  const lastCheck = db.healthHistory?.[db.healthHistory.length - 1];
+  const summary = [
+    lastCheck &&
+      (lastCheck.ok
+        ? `ping ${lastCheck.latencyMs} ms`
+        : `ping failed: ${lastCheck.error}`),
+    stats?.pool &&
+      `${stats.pool.active}/${stats.pool.max} connections in use, ${stats.pool.waiting} waiting`,
+    stats && `${stats.queries} queries, ${stats.errors} errors`,
+    stats && `avg ${stats.averageLatencyMs} ms`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  if (
+    lastCheck?.ok === false ||
+    (stats && stats.queries > 0 && stats.errors / stats.queries > 0.1)
+  ) {
+    return { color: "bg-red-500", summary };
+  }
+  if (stats?.pool && stats.pool.waiting > 0) {
+    return { color: "bg-amber-500", summary };
+  }
+  return { color: "bg-green-500", summary };
+};
+
 export const DatabaseExplorer: React.FC<DatabaseExplorerProps> = ({
   selectedDatabases = [],
   onDatabaseSelectionChange,
+  onOpenSavedQuery,
+  savedQueriesVersion = 0,
 }) => {
   const [databases, setDatabases] = useState<DatabaseInfo[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [editingDatabase, setEditingDatabase] = useState<DatabaseInfo | null>(
+    null
+  );
   const [showInsertModal, setShowInsertModal] = useState(false);
   const [showTableDataModal, setShowTableDataModal] = useState(false);
   const [selectedDatabase, setSelectedDatabase] = useState("");
+  const [selectedSchema, setSelectedSchema] = useState<string | null>(null);
   const [selectedTable, setSelectedTable] = useState("");
   const [databaseSchemas, setDatabaseSchemas] = useState<DatabaseSchema>({});
+  const [databaseStats, setDatabaseStats] = useState<
+    Record<string, ConnectionStats>
+  >({});
   const [loadingSchemas, setLoadingSchemas] = useState<Set<string>>(new Set());
   const [expandedDatabases, setExpandedDatabases] = useState<Set<string>>(
     new Set()
   );
+  // Schemas start expanded; keys are JSON [databaseId, schema] pairs
+  const [collapsedSchemas, setCollapsedSchemas] = useState<Set<string>>(
+    new Set()
+  );
   const [contextMenu, setContextMenu] = useState<{
     isOpen: boolean;
     x: number;
@@ -134,8 +229,42 @@ export const DatabaseExplorer: React.FC<DatabaseExplorerProps> = ({
 
   useEffect(() => {
     loadDatabases();
+    // Refresh statuses reported by the backend health monitor
+    const interval = setInterval(loadDatabases, STATUS_REFRESH_MS);
+    return () => clearInterval(interval);
   }, []);
 
+  // Load pool statistics for the health indicators
+  useEffect(() => {
+    const connected = databases.filter((db) => db.status === "connected");
+    if (connected.length === 0) return;
+
+    const loadStats = async () => {
+      const entries = await Promise.all(
+        connected.map(async (db) => {
+          try {
+            const response = await fetch(
+              `http://localhost:3001/api/databases/${db.id}/stats`
+            );
+            const data = await response.json();
+            return data.success ? ([db.id, data.stats] as const) : null;
+          } catch {
+            return null;
+          }
+        })
+      );
+      setDatabaseStats(
+        Object.fromEntries(
+          entries.filter((entry): entry is NonNullable<typeof entry> =>
+            Boolean(entry)
+          )
+        )
+      );
+    };
+
+    loadStats();
+  }, [databases]);
+
   const loadDatabases = async () => {
     try {
       const response = await fetch("http://localhost:3001/api/databases");
@@ -223,12 +352,27 @@ export const DatabaseExplorer: React.FC<DatabaseExplorerProps> = ({
     });
   };
 
-  const handleTableClick = (databaseId: string, tableName: string) => {
+  const handleTableClick = (
+    databaseId: string,
+    schema: string | null,
+    tableName: string
+  ) => {
     setSelectedDatabase(databaseId);
+    setSelectedSchema(schema);
     setSelectedTable(tableName);
     setShowTableDataModal(true);
   };
 
+  const toggleSchema = (schemaKey: string) => {
+    setCollapsedSchemas((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(schemaKey)) {
+        next.add(schemaKey);
+      }
+      return next;
+    });
+  };
+
   const handleRightClick = (
     e: React.MouseEvent,
     databaseId: string,
@@ -268,8 +412,31 @@ export const DatabaseExplorer: React.FC<DatabaseExplorerProps> = ({
     setShowInsertModal(true);
   };
 
+  const handleEditConnection = (databaseId: string) => {
+    const database = databases.find((db) => db.id === databaseId);
+    if (database) {
+      setEditingDatabase(database);
+      setShowAddModal(true);
+    }
+  };
+
   const handleAddDatabaseSuccess = () => {
+    // Cached schemas may be stale after a connection is edited
+    if (editingDatabase) {
+      const editedId = editingDatabase.id;
+      setDatabaseSchemas((prev) => {
+        const next = { ...prev };
+        delete next[editedId];
+        return next;
+      });
+      setExpandedDatabases((prev) => {
+        const next = new Set(prev);
+        next.delete(editedId);
+        return next;
+      });
+    }
     setShowAddModal(false);
+    setEditingDatabase(null);
     loadDatabases();
   };
 
@@ -335,16 +502,33 @@ export const DatabaseExplorer: React.FC<DatabaseExplorerProps> = ({
                     </div>
 
                     {/* Database Icon */}
-                    <div className="flex-shrink-0">
+                    <div className="flex-shrink-0 relative">
                       <div
                         className={`w-8 h-8 rounded-lg flex items-center justify-center ${
-                          db.isLocal
+                          db.status === "degraded"
+                            ? "bg-amber-100 text-amber-600"
+                            : db.isLocal
                             ? "bg-green-100 text-green-600"
                             : "bg-blue-100 text-blue-600"
                         }`}
                       >
-                        <Database className="w-4 h-4" />
+                        {db.status === "degraded" ? (
+                          <AlertTriangle className="w-4 h-4" />
+                        ) : (
+                          <Database className="w-4 h-4" />
+                        )}
                       </div>
+                      {db.status !== "degraded" &&
+                        (db.status === "idle" || databaseStats[db.id]) && (
+                          <span
+                            className={`absolute -bottom-0.5 -right-0.5 w-2.5 h-2.5 rounded-full border-2 border-white ${
+                              describeHealth(db, databaseStats[db.id]).color
+                            }`}
+                            title={
+                              describeHealth(db, databaseStats[db.id]).summary
+                            }
+                          />
+                        )}
                     </div>
 
                     {/* Database Info */}
@@ -358,6 +542,23 @@ export const DatabaseExplorer: React.FC<DatabaseExplorerProps> = ({
                             Local
                           </span>
                         )}
+                        {db.readOnly && (
+                          <span
+                            className="flex items-center gap-0.5 px-1.5 py-0.5 text-xs bg-gray-100 text-gray-600 rounded"
+                            title="Read-only: only read statements are allowed"
+                          >
+                            <Lock className="w-3 h-3" />
+                            Read-only
+                          </span>
+                        )}
+                        {db.status === "degraded" && (
+                          <span
+                            className="px-1.5 py-0.5 text-xs bg-amber-100 text-amber-700 rounded"
+                            title={db.error}
+                          >
+                            Degraded
+                          </span>
+                        )}
                       </div>
                       <p className="text-xs text-gray-500">
                         {db.type} • {db.host}:{db.port}
@@ -389,23 +590,58 @@ export const DatabaseExplorer: React.FC<DatabaseExplorerProps> = ({
                         </div>
                       ) : databaseSchemas[db.id] ? (
                         databaseSchemas[db.id].length > 0 ? (
-                          databaseSchemas[db.id].map((table) => (
-                            <div
-                              key={table.tableName}
-                              onClick={() =>
-                                handleTableClick(db.id, table.tableName)
-                              }
-                              className="flex items-center gap-2 p-2 rounded hover:bg-gray-100 cursor-pointer transition-colors group"
-                            >
-                              <Table className="w-4 h-4 text-gray-400 group-hover:text-gray-600" />
-                              <span className="text-sm text-gray-700 group-hover:text-gray-900">
-                                {table.tableName}
-                              </span>
-                              <span className="text-xs text-gray-400 ml-auto">
-                                {table.columns.length} cols
-                              </span>
-                            </div>
-                          ))
+                          groupBySchema(databaseSchemas[db.id]).map(
+                            ([schema, tables]) => {
+                              const schemaKey = JSON.stringify([db.id, schema]);
+                              const collapsed = collapsedSchemas.has(schemaKey);
+                              return (
+                                <div key={schemaKey}>
+                                  <div
+                                    onClick={() => toggleSchema(schemaKey)}
+                                    className="flex items-center gap-2 p-2 rounded hover:bg-gray-100 cursor-pointer transition-colors group"
+                                  >
+                                    {collapsed ? (
+                                      <ChevronRight className="w-3 h-3 text-gray-400" />
+                                    ) : (
+                                      <ChevronDown className="w-3 h-3 text-gray-400" />
+                                    )}
+                                    <Layers className="w-4 h-4 text-gray-400 group-hover:text-gray-600" />
+                                    <span className="text-sm font-medium text-gray-700 group-hover:text-gray-900 truncate">
+                                      {schema || "default"}
+                                    </span>
+                                    <span className="text-xs text-gray-400 ml-auto">
+                                      {tables.length}
+                                    </span>
+                                  </div>
+                                  {!collapsed && (
+                                    <div className="ml-5 space-y-1">
+                                      {tables.map((table) => (
+                                        <div
+                                          key={table.tableName}
+                                          onClick={() =>
+                                            handleTableClick(
+                                              db.id,
+                                              table.schema,
+                                              table.tableName
+                                            )
+                                          }
+                                          className="flex items-center gap-2 p-2 rounded hover:bg-gray-100 cursor-pointer transition-colors group"
+                                        >
+                                          <Table className="w-4 h-4 text-gray-400 group-hover:text-gray-600" />
+                                          <span className="text-sm text-gray-700 group-hover:text-gray-900 truncate">
+                                            {table.tableName}
+                                          </span>
+                                          <span className="text-xs text-gray-400 ml-auto">
+                                            {table.columns.length} cols
+                                          </span>
+                                        </div>
+                                      ))}
+                                    </div>
+                                  )}
+                                </div>
+                              );
+                            }
+                          )
                         ) : (
                           <div className="p-2 text-sm text-gray-500">
                             No tables found
@@ -423,6 +659,13 @@ export const DatabaseExplorer: React.FC<DatabaseExplorerProps> = ({
             </div>
           )}
         </div>
+
+        {onOpenSavedQuery && (
+          <SavedQueriesList
+            refreshKey={savedQueriesVersion}
+            onOpen={onOpenSavedQuery}
+          />
+        )}
       </div>
 
       {/* Context Menu */}
@@ -432,8 +675,15 @@ export const DatabaseExplorer: React.FC<DatabaseExplorerProps> = ({
         y={contextMenu.y}
         databaseId={contextMenu.databaseId}
         databaseName={contextMenu.databaseName}
+        canEdit={
+          !databases.find((db) => db.id === contextMenu.databaseId)?.isLocal
+        }
+        canInsert={
+          !databases.find((db) => db.id === contextMenu.databaseId)?.readOnly
+        }
         onShowTables={() => handleShowTables(contextMenu.databaseId)}
         onInsertData={() => handleInsertData(contextMenu.databaseId)}
+        onEditConnection={() => handleEditConnection(contextMenu.databaseId)}
         onClose={() =>
           setContextMenu({
             isOpen: false,
@@ -448,8 +698,12 @@ export const DatabaseExplorer: React.FC<DatabaseExplorerProps> = ({
       {/* Add Database Modal */}
       <AddDatabaseModal
         isOpen={showAddModal}
-        onClose={() => setShowAddModal(false)}
+        onClose={() => {
+          setShowAddModal(false);
+          setEditingDatabase(null);
+        }}
         onSuccess={handleAddDatabaseSuccess}
+        editDatabase={editingDatabase}
       />
 
       {/* Insert Data Modal */}
@@ -461,9 +715,12 @@ export const DatabaseExplorer: React.FC<DatabaseExplorerProps> = ({
 
       {/* Table Data Modal */}
       <TableDataModal
+        // A fresh modal per table, so paging, sorting and filters start over
+        key={JSON.stringify([selectedDatabase, selectedSchema, selectedTable])}
         isOpen={showTableDataModal}
         onClose={() => setShowTableDataModal(false)}
         databaseId={selectedDatabase}
+        schema={selectedSchema}
         tableName={selectedTable}
       />
     </>
@@ -0,0 +1,206 @@
+import React, { useState } from "react";
+import { ExportFormat, ExportOptions } from "../types/database";
+
+type SqlDialect = NonNullable<ExportOptions["dialect"]>;
+
+interface ExportMenuProps {
+  columns: string[];
+  onExport: (options: ExportOptions) => void;
+  defaultTable: string; // What SQL exports insert into unless renamed
+  primaryKey?: string[]; // Suggested as the upsert key
+  className?: string; // Positions the menu under its button
+}
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "ndjson", label: "NDJSON" },
+  { value: "json", label: "JSON" },
+  { value: "xlsx", label: "XLSX" },
+  { value: "sql", label: "SQL INSERTs" },
+];
+
+const DIALECTS: { value: SqlDialect; label: string }[] = [
+  { value: "postgresql", label: "PostgreSQL" },
+  { value: "mysql", label: "MySQL" },
+  { value: "sqlite", label: "SQLite" },
+];
+
+const DELIMITERS = [
+  { value: ",", label: "Comma" },
+  { value: ";", label: "Semicolon" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe" },
+];
+
+// The export formats with the columns and per-format options to apply
+const ExportMenu: React.FC<ExportMenuProps> = ({
+  columns,
+  onExport,
+  defaultTable,
+  primaryKey = [],
+  className = "",
+}) => {
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [delimiter, setDelimiter] = useState(",");
+  const [header, setHeader] = useState(true);
+  const [nullValue, setNullValue] = useState("");
+  const [dialect, setDialect] = useState<SqlDialect | "">("");
+  const [table, setTable] = useState("");
+  const [upsert, setUpsert] = useState(false);
+  const [upsertKey, setUpsertKey] = useState(primaryKey.join(", "));
+
+  const selected = columns.filter((column) => !excluded.has(column));
+
+  const toggleColumn = (column: string) =>
+    setExcluded((current) => {
+      const next = new Set(current);
+      if (!next.delete(column)) next.add(column);
+      return next;
+    });
+
+  const keyColumns = upsertKey
+    .split(",")
+    .map((column) => column.trim())
+    .filter(Boolean);
+
+  const exportAs = (format: ExportFormat) => {
+    const tabular = format === "csv" || format === "xlsx";
+    const sql = format === "sql";
+    onExport({
+      format,
+      ...(excluded.size > 0 && { columns: selected }),
+      ...(format === "csv" && { delimiter }),
+      ...(tabular && { header, nullValue }),
+      ...(sql && dialect && { dialect }),
+      ...(sql && table.trim() && { table: table.trim() }),
+      ...(sql && upsert && keyColumns.length > 0 && { upsertKey: keyColumns }),
+    });
+  };
+
+  return (
+    <div
+      className={`bg-white border border-gray-200 rounded-md shadow-lg py-1 z-10 w-64 text-sm ${className}`}
+    >
+      {FORMATS.map(({ value, label }) => (
+        <button
+          key={value}
+          onClick={() => exportAs(value)}
+          disabled={selected.length === 0}
+          className="w-full px-3 py-2 text-left hover:bg-gray-100 transition-colors disabled:text-gray-400 disabled:hover:bg-white"
+        >
+          Export as {label}
+        </button>
+      ))}
+
+      <div className="border-t mt-1 px-3 py-2 space-y-2 text-gray-700">
+        <div>
+          <div className="flex items-center justify-between text-xs font-medium text-gray-500 mb-1">
+            <span>Columns</span>
+            <button
+              onClick={() =>
+                setExcluded(excluded.size === 0 ? new Set(columns) : new Set())
+              }
+              className="text-blue-600 hover:text-blue-800"
+            >
+              {excluded.size === 0 ? "None" : "All"}
+            </button>
+          </div>
+          <div className="max-h-40 overflow-y-auto space-y-0.5">
+            {columns.map((column) => (
+              <label key={column} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={!excluded.has(column)}
+                  onChange={() => toggleColumn(column)}
+                />
+                <span className="font-mono text-xs truncate">{column}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-xs text-gray-500">CSV delimiter</span>
+          <select
+            value={delimiter}
+            onChange={(e) => setDelimiter(e.target.value)}
+            className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+          >
+            {DELIMITERS.map(({ value, label }) => (
+              <option key={label} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={header}
+            onChange={(e) => setHeader(e.target.checked)}
+          />
+          <span className="text-xs text-gray-500">Header row</span>
+        </label>
+
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-xs text-gray-500">NULL as</span>
+          <input
+            type="text"
+            value={nullValue}
+            onChange={(e) => setNullValue(e.target.value)}
+            placeholder="empty"
+            className="border border-gray-300 rounded px-1 py-0.5 text-xs w-24"
+          />
+        </label>
+
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-xs text-gray-500">SQL dialect</span>
+          <select
+            value={dialect}
+            onChange={(e) => setDialect(e.target.value as SqlDialect | "")}
+            className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+          >
+            <option value="">Same as source</option>
+            {DIALECTS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-xs text-gray-500">Insert into</span>
+          <input
+            type="text"
+            value={table}
+            onChange={(e) => setTable(e.target.value)}
+            placeholder={defaultTable}
+            className="border border-gray-300 rounded px-1 py-0.5 text-xs w-32"
+          />
+        </label>
+
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={upsert}
+            onChange={(e) => setUpsert(e.target.checked)}
+            title="Update rows that already exist"
+          />
+          <span className="text-xs text-gray-500">Upsert on</span>
+          <input
+            type="text"
+            value={upsertKey}
+            onChange={(e) => setUpsertKey(e.target.value)}
+            disabled={!upsert}
+            placeholder="id, ..."
+            className="border border-gray-300 rounded px-1 py-0.5 text-xs flex-1 min-w-0 disabled:bg-gray-50"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportMenu;
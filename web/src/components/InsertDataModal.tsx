@@ -26,12 +26,14 @@ const InsertDataModal: React.FC<InsertDataModalProps> = ({
   const [mermaidText, setMermaidText] = useState("");
   const [showTablesModal, setShowTablesModal] = useState(false);
   const [showManualInsertModal, setShowManualInsertModal] = useState(false);
+  // JSON [schema, tableName], so same-named tables in two schemas stay apart
   const [selectedTable, setSelectedTable] = useState<string>("");
   const [manualData, setManualData] = useState<
     Record<string, string | number | boolean | null>
   >({});
   const [tables, setTables] = useState<
     {
+      schema: string | null;
       tableName: string;
       columns: {
         column_name: string;
@@ -260,6 +262,7 @@ const InsertDataModal: React.FC<InsertDataModalProps> = ({
           body: JSON.stringify({
             mermaidDiagram: mermaidText,
             dropExisting: false,
+            databaseId: selectedDatabase,
           }),
         }
       );
@@ -267,7 +270,9 @@ const InsertDataModal: React.FC<InsertDataModalProps> = ({
       const result = await response.json();
 
       if (result.success) {
-        setSuccess(`Successfully created ${result.tablesCreated} tables`);
+        setSuccess(
+          `Successfully created ${result.tablesCreated.length} table(s) in ${selectedDatabase}`
+        );
         setShowMermaidModal(false);
         setMermaidText("");
       } else {
@@ -284,8 +289,14 @@ const InsertDataModal: React.FC<InsertDataModalProps> = ({
     }
   };
 
+  const tableKey = (table: { schema: string | null; tableName: string }) =>
+    JSON.stringify([table.schema, table.tableName]);
+  const selectedTableInfo = tables.find(
+    (table) => tableKey(table) === selectedTable
+  );
+
   const handleManualInsert = async () => {
-    if (!selectedTable) {
+    if (!selectedTableInfo) {
       setError("Please select a table");
       return;
     }
@@ -302,7 +313,10 @@ const InsertDataModal: React.FC<InsertDataModalProps> = ({
         },
         body: JSON.stringify({
           databaseId: selectedDatabase,
-          data: { [selectedTable]: [manualData] },
+          ...(selectedTableInfo.schema
+            ? { schema: selectedTableInfo.schema }
+            : {}),
+          data: { [selectedTableInfo.tableName]: [manualData] },
         }),
       });
 
@@ -310,7 +324,7 @@ const InsertDataModal: React.FC<InsertDataModalProps> = ({
 
       if (result.success) {
         setSuccess(
-          `Successfully inserted 1 record into ${selectedTable} table`
+          `Successfully inserted 1 record into ${selectedTableInfo.tableName} table`
         );
         setShowManualInsertModal(false);
         setManualData({});
@@ -615,7 +629,9 @@ const InsertDataModal: React.FC<InsertDataModalProps> = ({
                     <div key={index} className="bg-gray-50 rounded-lg p-4">
                       <h4 className="text-lg font-semibold text-gray-900 mb-3 flex items-center gap-2">
                         <Table className="w-5 h-5 text-blue-600" />
-                        {table.tableName}
+                        {table.schema
+                          ? `${table.schema}.${table.tableName}`
+                          : table.tableName}
                       </h4>
                       <div className="overflow-x-auto">
                         <table className="w-full">
@@ -696,8 +712,10 @@ const InsertDataModal: React.FC<InsertDataModalProps> = ({
                 >
                   <option value="">Choose a table...</option>
                   {tables.map((table) => (
-                    <option key={table.tableName} value={table.tableName}>
-                      {table.tableName}
+                    <option key={tableKey(table)} value={tableKey(table)}>
+                      {table.schema
+                        ? `${table.schema}.${table.tableName}`
+                        : table.tableName}
                     </option>
                   ))}
                 </select>
@@ -707,9 +725,8 @@ const InsertDataModal: React.FC<InsertDataModalProps> = ({
               {selectedTable && (
                 <div className="space-y-4">
                   <h4 className="font-medium text-gray-900">Enter Data</h4>
-                  {tables
-                    .find((t) => t.tableName === selectedTable)
-                    ?.columns.filter(
+                  {selectedTableInfo?.columns
+                    .filter(
                       (col) =>
                         !(
                           col.column_name === "id" &&
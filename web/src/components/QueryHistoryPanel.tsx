@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from "react";
+import { History, Play, Search } from "lucide-react";
+import { QueryHistoryEntry, QueryHistoryStatus } from "../types/database";
+
+interface QueryHistoryPanelProps {
+  databaseId: string;
+  refreshKey: number; // Changes after every run so the newest entry shows up
+  onLoad: (sql: string) => void;
+  onRun: (sql: string) => void;
+}
+
+const STATUS_STYLES: Record<QueryHistoryStatus, string> = {
+  success: "bg-green-500",
+  error: "bg-red-500",
+  cancelled: "bg-yellow-500",
+  timeout: "bg-orange-500",
+};
+
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 300;
+
+// Lists past runs; clicking one loads it into the editor
+const QueryHistoryPanel: React.FC<QueryHistoryPanelProps> = ({
+  databaseId,
+  refreshKey,
+  onLoad,
+  onRun,
+}) => {
+  const [entries, setEntries] = useState<QueryHistoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<QueryHistoryStatus | "">("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [thisDatabaseOnly, setThisDatabaseOnly] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const params = new URLSearchParams();
+    if (search.trim()) params.set("search", search.trim());
+    if (status) params.set("status", status);
+    if (thisDatabaseOnly && databaseId) params.set("databaseId", databaseId);
+    // Date inputs give local days; the range covers both days in full
+    if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+    if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `http://localhost:3001/api/query/history?${params}`
+        );
+        const data = await response.json();
+
+        if (data.success) {
+          setEntries(data.entries);
+          setTotal(data.total);
+          setError("");
+        } else {
+          setError(data.message || "Failed to load history");
+        }
+      } catch (error) {
+        console.error("Failed to load query history:", error);
+        setError("Failed to load history");
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [search, status, from, to, thisDatabaseOnly, databaseId, refreshKey]);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 shadow-sm flex flex-col w-80 min-h-0">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+        <History className="w-4 h-4 text-gray-600" />
+        <h3 className="font-medium text-gray-900">History</h3>
+        <span className="text-xs text-gray-500">{total} runs</span>
+      </div>
+
+      <div className="flex flex-col gap-2 p-3 border-b border-gray-200 text-xs">
+        <div className="relative">
+          <Search className="w-3 h-3 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search SQL and errors"
+            className="w-full pl-7 pr-2 py-1.5 border border-gray-300 rounded"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={status}
+            onChange={(e) =>
+              setStatus(e.target.value as QueryHistoryStatus | "")
+            }
+            className="flex-1 px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value="">Any status</option>
+            <option value="success">Succeeded</option>
+            <option value="error">Failed</option>
+            <option value="cancelled">Cancelled</option>
+            <option value="timeout">Timed out</option>
+          </select>
+          <label className="flex items-center gap-1 text-gray-600">
+            <input
+              type="checkbox"
+              checked={thisDatabaseOnly}
+              onChange={(e) => setThisDatabaseOnly(e.target.checked)}
+            />
+            This database
+          </label>
+        </div>
+        <div className="flex items-center gap-1 text-gray-600">
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="flex-1 min-w-0 px-1 py-1 border border-gray-300 rounded"
+            aria-label="From date"
+          />
+          –
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="flex-1 min-w-0 px-1 py-1 border border-gray-300 rounded"
+            aria-label="To date"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto min-h-0">
+        {error ? (
+          <p className="p-3 text-xs text-red-600">{error}</p>
+        ) : entries.length === 0 ? (
+          <p className="p-3 text-xs text-gray-500">No matching queries</p>
+        ) : (
+          entries.map((entry) => (
+            <div
+              key={entry.id}
+              onClick={() => onLoad(entry.sql)}
+              className="group flex items-start gap-2 px-3 py-2 border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+              title={entry.error ?? entry.sql}
+            >
+              <span
+                className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${
+                  STATUS_STYLES[entry.status]
+                }`}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="font-mono text-xs text-gray-800 truncate">
+                  {entry.sql}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {new Date(entry.executedAt).toLocaleString()} ·{" "}
+                  {entry.durationMs}ms
+                  {entry.rowCount !== null && ` · ${entry.rowCount} rows`}
+                  {!thisDatabaseOnly && ` · ${entry.databaseId}`}
+                </div>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRun(entry.sql);
+                }}
+                className="p-1 text-gray-400 hover:text-blue-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Run again on the current database"
+              >
+                <Play className="w-3 h-3" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QueryHistoryPanel;
@@ -0,0 +1,93 @@
+import React from "react";
+import { PlanNode, PlanWarning } from "../types/database";
+
+const WARNINGS: Record<PlanWarning, { label: string; className: string }> = {
+  expensive: {
+    label: "Most expensive",
+    className: "text-red-700 bg-red-50 border-red-200",
+  },
+  fullScan: {
+    label: "Full scan of a large table",
+    className: "text-orange-700 bg-orange-50 border-orange-200",
+  },
+  estimateMiss: {
+    label: "Row estimate off",
+    className: "text-purple-700 bg-purple-50 border-purple-200",
+  },
+};
+
+const formatNumber = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+// "cost 12.5 · rows 40 (actual 380) · 3.2 ms" from whatever the database reported
+const describeNode = (node: PlanNode): string =>
+  [
+    node.estimatedCost !== null && `cost ${formatNumber(node.estimatedCost)}`,
+    node.estimatedRows !== null &&
+      `rows ${formatNumber(node.estimatedRows)}${
+        node.actualRows !== null
+          ? ` (actual ${formatNumber(node.actualRows)})`
+          : ""
+      }`,
+    node.actualTimeMs !== null && `${formatNumber(node.actualTimeMs)} ms`,
+    node.relationRows !== null &&
+      `table ~${formatNumber(node.relationRows)} rows`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const PlanNodeRow: React.FC<{ node: PlanNode; depth: number }> = ({
+  node,
+  depth,
+}) => {
+  // The worst warning colours the whole row
+  const highlight = node.warnings[0] && WARNINGS[node.warnings[0]];
+
+  return (
+    <>
+      <div
+        className={`flex flex-col gap-0.5 px-3 py-2 border-l-4 rounded ${
+          highlight ? highlight.className : "border-transparent"
+        }`}
+        style={{ marginLeft: `${depth * 1.5}rem` }}
+      >
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="font-medium text-gray-900">{node.nodeType}</span>
+          {node.relation && (
+            <span className="font-mono text-xs text-gray-600">
+              on {node.relation}
+            </span>
+          )}
+          {node.warnings.map((warning) => (
+            <span
+              key={warning}
+              className={`px-1.5 py-0.5 text-xs border rounded ${WARNINGS[warning].className}`}
+            >
+              {WARNINGS[warning].label}
+            </span>
+          ))}
+        </div>
+        {describeNode(node) && (
+          <div className="text-xs text-gray-500">{describeNode(node)}</div>
+        )}
+        {node.detail && node.detail !== node.nodeType && (
+          <div className="font-mono text-xs text-gray-500 truncate">
+            {node.detail}
+          </div>
+        )}
+      </div>
+      {node.children.map((child, index) => (
+        <PlanNodeRow key={index} node={child} depth={depth + 1} />
+      ))}
+    </>
+  );
+};
+
+// Renders a normalized query plan as an indented tree
+const QueryPlanTree: React.FC<{ plan: PlanNode }> = ({ plan }) => (
+  <div className="flex flex-col gap-1 p-4 text-sm">
+    <PlanNodeRow node={plan} depth={0} />
+  </div>
+);
+
+export default QueryPlanTree;
@@ -0,0 +1,136 @@
+import React from "react";
+import { ArrowRight, Loader, Pencil, X } from "lucide-react";
+import { RowUpdate } from "../types/database";
+import { ColumnKind, formatCell } from "../utils/resultFormat";
+
+interface RowChangesPreviewProps {
+  tableName: string;
+  changes: RowUpdate[];
+  kinds: Map<string, ColumnKind>;
+  saving: boolean;
+  error: string | null;
+  conflictIndex: number | null; // The change the database found out of date
+  onSave: () => void;
+  onDiscard: (index: number) => void;
+  onClose: () => void;
+}
+
+// "id = 7, org = 2" to name a row by its primary key
+const describeKey = (key: Record<string, unknown>): string =>
+  Object.entries(key)
+    .map(([column, value]) => `${column} = ${formatCell(value, "text")}`)
+    .join(", ");
+
+// Lists each staged row change as old and new values before they are saved together
+const RowChangesPreview: React.FC<RowChangesPreviewProps> = ({
+  tableName,
+  changes,
+  kinds,
+  saving,
+  error,
+  conflictIndex,
+  onSave,
+  onDiscard,
+  onClose,
+}) => (
+  <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[9999] p-4">
+    <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl">
+      {/* Header */}
+      <div className="flex items-center justify-between p-6 border-b border-gray-200">
+        <div className="flex items-center gap-3">
+          <div className="bg-blue-100 p-2 rounded-lg">
+            <Pencil className="w-5 h-5 text-blue-600" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              Review Changes
+            </h2>
+            <p className="text-sm text-gray-500">
+              {changes.length} {changes.length === 1 ? "row" : "rows"} of{" "}
+              {tableName}, saved in one transaction
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <X className="w-5 h-5 text-gray-400" />
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="p-6 space-y-3 max-h-[60vh] overflow-y-auto">
+        {changes.map((change, index) => (
+          <div
+            key={JSON.stringify(change.key)}
+            className={`border rounded-md ${
+              index === conflictIndex ? "border-red-300" : "border-gray-200"
+            }`}
+          >
+            <div className="flex items-center justify-between px-3 py-2 text-xs font-mono text-gray-600 bg-gray-50 border-b border-gray-200">
+              {describeKey(change.key)}
+              <button
+                onClick={() => onDiscard(index)}
+                disabled={saving}
+                className="p-1 rounded hover:bg-gray-200 transition-colors"
+                title="Discard this change"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <div className="divide-y divide-gray-100">
+              {Object.entries(change.values).map(([column, value]) => {
+                const kind = kinds.get(column) ?? "text";
+                return (
+                  <div
+                    key={column}
+                    className="grid grid-cols-[8rem_1fr_auto_1fr] items-center gap-2 px-3 py-2 text-sm"
+                  >
+                    <span className="font-medium text-gray-700 truncate">
+                      {column}
+                    </span>
+                    <span className="font-mono text-red-700 bg-red-50 px-1.5 py-0.5 rounded line-through break-all">
+                      {formatCell(change.original[column], kind)}
+                    </span>
+                    <ArrowRight className="w-4 h-4 text-gray-400" />
+                    <span className="font-mono text-green-700 bg-green-50 px-1.5 py-0.5 rounded break-all">
+                      {formatCell(value, kind)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        {error && (
+          <div className="p-3 rounded-md text-sm bg-red-50 text-red-800 border border-red-200">
+            {error}
+          </div>
+        )}
+      </div>
+
+      {/* Footer */}
+      <div className="flex gap-3 p-6 border-t border-gray-200">
+        <button
+          onClick={onSave}
+          disabled={saving}
+          className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center gap-2 justify-center"
+        >
+          {saving && <Loader className="w-4 h-4 animate-spin" />}
+          Save Changes
+        </button>
+        <button
+          onClick={onClose}
+          disabled={saving}
+          className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+        >
+          Keep Editing
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default RowChangesPreview;
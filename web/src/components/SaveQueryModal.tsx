@@ -0,0 +1,313 @@
+import React, { useEffect, useState } from "react";
+import { Bookmark, Loader, X } from "lucide-react";
+import {
+  FieldError,
+  SavedQuery,
+  SavedQueryParameter,
+  SavedQueryParameterType,
+} from "../types/database";
+
+interface SaveQueryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: (query: SavedQuery) => void;
+  sql: string;
+  databaseId: string;
+  existing: SavedQuery | null; // Updated in place instead of creating a new one
+}
+
+const PARAMETER_TYPES: SavedQueryParameterType[] = [
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "date",
+];
+
+// :name outside quotes; :: casts and quoted text are skipped
+const PARAMETER_PATTERN = /'(?:[^']|'')*'|"(?:[^"]|"")*"|::|:([A-Za-z_]\w*)/g;
+
+const findParameterNames = (sql: string): string[] => {
+  const names = [...sql.matchAll(PARAMETER_PATTERN)]
+    .map((match) => match[1])
+    .filter((name): name is string => Boolean(name));
+  return [...new Set(names)];
+};
+
+// The default shown in the form, as the text the input holds
+const toDefaultText = (value: SavedQueryParameter["default"]) =>
+  value === null ? "" : String(value);
+
+const fromDefaultText = (
+  type: SavedQueryParameterType,
+  text: string
+): SavedQueryParameter["default"] => {
+  if (text === "") return null;
+  if (type === "number" || type === "integer") return Number(text);
+  if (type === "boolean") return text === "true";
+  return text;
+};
+
+const SaveQueryModal: React.FC<SaveQueryModalProps> = ({
+  isOpen,
+  onClose,
+  onSaved,
+  sql,
+  databaseId,
+  existing,
+}) => {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [tags, setTags] = useState("");
+  const [parameters, setParameters] = useState<SavedQueryParameter[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+
+  // Declarations follow the SQL; known parameters keep their type and default
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(existing?.name ?? "");
+    setDescription(existing?.description ?? "");
+    setTags(existing?.tags.join(", ") ?? "");
+    setParameters(
+      findParameterNames(sql).map(
+        (parameterName) =>
+          existing?.parameters.find(
+            (parameter) => parameter.name === parameterName
+          ) ?? { name: parameterName, type: "string", default: null }
+      )
+    );
+    setError("");
+    setFieldErrors([]);
+  }, [isOpen, existing, sql]);
+
+  const updateParameter = (
+    index: number,
+    changes: Partial<SavedQueryParameter>
+  ) => {
+    setParameters((current) =>
+      current.map((parameter, i) =>
+        i === index ? { ...parameter, ...changes } : parameter
+      )
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError("");
+    setFieldErrors([]);
+
+    try {
+      const response = await fetch(
+        existing
+          ? `http://localhost:3001/api/saved-queries/${existing.id}`
+          : "http://localhost:3001/api/saved-queries",
+        {
+          method: existing ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name,
+            description,
+            tags: tags
+              .split(",")
+              .map((tag) => tag.trim())
+              .filter(Boolean),
+            databaseId: existing?.databaseId ?? databaseId,
+            sql,
+            parameters,
+          }),
+        }
+      );
+      const data = await response.json();
+
+      if (data.success) {
+        onSaved(data.query);
+        onClose();
+      } else {
+        setError(data.message || "Failed to save query");
+        setFieldErrors(data.errors || []);
+      }
+    } catch (error) {
+      console.error("Failed to save query:", error);
+      setError("Failed to save query");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[9999] p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-100 p-2 rounded-lg">
+              <Bookmark className="w-5 h-5 text-blue-600" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              {existing ? "Update Saved Query" : "Save Query"}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Name
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Orders per customer"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Description
+            </label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Tags
+            </label>
+            <input
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="reports, sales"
+            />
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-1">
+              Parameters
+            </h3>
+            {parameters.length === 0 ? (
+              <p className="text-xs text-gray-500">
+                Use :name in the SQL to add a parameter.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {parameters.map((parameter, index) => (
+                  <div key={parameter.name} className="flex items-center gap-2">
+                    <span className="w-32 font-mono text-sm text-gray-700 truncate">
+                      :{parameter.name}
+                    </span>
+                    <select
+                      value={parameter.type}
+                      onChange={(e) =>
+                        updateParameter(index, {
+                          type: e.target.value as SavedQueryParameterType,
+                          default: null,
+                        })
+                      }
+                      className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+                    >
+                      {PARAMETER_TYPES.map((type) => (
+                        <option key={type} value={type}>
+                          {type}
+                        </option>
+                      ))}
+                    </select>
+                    {parameter.type === "boolean" ? (
+                      <select
+                        value={toDefaultText(parameter.default)}
+                        onChange={(e) =>
+                          updateParameter(index, {
+                            default: fromDefaultText("boolean", e.target.value),
+                          })
+                        }
+                        className="flex-1 px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+                      >
+                        <option value="">No default</option>
+                        <option value="true">true</option>
+                        <option value="false">false</option>
+                      </select>
+                    ) : (
+                      <input
+                        type={
+                          parameter.type === "date"
+                            ? "date"
+                            : parameter.type === "string"
+                            ? "text"
+                            : "number"
+                        }
+                        step={parameter.type === "integer" ? 1 : "any"}
+                        value={toDefaultText(parameter.default)}
+                        onChange={(e) =>
+                          updateParameter(index, {
+                            default: fromDefaultText(
+                              parameter.type,
+                              e.target.value
+                            ),
+                          })
+                        }
+                        placeholder="Default"
+                        className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="p-3 rounded-md text-sm bg-red-50 text-red-800 border border-red-200">
+              {error}
+              {fieldErrors.length > 0 && (
+                <ul className="mt-2 list-disc list-inside space-y-0.5">
+                  {fieldErrors.map((fieldError) => (
+                    <li key={`${fieldError.field}-${fieldError.message}`}>
+                      <span className="font-mono">{fieldError.field}</span>:{" "}
+                      {fieldError.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={handleSave}
+            disabled={saving || !name.trim()}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center gap-2 justify-center"
+          >
+            {saving && <Loader className="w-4 h-4 animate-spin" />}
+            {existing ? "Save Changes" : "Save Query"}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaveQueryModal;
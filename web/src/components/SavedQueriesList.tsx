@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from "react";
+import { Bookmark, ChevronDown, ChevronRight, Tag, Trash2 } from "lucide-react";
+import { SavedQuery } from "../types/database";
+
+interface SavedQueriesListProps {
+  refreshKey: number; // Changes whenever a query is saved elsewhere
+  onOpen: (query: SavedQuery) => void;
+}
+
+const UNTAGGED = "Untagged";
+
+// Queries with several tags appear under each of them
+const groupByTag = (queries: SavedQuery[]): [string, SavedQuery[]][] => {
+  const groups = new Map<string, SavedQuery[]>();
+  for (const query of queries) {
+    for (const tag of query.tags.length > 0 ? query.tags : [UNTAGGED]) {
+      groups.set(tag, [...(groups.get(tag) ?? []), query]);
+    }
+  }
+  return [...groups.entries()].sort(([a], [b]) =>
+    a === UNTAGGED ? 1 : b === UNTAGGED ? -1 : a.localeCompare(b)
+  );
+};
+
+// Sidebar section listing the saved query library by tag
+const SavedQueriesList: React.FC<SavedQueriesListProps> = ({
+  refreshKey,
+  onOpen,
+}) => {
+  const [queries, setQueries] = useState<SavedQuery[]>([]);
+  const [collapsedTags, setCollapsedTags] = useState<Set<string>>(new Set());
+
+  const loadQueries = async () => {
+    try {
+      const response = await fetch("http://localhost:3001/api/saved-queries");
+      const data = await response.json();
+      if (data.success) {
+        setQueries(data.queries);
+      }
+    } catch (error) {
+      console.error("Error loading saved queries:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadQueries();
+  }, [refreshKey]);
+
+  const toggleTag = (tag: string) => {
+    setCollapsedTags((current) => {
+      const next = new Set(current);
+      if (next.has(tag)) {
+        next.delete(tag);
+      } else {
+        next.add(tag);
+      }
+      return next;
+    });
+  };
+
+  const deleteQuery = async (query: SavedQuery) => {
+    if (!window.confirm(`Delete the saved query "${query.name}"?`)) return;
+
+    try {
+      await fetch(`http://localhost:3001/api/saved-queries/${query.id}`, {
+        method: "DELETE",
+      });
+      loadQueries();
+    } catch (error) {
+      console.error("Error deleting saved query:", error);
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-200 max-h-[40%] flex flex-col">
+      <div className="flex items-center gap-2 px-4 py-3">
+        <Bookmark className="w-4 h-4 text-gray-500" />
+        <h2 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">
+          Saved Queries
+        </h2>
+      </div>
+      <div className="flex-1 overflow-y-auto px-2 pb-2">
+        {queries.length === 0 ? (
+          <p className="px-2 text-xs text-gray-500">
+            Save a query from the console to reuse it here
+          </p>
+        ) : (
+          groupByTag(queries).map(([tag, tagged]) => (
+            <div key={tag}>
+              <button
+                onClick={() => toggleTag(tag)}
+                className="w-full flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-600 hover:text-gray-800"
+              >
+                {collapsedTags.has(tag) ? (
+                  <ChevronRight className="w-3 h-3" />
+                ) : (
+                  <ChevronDown className="w-3 h-3" />
+                )}
+                <Tag className="w-3 h-3" />
+                {tag}
+                <span className="text-gray-400">({tagged.length})</span>
+              </button>
+              {!collapsedTags.has(tag) &&
+                tagged.map((query) => (
+                  <div
+                    key={query.id}
+                    onClick={() => onOpen(query)}
+                    title={query.description || query.sql}
+                    className="group flex items-center gap-2 ml-4 px-2 py-1.5 text-sm text-gray-700 rounded-md hover:bg-white cursor-pointer"
+                  >
+                    <span className="flex-1 truncate">{query.name}</span>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteQuery(query);
+                      }}
+                      className="p-0.5 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Delete saved query"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SavedQueriesList;
@@ -1,18 +1,67 @@
 import React, { useState, useEffect, useRef } from "react";
-import { X, Download, RefreshCw, ChevronDown } from "lucide-react";
+import {
+  X,
+  Download,
+  RefreshCw,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  Lock,
+  Trash2,
+} from "lucide-react";
+import {
+  ExportOptions,
+  ResultColumn,
+  ResultTruncation,
+  RowUpdate,
+  TableFilter,
+} from "../types/database";
+import TruncationBanner from "./TruncationBanner";
+import ExportMenu from "./ExportMenu";
+import TableFilterBar from "./TableFilterBar";
+import RowChangesPreview from "./RowChangesPreview";
+import {
+  ColumnKind,
+  columnKinds,
+  describeColumn,
+  editableText,
+  formatCell,
+  parseCellInput,
+} from "../utils/resultFormat";
 
 interface TableData {
+  schema: string | null;
   tableName: string;
   columns: string[];
+  fields: ResultColumn[];
   rows: Record<string, unknown>[];
   rowCount: number;
-  totalRows: number;
+  page: number;
+  pageSize: number;
+  totalRows: number; // Rows matching the filters
+  totalRowsEstimated: boolean; // Huge tables are estimated, not counted
+  primaryKey: string[]; // Empty for tables whose rows cannot be edited
+  truncated: boolean; // The page was shortened to the response size limit
+  limit: ResultTruncation | null;
 }
 
+type SortDirection = "asc" | "desc";
+
+type Row = Record<string, unknown>;
+
+interface CellEdit {
+  row: Row;
+  column: string;
+  text: string;
+}
+
+const PAGE_SIZES = [50, 100, 250, 500];
+
 interface TableDataModalProps {
   isOpen: boolean;
   onClose: () => void;
   databaseId: string;
+  schema?: string | null; // The connection's current schema when unset
   tableName: string;
 }
 
@@ -20,21 +69,49 @@ const TableDataModal: React.FC<TableDataModalProps> = ({
   isOpen,
   onClose,
   databaseId,
+  schema = null,
   tableName,
 }) => {
+  // Names are path segments, so dots and slashes in them stay intact
+  const tableUrl = `http://localhost:3001/api/databases/${databaseId}${
+    schema ? `/schemas/${encodeURIComponent(schema)}` : ""
+  }/tables/${encodeURIComponent(tableName)}`;
+  const qualifiedName = schema ? `${schema}.${tableName}` : tableName;
+
   const [tableData, setTableData] = useState<TableData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showDownloadMenu, setShowDownloadMenu] = useState(false);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(100);
+  const [orderBy, setOrderBy] = useState<string | null>(null);
+  const [direction, setDirection] = useState<SortDirection>("asc");
+  const [filters, setFilters] = useState<TableFilter[]>([]);
+  // Edits waiting to be saved, by primary key; they survive paging and refreshes
+  const [changes, setChanges] = useState<Map<string, RowUpdate>>(new Map());
+  const [editing, setEditing] = useState<CellEdit | null>(null);
+  const [reviewing, setReviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [conflictIndex, setConflictIndex] = useState<number | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
   const downloadRef = useRef<HTMLDivElement>(null);
+  // Set by Escape so the blur that follows does not stage the edit
+  const editCancelled = useRef(false);
 
   const loadTableData = async () => {
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch(
-        `http://localhost:3001/api/databases/${databaseId}/tables/${tableName}/data`
-      );
+      const params = new URLSearchParams({
+        page: String(page),
+        pageSize: String(pageSize),
+        direction,
+      });
+      if (orderBy) params.set("orderBy", orderBy);
+      if (filters.length > 0) params.set("filters", JSON.stringify(filters));
+
+      const response = await fetch(`${tableUrl}/data?${params}`);
       const data = await response.json();
 
       if (data.success) {
@@ -55,100 +132,186 @@ const TableDataModal: React.FC<TableDataModalProps> = ({
       loadTableData();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isOpen, databaseId, tableName]);
+  }, [isOpen, tableUrl, page, pageSize, orderBy, direction, filters]);
 
   const handleRefresh = () => {
     loadTableData();
   };
 
-  const exportAsCSV = () => {
-    if (!tableData) return;
-
-    const headers = tableData.columns.join(",");
-    const rows = tableData.rows
-      .map((row) =>
-        tableData.columns
-          .map((col) => {
-            const value = row[col];
-            if (
-              typeof value === "string" &&
-              (value.includes(",") || value.includes('"'))
-            ) {
-              return `"${value.replace(/"/g, '""')}"`;
-            }
-            return value ?? "";
-          })
-          .join(",")
-      )
-      .join("\n");
-
-    const csv = `${headers}\n${rows}`;
-    const blob = new Blob([csv], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `${tableName}_data.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
+  // The first click sorts ascending, the next descending
+  const handleSort = (column: string) => {
+    if (orderBy === column) {
+      setDirection(direction === "asc" ? "desc" : "asc");
+    } else {
+      setOrderBy(column);
+      setDirection("asc");
+    }
+    setPage(1);
   };
 
-  const exportAsJSON = () => {
-    if (!tableData) return;
+  const applyFilters = (next: TableFilter[]) => {
+    setFilters(next);
+    setPage(1);
+  };
 
-    const jsonData = {
-      tableName: tableData.tableName,
-      columns: tableData.columns,
-      rows: tableData.rows,
-      totalRows: tableData.totalRows,
-      exportedAt: new Date().toISOString(),
-    };
+  const primaryKey = tableData?.primaryKey ?? [];
+  const editable = primaryKey.length > 0;
+  const rowsUrl = `${tableUrl}/rows`;
+
+  const rowKey = (row: Row): Row =>
+    Object.fromEntries(primaryKey.map((column) => [column, row[column]]));
+  const changeId = (row: Row) => JSON.stringify(rowKey(row));
+
+  // Setting a cell back to the value it was read with unstages it
+  const stageEdit = (row: Row, column: string, value: unknown) => {
+    const id = changeId(row);
+    const staged = changes.get(id);
+    const original =
+      staged && column in staged.original
+        ? staged.original[column]
+        : row[column];
+    const values = { ...staged?.values };
+    const originals = { ...staged?.original };
+    if (JSON.stringify(value) === JSON.stringify(original)) {
+      delete values[column];
+      delete originals[column];
+    } else {
+      values[column] = value;
+      originals[column] = original;
+    }
 
-    const blob = new Blob([JSON.stringify(jsonData, null, 2)], {
-      type: "application/json",
+    const next = new Map(changes);
+    if (Object.keys(values).length === 0) {
+      next.delete(id);
+    } else {
+      next.set(id, { key: rowKey(row), original: originals, values });
+    }
+    setChanges(next);
+  };
+
+  const startEdit = (row: Row, column: string) => {
+    if (!editable || primaryKey.includes(column)) return;
+    const staged = changes.get(changeId(row))?.values;
+    editCancelled.current = false;
+    setEditing({
+      row,
+      column,
+      text: editableText(
+        staged && column in staged ? staged[column] : row[column]
+      ),
     });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `${tableName}_data.json`;
-    a.click();
-    URL.revokeObjectURL(url);
   };
 
-  const exportAsXLSX = () => {
-    if (!tableData) return;
+  const finishEdit = () => {
+    if (!editing || editCancelled.current) return;
+    const kind = kinds.get(editing.column) ?? "text";
+    stageEdit(editing.row, editing.column, parseCellInput(editing.text, kind));
+    setEditing(null);
+  };
 
-    // Create workbook data
-    const worksheetData = [
-      tableData.columns, // Header row
-      ...tableData.rows.map((row) =>
-        tableData.columns.map((col) => row[col] ?? "")
-      ),
-    ];
+  const discardChange = (index: number) => {
+    const next = new Map(changes);
+    const id = [...changes.keys()][index];
+    if (id !== undefined) next.delete(id);
+    setChanges(next);
+    setConflictIndex(null);
+    setSaveError(null);
+    if (next.size === 0) setReviewing(false);
+  };
 
-    // Convert to TSV (tab-separated values) which Excel can open
-    const tsvContent = worksheetData.map((row) => row.join("\t")).join("\n");
+  const discardChanges = () => {
+    setChanges(new Map());
+    setEditError(null);
+  };
 
-    const blob = new Blob([tsvContent], { type: "application/vnd.ms-excel" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `${tableName}_data.xlsx`;
-    a.click();
-    URL.revokeObjectURL(url);
+  // Every staged change is saved in one transaction, or none is
+  const saveChanges = async () => {
+    setSaving(true);
+    setSaveError(null);
+    setConflictIndex(null);
+    try {
+      const response = await fetch(rowsUrl, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ changes: [...changes.values()] }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setChanges(new Map());
+        setReviewing(false);
+        loadTableData();
+      } else if (response.status === 409) {
+        setConflictIndex(data.index ?? null);
+        setSaveError(
+          `${data.message}, so nothing was saved. Discard that change and edit the row again after refreshing.`
+        );
+      } else {
+        setSaveError(data.message || "Failed to save changes");
+      }
+    } catch (err) {
+      setSaveError("Failed to connect to server");
+      console.error("Error saving row changes:", err);
+    } finally {
+      setSaving(false);
+    }
   };
 
-  const handleExportFormat = (format: "csv" | "json" | "xlsx") => {
-    switch (format) {
-      case "csv":
-        exportAsCSV();
-        break;
-      case "json":
-        exportAsJSON();
-        break;
-      case "xlsx":
-        exportAsXLSX();
-        break;
+  const deleteRow = async (row: Row) => {
+    const key = rowKey(row);
+    const description = Object.entries(key)
+      .map(([column, value]) => `${column} = ${editableText(value)}`)
+      .join(", ");
+    if (!window.confirm(`Delete the row where ${description}?`)) return;
+
+    setEditError(null);
+    try {
+      const response = await fetch(rowsUrl, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rows: [{ key }] }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        const next = new Map(changes);
+        next.delete(changeId(row));
+        setChanges(next);
+        loadTableData();
+      } else {
+        setEditError(data.message || "Failed to delete the row");
+      }
+    } catch (err) {
+      setEditError("Failed to connect to server");
+      console.error("Error deleting row:", err);
     }
+  };
+
+  const pageCount = tableData
+    ? Math.max(1, Math.ceil(tableData.totalRows / tableData.pageSize))
+    : 1;
+  const firstRow = tableData ? (tableData.page - 1) * tableData.pageSize : 0;
+
+  // A plain link, so the browser streams the whole table straight to disk
+  const exportTable = (options: ExportOptions) => {
+    const params = new URLSearchParams({ format: options.format, direction });
+    if (orderBy) params.set("orderBy", orderBy);
+    if (filters.length > 0) params.set("filters", JSON.stringify(filters));
+    if (options.columns) params.set("columns", JSON.stringify(options.columns));
+    if (options.delimiter !== undefined)
+      params.set("delimiter", options.delimiter);
+    if (options.header !== undefined)
+      params.set("header", String(options.header));
+    if (options.nullValue !== undefined)
+      params.set("nullValue", options.nullValue);
+    if (options.dialect) params.set("dialect", options.dialect);
+    if (options.table) params.set("table", options.table);
+    if (options.upsertKey)
+      params.set("upsertKey", JSON.stringify(options.upsertKey));
+
+    const a = document.createElement("a");
+    a.href = `${tableUrl}/export?${params}`;
+    a.click();
     setShowDownloadMenu(false);
   };
 
@@ -171,6 +334,10 @@ const TableDataModal: React.FC<TableDataModalProps> = ({
 
   if (!isOpen) return null;
 
+  const kinds = tableData
+    ? columnKinds(tableData.fields, tableData.rows)
+    : new Map<string, ColumnKind>();
+
   return (
     <div className="fixed top-16 left-96 w-full max-w-6xl h-[90vh] z-[200] pointer-events-none">
       <div className="bg-white rounded-lg shadow-xl w-full h-full flex flex-col pointer-events-auto border border-gray-200">
@@ -178,11 +345,18 @@ const TableDataModal: React.FC<TableDataModalProps> = ({
         <div className="flex items-center justify-between p-6 border-b">
           <div>
             <h2 className="text-xl font-semibold text-gray-900">
-              Table Data: {tableName}
+              Table Data: {qualifiedName}
             </h2>
             {tableData && (
               <p className="text-sm text-gray-500 mt-1">
-                Showing {tableData.rowCount} rows
+                {tableData.rowCount > 0
+                  ? `Rows ${(firstRow + 1).toLocaleString()}–${(
+                      firstRow + tableData.rowCount
+                    ).toLocaleString()} of `
+                  : "No rows of "}
+                {tableData.totalRowsEstimated && "~"}
+                {tableData.totalRows.toLocaleString()}
+                {filters.length > 0 && " matching"}
               </p>
             )}
           </div>
@@ -208,27 +382,14 @@ const TableDataModal: React.FC<TableDataModalProps> = ({
                 <ChevronDown className="w-3 h-3" />
               </button>
 
-              {showDownloadMenu && (
-                <div className="absolute top-full right-0 mt-1 bg-white border border-gray-200 rounded-md shadow-lg py-1 z-10 min-w-[120px]">
-                  <button
-                    onClick={() => handleExportFormat("csv")}
-                    className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 transition-colors"
-                  >
-                    Export as CSV
-                  </button>
-                  <button
-                    onClick={() => handleExportFormat("json")}
-                    className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 transition-colors"
-                  >
-                    Export as JSON
-                  </button>
-                  <button
-                    onClick={() => handleExportFormat("xlsx")}
-                    className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 transition-colors"
-                  >
-                    Export as XLSX
-                  </button>
-                </div>
+              {showDownloadMenu && tableData && (
+                <ExportMenu
+                  columns={tableData.columns}
+                  onExport={exportTable}
+                  defaultTable={qualifiedName}
+                  primaryKey={tableData.primaryKey}
+                  className="absolute top-full right-0 mt-1"
+                />
               )}
             </div>
             <button
@@ -240,6 +401,47 @@ const TableDataModal: React.FC<TableDataModalProps> = ({
           </div>
         </div>
 
+        <TableFilterBar
+          columns={tableData?.columns ?? []}
+          filters={filters}
+          onApply={applyFilters}
+        />
+
+        {tableData && !editable && (
+          <div className="flex items-center gap-2 px-6 py-2 text-sm text-gray-600 bg-gray-50 border-b">
+            <Lock className="w-4 h-4 flex-shrink-0" />
+            Read-only: this table has no primary key, so its rows cannot be told
+            apart for editing.
+          </div>
+        )}
+        {changes.size > 0 && (
+          <div className="flex items-center justify-between px-6 py-2 text-sm text-blue-800 bg-blue-50 border-b border-blue-200">
+            <span>
+              {changes.size} {changes.size === 1 ? "row" : "rows"} changed, not
+              saved yet
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={discardChanges}
+                className="px-3 py-1 text-blue-700 rounded hover:bg-blue-100 transition-colors"
+              >
+                Discard
+              </button>
+              <button
+                onClick={() => setReviewing(true)}
+                className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+              >
+                Review &amp; Save
+              </button>
+            </div>
+          </div>
+        )}
+        {editError && (
+          <div className="px-6 py-2 text-sm text-red-800 bg-red-50 border-b border-red-200">
+            {editError}
+          </div>
+        )}
+
         {/* Content */}
         <div className="flex-1 overflow-hidden">
           {loading && (
@@ -265,47 +467,217 @@ const TableDataModal: React.FC<TableDataModalProps> = ({
 
           {tableData && !loading && (
             <div className="h-full overflow-auto">
+              {tableData.truncated && tableData.limit && (
+                <TruncationBanner
+                  shownRows={tableData.rowCount}
+                  limit={tableData.limit}
+                  totalRows={tableData.totalRows}
+                />
+              )}
               <div className="min-w-full overflow-x-auto">
                 <table className="w-full min-w-max border-collapse">
                   <thead className="bg-gray-50 sticky top-0">
                     <tr>
-                      {tableData.columns.map((column) => (
+                      {tableData.fields.map((field) => (
                         <th
-                          key={column}
-                          className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-r border-gray-300 whitespace-nowrap last:border-r-0"
+                          key={field.name}
+                          className={`px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-r border-gray-300 whitespace-nowrap last:border-r-0 cursor-pointer select-none hover:bg-gray-100 ${
+                            kinds.get(field.name) === "number"
+                              ? "text-right"
+                              : "text-left"
+                          }`}
+                          title={`${describeColumn(field)} • Click to sort`}
+                          onClick={() => handleSort(field.name)}
                         >
-                          {column}
+                          {field.name}
+                          {orderBy === field.name && (
+                            <span className="ml-1 text-blue-500">
+                              {direction === "asc" ? "↑" : "↓"}
+                            </span>
+                          )}
                         </th>
                       ))}
+                      {editable && (
+                        <th className="w-10 border-b border-gray-300" />
+                      )}
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {tableData.rows.map((row, index) => (
-                      <tr key={index} className="hover:bg-gray-50">
-                        {tableData.columns.map((column) => (
-                          <td
-                            key={column}
-                            className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap border-r border-gray-200 last:border-r-0"
-                            title={String(row[column] ?? "")}
-                          >
-                            {String(row[column] ?? "NULL")}
-                          </td>
-                        ))}
-                      </tr>
-                    ))}
+                    {tableData.rows.map((row, index) => {
+                      const staged = editable
+                        ? changes.get(changeId(row))?.values
+                        : undefined;
+                      return (
+                        <tr key={index} className="group hover:bg-gray-50">
+                          {tableData.columns.map((column) => {
+                            const kind = kinds.get(column) ?? "text";
+                            const changed =
+                              staged !== undefined && column in staged;
+                            const value = changed
+                              ? staged[column]
+                              : row[column];
+                            if (
+                              editing &&
+                              editing.row === row &&
+                              editing.column === column
+                            ) {
+                              return (
+                                <td
+                                  key={column}
+                                  className="px-1 py-1 border-r border-gray-200 last:border-r-0"
+                                >
+                                  <input
+                                    autoFocus
+                                    value={editing.text}
+                                    onChange={(e) =>
+                                      setEditing({
+                                        ...editing,
+                                        text: e.target.value,
+                                      })
+                                    }
+                                    onBlur={finishEdit}
+                                    onKeyDown={(e) => {
+                                      if (e.key === "Enter") finishEdit();
+                                      if (e.key === "Escape") {
+                                        editCancelled.current = true;
+                                        setEditing(null);
+                                      }
+                                    }}
+                                    className="w-full min-w-[8rem] px-2 py-1.5 text-sm font-mono border border-blue-400 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                  />
+                                </td>
+                              );
+                            }
+                            const canEdit =
+                              editable && !primaryKey.includes(column);
+                            return (
+                              <td
+                                key={column}
+                                className={`px-4 py-3 text-sm whitespace-nowrap border-r border-gray-200 last:border-r-0 ${
+                                  changed ? "bg-yellow-50 " : ""
+                                }${canEdit ? "cursor-text " : ""}${
+                                  value === null || value === undefined
+                                    ? "text-gray-400 italic"
+                                    : kind === "number"
+                                    ? "text-gray-900 font-mono text-right"
+                                    : kind === "json"
+                                    ? "text-gray-700 font-mono text-xs"
+                                    : "text-gray-900"
+                                }`}
+                                title={
+                                  changed
+                                    ? `Was ${formatCell(row[column], kind)}`
+                                    : canEdit
+                                    ? "Double-click to edit; type NULL to clear"
+                                    : formatCell(value, kind)
+                                }
+                                onDoubleClick={() => startEdit(row, column)}
+                              >
+                                {formatCell(value, kind)}
+                              </td>
+                            );
+                          })}
+                          {editable && (
+                            <td className="px-2 text-center">
+                              <button
+                                onClick={() => deleteRow(row)}
+                                className="p-1 text-gray-400 rounded opacity-0 group-hover:opacity-100 hover:text-red-600 hover:bg-red-50 transition"
+                                title="Delete row"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
                   </tbody>
                 </table>
               </div>
 
               {tableData.rows.length === 0 && (
                 <div className="text-center py-12">
-                  <p className="text-gray-500">No data found in this table.</p>
+                  <p className="text-gray-500">
+                    {filters.length > 0
+                      ? "No rows match these filters."
+                      : "No data found in this table."}
+                  </p>
                 </div>
               )}
             </div>
           )}
         </div>
+        {/* Pager */}
+        {tableData && (
+          <div className="flex items-center justify-between px-6 py-3 border-t text-sm text-gray-600">
+            <label className="flex items-center gap-2">
+              Rows per page
+              <select
+                value={pageSize}
+                onChange={(e) => {
+                  setPageSize(Number(e.target.value));
+                  setPage(1);
+                }}
+                className="px-2 py-1 border border-gray-300 rounded"
+              >
+                {PAGE_SIZES.map((size) => (
+                  <option key={size} value={size}>
+                    {size}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={loading || page <= 1}
+                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                title="Previous page"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span>
+                Page {page.toLocaleString()} of{" "}
+                {tableData.totalRowsEstimated && "~"}
+                {pageCount.toLocaleString()}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={
+                  loading ||
+                  // Estimates can run short, so a full page always allows another
+                  (tableData.totalRowsEstimated
+                    ? tableData.rowCount < tableData.pageSize
+                    : page >= pageCount)
+                }
+                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                title="Next page"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
       </div>
+      {reviewing && (
+        <div className="pointer-events-auto">
+          <RowChangesPreview
+            tableName={qualifiedName}
+            changes={[...changes.values()]}
+            kinds={kinds}
+            saving={saving}
+            error={saveError}
+            conflictIndex={conflictIndex}
+            onSave={saveChanges}
+            onDiscard={discardChange}
+            onClose={() => {
+              setReviewing(false);
+              setSaveError(null);
+              setConflictIndex(null);
+            }}
+          />
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from "react";
+import { Filter, Plus, X } from "lucide-react";
+import { TableFilter, TableFilterOperator } from "../types/database";
+
+interface TableFilterBarProps {
+  columns: string[];
+  filters: TableFilter[]; // The filters currently applied
+  onApply: (filters: TableFilter[]) => void;
+}
+
+const OPERATORS: { value: TableFilterOperator; label: string }[] = [
+  { value: "eq", label: "=" },
+  { value: "neq", label: "≠" },
+  { value: "lt", label: "<" },
+  { value: "lte", label: "≤" },
+  { value: "gt", label: ">" },
+  { value: "gte", label: "≥" },
+  { value: "contains", label: "contains" },
+  { value: "startsWith", label: "starts with" },
+  { value: "endsWith", label: "ends with" },
+  { value: "isNull", label: "is null" },
+  { value: "isNotNull", label: "is not null" },
+];
+
+const takesValue = (operator: TableFilterOperator) =>
+  operator !== "isNull" && operator !== "isNotNull";
+
+// Filters being edited, applied together so each change does not reload the table
+const TableFilterBar: React.FC<TableFilterBarProps> = ({
+  columns,
+  filters,
+  onApply,
+}) => {
+  const [draft, setDraft] = useState<TableFilter[]>(filters);
+
+  useEffect(() => {
+    setDraft(filters);
+  }, [filters]);
+
+  const update = (index: number, changes: Partial<TableFilter>) =>
+    setDraft((current) =>
+      current.map((filter, i) =>
+        i === index ? { ...filter, ...changes } : filter
+      )
+    );
+
+  const addFilter = () =>
+    setDraft((current) => [
+      ...current,
+      { column: columns[0] ?? "", operator: "eq", value: "" },
+    ]);
+
+  const removeFilter = (index: number) =>
+    setDraft((current) => current.filter((_, i) => i !== index));
+
+  const apply = () =>
+    onApply(
+      draft.map(({ column, operator, value }) =>
+        takesValue(operator)
+          ? { column, operator, value: value ?? "" }
+          : { column, operator }
+      )
+    );
+
+  return (
+    <form
+      className="flex flex-wrap items-center gap-2 px-6 py-3 border-b bg-gray-50 text-sm"
+      onSubmit={(e) => {
+        e.preventDefault();
+        apply();
+      }}
+    >
+      <Filter className="w-4 h-4 text-gray-400" />
+      {draft.map((filter, index) => (
+        <div
+          key={index}
+          className="flex items-center gap-1 bg-white border border-gray-300 rounded px-1 py-0.5"
+        >
+          <select
+            value={filter.column}
+            onChange={(e) => update(index, { column: e.target.value })}
+            className="px-1 py-0.5 rounded"
+            aria-label="Filter column"
+          >
+            {columns.map((column) => (
+              <option key={column} value={column}>
+                {column}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filter.operator}
+            onChange={(e) =>
+              update(index, {
+                operator: e.target.value as TableFilterOperator,
+              })
+            }
+            className="px-1 py-0.5 rounded"
+            aria-label="Filter operator"
+          >
+            {OPERATORS.map((operator) => (
+              <option key={operator.value} value={operator.value}>
+                {operator.label}
+              </option>
+            ))}
+          </select>
+          {takesValue(filter.operator) && (
+            <input
+              type="text"
+              value={String(filter.value ?? "")}
+              onChange={(e) => update(index, { value: e.target.value })}
+              className="w-32 px-1 py-0.5 border border-gray-200 rounded"
+              aria-label="Filter value"
+            />
+          )}
+          <button
+            type="button"
+            onClick={() => removeFilter(index)}
+            className="p-0.5 text-gray-400 hover:text-gray-600"
+            title="Remove filter"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={addFilter}
+        disabled={columns.length === 0}
+        className="flex items-center gap-1 px-2 py-1 text-gray-600 hover:bg-gray-200 rounded"
+      >
+        <Plus className="w-3 h-3" />
+        Add filter
+      </button>
+      {(draft.length > 0 || filters.length > 0) && (
+        <button
+          type="submit"
+          className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+        >
+          Apply
+        </button>
+      )}
+    </form>
+  );
+};
+
+export default TableFilterBar;
@@ -0,0 +1,35 @@
+import React from "react";
+import { AlertTriangle } from "lucide-react";
+import { ResultTruncation } from "../types/database";
+
+interface TruncationBannerProps {
+  shownRows: number;
+  limit: ResultTruncation;
+  totalRows: number | null;
+}
+
+// "20 MB" for byte limits, "10,000 rows" for row limits
+const describeLimit = ({ limit, value }: ResultTruncation): string =>
+  limit === "maxBytes"
+    ? `${(value / (1024 * 1024)).toLocaleString(undefined, {
+        maximumFractionDigits: 1,
+      })} MB response limit`
+    : `${value.toLocaleString()} row limit`;
+
+// Warns that rows were left out of a result to respect the connection's limits
+const TruncationBanner: React.FC<TruncationBannerProps> = ({
+  shownRows,
+  limit,
+  totalRows,
+}) => (
+  <div className="flex items-center gap-2 px-4 py-2 text-sm text-yellow-800 bg-yellow-50 border-b border-yellow-200">
+    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+    <span>
+      Showing {shownRows.toLocaleString()}
+      {totalRows !== null && ` of ${totalRows.toLocaleString()}`} rows — the
+      result was cut off at the {describeLimit(limit)}.
+    </span>
+  </div>
+);
+
+export default TruncationBanner;
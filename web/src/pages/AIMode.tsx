@@ -73,6 +73,7 @@ export default function AIMode({
       {/* Scrollable Chat Area */}
       <div className="flex-1 overflow-hidden">
         <AIChat
+          databaseId={selectedDatabases[0]}
           onNavigateToDBMode={handleNavigateToDBMode}
           chatMessages={chatMessages}
           setChatMessages={setChatMessages}
@@ -12,31 +12,178 @@ import {
   Calendar,
   Brain,
   ChevronDown,
+  Square,
+  Layers,
+  XCircle,
+  ListTree,
+  History,
+  Bookmark,
+  X,
+  Braces,
 } from "lucide-react";
-import { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import Editor from "@monaco-editor/react";
 import type { editor } from "monaco-editor";
 import * as monaco from "monaco-editor";
+import TruncationBanner from "../components/TruncationBanner";
+import QueryPlanTree from "../components/QueryPlanTree";
+import QueryHistoryPanel from "../components/QueryHistoryPanel";
+import SaveQueryModal from "../components/SaveQueryModal";
+import ExportMenu from "../components/ExportMenu";
+import {
+  ExplainResult,
+  ExportOptions,
+  ResultColumn,
+  ResultTruncation,
+  SavedQuery,
+  SavedQueryParameter,
+} from "../types/database";
+import {
+  ColumnKind,
+  columnKinds,
+  describeColumn,
+  formatCell,
+} from "../utils/resultFormat";
 
 interface DBModeProps {
   onBack: () => void;
   selectedDatabases: string[];
   initialQuery?: string | null;
   onNavigateToAIMode?: () => void;
+  savedQuery?: SavedQuery | null; // Opened from the sidebar library
+  onSavedQueriesChange?: () => void;
 }
 
 interface QueryResult {
   columns: string[];
+  fields: ResultColumn[];
   rows: Record<string, string | number | boolean | null>[];
   rowCount: number;
+  statementType: "read" | "dml" | "ddl" | "transaction" | "utility";
+  command: string;
+  affectedRows: number | null;
+  returnedRows: number;
+  cursorId: string | null;
+  hasMore: boolean;
+  estimatedTotalRows: number | null;
+  truncated: boolean;
+  limit: ResultTruncation | null;
+  totalRows: number | null;
+  executionTime: string;
+}
+
+// One statement of a script run, shown as its own results tab
+interface StatementResult {
+  index: number;
+  sql: string;
+  command: string;
+  status: "success" | "error" | "skipped";
   executionTime: string;
+  result: QueryResult | null;
+  error: string | null;
+  outcome: QueryOutcome | null;
+}
+
+const STATEMENT_STATUS_STYLES: Record<StatementResult["status"], string> = {
+  success: "text-green-700",
+  error: "text-red-600",
+  skipped: "text-gray-400",
+};
+
+// The run that produced the shown results, so exports can read it again
+interface ResultSource {
+  sql: string;
+  databaseId: string;
+  params: Record<string, unknown> | null;
 }
 
+// A transaction held open on the server across queries
+interface OpenTransaction {
+  id: string;
+  databaseId: string;
+}
+
+// Rows fetched per request; more load as the grid is scrolled
+const PAGE_SIZE = 500;
+
+// Queries stopped on purpose are reported apart from failures
+type QueryOutcome = "cancelled" | "timeout";
+
+const OUTCOME_TITLES: Record<QueryOutcome, string> = {
+  cancelled: "Query Cancelled",
+  timeout: "Query Timed Out",
+};
+
+// Parameter form values as the inputs hold them
+type ParameterValues = Record<string, string | boolean>;
+
+const toFormValues = (parameters: SavedQueryParameter[]): ParameterValues =>
+  Object.fromEntries(
+    parameters.map((parameter) => [
+      parameter.name,
+      parameter.type === "boolean"
+        ? parameter.default === true
+        : parameter.default === null
+        ? ""
+        : String(parameter.default),
+    ])
+  );
+
+// Typed values sent as named params; empty numbers and dates become NULL
+const toNamedParams = (
+  parameters: SavedQueryParameter[],
+  values: ParameterValues
+): Record<string, string | number | boolean | null> =>
+  Object.fromEntries(
+    parameters.map(({ name, type }) => {
+      const value = values[name] ?? "";
+      if (type === "boolean") return [name, value === true];
+      if (type === "string") return [name, String(value)];
+      if (value === "") return [name, null];
+      if (type === "integer") return [name, parseInt(String(value), 10)];
+      if (type === "number") return [name, Number(value)];
+      return [name, String(value)];
+    })
+  );
+
+const DML_VERBS: Record<string, string> = {
+  INSERT: "inserted",
+  UPDATE: "updated",
+  DELETE: "deleted",
+  MERGE: "merged",
+  REPLACE: "replaced",
+};
+
+// "3 rows updated" for DML, "5 row(s)" or "first 500 of ~9000 rows" for
+// reads, the command otherwise
+const summarizeResult = (result: QueryResult): string => {
+  if (result.statementType === "read") {
+    if (!result.hasMore) {
+      return `${result.rows.length} row(s)`;
+    }
+    // Planner estimates can undercount what has already been loaded
+    return result.estimatedTotalRows === null
+      ? `first ${result.rows.length} rows`
+      : `first ${result.rows.length} of ~${Math.max(
+          result.estimatedTotalRows,
+          result.rows.length
+        )} rows`;
+  }
+  if (result.affectedRows !== null) {
+    const noun = result.affectedRows === 1 ? "row" : "rows";
+    const verb = DML_VERBS[result.command] ?? "affected";
+    return `${result.affectedRows} ${noun} ${verb}`;
+  }
+  return `${result.command || "Statement"} executed`;
+};
+
 export default function DBMode({
   onBack,
   selectedDatabases,
   initialQuery,
   onNavigateToAIMode,
+  savedQuery,
+  onSavedQueriesChange,
 }: DBModeProps) {
   // Create a ref to always have the latest selectedDatabases value
   const selectedDatabasesRef = useRef(selectedDatabases);
@@ -86,27 +233,74 @@ SELECT 'Hello, SmartDB AI!' as welcome_message;
   const [queryResult, setQueryResult] = useState<QueryResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string>("");
+  const [queryOutcome, setQueryOutcome] = useState<QueryOutcome | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const runningQueryIdRef = useRef<string | null>(null);
+  const [scriptMode, setScriptMode] = useState(false);
+  const [stopOnError, setStopOnError] = useState(true);
+  const [scriptResults, setScriptResults] = useState<StatementResult[] | null>(
+    null
+  );
+  const [activeStatement, setActiveStatement] = useState(0);
+  const [transaction, setTransaction] = useState<OpenTransaction | null>(null);
+  const [transactionMessage, setTransactionMessage] = useState("");
+  const [explainResult, setExplainResult] = useState<ExplainResult | null>(
+    null
+  );
+  const [analyzePlan, setAnalyzePlan] = useState(false);
+  const [rollbackWrites, setRollbackWrites] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [activeSavedQuery, setActiveSavedQuery] = useState<SavedQuery | null>(
+    null
+  );
+  const [parameterValues, setParameterValues] = useState<ParameterValues>({});
+  const [showSaveModal, setShowSaveModal] = useState(false);
+  // Read through a ref so the Ctrl+R handler never runs outside the transaction
+  const transactionRef = useRef(transaction);
+  transactionRef.current = transaction;
+  // Values for the open saved query's :name parameters, if it has any
+  const namedParamsRef = useRef<Record<string, unknown> | null>(null);
+  namedParamsRef.current = activeSavedQuery?.parameters.length
+    ? toNamedParams(activeSavedQuery.parameters, parameterValues)
+    : null;
   const [sortColumn, setSortColumn] = useState<string | null>(null);
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
   const [showExportMenu, setShowExportMenu] = useState(false);
+  const [resultSource, setResultSource] = useState<ResultSource | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState("");
   const exportRef = useRef<HTMLDivElement>(null);
 
-  const executeQuery = async () => {
-    let queryToExecute = sqlQuery.trim();
-
-    // If there's selected text in the editor, execute only the selection
+  // The selected text in the editor, or the whole editor without a selection
+  const getEditorQuery = () => {
     if (editorRef.current) {
       const selection = editorRef.current.getSelection();
       if (selection && !selection.isEmpty()) {
-        queryToExecute =
-          editorRef.current.getModel()?.getValueInRange(selection) || sqlQuery;
+        return (
+          editorRef.current.getModel()?.getValueInRange(selection) || sqlQuery
+        );
       }
     }
+    return sqlQuery.trim();
+  };
+
+  // Runs the given SQL, or what the editor holds when none is given
+  const executeQuery = async (sql?: string) => {
+    const queryToExecute = sql ?? getEditorQuery();
 
     if (!queryToExecute.trim()) return;
 
+    const queryId = crypto.randomUUID();
+    const databaseId = selectedDatabasesRef.current[0] || ""; // Use ref to get latest value
+    const transactionId =
+      transactionRef.current?.databaseId === databaseId
+        ? transactionRef.current.id
+        : undefined;
+    runningQueryIdRef.current = queryId;
     setIsLoading(true);
     setError("");
+    setQueryOutcome(null);
 
     try {
       const response = await fetch(`http://localhost:3001/api/query`, {
@@ -116,15 +310,51 @@ SELECT 'Hello, SmartDB AI!' as welcome_message;
         },
         body: JSON.stringify({
           query: queryToExecute,
-          databaseId: selectedDatabasesRef.current[0] || "", // Use ref to get latest value
+          databaseId,
+          queryId,
+          ...(transactionId && { transactionId }),
+          ...(namedParamsRef.current && { params: namedParamsRef.current }),
+          ...(scriptMode
+            ? { mode: "script", stopOnError }
+            : { pageSize: PAGE_SIZE }),
         }),
       });
 
       const data = await response.json();
+      setExplainResult(null);
+      setExportError("");
+      setResultSource(
+        data.success
+          ? {
+              sql: queryToExecute,
+              databaseId,
+              params: namedParamsRef.current,
+            }
+          : null
+      );
 
-      if (data.success) {
+      if (data.success && data.mode === "script") {
+        const results: StatementResult[] = data.results;
+        setScriptResults(results);
+        // Open the failed statement, or the last one when all succeeded
+        const failed = results.find(
+          (statement) => statement.status === "error"
+        );
+        const shown = failed ?? results[results.length - 1];
+        if (shown) {
+          showStatement(shown);
+        } else {
+          setQueryResult(null);
+        }
+      } else if (data.success) {
+        setScriptResults(null);
         setQueryResult(data.result);
       } else {
+        if (transactionId && response.status === 404) {
+          // The server rolled the transaction back after it sat idle
+          setTransaction(null);
+        }
+        setQueryOutcome(data.outcome ?? null);
         setError(data.message || "Query execution failed");
       }
     } catch (error) {
@@ -136,10 +366,195 @@ SELECT 'Hello, SmartDB AI!' as welcome_message;
       );
       setQueryResult(null);
     } finally {
+      runningQueryIdRef.current = null;
+      setIsLoading(false);
+      setHistoryVersion((version) => version + 1);
+    }
+  };
+
+  const explainQuery = async () => {
+    const queryToExplain = getEditorQuery();
+    if (!queryToExplain.trim()) return;
+
+    const queryId = crypto.randomUUID();
+    const databaseId = selectedDatabasesRef.current[0] || "";
+    const transactionId =
+      transactionRef.current?.databaseId === databaseId
+        ? transactionRef.current.id
+        : undefined;
+    runningQueryIdRef.current = queryId;
+    setIsLoading(true);
+    setError("");
+    setQueryOutcome(null);
+
+    try {
+      const response = await fetch(`http://localhost:3001/api/query/explain`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          query: queryToExplain,
+          databaseId,
+          queryId,
+          ...(transactionId && { transactionId }),
+          ...(namedParamsRef.current && { params: namedParamsRef.current }),
+          analyze: analyzePlan,
+          rollback: analyzePlan && rollbackWrites,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setScriptResults(null);
+        setQueryResult(null);
+        setExplainResult(data.result);
+      } else {
+        if (transactionId && response.status === 404) {
+          setTransaction(null);
+        }
+        setExplainResult(null);
+        setQueryOutcome(data.outcome ?? null);
+        setError(data.message || "Failed to explain query");
+      }
+    } catch (error) {
+      console.error("Failed to explain query:", error);
+      setError(
+        `Connection failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      runningQueryIdRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const loadMoreRows = async () => {
+    if (!queryResult?.hasMore || !queryResult.cursorId || isLoadingMore) {
+      return;
+    }
+
+    setIsLoadingMore(true);
+    try {
+      const response = await fetch(
+        `http://localhost:3001/api/query/${queryResult.cursorId}?pageSize=${PAGE_SIZE}`
+      );
+      const data = await response.json();
+
+      if (data.success) {
+        setQueryResult(
+          (current) =>
+            current && {
+              ...current,
+              rows: [...current.rows, ...data.result.rows],
+              columns:
+                current.columns.length > 0
+                  ? current.columns
+                  : data.result.columns,
+              fields:
+                current.fields.length > 0 ? current.fields : data.result.fields,
+              cursorId: data.result.cursorId,
+              hasMore: data.result.hasMore,
+              truncated: data.result.truncated,
+              limit: data.result.limit,
+            }
+        );
+      } else {
+        // An expired cursor leaves the rows already loaded
+        setQueryResult((current) => current && { ...current, hasMore: false });
+        setError(data.message || "Failed to load more rows");
+      }
+    } catch (error) {
+      console.error("Failed to load more rows:", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleResultsScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+    if (scrollHeight - scrollTop - clientHeight < 200) {
+      loadMoreRows();
+    }
+  };
+
+  const beginTransaction = async () => {
+    const databaseId = selectedDatabasesRef.current[0];
+    if (!databaseId) return;
+
+    try {
+      const response = await fetch(
+        `http://localhost:3001/api/databases/${databaseId}/transactions`,
+        { method: "POST" }
+      );
+      const data = await response.json();
+
+      if (data.success) {
+        setTransaction({ id: data.transactionId, databaseId });
+        setTransactionMessage(
+          `Rolled back automatically after ${Math.round(
+            data.idleTimeoutMs / 60000
+          )} min without queries`
+        );
+      } else {
+        setError(data.message || "Failed to begin transaction");
+      }
+    } catch (error) {
+      console.error("Failed to begin transaction:", error);
+      setError("Failed to begin transaction");
+    }
+  };
+
+  const finishTransaction = async (action: "commit" | "rollback") => {
+    if (!transaction) return;
+
+    try {
+      const response = await fetch(
+        `http://localhost:3001/api/databases/${transaction.databaseId}/transactions/${transaction.id}/${action}`,
+        { method: "POST" }
+      );
+      const data = await response.json();
+
+      // A 404 means the transaction already ended, so it is no longer open
+      if (data.success || response.status === 404) {
+        setTransaction(null);
+      }
+      setTransactionMessage(data.message || "");
+      if (!data.success) {
+        setError(data.message || `Failed to ${action} transaction`);
+      }
+    } catch (error) {
+      console.error(`Failed to ${action} transaction:`, error);
+      setError(`Failed to ${action} transaction`);
+    }
+  };
+
+  const showStatement = (statement: StatementResult) => {
+    setActiveStatement(statement.index);
+    setQueryResult(statement.result);
+    setQueryOutcome(statement.outcome);
+    setError(
+      statement.status === "skipped"
+        ? "Skipped after an earlier statement failed"
+        : statement.error ?? ""
+    );
+  };
+
+  const cancelQuery = async () => {
+    const queryId = runningQueryIdRef.current;
+    if (!queryId) return;
+
+    try {
+      // The pending /api/query request reports the cancellation
+      await fetch(`http://localhost:3001/api/query/${queryId}/cancel`, {
+        method: "POST",
+      });
+    } catch (error) {
+      console.error("Failed to cancel query:", error);
+    }
+  };
+
   // Handle Ctrl+R shortcut
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -168,6 +583,24 @@ SELECT 'Hello, SmartDB AI!' as welcome_message;
     }
   }, [initialQuery]);
 
+  // Open a saved query from the sidebar with its parameter defaults
+  useEffect(() => {
+    if (savedQuery) {
+      setActiveSavedQuery(savedQuery);
+      setSqlQuery(savedQuery.sql);
+      setParameterValues(toFormValues(savedQuery.parameters));
+    }
+  }, [savedQuery]);
+
+  const handleQuerySaved = (saved: SavedQuery) => {
+    setActiveSavedQuery(saved);
+    setParameterValues((current) => ({
+      ...toFormValues(saved.parameters),
+      ...current,
+    }));
+    onSavedQueriesChange?.();
+  };
+
   const clearEditor = () => {
     setSqlQuery("-- New query\n");
     if (editorRef.current) {
@@ -175,95 +608,52 @@ SELECT 'Hello, SmartDB AI!' as welcome_message;
     }
   };
 
-  const exportAsCSV = () => {
-    if (!queryResult) return;
-
-    const headers = queryResult.columns.join(",");
-    const rows = queryResult.rows
-      .map((row: Record<string, string | number | boolean | null>) =>
-        queryResult.columns
-          .map((col: string) => {
-            const value = row[col];
-            if (
-              typeof value === "string" &&
-              (value.includes(",") || value.includes('"'))
-            ) {
-              return `"${value.replace(/"/g, '""')}"`;
-            }
-            return value ?? "";
-          })
-          .join(",")
-      )
-      .join("\n");
-
-    const csv = `${headers}\n${rows}`;
-    const blob = new Blob([csv], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `query_results.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
-  };
-
-  const exportAsJSON = () => {
-    if (!queryResult) return;
+  // The server runs the query again and streams every row, not just those loaded
+  const exportResults = async (options: ExportOptions) => {
+    if (!resultSource) return;
+    setShowExportMenu(false);
+    setExporting(true);
+    setExportError("");
 
-    const jsonData = {
-      query: sqlQuery,
-      columns: queryResult.columns,
-      rows: queryResult.rows,
-      rowCount: queryResult.rowCount,
-      executionTime: queryResult.executionTime,
-      exportedAt: new Date().toISOString(),
-    };
+    // A script's results are those of the statement being shown
+    const sql = scriptResults
+      ? scriptResults.find((statement) => statement.index === activeStatement)
+          ?.sql ?? resultSource.sql
+      : resultSource.sql;
 
-    const blob = new Blob([JSON.stringify(jsonData, null, 2)], {
-      type: "application/json",
-    });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `query_results.json`;
-    a.click();
-    URL.revokeObjectURL(url);
-  };
+    try {
+      const response = await fetch(`http://localhost:3001/api/query/export`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          query: sql,
+          databaseId: resultSource.databaseId,
+          ...(resultSource.params && { params: resultSource.params }),
+          ...options,
+        }),
+      });
 
-  const exportAsXLSX = () => {
-    if (!queryResult) return;
-
-    const worksheetData = [
-      queryResult.columns,
-      ...queryResult.rows.map(
-        (row: Record<string, string | number | boolean | null>) =>
-          queryResult.columns.map((col: string) => row[col] ?? "")
-      ),
-    ];
-
-    const tsvContent = worksheetData.map((row) => row.join("\t")).join("\n");
-
-    const blob = new Blob([tsvContent], { type: "application/vnd.ms-excel" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `query_results.xlsx`;
-    a.click();
-    URL.revokeObjectURL(url);
-  };
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        setExportError(data?.message || "Export failed");
+        return;
+      }
 
-  const handleExportFormat = (format: "csv" | "json" | "xlsx") => {
-    switch (format) {
-      case "csv":
-        exportAsCSV();
-        break;
-      case "json":
-        exportAsJSON();
-        break;
-      case "xlsx":
-        exportAsXLSX();
-        break;
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `query_results.${options.format}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Export failed:", error);
+      setExportError("Failed to connect to server");
+    } finally {
+      setExporting(false);
     }
-    setShowExportMenu(false);
   };
 
   // Close dropdown when clicking outside
@@ -283,19 +673,20 @@ SELECT 'Hello, SmartDB AI!' as welcome_message;
     };
   }, []);
 
-  const getDataTypeIcon = (
-    value: string | number | boolean | null | undefined
-  ) => {
-    if (value === null || value === undefined) return null;
-    if (typeof value === "number")
-      return <Hash className="w-3 h-3 text-blue-500" />;
-    if (typeof value === "boolean")
+  const getDataTypeIcon = (kind: ColumnKind) => {
+    if (kind === "number") return <Hash className="w-3 h-3 text-blue-500" />;
+    if (kind === "boolean")
       return <CheckCircle className="w-3 h-3 text-purple-500" />;
-    if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value))
-      return <Calendar className="w-3 h-3 text-green-500" />;
+    if (kind === "date") return <Calendar className="w-3 h-3 text-green-500" />;
+    if (kind === "json") return <Braces className="w-3 h-3 text-orange-500" />;
     return <Type className="w-3 h-3 text-gray-500" />;
   };
 
+  // Numbers too large for JavaScript arrive as strings and still sort as numbers
+  const kinds = queryResult
+    ? columnKinds(queryResult.fields, queryResult.rows)
+    : new Map<string, ColumnKind>();
+
   const handleSort = (column: string) => {
     if (sortColumn === column) {
       setSortDirection(sortDirection === "asc" ? "desc" : "asc");
@@ -318,8 +709,8 @@ SELECT 'Hello, SmartDB AI!' as welcome_message;
 
         // Compare values
         let comparison = 0;
-        if (typeof aVal === "number" && typeof bVal === "number") {
-          comparison = aVal - bVal;
+        if (kinds.get(sortColumn) === "number") {
+          comparison = Number(aVal) - Number(bVal);
         } else {
           comparison = String(aVal).localeCompare(String(bVal));
         }
@@ -442,6 +833,21 @@ ORDER BY table_name;`);
                   ? selectedDatabases[0]
                   : `${selectedDatabases.length} databases`}
               </p>
+              {transaction ? (
+                <span
+                  className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 text-xs font-medium text-amber-800 bg-amber-100 border border-amber-300 rounded"
+                  title={transactionMessage}
+                >
+                  <Layers className="w-3 h-3" />
+                  In transaction on {transaction.databaseId}
+                </span>
+              ) : (
+                transactionMessage && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {transactionMessage}
+                  </p>
+                )
+              )}
             </div>
           </div>
         </div>
@@ -466,6 +872,19 @@ ORDER BY table_name;`);
             <FileText className="w-4 h-4" />
             Example
           </button>
+          <button
+            onClick={() => setShowSaveModal(true)}
+            disabled={!sqlQuery.trim()}
+            className="flex items-center gap-2 px-3 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg disabled:opacity-50 transition-colors text-sm"
+            title={
+              activeSavedQuery
+                ? `Update "${activeSavedQuery.name}"`
+                : "Save to the query library"
+            }
+          >
+            <Bookmark className="w-4 h-4" />
+            {activeSavedQuery ? "Update" : "Save"}
+          </button>
           <button
             onClick={clearEditor}
             className="flex items-center gap-2 px-3 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors text-sm"
@@ -473,8 +892,58 @@ ORDER BY table_name;`);
             <RotateCcw className="w-4 h-4" />
             Clear
           </button>
+          {transaction ? (
+            <>
+              <button
+                onClick={() => finishTransaction("commit")}
+                disabled={isLoading}
+                className="flex items-center gap-2 px-3 py-2 text-sm text-green-700 border border-green-300 hover:bg-green-50 rounded-lg disabled:opacity-50 transition-colors"
+              >
+                <CheckCircle className="w-4 h-4" />
+                Commit
+              </button>
+              <button
+                onClick={() => finishTransaction("rollback")}
+                disabled={isLoading}
+                className="flex items-center gap-2 px-3 py-2 text-sm text-red-700 border border-red-300 hover:bg-red-50 rounded-lg disabled:opacity-50 transition-colors"
+              >
+                <XCircle className="w-4 h-4" />
+                Rollback
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={beginTransaction}
+              disabled={isLoading || selectedDatabases.length === 0}
+              className="flex items-center gap-2 px-3 py-2 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg disabled:opacity-50 transition-colors"
+              title="Hold a transaction open across queries"
+            >
+              <Layers className="w-4 h-4" />
+              Begin
+            </button>
+          )}
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className={`flex items-center gap-2 px-3 py-2 text-sm rounded-lg transition-colors ${
+              showHistory
+                ? "text-blue-700 bg-blue-50"
+                : "text-gray-600 hover:text-gray-800 hover:bg-gray-100"
+            }`}
+          >
+            <History className="w-4 h-4" />
+            History
+          </button>
           <button
-            onClick={executeQuery}
+            onClick={explainQuery}
+            disabled={isLoading || !sqlQuery.trim()}
+            className="flex items-center gap-2 px-3 py-2 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg disabled:opacity-50 transition-colors"
+            title="Show the query plan"
+          >
+            <ListTree className="w-4 h-4" />
+            Explain
+          </button>
+          <button
+            onClick={() => executeQuery()}
             disabled={isLoading || !sqlQuery.trim()}
             className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             title="Ctrl+R or Cmd+Enter"
@@ -486,232 +955,478 @@ ORDER BY table_name;`);
             )}
             Run Query
           </button>
+          {isLoading && (
+            <button
+              onClick={cancelQuery}
+              className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+            >
+              <Square className="w-4 h-4" />
+              Cancel
+            </button>
+          )}
         </div>
       </div>
 
-      {/* Main Content - Split View */}
-      <div className="flex-1 flex flex-col gap-4 min-h-0">
-        {/* SQL Editor */}
-        <div className="bg-white rounded-lg border border-gray-200 shadow-sm flex flex-col h-1/2 min-h-[300px]">
-          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 bg-gray-50 rounded-t-lg">
-            <div className="flex items-center gap-2">
-              <FileText className="w-4 h-4 text-gray-600" />
-              <h3 className="font-medium text-gray-900">SQL Editor</h3>
-            </div>
-          </div>
-          <div className="flex-1 p-0">
-            <Editor
-              height="100%"
-              defaultLanguage="sql"
-              value={sqlQuery}
-              onChange={(value) => setSqlQuery(value || "")}
-              onMount={handleEditorDidMount}
-              theme="sqlTheme"
-              options={{
-                minimap: { enabled: false },
-                fontSize: 14,
-                fontFamily: 'Monaco, "Cascadia Code", "Fira Code", monospace',
-                lineNumbers: "on",
-                renderWhitespace: "selection",
-                selectOnLineNumbers: true,
-                automaticLayout: true,
-                tabSize: 2,
-                insertSpaces: true,
-                wordWrap: "on",
-                contextmenu: true,
-                scrollBeyondLastLine: false,
-                smoothScrolling: true,
-                cursorBlinking: "smooth",
-                suggest: {
-                  showKeywords: true,
-                  showSnippets: true,
-                  showFunctions: true,
-                  showWords: true,
-                },
-                quickSuggestions: {
-                  other: true,
-                  comments: false,
-                  strings: false,
-                },
-                acceptSuggestionOnEnter: "smart",
-                acceptSuggestionOnCommitCharacter: true,
-                suggestOnTriggerCharacters: true,
-                bracketPairColorization: {
-                  enabled: true,
-                },
-              }}
-            />
-          </div>
-        </div>
-
-        {/* Results Panel */}
-        <div className="bg-white rounded-lg border border-gray-200 shadow-sm flex flex-col flex-1 min-h-[300px]">
-          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 bg-gray-50 rounded-t-lg">
-            <div className="flex items-center gap-2">
-              <Table className="w-4 h-4 text-gray-600" />
-              <h3 className="font-medium text-gray-900">Query Results</h3>
-              {queryResult && (
-                <span className="text-xs text-gray-500 bg-gray-200 px-2 py-1 rounded">
-                  {queryResult.rowCount} row(s) • {queryResult.executionTime}
-                </span>
-              )}
-            </div>
-            {queryResult && (
-              <div className="relative" ref={exportRef}>
-                <button
-                  onClick={() => setShowExportMenu(!showExportMenu)}
-                  className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-800"
-                >
-                  <Save className="w-3 h-3" />
-                  Export
-                  <ChevronDown className="w-3 h-3" />
-                </button>
-
-                {showExportMenu && (
-                  <div className="absolute right-0 top-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-50 min-w-[120px]">
-                    <button
-                      onClick={() => handleExportFormat("csv")}
-                      className="w-full text-left px-3 py-2 text-xs text-gray-700 hover:bg-gray-100 transition-colors"
-                    >
-                      Export as CSV
-                    </button>
+      <div className="flex-1 flex gap-4 min-h-0">
+        {/* Main Content - Split View */}
+        <div className="flex-1 flex flex-col gap-4 min-h-0 min-w-0">
+          {/* SQL Editor */}
+          <div className="bg-white rounded-lg border border-gray-200 shadow-sm flex flex-col h-1/2 min-h-[300px]">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+              <div className="flex items-center gap-2">
+                <FileText className="w-4 h-4 text-gray-600" />
+                <h3 className="font-medium text-gray-900">SQL Editor</h3>
+                {activeSavedQuery && (
+                  <span
+                    className="flex items-center gap-1 px-2 py-0.5 text-xs text-blue-700 bg-blue-50 border border-blue-200 rounded"
+                    title={activeSavedQuery.description}
+                  >
+                    <Bookmark className="w-3 h-3" />
+                    {activeSavedQuery.name}
                     <button
-                      onClick={() => handleExportFormat("json")}
-                      className="w-full text-left px-3 py-2 text-xs text-gray-700 hover:bg-gray-100 transition-colors"
+                      onClick={() => setActiveSavedQuery(null)}
+                      className="ml-1 hover:text-blue-900"
+                      title="Stop using the saved query's parameters"
                     >
-                      Export as JSON
+                      <X className="w-3 h-3" />
                     </button>
-                    <button
-                      onClick={() => handleExportFormat("xlsx")}
-                      className="w-full text-left px-3 py-2 text-xs text-gray-700 hover:bg-gray-100 transition-colors"
-                    >
-                      Export as XLSX
-                    </button>
-                  </div>
+                  </span>
                 )}
               </div>
+              <div className="flex items-center gap-4 text-xs text-gray-600">
+                <label
+                  className="flex items-center gap-1"
+                  title="Run each statement separately with its own result"
+                >
+                  <input
+                    type="checkbox"
+                    checked={scriptMode}
+                    onChange={(e) => setScriptMode(e.target.checked)}
+                  />
+                  Script mode
+                </label>
+                {scriptMode && (
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={stopOnError}
+                      onChange={(e) => setStopOnError(e.target.checked)}
+                    />
+                    Stop on first error
+                  </label>
+                )}
+                <label
+                  className="flex items-center gap-1"
+                  title="Run the statement while explaining it to get actual rows and timings"
+                >
+                  <input
+                    type="checkbox"
+                    checked={analyzePlan}
+                    onChange={(e) => setAnalyzePlan(e.target.checked)}
+                  />
+                  Analyze
+                </label>
+                {analyzePlan && (
+                  <label
+                    className="flex items-center gap-1"
+                    title="Analyze writes inside a transaction that is rolled back"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={rollbackWrites}
+                      onChange={(e) => setRollbackWrites(e.target.checked)}
+                    />
+                    Roll back writes
+                  </label>
+                )}
+              </div>
+            </div>
+            {activeSavedQuery && activeSavedQuery.parameters.length > 0 && (
+              <div className="flex flex-wrap items-center gap-3 px-4 py-2 border-b border-gray-200 text-xs">
+                {activeSavedQuery.parameters.map((parameter) => {
+                  const value = parameterValues[parameter.name];
+                  const setValue = (next: string | boolean) =>
+                    setParameterValues((current) => ({
+                      ...current,
+                      [parameter.name]: next,
+                    }));
+                  return (
+                    <label
+                      key={parameter.name}
+                      className="flex items-center gap-1 text-gray-600"
+                    >
+                      <span className="font-mono">:{parameter.name}</span>
+                      {parameter.type === "boolean" ? (
+                        <input
+                          type="checkbox"
+                          checked={value === true}
+                          onChange={(e) => setValue(e.target.checked)}
+                        />
+                      ) : (
+                        <input
+                          type={
+                            parameter.type === "date"
+                              ? "date"
+                              : parameter.type === "string"
+                              ? "text"
+                              : "number"
+                          }
+                          step={parameter.type === "integer" ? 1 : "any"}
+                          value={String(value ?? "")}
+                          onChange={(e) => setValue(e.target.value)}
+                          className="w-36 px-2 py-1 border border-gray-300 rounded"
+                        />
+                      )}
+                    </label>
+                  );
+                })}
+              </div>
             )}
+            <div className="flex-1 p-0">
+              <Editor
+                height="100%"
+                defaultLanguage="sql"
+                value={sqlQuery}
+                onChange={(value) => setSqlQuery(value || "")}
+                onMount={handleEditorDidMount}
+                theme="sqlTheme"
+                options={{
+                  minimap: { enabled: false },
+                  fontSize: 14,
+                  fontFamily: 'Monaco, "Cascadia Code", "Fira Code", monospace',
+                  lineNumbers: "on",
+                  renderWhitespace: "selection",
+                  selectOnLineNumbers: true,
+                  automaticLayout: true,
+                  tabSize: 2,
+                  insertSpaces: true,
+                  wordWrap: "on",
+                  contextmenu: true,
+                  scrollBeyondLastLine: false,
+                  smoothScrolling: true,
+                  cursorBlinking: "smooth",
+                  suggest: {
+                    showKeywords: true,
+                    showSnippets: true,
+                    showFunctions: true,
+                    showWords: true,
+                  },
+                  quickSuggestions: {
+                    other: true,
+                    comments: false,
+                    strings: false,
+                  },
+                  acceptSuggestionOnEnter: "smart",
+                  acceptSuggestionOnCommitCharacter: true,
+                  suggestOnTriggerCharacters: true,
+                  bracketPairColorization: {
+                    enabled: true,
+                  },
+                }}
+              />
+            </div>
           </div>
 
-          <div className="flex-1 overflow-auto min-h-0">
-            {error ? (
-              <div className="p-4 text-red-600 bg-red-50 border border-red-200 m-4 rounded-lg">
-                <div className="font-medium mb-1">Query Error</div>
-                <div className="text-sm">{error}</div>
+          {/* Results Panel */}
+          <div className="bg-white rounded-lg border border-gray-200 shadow-sm flex flex-col flex-1 min-h-[300px]">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+              <div className="flex items-center gap-2">
+                <Table className="w-4 h-4 text-gray-600" />
+                <h3 className="font-medium text-gray-900">Query Results</h3>
+                {queryResult && (
+                  <span className="text-xs text-gray-500 bg-gray-200 px-2 py-1 rounded">
+                    {summarizeResult(queryResult)} • {queryResult.executionTime}
+                  </span>
+                )}
+                {explainResult && (
+                  <span className="text-xs text-gray-500 bg-gray-200 px-2 py-1 rounded">
+                    {explainResult.analyzed
+                      ? "Analyzed plan"
+                      : "Estimated plan"}
+                    {explainResult.rolledBack && " • rolled back"} •{" "}
+                    {explainResult.executionTime}
+                  </span>
+                )}
+              </div>
+              {queryResult?.statementType === "read" && resultSource && (
+                <div
+                  className="relative flex items-center gap-2"
+                  ref={exportRef}
+                >
+                  {exportError && (
+                    <span className="text-xs text-red-600">{exportError}</span>
+                  )}
+                  <button
+                    onClick={() => setShowExportMenu(!showExportMenu)}
+                    disabled={exporting}
+                    className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-800 disabled:text-gray-400"
+                  >
+                    <Save className="w-3 h-3" />
+                    {exporting ? "Exporting..." : "Export"}
+                    <ChevronDown className="w-3 h-3" />
+                  </button>
+
+                  {showExportMenu && (
+                    <ExportMenu
+                      columns={queryResult.columns}
+                      onExport={exportResults}
+                      defaultTable="query_results"
+                      className="absolute right-0 top-full mt-1 z-50"
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+
+            {scriptResults && scriptResults.length > 0 && (
+              <div className="flex items-center gap-1 px-2 pt-2 border-b border-gray-200 overflow-x-auto">
+                {scriptResults.map((statement) => (
+                  <button
+                    key={statement.index}
+                    onClick={() => showStatement(statement)}
+                    title={statement.sql}
+                    className={`px-3 py-1.5 text-xs whitespace-nowrap rounded-t border-b-2 ${
+                      STATEMENT_STATUS_STYLES[statement.status]
+                    } ${
+                      statement.index === activeStatement
+                        ? "border-blue-600 bg-white font-medium"
+                        : "border-transparent hover:bg-gray-100"
+                    }`}
+                  >
+                    {statement.index + 1}. {statement.command} ·{" "}
+                    {statement.status === "skipped"
+                      ? "skipped"
+                      : statement.executionTime}
+                  </button>
+                ))}
               </div>
-            ) : queryResult ? (
-              <table
-                className="w-full text-sm border-collapse"
-                style={{ minWidth: "max-content" }}
-              >
-                <thead className="bg-gray-50 border-b-2 border-gray-200 sticky top-0 z-10">
-                  <tr>
-                    {/* Row Number Column */}
-                    <th
-                      className="text-left p-3 font-medium text-gray-600 bg-gray-100 border-r border-gray-200 sticky left-0 z-20"
-                      style={{ width: "4rem", minWidth: "4rem" }}
-                    >
-                      #
-                    </th>
-                    {queryResult.columns.map(
-                      (column: string, index: number) => (
+            )}
+
+            <div
+              className="flex-1 overflow-auto min-h-0"
+              onScroll={handleResultsScroll}
+            >
+              {error ? (
+                <div
+                  className={`p-4 m-4 rounded-lg border ${
+                    queryOutcome
+                      ? "text-yellow-800 bg-yellow-50 border-yellow-200"
+                      : "text-red-600 bg-red-50 border-red-200"
+                  }`}
+                >
+                  <div className="font-medium mb-1">
+                    {queryOutcome
+                      ? OUTCOME_TITLES[queryOutcome]
+                      : "Query Error"}
+                  </div>
+                  <div className="text-sm">{error}</div>
+                </div>
+              ) : explainResult ? (
+                <QueryPlanTree plan={explainResult.plan} />
+              ) : queryResult &&
+                queryResult.statementType !== "read" &&
+                queryResult.columns.length === 0 ? (
+                <div className="p-4 text-green-700 bg-green-50 border border-green-200 m-4 rounded-lg">
+                  <div className="font-medium mb-1">
+                    {summarizeResult(queryResult)}
+                  </div>
+                  <div className="text-sm">
+                    Completed in {queryResult.executionTime}
+                  </div>
+                </div>
+              ) : queryResult ? (
+                <>
+                  {queryResult.truncated && queryResult.limit && (
+                    <TruncationBanner
+                      shownRows={queryResult.rows.length}
+                      limit={queryResult.limit}
+                      totalRows={queryResult.totalRows}
+                    />
+                  )}
+                  <table
+                    className="w-full text-sm border-collapse"
+                    style={{ minWidth: "max-content" }}
+                  >
+                    <thead className="bg-gray-50 border-b-2 border-gray-200 sticky top-0 z-10">
+                      <tr>
+                        {/* Row Number Column */}
                         <th
-                          key={index}
-                          className="text-left p-3 font-medium text-gray-900 border-r border-gray-200 cursor-pointer hover:bg-gray-100 transition-colors select-none whitespace-nowrap"
-                          onClick={() => handleSort(column)}
-                          title="Click to sort"
-                          style={{ minWidth: "150px" }}
-                        >
-                          <div className="flex items-center gap-2">
-                            {getDataTypeIcon(queryResult.rows[0]?.[column])}
-                            <span>{column}</span>
-                            {sortColumn === column && (
-                              <span className="text-blue-500 text-xs">
-                                {sortDirection === "asc" ? "↑" : "↓"}
-                              </span>
-                            )}
-                          </div>
-                        </th>
-                      )
-                    )}
-                  </tr>
-                </thead>
-                <tbody>
-                  {sortedRows.map(
-                    (
-                      row: Record<string, string | number | boolean | null>,
-                      rowIndex: number
-                    ) => (
-                      <tr
-                        key={rowIndex}
-                        className={`border-b border-gray-100 hover:bg-blue-50 transition-colors ${
-                          rowIndex % 2 === 0 ? "bg-white" : "bg-gray-50/50"
-                        }`}
-                      >
-                        {/* Row Number */}
-                        <td
-                          className="p-3 text-gray-500 bg-gray-50 border-r border-gray-200 font-mono text-xs sticky left-0 z-10"
+                          className="text-left p-3 font-medium text-gray-600 bg-gray-100 border-r border-gray-200 sticky left-0 z-20"
                           style={{ width: "4rem", minWidth: "4rem" }}
                         >
-                          {rowIndex + 1}
-                        </td>
-                        {queryResult.columns.map(
-                          (column: string, colIndex: number) => {
-                            const value = row[column];
-                            let displayValue = "";
-                            let cellClass =
-                              "p-3 border-r border-gray-100 cursor-pointer hover:bg-blue-100 transition-colors";
-
-                            if (value === null || value === undefined) {
-                              displayValue = "NULL";
-                              cellClass += " text-gray-400 italic";
-                            } else if (typeof value === "number") {
-                              displayValue = value.toLocaleString();
-                              cellClass +=
-                                " text-blue-600 font-mono text-right";
-                            } else if (typeof value === "boolean") {
-                              displayValue = value.toString().toUpperCase();
-                              cellClass += " text-purple-600 font-medium";
-                            } else {
-                              displayValue = String(value);
-                              cellClass += " text-gray-900";
-                            }
-
-                            return (
-                              <td
-                                key={colIndex}
-                                className={cellClass}
-                                onClick={() =>
-                                  copyToClipboard(String(value || ""))
-                                }
-                                title={`Click to copy: ${displayValue}`}
-                                style={{ minWidth: "150px", maxWidth: "400px" }}
+                          #
+                        </th>
+                        {queryResult.fields.map(
+                          (field: ResultColumn, index: number) => (
+                            <th
+                              key={index}
+                              className={`p-3 font-medium text-gray-900 border-r border-gray-200 cursor-pointer hover:bg-gray-100 transition-colors select-none whitespace-nowrap ${
+                                kinds.get(field.name) === "number"
+                                  ? "text-right"
+                                  : "text-left"
+                              }`}
+                              onClick={() => handleSort(field.name)}
+                              title={`${describeColumn(field)} • Click to sort`}
+                              style={{ minWidth: "150px" }}
+                            >
+                              <div
+                                className={`flex items-center gap-2 ${
+                                  kinds.get(field.name) === "number"
+                                    ? "justify-end"
+                                    : ""
+                                }`}
                               >
-                                <div className="truncate" title={displayValue}>
-                                  {displayValue}
-                                </div>
-                              </td>
-                            );
-                          }
+                                {getDataTypeIcon(
+                                  kinds.get(field.name) ?? "text"
+                                )}
+                                <span>{field.name}</span>
+                                {field.dataType && (
+                                  <span className="text-xs font-normal text-gray-400">
+                                    {field.dataType}
+                                  </span>
+                                )}
+                                {sortColumn === field.name && (
+                                  <span className="text-blue-500 text-xs">
+                                    {sortDirection === "asc" ? "↑" : "↓"}
+                                  </span>
+                                )}
+                              </div>
+                            </th>
+                          )
                         )}
                       </tr>
-                    )
-                  )}
-                </tbody>
-              </table>
-            ) : (
-              <div className="flex items-center justify-center h-full text-gray-500">
-                <div className="text-center">
-                  <Table className="w-12 h-12 text-gray-300 mx-auto mb-3" />
-                  <p className="text-sm">No query results yet</p>
-                  <p className="text-xs text-gray-400 mt-1">
-                    Execute a query to see results here
-                  </p>
+                    </thead>
+                    <tbody>
+                      {sortedRows.map(
+                        (
+                          row: Record<string, string | number | boolean | null>,
+                          rowIndex: number
+                        ) => (
+                          <tr
+                            key={rowIndex}
+                            className={`border-b border-gray-100 hover:bg-blue-50 transition-colors ${
+                              rowIndex % 2 === 0 ? "bg-white" : "bg-gray-50/50"
+                            }`}
+                          >
+                            {/* Row Number */}
+                            <td
+                              className="p-3 text-gray-500 bg-gray-50 border-r border-gray-200 font-mono text-xs sticky left-0 z-10"
+                              style={{ width: "4rem", minWidth: "4rem" }}
+                            >
+                              {rowIndex + 1}
+                            </td>
+                            {queryResult.columns.map(
+                              (column: string, colIndex: number) => {
+                                const value = row[column];
+                                const kind = kinds.get(column) ?? "text";
+                                const displayValue = formatCell(value, kind);
+                                let cellClass =
+                                  "p-3 border-r border-gray-100 cursor-pointer hover:bg-blue-100 transition-colors";
+
+                                if (value === null || value === undefined) {
+                                  cellClass += " text-gray-400 italic";
+                                } else if (kind === "number") {
+                                  cellClass +=
+                                    " text-blue-600 font-mono text-right";
+                                } else if (kind === "boolean") {
+                                  cellClass += " text-purple-600 font-medium";
+                                } else if (kind === "json") {
+                                  cellClass +=
+                                    " text-gray-700 font-mono text-xs";
+                                } else {
+                                  cellClass += " text-gray-900";
+                                }
+
+                                return (
+                                  <td
+                                    key={colIndex}
+                                    className={cellClass}
+                                    onClick={() =>
+                                      copyToClipboard(
+                                        value === null || value === undefined
+                                          ? ""
+                                          : displayValue
+                                      )
+                                    }
+                                    title={`Click to copy: ${displayValue}`}
+                                    style={{
+                                      minWidth: "150px",
+                                      maxWidth: "400px",
+                                    }}
+                                  >
+                                    <div
+                                      className="truncate"
+                                      title={displayValue}
+                                    >
+                                      {displayValue}
+                                    </div>
+                                  </td>
+                                );
+                              }
+                            )}
+                          </tr>
+                        )
+                      )}
+                      {queryResult.rows.length === 0 && (
+                        <tr>
+                          <td
+                            colSpan={queryResult.columns.length + 1}
+                            className="p-6 text-center text-sm text-gray-500"
+                          >
+                            No rows returned
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                    {isLoadingMore && (
+                      <tfoot>
+                        <tr>
+                          <td
+                            colSpan={queryResult.columns.length + 1}
+                            className="p-3 text-center text-xs text-gray-500"
+                          >
+                            Loading more rows…
+                          </td>
+                        </tr>
+                      </tfoot>
+                    )}
+                  </table>
+                </>
+              ) : (
+                <div className="flex items-center justify-center h-full text-gray-500">
+                  <div className="text-center">
+                    <Table className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                    <p className="text-sm">No query results yet</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      Execute a query to see results here
+                    </p>
+                  </div>
                 </div>
-              </div>
-            )}
+              )}
+            </div>
           </div>
         </div>
+
+        <SaveQueryModal
+          isOpen={showSaveModal}
+          onClose={() => setShowSaveModal(false)}
+          onSaved={handleQuerySaved}
+          sql={sqlQuery}
+          databaseId={selectedDatabases[0] || ""}
+          existing={activeSavedQuery}
+        />
+
+        {showHistory && (
+          <QueryHistoryPanel
+            databaseId={selectedDatabases[0] || ""}
+            refreshKey={historyVersion}
+            onLoad={setSqlQuery}
+            onRun={(sql) => {
+              setSqlQuery(sql);
+              executeQuery(sql);
+            }}
+          />
+        )}
       </div>
     </div>
   );
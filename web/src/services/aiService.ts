@@ -15,10 +15,12 @@ export interface QueryRiskAnalysis {
 }
 
 export interface DatabaseSchema {
+  databaseId: string;
+  dialect: "postgresql" | "mysql" | "sqlite";
   tables: {
     name: string;
     type: string;
-    estimatedRows: number;
+    estimatedRows: number | null;
     columns: {
       name: string;
       type: string;
@@ -57,14 +59,18 @@ export class AIService {
 
   /**
    * Generate SQL query from natural language
+   * @param databaseId - Connection whose schema the query targets (defaults to the local database)
    */
-  static async generateQuery(userInput: string): Promise<AIQueryResult> {
+  static async generateQuery(
+    userInput: string,
+    databaseId?: string
+  ): Promise<AIQueryResult> {
     const response = await fetch(`${this.baseUrl}/ai/generate-query`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ userInput }),
+      body: JSON.stringify({ userInput, databaseId }),
     });
 
     if (!response.ok) {
@@ -102,8 +108,11 @@ export class AIService {
   /**
    * Get database schema context
    */
-  static async getSchemaContext(): Promise<DatabaseSchema> {
-    const response = await fetch(`${this.baseUrl}/ai/schema-context`);
+  static async getSchemaContext(databaseId?: string): Promise<DatabaseSchema> {
+    const query = databaseId
+      ? `?databaseId=${encodeURIComponent(databaseId)}`
+      : "";
+    const response = await fetch(`${this.baseUrl}/ai/schema-context${query}`);
 
     if (!response.ok) {
       throw new Error("Failed to get schema context");
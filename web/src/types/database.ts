@@ -1,3 +1,146 @@
+export type SslMode = "disable" | "require" | "verify-ca" | "verify-full";
+
+export interface SslOptions {
+  mode: SslMode;
+  ca?: string; // PEM
+  cert?: string; // PEM
+  key?: string; // PEM, write-only
+}
+
+// Durations are in milliseconds
+export interface PoolOptions {
+  max?: number;
+  acquireTimeout?: number;
+  idleTimeout?: number;
+  statementTimeout?: number;
+}
+
+// Caps on the rows a single response may carry
+export interface ResultLimits {
+  maxRows?: number;
+  maxBytes?: number;
+}
+
+// The limit a truncated result hit
+export interface ResultTruncation {
+  limit: keyof ResultLimits;
+  value: number;
+}
+
+// A result column as the database describes it; unknowns are null
+export interface ResultColumn {
+  name: string;
+  dataType: string | null;
+  nullable: boolean | null;
+  table: string | null;
+}
+
+export type TableFilterOperator =
+  | "eq"
+  | "neq"
+  | "lt"
+  | "lte"
+  | "gt"
+  | "gte"
+  | "contains"
+  | "startsWith"
+  | "endsWith"
+  | "isNull"
+  | "isNotNull";
+
+// A condition on one column when browsing a table
+export interface TableFilter {
+  column: string;
+  operator: TableFilterOperator;
+  value?: string | number | boolean; // Unused by isNull and isNotNull
+}
+
+// A staged edit of one table row, found by its primary key
+export interface RowUpdate {
+  key: Record<string, unknown>;
+  original: Record<string, unknown>; // Changed columns as they were read
+  values: Record<string, unknown>;
+}
+
+export type ExportFormat = "csv" | "ndjson" | "json" | "xlsx" | "sql";
+
+// How the server writes an export; unset fields take its defaults
+export interface ExportOptions {
+  format: ExportFormat;
+  columns?: string[]; // Every column when unset
+  delimiter?: string; // CSV only
+  header?: boolean; // CSV and XLSX
+  nullValue?: string; // CSV and XLSX text for NULL
+  dialect?: DatabaseCredentials["type"]; // SQL only; the source's by default
+  table?: string; // SQL only; the table inserted into
+  upsertKey?: string[]; // SQL only; update rows that match on these columns
+}
+
+// Why a plan node deserves a closer look
+export type PlanWarning = "expensive" | "fullScan" | "estimateMiss";
+
+// One step of a query plan, in the same shape for every database type
+export interface PlanNode {
+  nodeType: string;
+  relation: string | null;
+  fullScan: boolean;
+  relationRows: number | null;
+  estimatedCost: number | null;
+  estimatedRows: number | null;
+  actualRows: number | null; // Only after ANALYZE
+  actualTimeMs: number | null;
+  detail: string | null;
+  warnings: PlanWarning[];
+  children: PlanNode[];
+}
+
+export interface ExplainResult {
+  plan: PlanNode;
+  analyzed: boolean;
+  rolledBack: boolean;
+  executionTime: string;
+}
+
+export type QueryHistoryStatus = "success" | "error" | "cancelled" | "timeout";
+
+// One run recorded by the server's query history
+export interface QueryHistoryEntry {
+  id: string;
+  sql: string;
+  databaseId: string;
+  durationMs: number;
+  rowCount: number | null;
+  status: QueryHistoryStatus;
+  error: string | null;
+  executedAt: string;
+}
+
+export type SavedQueryParameterType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "date";
+
+// A :named parameter of a saved query
+export interface SavedQueryParameter {
+  name: string;
+  type: SavedQueryParameterType;
+  default: string | number | boolean | null; // Dates are YYYY-MM-DD strings
+}
+
+export interface SavedQuery {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  databaseId: string;
+  sql: string;
+  parameters: SavedQueryParameter[];
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface DatabaseCredentials {
   id: string;
   name: string;
@@ -8,12 +151,32 @@ export interface DatabaseCredentials {
   username?: string; // Optional for SQLite
   password?: string; // Optional for SQLite
   isLocal?: boolean;
+  readOnly?: boolean; // Only read statements are allowed
+  ssl?: SslOptions;
+  pool?: PoolOptions;
+  limits?: ResultLimits;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
 }
 
 export interface ConnectionResult {
   success: boolean;
   message: string;
   connectionId?: string;
+  errors?: FieldError[]; // Field-level validation errors
+}
+
+// "idle" connections had their pool closed after inactivity
+export type ConnectionStatus = "connected" | "degraded" | "idle";
+
+export interface HealthCheck {
+  checkedAt: string;
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
 }
 
 export interface DatabaseSession {
@@ -21,6 +184,9 @@ export interface DatabaseSession {
   credentials: DatabaseCredentials;
   createdAt: Date;
   lastUsed: Date;
+  status: ConnectionStatus;
+  lastError?: string;
+  healthHistory: HealthCheck[];
 }
 
 // API response interface (flattened structure)
@@ -31,8 +197,25 @@ export interface DatabaseInfo {
   host: string;
   port: number;
   database: string;
+  username?: string;
   isLocal: boolean;
+  readOnly?: boolean;
+  // The private key is never returned, only whether one is stored
+  ssl?: Omit<SslOptions, "key"> & { hasKey: boolean };
+  pool?: PoolOptions;
+  limits?: ResultLimits;
   lastUsed: Date;
+  status?: ConnectionStatus;
+  error?: string; // Why a degraded connection could not be restored
+  healthHistory?: HealthCheck[]; // Most recent background checks, oldest first
+}
+
+export interface ConnectionStats {
+  // null for SQLite, which does not pool connections
+  pool: { max: number; active: number; idle: number; waiting: number } | null;
+  queries: number;
+  errors: number;
+  averageLatencyMs: number;
 }
 
 export const LOCAL_DB_ID = "pg-db";
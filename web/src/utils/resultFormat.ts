@@ -0,0 +1,124 @@
+import { ResultColumn } from "../types/database";
+
+// How a result column's values are aligned and formatted
+export type ColumnKind = "number" | "boolean" | "date" | "json" | "text";
+
+// Database type names by kind, across PostgreSQL, MySQL and SQLite
+const KIND_PATTERNS: [ColumnKind, RegExp][] = [
+  [
+    "number",
+    /^(tinyint|smallint|mediumint|int|integer|bigint|int[248]|(small|big)?serial|decimal|numeric|real|double|float[48]?|money|year)\b/,
+  ],
+  ["boolean", /^bool(ean)?\b/],
+  ["date", /^(date|datetime|timestamp|time)\b/],
+  ["json", /^jsonb?\b/],
+];
+
+// Timestamps as JSON carries them, e.g. 2024-05-01T12:30:00.000Z
+const ISO_TIMESTAMP =
+  /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2}:\d{2})(\.\d+)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * The kind of a column from its database type, or from a sample value
+ * when the database could not name the type
+ */
+export const columnKind = (
+  column: ResultColumn,
+  sample?: unknown
+): ColumnKind => {
+  if (column.dataType) {
+    const type = column.dataType.toLowerCase();
+    return (
+      KIND_PATTERNS.find(([, pattern]) => pattern.test(type))?.[0] ?? "text"
+    );
+  }
+  if (typeof sample === "number") return "number";
+  if (typeof sample === "boolean") return "boolean";
+  if (sample !== null && typeof sample === "object") return "json";
+  if (typeof sample === "string" && ISO_TIMESTAMP.test(sample)) return "date";
+  return "text";
+};
+
+/**
+ * The kind of each column, sampling the first non-null value of untyped ones
+ */
+export const columnKinds = (
+  fields: ResultColumn[],
+  rows: Record<string, unknown>[]
+): Map<string, ColumnKind> =>
+  new Map(
+    fields.map((field) => [
+      field.name,
+      columnKind(
+        field,
+        rows.find((row) => row[field.name] != null)?.[field.name]
+      ),
+    ])
+  );
+
+/**
+ * Text shown for a cell value
+ */
+export const formatCell = (value: unknown, kind: ColumnKind): string => {
+  if (value === null || value === undefined) return "NULL";
+  // JSON documents and arrays arrive parsed
+  if (typeof value === "object") return JSON.stringify(value);
+  if (typeof value === "number" && kind === "number") {
+    return value.toLocaleString();
+  }
+  if (typeof value === "boolean") return String(value).toUpperCase();
+  if (kind === "date" && typeof value === "string") {
+    const match = value.match(ISO_TIMESTAMP);
+    if (match) {
+      const [, day, time, fraction, zone] = match;
+      const seconds = fraction && Number(fraction) > 0 ? fraction : "";
+      const offset = zone === "Z" ? " UTC" : zone ? ` ${zone}` : "";
+      return `${day} ${time}${seconds}${offset}`;
+    }
+  }
+  return String(value);
+};
+
+/**
+ * Text to start editing a cell from; unlike formatCell it reads back unchanged
+ */
+export const editableText = (value: unknown): string => {
+  if (value === null || value === undefined) return "NULL";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * The value typed into a cell editor; NULL clears the cell
+ * Text that does not fit the column's kind is sent as typed for the
+ * database to accept or reject
+ */
+export const parseCellInput = (text: string, kind: ColumnKind): unknown => {
+  if (text === "NULL") return null;
+  if (kind === "number" && text.trim() !== "" && Number.isFinite(+text)) {
+    return Number(text);
+  }
+  if (kind === "boolean" && /^(true|false)$/i.test(text)) {
+    return text.toLowerCase() === "true";
+  }
+  if (kind === "json") {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+};
+
+/**
+ * "integer, not null, from users" for column header tooltips
+ */
+export const describeColumn = (column: ResultColumn): string =>
+  [
+    column.dataType ?? "unknown type",
+    column.nullable === false ? "not null" : column.nullable && "nullable",
+    column.table && `from ${column.table}`,
+  ]
+    .filter(Boolean)
+    .join(", ");